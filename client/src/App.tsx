@@ -2,11 +2,16 @@ import { useState } from 'react'
 import DocumentUpload from '@components/DocumentUpload'
 import YoutubeUpload from '@components/YoutubeUpload'
 import YoutubeDelete from '@components/YoutubeDelete'
+import DocumentSearch from '@components/DocumentSearch'
+import PendingEmbeddings from '@components/PendingEmbeddings'
+import StatusBanner from '@components/StatusBanner'
+import { DocumentFocus } from './types/search'
 
 function App() {
   const [uploadSuccess, setUploadSuccess] = useState<boolean>(false)
   const [deleteSuccess, setDeleteSuccess] = useState<boolean>(false)
-  const [activeTab, setActiveTab] = useState<'document' | 'youtube'>('document')
+  const [activeTab, setActiveTab] = useState<'document' | 'youtube' | 'search' | 'embeddings'>('document')
+  const [documentFocus, setDocumentFocus] = useState<DocumentFocus | null>(null)
 
   const handleUploadSuccess = () => {
     setUploadSuccess(true)
@@ -20,6 +25,12 @@ function App() {
     setTimeout(() => setDeleteSuccess(false), 3000)
   }
 
+  // Show a search result's document in the document management view
+  const handleOpenDocument = (focus: DocumentFocus) => {
+    setDocumentFocus(focus)
+    setActiveTab('document')
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow">
@@ -30,6 +41,8 @@ function App() {
       <main>
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
           <div className="px-4 py-6 sm:px-0">
+            <StatusBanner />
+
             {uploadSuccess && (
               <div className="mb-4 bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
                 Content processed and embedded successfully!
@@ -46,7 +59,10 @@ function App() {
             <div className="border-b border-gray-200 mb-6">
               <nav className="-mb-px flex space-x-8">
                 <button
-                  onClick={() => setActiveTab('document')}
+                  onClick={() => {
+                    setDocumentFocus(null)
+                    setActiveTab('document')
+                  }}
                   className={`pb-4 px-1 border-b-2 font-medium text-sm ${
                     activeTab === 'document'
                       ? 'border-blue-500 text-blue-600'
@@ -65,6 +81,26 @@ function App() {
                 >
                   YouTube Transcript
                 </button>
+                <button
+                  onClick={() => setActiveTab('search')}
+                  className={`pb-4 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'search'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Search
+                </button>
+                <button
+                  onClick={() => setActiveTab('embeddings')}
+                  className={`pb-4 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'embeddings'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Pending Embeddings
+                </button>
               </nav>
             </div>
             
@@ -72,8 +108,18 @@ function App() {
             {activeTab === 'document' ? (
             <div>
               <h2 className="text-xl font-semibold mb-4">Upload Document</h2>
-              <DocumentUpload onUploadSuccess={handleUploadSuccess} />
+              <DocumentUpload onUploadSuccess={handleUploadSuccess} focus={documentFocus} />
             </div>
+            ) : activeTab === 'search' ? (
+              <div>
+                <h2 className="text-xl font-semibold mb-4">Search Knowledge Base</h2>
+                <DocumentSearch onOpenDocument={handleOpenDocument} />
+              </div>
+            ) : activeTab === 'embeddings' ? (
+              <div>
+                <h2 className="text-xl font-semibold mb-4">Chunks Waiting for Embeddings</h2>
+                <PendingEmbeddings />
+              </div>
             ) : (
               <div>
                 <h2 className="text-xl font-semibold mb-4">YouTube Transcript Management</h2>
@@ -1,23 +1,46 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import axios from '@/utils/axiosConfig'
-import { FiFolder, FiFileText, FiTrash2, FiChevronRight, FiChevronDown, FiSearch } from 'react-icons/fi'
+import { FiFolder, FiFileText, FiTrash2, FiChevronRight, FiChevronDown, FiSearch, FiEdit2 } from 'react-icons/fi'
+import { DocumentFocus } from '../types/search'
+import { formatPageRange } from '../utils/pageRange'
 
 interface DocumentChunk {
   id: string
   documentName: string
   content: string
+  enhancedContent?: string
   title?: string
   summary?: string
   domains?: string[]
+  pageStart?: number
+  pageEnd?: number
   score: number
 }
 
+// Form values of the chunk being edited; domains are edited as a comma-separated list
+interface ChunkDraft {
+  content: string
+  enhancedContent: string
+  title: string
+  summary: string
+  domains: string
+}
+
+// Document returned by the name search; documentName is the display title shown on its chunks
+interface DocumentSummary {
+  id?: string
+  slug?: string
+  documentName: string
+  chunkCount?: number
+}
+
 interface DocumentManagementProps {
   onChunksDeleted?: () => void
+  focus?: DocumentFocus | null // Document to open on mount, e.g. from a search result
 }
 
-const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
-  const [searchResults, setSearchResults] = useState<string[]>([])
+const DocumentManagement = ({ onChunksDeleted, focus }: DocumentManagementProps) => {
+  const [searchResults, setSearchResults] = useState<DocumentSummary[]>([])
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedDocument, setSelectedDocument] = useState<string | null>(null)
   const [documentChunks, setDocumentChunks] = useState<DocumentChunk[]>([])
@@ -27,6 +50,23 @@ const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
   const [error, setError] = useState<string | null>(null)
   const [actionStatus, setActionStatus] = useState<string | null>(null)
   const [expandedChunks, setExpandedChunks] = useState<{ [key: string]: boolean }>({})
+  const [editingChunkId, setEditingChunkId] = useState<string | null>(null)
+  const [chunkDraft, setChunkDraft] = useState<ChunkDraft | null>(null)
+  const [savingChunk, setSavingChunk] = useState(false)
+
+  // Open the focused document and expand the focused chunk
+  useEffect(() => {
+    if (!focus) return
+
+    setSearchTerm(focus.documentName)
+    setSearchResults([{ documentName: focus.documentName }])
+    fetchDocumentChunks(focus.documentName).then(() => {
+      if (focus.chunkId) {
+        setExpandedChunks({ [focus.chunkId]: true })
+        document.getElementById(`chunk-${focus.chunkId}`)?.scrollIntoView({ block: 'center' })
+      }
+    })
+  }, [focus])
 
   // Handle search form submission
   const handleSearch = async (e?: React.FormEvent) => {
@@ -169,6 +209,78 @@ const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
     }))
   }
 
+  // Open the inline editor for a chunk
+  const startEditingChunk = (chunk: DocumentChunk) => {
+    setEditingChunkId(chunk.id)
+    setChunkDraft({
+      content: chunk.content,
+      enhancedContent: chunk.enhancedContent || '',
+      title: chunk.title || '',
+      summary: chunk.summary || '',
+      domains: (chunk.domains || []).join(', ')
+    })
+    setExpandedChunks(prev => ({ ...prev, [chunk.id]: true }))
+  }
+
+  const cancelEditingChunk = () => {
+    setEditingChunkId(null)
+    setChunkDraft(null)
+  }
+
+  // Save the edited chunk; the server keeps the previous version and re-embeds changed content
+  const saveChunk = async () => {
+    if (!editingChunkId || !chunkDraft) return
+
+    const domains = chunkDraft.domains.split(',').map(domain => domain.trim()).filter(Boolean)
+    if (!chunkDraft.content.trim()) {
+      setError('Chunk content must not be empty')
+      return
+    }
+    if (domains.length === 0) {
+      setError('A chunk needs at least one domain')
+      return
+    }
+
+    setSavingChunk(true)
+    setError(null)
+    setActionStatus(null)
+
+    try {
+      const response = await axios.patch(`/api/documents/chunks/${encodeURIComponent(editingChunkId)}`, {
+        content: chunkDraft.content,
+        enhancedContent: chunkDraft.enhancedContent,
+        title: chunkDraft.title,
+        summary: chunkDraft.summary,
+        domains
+      })
+
+      const updated = response.data.chunk
+      setDocumentChunks(prev => prev.map(chunk =>
+        chunk.id === editingChunkId
+          ? {
+              ...chunk,
+              content: updated.content,
+              enhancedContent: updated.enhancedContent,
+              title: updated.title,
+              summary: updated.summary,
+              domains: updated.domains
+            }
+          : chunk
+      ))
+      setActionStatus(response.data.reembedded ? 'Chunk updated and re-embedded' : response.data.message)
+      cancelEditingChunk()
+    } catch (err) {
+      console.error('Error updating chunk:', err)
+      if (axios.isAxiosError(err) && err.response?.data?.message) {
+        setError(err.response.data.message)
+      } else {
+        setError('Failed to update chunk. Please try again.')
+      }
+    } finally {
+      setSavingChunk(false)
+    }
+  }
+
   // Delete selected chunks
   const deleteSelectedChunks = async () => {
     if (selectedChunks.length === 0 || loading) return
@@ -315,14 +427,21 @@ const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
           <ul className="max-h-96 overflow-y-auto">
             {searchResults.map(document => (
               <li 
-                key={document} 
+                key={document.id || document.documentName} 
                 className={`p-3 border-b hover:bg-blue-100 cursor-pointer flex items-center ${
-                  selectedDocument === document ? 'bg-blue-200 text-blue-800' : 'text-gray-800'
+                  selectedDocument === document.documentName ? 'bg-blue-200 text-blue-800' : 'text-gray-800'
                 }`}
-                onClick={() => fetchDocumentChunks(document)}
+                onClick={() => fetchDocumentChunks(document.documentName)}
               >
-                <FiFileText className="mr-2 text-blue-600" />
-                <span className="truncate font-medium">{document}</span>
+                <FiFileText className="mr-2 text-blue-600 flex-shrink-0" />
+                <div className="overflow-hidden">
+                  <div className="truncate font-medium">{document.documentName}</div>
+                  {document.slug && (
+                    <div className="truncate text-xs text-gray-500 font-mono">
+                      {document.slug}{document.chunkCount !== undefined && ` · ${document.chunkCount} chunks`}
+                    </div>
+                  )}
+                </div>
               </li>
             ))}
           </ul>
@@ -381,7 +500,7 @@ const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
               
               <ul className="max-h-96 overflow-y-auto">
                 {documentChunks.map(chunk => (
-                  <li key={chunk.id} className="border-b">
+                  <li key={chunk.id} id={`chunk-${chunk.id}`} className="border-b">
                     <div 
                       className={`p-3 hover:bg-blue-50 cursor-pointer flex items-start ${
                         selectedChunks.includes(chunk.id) ? 'bg-blue-100' : ''
@@ -408,9 +527,68 @@ const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
                           <span className="font-bold text-gray-800">
                             {chunk.title || `Chunk ${chunk.id.substring(0, 8)}...`}
                           </span>
+                          {formatPageRange(chunk) && (
+                            <span className="ml-2 text-sm text-gray-500">{formatPageRange(chunk)}</span>
+                          )}
                         </div>
                         
-                        {expandedChunks[chunk.id] && (
+                        {expandedChunks[chunk.id] && editingChunkId === chunk.id && chunkDraft && (
+                          <div className="mt-2 space-y-2 text-sm">
+                            <input
+                              type="text"
+                              value={chunkDraft.title}
+                              onChange={(e) => setChunkDraft({ ...chunkDraft, title: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded"
+                              placeholder="Title"
+                            />
+                            <input
+                              type="text"
+                              value={chunkDraft.summary}
+                              onChange={(e) => setChunkDraft({ ...chunkDraft, summary: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded"
+                              placeholder="Summary"
+                            />
+                            <div className="text-xs font-bold text-gray-500">Raw content</div>
+                            <textarea
+                              value={chunkDraft.content}
+                              onChange={(e) => setChunkDraft({ ...chunkDraft, content: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded h-40"
+                            />
+                            <div className="text-xs font-bold text-gray-500">Enhanced content</div>
+                            <textarea
+                              value={chunkDraft.enhancedContent}
+                              onChange={(e) => setChunkDraft({ ...chunkDraft, enhancedContent: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded h-40"
+                            />
+                            <input
+                              type="text"
+                              value={chunkDraft.domains}
+                              onChange={(e) => setChunkDraft({ ...chunkDraft, domains: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded"
+                              placeholder="Domains (comma-separated)"
+                            />
+                            <div className="flex space-x-2">
+                              <button
+                                type="button"
+                                onClick={saveChunk}
+                                disabled={savingChunk}
+                                className="bg-blue-600 hover:bg-blue-700 text-white py-1 px-3 rounded"
+                              >
+                                {savingChunk ? 'Saving...' : 'Save'}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={cancelEditingChunk}
+                                disabled={savingChunk}
+                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 py-1 px-3 rounded"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
+                        {expandedChunks[chunk.id] && editingChunkId !== chunk.id && (
                           <div className="mt-2">
                             <div className="bg-white border border-gray-200 p-3 text-sm rounded shadow-sm">
                               <p className="whitespace-pre-line break-words text-gray-800">{chunk.content}</p>
@@ -421,6 +599,14 @@ const DocumentManagement = ({ onChunksDeleted }: DocumentManagementProps) => {
                                 <span className="font-bold">Domains:</span> {chunk.domains.join(', ')}
                               </div>
                             )}
+
+                            <button
+                              type="button"
+                              onClick={() => startEditingChunk(chunk)}
+                              className="flex items-center text-sm text-blue-600 hover:text-blue-800 mt-2"
+                            >
+                              <FiEdit2 className="mr-1" /> Edit chunk
+                            </button>
                           </div>
                         )}
                       </div>
@@ -0,0 +1,329 @@
+import { useState, Fragment } from 'react'
+import axios from '@/utils/axiosConfig'
+import { FiSearch, FiExternalLink, FiFolder, FiChevronDown, FiChevronRight, FiYoutube, FiFileText } from 'react-icons/fi'
+import { availableDomains } from '../constants/domains'
+import { formatPageRange } from '../utils/pageRange'
+import { DocumentFocus, SearchMode, SearchResult, SourceType } from '../types/search'
+
+interface DocumentSearchProps {
+  onOpenDocument: (focus: DocumentFocus) => void
+}
+
+const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  text: 'Text',
+  image: 'Scanned images',
+  youtube: 'YouTube'
+}
+
+// Values of the fields parameter offered for semantic search
+const FIELD_OPTIONS: { value: string; label: string }[] = [
+  { value: 'raw', label: 'Match content' },
+  { value: 'enhanced', label: 'Match enhanced content' },
+  { value: 'summary', label: 'Match title & summary' },
+  { value: 'raw,enhanced,summary', label: 'Match all fields' }
+]
+
+// Remove Vietnamese diacritics so "hai" highlights "hải" the way the server matches it
+const foldDiacritics = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase()
+
+// Split a query into the syllables the server matches on
+const splitSyllables = (text: string): string[] =>
+  text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+
+// Wrap the words of a text that match one of the terms in <mark>
+const highlightText = (text: string, terms: string[]) => {
+  if (!text || terms.length === 0) return text
+
+  const foldedTerms = new Set(terms.map(foldDiacritics))
+  const parts = text.normalize('NFC').split(/([\p{L}\p{N}]+)/u)
+
+  return parts.map((part, index) =>
+    foldedTerms.has(foldDiacritics(part))
+      ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+      : <Fragment key={index}>{part}</Fragment>
+  )
+}
+
+// Link to the source of a result; YouTube links start at the first [mm:ss] timestamp of the chunk
+const sourceLink = (result: SearchResult): string | null => {
+  if (!result.sourceFile) return null
+
+  if (result.sourceType === 'youtube' || result.sourceFile.includes('youtube.com/watch')) {
+    const timestamp = result.content.match(/\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\]/)
+    if (!timestamp) return result.sourceFile
+
+    const [, hours, minutes, seconds] = timestamp
+    const totalSeconds = Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+    return `${result.sourceFile}&t=${totalSeconds}s`
+  }
+
+  return null
+}
+
+// Show cosine similarities as a percentage and rank-fusion scores as raw numbers
+const formatScore = (score: number, mode: SearchMode): string =>
+  mode === 'vector' ? `${(score * 100).toFixed(1)}%` : score.toFixed(mode === 'hybrid' ? 4 : 2)
+
+const DocumentSearch = ({ onOpenDocument }: DocumentSearchProps) => {
+  const [query, setQuery] = useState('')
+  const [mode, setMode] = useState<SearchMode>('hybrid')
+  const [selectedDomains, setSelectedDomains] = useState<string[]>([])
+  const [sourceType, setSourceType] = useState<SourceType | ''>('')
+  const [fields, setFields] = useState('raw')
+  const [documentNames, setDocumentNames] = useState('')
+  const [minScore, setMinScore] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null)
+  const [searchedMode, setSearchedMode] = useState<SearchMode>('hybrid')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedResults, setExpandedResults] = useState<{ [key: string]: boolean }>({})
+
+  const handleDomainChange = (domain: string) => {
+    setSelectedDomains(prev =>
+      prev.includes(domain)
+        ? prev.filter(d => d !== domain)
+        : [...prev, domain]
+    )
+  }
+
+  const toggleResultExpansion = (resultId: string) => {
+    setExpandedResults(prev => ({
+      ...prev,
+      [resultId]: !prev[resultId]
+    }))
+  }
+
+  // Handle search form submission
+  const handleSearch = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault()
+    if (!query.trim()) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ query: query.trim(), mode })
+      selectedDomains.forEach(domain => params.append('domains[]', domain))
+      documentNames.split(',').map(name => name.trim()).filter(Boolean)
+        .forEach(name => params.append('documentName[]', name))
+      if (sourceType) params.append('sourceType', sourceType)
+      if (mode !== 'keyword') params.append('fields', fields)
+      if (minScore.trim()) params.append('minScore', minScore.trim())
+
+      const response = await axios.get(`/api/documents/search?${params.toString()}`)
+      setResults(response.data || [])
+      setSearchedQuery(query.trim())
+      setSearchedMode(mode)
+      setExpandedResults({})
+    } catch (err) {
+      console.error('Error searching knowledge base:', err)
+      if (axios.isAxiosError(err) && err.response?.data?.message) {
+        setError(err.response.data.message)
+      } else {
+        setError('Failed to search the knowledge base. Please try again.')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <form onSubmit={handleSearch} className="p-4 border-b space-y-3">
+        <div className="flex flex-col md:flex-row md:space-x-2 space-y-2 md:space-y-0">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <FiSearch className="text-gray-500" />
+            </div>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Search the knowledge base, e.g. âm dương ngũ hành"
+            />
+          </div>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SearchMode)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="hybrid">Hybrid</option>
+            <option value="vector">Semantic</option>
+            <option value="keyword">Keyword</option>
+          </select>
+          <button
+            type="submit"
+            className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md font-medium"
+            disabled={loading || !query.trim()}
+          >
+            {loading ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <select
+            value={fields}
+            onChange={(e) => setFields(e.target.value)}
+            disabled={mode === 'keyword'}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-100 disabled:text-gray-400"
+          >
+            {FIELD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={sourceType}
+            onChange={(e) => setSourceType(e.target.value as SourceType | '')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All source types</option>
+            {(Object.keys(SOURCE_TYPE_LABELS) as SourceType[]).map(type => (
+              <option key={type} value={type}>{SOURCE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={documentNames}
+            onChange={(e) => setDocumentNames(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            placeholder="Document names (comma-separated)"
+          />
+          <input
+            type="number"
+            min="0"
+            max="1"
+            step="0.05"
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            placeholder="Minimum similarity (0-1)"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {availableDomains.map(domain => (
+            <button
+              key={domain}
+              type="button"
+              onClick={() => handleDomainChange(domain)}
+              className={`text-xs px-2 py-1 rounded-full border ${
+                selectedDomains.includes(domain)
+                  ? 'bg-blue-100 border-blue-400 text-blue-700'
+                  : 'bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {domain}
+            </button>
+          ))}
+        </div>
+      </form>
+
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 border-b font-medium">
+          {error}
+        </div>
+      )}
+
+      {searchedQuery !== null && !loading && results.length === 0 && !error && (
+        <div className="p-4 text-gray-700 text-center">No results found for "{searchedQuery}"</div>
+      )}
+
+      <ul>
+        {results.map((result, index) => {
+          const terms = result.matchedTerms?.length ? result.matchedTerms : splitSyllables(searchedQuery || '')
+          const link = sourceLink(result)
+          const isExpanded = expandedResults[result.id]
+
+          return (
+            <li key={result.id} className="border-b p-4">
+              <div className="flex justify-between items-start">
+                <div className="flex-1 overflow-hidden">
+                  <div className="flex items-center text-sm text-gray-500 mb-1">
+                    <span className="mr-2">#{index + 1}</span>
+                    <span className="font-mono bg-gray-100 rounded px-1 mr-2">{formatScore(result.score, searchedMode)}</span>
+                    {result.sourceType === 'youtube' ? (
+                      <FiYoutube className="mr-1 text-red-600" />
+                    ) : (
+                      <FiFileText className="mr-1 text-blue-600" />
+                    )}
+                    <span className="truncate">{result.documentName}</span>
+                    {formatPageRange(result) && (
+                      <span className="ml-2 whitespace-nowrap">{formatPageRange(result)}</span>
+                    )}
+                  </div>
+                  <h4 className="font-bold text-gray-800">{highlightText(result.title || result.id, terms)}</h4>
+                  {result.summary && (
+                    <p className="text-sm text-gray-600 mt-1">{highlightText(result.summary, terms)}</p>
+                  )}
+                  {result.matchedPassage && (
+                    <blockquote className="text-sm text-gray-700 mt-2 pl-3 border-l-4 border-blue-200 line-clamp-4 whitespace-pre-line break-words">
+                      <span className="text-xs font-bold text-gray-500 mr-1">Matching passage {result.matchedPassage.index + 1}:</span>
+                      {highlightText(result.matchedPassage.text, terms)}
+                    </blockquote>
+                  )}
+                  {result.domains && result.domains.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {result.domains.map(domain => (
+                        <span key={domain} className="text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">{domain}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-col items-end space-y-1 ml-4 text-sm">
+                  {link && (
+                    <a href={link} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:text-blue-800">
+                      <FiExternalLink className="mr-1" /> Source
+                    </a>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onOpenDocument({ documentName: result.documentName, chunkId: result.id })}
+                    className="flex items-center text-blue-600 hover:text-blue-800"
+                  >
+                    <FiFolder className="mr-1" /> Open document
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => toggleResultExpansion(result.id)}
+                className="flex items-center text-sm text-blue-600 mt-2"
+              >
+                {isExpanded ? <FiChevronDown className="mr-1" /> : <FiChevronRight className="mr-1" />}
+                {isExpanded ? 'Hide content' : 'Show content'}
+              </button>
+
+              {isExpanded && (
+                <div className={`mt-2 grid gap-3 ${result.enhancedContent ? 'md:grid-cols-2' : 'grid-cols-1'}`}>
+                  <div>
+                    <div className="text-xs font-bold text-gray-500 mb-1">Raw content</div>
+                    <div className="bg-white border border-gray-200 p-3 text-sm rounded shadow-sm max-h-96 overflow-y-auto">
+                      <p className="whitespace-pre-line break-words text-gray-800">{highlightText(result.content, terms)}</p>
+                    </div>
+                  </div>
+                  {result.enhancedContent && (
+                    <div>
+                      <div className="text-xs font-bold text-gray-500 mb-1">Enhanced content</div>
+                      <div className="bg-white border border-gray-200 p-3 text-sm rounded shadow-sm max-h-96 overflow-y-auto">
+                        <p className="whitespace-pre-line break-words text-gray-800">{highlightText(result.enhancedContent, terms)}</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export default DocumentSearch
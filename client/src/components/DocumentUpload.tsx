@@ -1,15 +1,22 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
 import axios from 'axios'
-import { FiUpload, FiFile, FiFolder, FiList } from 'react-icons/fi'
+import { FiUpload, FiFile, FiFolder, FiList, FiAlertTriangle } from 'react-icons/fi'
 import { availableDomains } from '../constants/domains'
 import DocumentManagement from './DocumentManagement'
+import JobProgress from './JobProgress'
+import { socketService } from '../services/socketService'
+import { ProgressStage, ProgressUpdate } from '../types/progress'
+import { DocumentFocus } from '../types/search'
+import { DuplicateAction, DuplicateDocument } from '../types/document'
+import { canHashFiles, hashUpload } from '../utils/contentHash'
 
 interface DocumentUploadProps {
   onUploadSuccess: () => void
+  focus?: DocumentFocus | null // Document to show in the Manage tab
 }
 
-const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
+const DocumentUpload = ({ onUploadSuccess, focus }: DocumentUploadProps) => {
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [uploadProgress, setUploadProgress] = useState(0)
@@ -19,7 +26,22 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
   const [uploadMode, setUploadMode] = useState<'single' | 'folder'>('single')
   const [currentStep, setCurrentStep] = useState(1) // 1: Select document, 2: Configure, 3: Review & Submit
-  const [activeTab, setActiveTab] = useState<'upload' | 'manage'>('upload')
+  const [activeTab, setActiveTab] = useState<'upload' | 'manage'>(focus ? 'manage' : 'upload')
+  // Background ingestion job started by the last upload
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const [jobProgress, setJobProgress] = useState<ProgressUpdate | null>(null)
+  // Existing documents with the same content as the selected files
+  const [duplicates, setDuplicates] = useState<DuplicateDocument[]>([])
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction | null>(null)
+
+  // Stop listening for job progress when the component unmounts
+  useEffect(() => {
+    return () => {
+      if (activeJobId) {
+        socketService.unregisterProgressListener(activeJobId)
+      }
+    }
+  }, [activeJobId])
 
   const handleDomainChange = (domain: string) => {
     setSelectedDomains(prev => 
@@ -29,6 +51,32 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
     )
   }
 
+  // Ask the server whether the selected files have been uploaded before
+  const checkForDuplicates = async (files: File[]) => {
+    setDuplicates([])
+    setDuplicateAction(null)
+    if (!canHashFiles()) return
+
+    try {
+      const hash = await hashUpload(files)
+      const response = await axios.get('/api/documents/check-duplicate', { params: { hash } })
+      setDuplicates(response.data.documents)
+    } catch (err) {
+      // The server checks again on upload, so a failed check only loses the early warning
+      console.error('Error checking for duplicate uploads:', err)
+    }
+  }
+
+  const resetForm = () => {
+    setSelectedFile(null)
+    setSelectedFiles([])
+    setSelectedDomains([])
+    setDocumentTitle('')
+    setDuplicates([])
+    setDuplicateAction(null)
+    setCurrentStep(1)
+  }
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return
 
@@ -39,6 +87,7 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
       const fileName = file.name.split('.')[0] // Remove extension
       setDocumentTitle(fileName)
       setSelectedFiles([])
+      checkForDuplicates([file])
     } else {
       // Filter only image files for folder upload
       const imageFiles = acceptedFiles.filter(file => 
@@ -52,6 +101,7 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
       
       setSelectedFiles(imageFiles)
       setSelectedFile(null)
+      checkForDuplicates(imageFiles)
       
       // Set document title based on common prefix of filenames if possible
       if (imageFiles.length > 0) {
@@ -93,10 +143,23 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
   const handleSubmit = async () => {
     if (uploadMode === 'single' && !selectedFile) return
     if (uploadMode === 'folder' && selectedFiles.length === 0) return
+
+    // Nothing to upload when the existing copy is kept
+    if (duplicateAction === 'skip') {
+      resetForm()
+      return
+    }
     
     setIsUploading(true)
     setError(null)
     setUploadProgress(0)
+    setJobProgress(null)
+
+    // Connect before uploading so no progress update of the new job is missed
+    const socketConnected = await socketService.connect()
+    if (!socketConnected) {
+      console.warn('Socket connection failed, processing progress will not be shown')
+    }
 
     try {
       const formData = new FormData()
@@ -117,11 +180,15 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
         formData.append('documentTitle', documentTitle)
       }
 
+      if (duplicateAction) {
+        formData.append('duplicateAction', duplicateAction)
+      }
+
       const endpoint = uploadMode === 'single' 
         ? '/api/documents/upload' 
         : '/api/documents/upload-folder'
 
-      await axios.post(endpoint, formData, {
+      const response = await axios.post(endpoint, formData, {
         headers: {
           'Content-Type': 'multipart/form-data'
         },
@@ -133,25 +200,53 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
         }
       })
 
-      onUploadSuccess()
-      // Reset form
-      setSelectedFile(null)
-      setSelectedFiles([])
-      setSelectedDomains([])
-      setDocumentTitle('')
-      setCurrentStep(1)
+      // The server processes the upload as a background job and reports progress over the socket
+      const jobId: string = response.data.jobId
+      setActiveJobId(jobId)
+      socketService.registerProgressListener(jobId, (update: ProgressUpdate) => {
+        setJobProgress(update)
+
+        switch (update.stage) {
+          case ProgressStage.COMPLETED:
+            finishJob(jobId)
+            onUploadSuccess()
+            resetForm()
+            break
+          case ProgressStage.ERROR:
+            finishJob(jobId)
+            setError(update.error ? `${update.message}: ${update.error}` : update.message)
+            break
+          case ProgressStage.CANCELLED:
+            finishJob(jobId)
+            setError('Processing was cancelled')
+            break
+        }
+      })
     } catch (err) {
-      if (axios.isAxiosError(err) && err.response) {
+      if (axios.isAxiosError(err) && err.response?.status === 409 && err.response.data.duplicates) {
+        // The server found a duplicate the early check missed; let the user choose what to do
+        setDuplicates(err.response.data.duplicates)
+        setDuplicateAction(null)
+        setError(err.response.data.message)
+      } else if (axios.isAxiosError(err) && err.response) {
         setError(err.response.data.message || 'Failed to upload document')
       } else {
         setError('An unexpected error occurred')
       }
-    } finally {
       setIsUploading(false)
+    } finally {
       setUploadProgress(0)
     }
   }
 
+  // Stop tracking a job once it has reached a final stage
+  const finishJob = (jobId: string) => {
+    socketService.unregisterProgressListener(jobId)
+    setActiveJobId(null)
+    setJobProgress(null)
+    setIsUploading(false)
+  }
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: uploadMode === 'single' 
@@ -429,13 +524,51 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
                 </div>
               </div>
               
+              {duplicates.length > 0 && (
+                <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                  <div className="flex items-center text-yellow-800 font-medium mb-2">
+                    <FiAlertTriangle className="mr-2" />
+                    <span>This content has already been uploaded</span>
+                  </div>
+                  <ul className="text-sm text-gray-700 mb-3">
+                    {duplicates.map(doc => (
+                      <li key={doc.id}>
+                        {doc.documentTitle}
+                        <span className="text-gray-500 ml-2">
+                          ({doc.status === 'ready' ? `${doc.chunkCount} chunks` : doc.status}, uploaded {new Date(doc.createdAt).toLocaleDateString()})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="space-y-1">
+                    {([
+                      ['replace', 'Replace the existing document'],
+                      ['keep_both', 'Keep both documents'],
+                      ['skip', 'Skip this upload']
+                    ] as [DuplicateAction, string][]).map(([action, label]) => (
+                      <label key={action} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="duplicateAction"
+                          className="w-4 h-4 text-blue-600"
+                          checked={duplicateAction === action}
+                          onChange={() => setDuplicateAction(action)}
+                          disabled={isUploading}
+                        />
+                        <span className="ml-2">{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <div className="mb-4 p-3 bg-red-50 text-red-600 rounded-md">
                   {error}
                 </div>
               )}
               
-              {isUploading && (
+              {isUploading && !activeJobId && (
                 <div className="mb-4">
                   <div className="flex justify-between text-sm mb-1">
                     <span>Uploading...</span>
@@ -450,6 +583,13 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
                 </div>
               )}
               
+              {activeJobId && (
+                <JobProgress 
+                  jobKind={uploadMode === 'single' ? 'document' : 'image-folder'} 
+                  update={jobProgress} 
+                />
+              )}
+              
               <div className="flex space-x-2">
                 <button
                   onClick={goBack}
@@ -460,17 +600,17 @@ const DocumentUpload = ({ onUploadSuccess }: DocumentUploadProps) => {
                 </button>
                 <button
                   onClick={handleSubmit}
-                  className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors"
-                  disabled={isUploading}
+                  className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  disabled={isUploading || (duplicates.length > 0 && !duplicateAction)}
                 >
-                  {isUploading ? 'Uploading...' : 'Submit'}
+                  {activeJobId ? 'Processing...' : isUploading ? 'Uploading...' : duplicateAction === 'skip' ? 'Skip Upload' : 'Submit'}
                 </button>
               </div>
             </div>
           )}
         </>
       ) : (
-        <DocumentManagement onChunksDeleted={handleDocumentDeleted} />
+        <DocumentManagement onChunksDeleted={handleDocumentDeleted} focus={focus} />
       )}
     </div>
   )
@@ -0,0 +1,113 @@
+import { FiCheckCircle, FiCircle, FiLoader } from 'react-icons/fi'
+import { ProgressJobKind, ProgressStage, ProgressUpdate } from '../types/progress'
+
+interface JobProgressProps {
+  jobKind: ProgressJobKind
+  update: ProgressUpdate | null
+}
+
+interface ProgressStep {
+  label: string
+  stages: ProgressStage[]
+}
+
+// Chunking, OCR correction, embedding, metadata and enhancement run page by page, so they are shown as one step
+const CHUNK_STEP: ProgressStep = {
+  label: 'Chunking, embedding & metadata',
+  stages: [ProgressStage.CHUNKING, ProgressStage.OCR_CORRECTION, ProgressStage.EMBEDDING_GENERATION, ProgressStage.METADATA, ProgressStage.ENHANCEMENT]
+}
+
+const STEPS_BY_KIND: Record<ProgressJobKind, ProgressStep[]> = {
+  'document': [
+    { label: 'Parsing', stages: [ProgressStage.PARSING] },
+    { label: 'Sentence repair', stages: [ProgressStage.SENTENCE_REPAIR] },
+    CHUNK_STEP,
+    { label: 'Storage', stages: [ProgressStage.CHUNK_STORAGE] }
+  ],
+  'image-folder': [
+    { label: 'OCR', stages: [ProgressStage.OCR] },
+    { label: 'Header/footer removal', stages: [ProgressStage.HEADER_FOOTER_REMOVAL] },
+    { label: 'Sentence repair', stages: [ProgressStage.SENTENCE_REPAIR] },
+    CHUNK_STEP,
+    { label: 'Storage', stages: [ProgressStage.CHUNK_STORAGE] }
+  ],
+  'youtube': [
+    { label: 'Transcript fetch', stages: [ProgressStage.TRANSCRIPT_FETCH] },
+    { label: 'Transcript processing', stages: [ProgressStage.TRANSCRIPT_PROCESS] },
+    { label: 'Chunking & embedding', stages: [ProgressStage.CHUNK_CREATION, ProgressStage.EMBEDDING_GENERATION] },
+    { label: 'Storage', stages: [ProgressStage.CHUNK_STORAGE] }
+  ]
+}
+
+// Format a number of seconds as a short duration (e.g. "2m 05s")
+const formatEta = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+}
+
+/**
+ * Stage-by-stage progress of an ingestion job, driven by WebSocket progress updates
+ */
+const JobProgress = ({ jobKind, update }: JobProgressProps) => {
+  const steps = STEPS_BY_KIND[jobKind]
+  const progress = update?.progress || 0
+  const isCompleted = update?.stage === ProgressStage.COMPLETED
+  const currentStepIndex = update
+    ? steps.findIndex(step => step.stages.includes(update.stage))
+    : -1
+
+  const counters: string[] = []
+  if (update?.currentPage && update.totalPages) {
+    counters.push(`Page ${update.currentPage} of ${update.totalPages}`)
+  }
+  if (update?.currentChunk && update.totalChunks) {
+    counters.push(`Chunk ${Math.min(update.currentChunk, update.totalChunks)} of ${update.totalChunks}`)
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between text-sm mb-1">
+        <span>{update?.message || 'Waiting for progress updates...'}</span>
+        <span>{progress}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-in-out"
+          style={{ width: `${Math.max(1, progress)}%` }}
+        ></div>
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mb-3">
+        <span>{counters.join(' · ')}</span>
+        {update?.etaSeconds !== undefined && !isCompleted && (
+          <span>About {formatEta(update.etaSeconds)} remaining</span>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {steps.map((step, index) => {
+          const isDone = isCompleted || (currentStepIndex !== -1 && index < currentStepIndex)
+          const isActive = !isCompleted && index === currentStepIndex
+          return (
+            <li
+              key={step.label}
+              className={`flex items-center text-sm ${isActive ? 'text-blue-600 font-medium' : isDone ? 'text-green-600' : 'text-gray-400'}`}
+            >
+              {isDone ? (
+                <FiCheckCircle className="mr-2" />
+              ) : isActive ? (
+                <FiLoader className="mr-2 animate-spin" />
+              ) : (
+                <FiCircle className="mr-2" />
+              )}
+              {step.label}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export default JobProgress
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import { FiAlertTriangle, FiRefreshCw } from 'react-icons/fi'
+import axios from '@/utils/axiosConfig'
+import { PendingEmbeddingsResponse, UnembeddedStatus } from '../types/embedding'
+
+const STATUS_STYLES: Record<UnembeddedStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+// Chunks stored while the embedding provider was unavailable, which vector search skips until they are embedded
+const PendingEmbeddings = () => {
+  const [data, setData] = useState<PendingEmbeddingsResponse | null>(null)
+  const [statusFilter, setStatusFilter] = useState<UnembeddedStatus | ''>('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRetrying, setIsRetrying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadPending = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await axios.get<PendingEmbeddingsResponse>('/api/embeddings/pending', {
+        params: statusFilter ? { status: statusFilter } : {}
+      })
+      setData(response.data)
+    } catch (err) {
+      console.error('Error loading pending embeddings:', err)
+      setError('Failed to load chunks waiting for embeddings')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPending()
+  }, [statusFilter])
+
+  const handleRetry = async () => {
+    setIsRetrying(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await axios.post('/api/embeddings/retry')
+      const { retried } = response.data
+      setMessage(retried > 0
+        ? `Queued ${retried} failed chunks again; embedding has started`
+        : 'Embedding of pending chunks has started')
+      // Give the first batch a moment before refreshing the list
+      setTimeout(loadPending, 3000)
+    } catch (err) {
+      console.error('Error retrying embeddings:', err)
+      setError('Failed to start the embedding retry')
+    } finally {
+      setIsRetrying(false)
+    }
+  }
+
+  const total = data ? data.counts.pending + data.counts.failed : 0
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="text-sm text-gray-700">
+          {data ? (
+            <>
+              <span className="font-medium">{data.counts.pending}</span> pending,{' '}
+              <span className="font-medium">{data.counts.failed}</span> failed
+            </>
+          ) : 'Loading...'}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as UnembeddedStatus | '')}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="pending">Pending</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button
+            onClick={loadPending}
+            disabled={isLoading}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={handleRetry}
+            disabled={isRetrying || total === 0}
+            className="flex items-center px-3 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <FiRefreshCw className={`mr-2 ${isRetrying ? 'animate-spin' : ''}`} />
+            Retry now
+          </button>
+        </div>
+      </div>
+
+      {data && !data.providerAvailable && (
+        <div className="mb-4 flex items-center bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded text-sm">
+          <FiAlertTriangle className="mr-2 flex-shrink-0" />
+          The embedding provider is currently unavailable. Pending chunks are retried automatically once it recovers.
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded text-sm">
+          {message}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {data && data.chunks.length === 0 ? (
+        <p className="text-sm text-gray-500">Every stored chunk has an embedding.</p>
+      ) : data && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Document</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Chunk</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Attempts</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Last error</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {data.chunks.map(chunk => (
+                <tr key={chunk.id}>
+                  <td className="px-4 py-2 text-gray-900">{chunk.documentName}</td>
+                  <td className="px-4 py-2 text-gray-700" title={chunk.id}>{chunk.title}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[chunk.embeddingStatus]}`}>
+                      {chunk.embeddingStatus}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{chunk.embeddingAttempts}</td>
+                  <td className="px-4 py-2 text-gray-500 break-words max-w-md">{chunk.embeddingError || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PendingEmbeddings
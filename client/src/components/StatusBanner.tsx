@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { FiAlertTriangle } from 'react-icons/fi'
+import axios from '@/utils/axiosConfig'
+import { ReadinessReport } from '../types/health'
+
+// How often the server's dependencies are checked
+const POLL_INTERVAL_MS = 30000
+
+// Describe each failing dependency of a readiness report
+const describeIssues = (report: ReadinessReport): string[] => {
+  const issues: string[] = []
+
+  if (!report.qdrant.reachable) {
+    issues.push('Vector database is unreachable')
+  } else if (!report.qdrant.collectionExists) {
+    issues.push(`Collection ${report.qdrant.alias} does not exist`)
+  }
+  if (report.qdrant.localChunkCount > 0) {
+    issues.push(`${report.qdrant.localChunkCount} chunks are stored locally until the vector database is back`)
+  }
+  if (!report.embedding.available) {
+    issues.push(`Embeddings (${report.embedding.provider}) are unavailable; new chunks are queued for embedding`)
+  }
+  if (!report.generation.available) {
+    issues.push('Gemini text generation is unavailable; titles, summaries and enhancement are skipped')
+  }
+  for (const fallback of report.fallbacks) {
+    if (fallback.fallbackActive) {
+      const since = fallback.lastErrorAt ? ` since ${new Date(fallback.lastErrorAt).toLocaleTimeString()}` : ''
+      const operations = fallback.circuits.filter(circuit => circuit.state !== 'closed').map(circuit => circuit.operation)
+      issues.push(`${fallback.service} is running in fallback mode${since} (${operations.join(', ')})`)
+    }
+  }
+
+  return issues
+}
+
+// Warns while a dependency of the server is unavailable or in fallback mode
+const StatusBanner = () => {
+  const [report, setReport] = useState<ReadinessReport | null>(null)
+  const [unreachable, setUnreachable] = useState(false)
+
+  useEffect(() => {
+    const checkReadiness = async () => {
+      try {
+        // The readiness endpoint answers 503 with a full report when Qdrant is down
+        const response = await axios.get<ReadinessReport>('/api/ready', { validateStatus: () => true })
+        setReport(response.data?.fallbacks ? response.data : null)
+        setUnreachable(!response.data?.fallbacks)
+      } catch (err) {
+        setUnreachable(true)
+      }
+    }
+
+    checkReadiness()
+    const timer = setInterval(checkReadiness, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const issues = unreachable ? ['The server is not responding'] : report ? describeIssues(report) : []
+  if (issues.length === 0) return null
+
+  const isUnavailable = unreachable || report?.status === 'unavailable'
+
+  return (
+    <div className={`mb-4 border px-4 py-3 rounded ${
+      isUnavailable ? 'bg-red-100 border-red-400 text-red-700' : 'bg-yellow-50 border-yellow-300 text-yellow-800'
+    }`}>
+      <div className="flex items-center font-medium">
+        <FiAlertTriangle className="mr-2 flex-shrink-0" />
+        {isUnavailable ? 'Service unavailable' : 'Running in degraded mode'}
+      </div>
+      <ul className="mt-1 ml-6 list-disc text-sm">
+        {issues.map(issue => <li key={issue}>{issue}</li>)}
+      </ul>
+    </div>
+  )
+}
+
+export default StatusBanner
@@ -130,7 +130,7 @@ const YoutubeUpload = ({ onUploadSuccess }: YoutubeUploadProps) => {
                 ? update.message.replace('Processing completed successfully. Created ', '').replace(' chunks.', '')
                 : 'YouTube Video',
               totalChunks: update.totalItems || 0,
-              videoId: update.videoId
+              videoId: update.jobId
             });
             
             onUploadSuccess();
@@ -143,8 +143,8 @@ const YoutubeUpload = ({ onUploadSuccess }: YoutubeUploadProps) => {
         }
       });
       
-      // Explicitly join room for this video
-      socketService.joinVideoRoom(videoId);
+      // Explicitly join the job room for this video
+      socketService.joinJobRoom(videoId);
       
       // If we don't receive any updates within 5 seconds, request the latest progress
       const noUpdateTimer = setTimeout(() => {
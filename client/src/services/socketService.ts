@@ -57,12 +57,12 @@ class SocketService {
       this.socket.on('progress-update', (data: ProgressUpdate) => {
         console.log('Progress update received:', data);
         
-        // Find and call the appropriate listener for this videoId
-        const listener = this.progressListeners.get(data.videoId);
+        // Find and call the appropriate listener for this jobId
+        const listener = this.progressListeners.get(data.jobId);
         if (listener) {
           listener(data);
         } else {
-          console.warn('Progress update received but no listener found for videoId:', data.videoId);
+          console.warn('Progress update received but no listener found for jobId:', data.jobId);
         }
       });
 
@@ -93,34 +93,34 @@ class SocketService {
   }
 
   /**
-   * Register a progress listener for a specific videoId
+   * Register a progress listener for a specific jobId
    */
-  registerProgressListener(videoId: string, callback: (update: ProgressUpdate) => void) {
-    console.log('Registering progress listener for videoId:', videoId);
-    this.progressListeners.set(videoId, callback);
+  registerProgressListener(jobId: string, callback: (update: ProgressUpdate) => void) {
+    console.log('Registering progress listener for jobId:', jobId);
+    this.progressListeners.set(jobId, callback);
     
-    // Join the video room to ensure we receive updates
-    this.joinVideoRoom(videoId);
+    // Join the job room to ensure we receive updates
+    this.joinJobRoom(jobId);
   }
 
   /**
    * Unregister a progress listener
    */
-  unregisterProgressListener(videoId: string) {
-    console.log('Unregistering progress listener for videoId:', videoId);
-    this.progressListeners.delete(videoId);
+  unregisterProgressListener(jobId: string) {
+    console.log('Unregistering progress listener for jobId:', jobId);
+    this.progressListeners.delete(jobId);
   }
 
   /**
-   * Join a video room to receive updates
+   * Join a job room to receive updates
    */
-  joinVideoRoom(videoId: string): boolean {
+  joinJobRoom(jobId: string): boolean {
     if (this.socket && this.connectionEstablished) {
-      console.log('Joining video room for videoId:', videoId);
-      this.socket.emit('join-video-room', { videoId });
+      console.log('Joining job room for jobId:', jobId);
+      this.socket.emit('join-job-room', { jobId });
       return true;
     }
-    console.warn('Cannot join video room - socket not connected');
+    console.warn('Cannot join job room - socket not connected');
     return false;
   }
 
@@ -139,12 +139,12 @@ class SocketService {
   }
 
   /**
-   * Request the latest progress update for a videoId
+   * Request the latest progress update for a jobId
    */
-  requestLatestProgress(videoId: string): boolean {
+  requestLatestProgress(jobId: string): boolean {
     if (this.socket && this.connectionEstablished) {
-      console.log('Requesting latest progress for videoId:', videoId);
-      this.socket.emit('request-latest-progress', { videoId });
+      console.log('Requesting latest progress for jobId:', jobId);
+      this.socket.emit('request-latest-progress', { jobId });
       return true;
     }
     console.warn('Cannot request latest progress - socket not connected');
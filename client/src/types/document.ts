@@ -0,0 +1,16 @@
+/**
+ * Types for the document registry API
+ */
+
+// What to do when an upload matches an existing document
+export type DuplicateAction = 'replace' | 'keep_both' | 'skip';
+
+// An existing document that an upload duplicates
+export interface DuplicateDocument {
+  id: string;
+  slug: string;
+  documentTitle: string;
+  status: 'processing' | 'ready' | 'failed' | 'cancelled';
+  chunkCount: number;
+  createdAt: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Types for the pending embeddings API
+ */
+
+// Pending chunks are retried automatically; failed chunks only when requested
+export type UnembeddedStatus = 'pending' | 'failed';
+
+// A chunk stored without a real embedding, left out of vector search until embedded
+export interface UnembeddedChunk {
+  id: string;
+  documentId?: string;
+  documentName: string;
+  title: string;
+  embeddingStatus: UnembeddedStatus;
+  embeddingError?: string;
+  embeddingAttempts: number;
+  updatedAt?: string;
+}
+
+export interface PendingEmbeddingsResponse {
+  counts: Record<UnembeddedStatus, number>;
+  chunks: UnembeddedChunk[];
+  providerAvailable: boolean;
+}
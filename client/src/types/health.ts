@@ -0,0 +1,43 @@
+/**
+ * Types for the readiness API
+ */
+
+// Circuit breaker guarding one operation of a service
+export interface CircuitStatus {
+  operation: string;
+  state: 'closed' | 'open' | 'half_open';
+  failureRate: number;
+  retryAt?: string;
+}
+
+export interface FallbackStatus {
+  service: string;
+  fallbackActive: boolean;
+  lastErrorAt?: string;
+  lastError?: string;
+  circuits: CircuitStatus[];
+}
+
+interface ProbeResult {
+  available: boolean;
+  checkedAt: string;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'degraded' | 'unavailable';
+  checkedAt: string;
+  qdrant: {
+    reachable: boolean;
+    alias: string;
+    collection?: string;
+    collectionExists: boolean;
+    pointCount?: number;
+    error?: string;
+    localChunkCount: number;
+  };
+  embedding: ProbeResult & { provider: string; model: string };
+  generation: ProbeResult & { model: string; configured: boolean };
+  visionOcr: { configured: boolean; credentials: 'api_key' | 'application_default' | 'none'; projectId?: string };
+  fallbacks: FallbackStatus[];
+}
@@ -2,23 +2,44 @@
  * Progress event types for WebSocket communication
  */
 
+export type ProgressJobKind = 'document' | 'image-folder' | 'youtube';
+
 export enum ProgressStage {
+  QUEUED = 'queued',
   INITIALIZING = 'initializing',
+  // YouTube transcript stages
   TRANSCRIPT_FETCH = 'transcript_fetch',
   TRANSCRIPT_PROCESS = 'transcript_process',
   CHUNK_CREATION = 'chunk_creation',
+  // Document pipeline stages
+  PARSING = 'parsing',
+  OCR = 'ocr',
+  OCR_CORRECTION = 'ocr_correction',
+  HEADER_FOOTER_REMOVAL = 'header_footer_removal',
+  SENTENCE_REPAIR = 'sentence_repair',
+  CHUNKING = 'chunking',
+  METADATA = 'metadata',
+  ENHANCEMENT = 'enhancement',
+  // Shared stages
   EMBEDDING_GENERATION = 'embedding_generation',
   CHUNK_STORAGE = 'chunk_storage',
   COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
   ERROR = 'error'
 }
 
 export interface ProgressUpdate {
-  videoId: string;
+  jobId: string;
+  jobKind: ProgressJobKind;
   stage: ProgressStage;
   message: string;
   progress?: number; // 0-100
   currentItem?: number;
   totalItems?: number;
+  currentPage?: number;
+  totalPages?: number;
+  currentChunk?: number;
+  totalChunks?: number;
+  etaSeconds?: number;
   error?: string;
-} 
\ No newline at end of file
+}
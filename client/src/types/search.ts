@@ -0,0 +1,43 @@
+/**
+ * Types for the knowledge base search API
+ */
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export type SourceType = 'pdf' | 'docx' | 'text' | 'image' | 'youtube';
+
+// Embedded fields of a chunk that semantic search can target
+export type EmbeddingField = 'raw' | 'enhanced' | 'summary';
+
+export interface SearchResult {
+  id: string;
+  documentName: string;
+  content: string;
+  enhancedContent?: string;
+  title?: string;
+  summary?: string;
+  sourceFile?: string;
+  sourceType?: SourceType;
+  domains?: string[];
+  pageStart?: number; // Pages the chunk was cut from
+  pageEnd?: number;
+  score: number;
+  matchedTerms?: string[]; // Query terms found by keyword search
+  matchedPassage?: MatchedPassage; // Best-matching passage of a chunk embedded as several passages
+  fieldScores?: Partial<Record<EmbeddingField, number>>; // Similarity of each searched field
+}
+
+// Character range of a result's content that matched the query best
+export interface MatchedPassage {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+}
+
+// A document (and optionally one of its chunks) to open in document management
+export interface DocumentFocus {
+  documentName: string;
+  chunkId?: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * File hashes matching the server's duplicate detection (server/src/core/content-hash.ts):
+ * the SHA-256 of a single file, or the SHA-256 of the per-file hex digests joined by
+ * newlines for a multi-file upload.
+ */
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+// Web Crypto is only available in secure contexts (https or localhost)
+export const canHashFiles = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const hashUpload = async (files: File[]): Promise<string> => {
+  const digests: string[] = [];
+  for (const file of files) {
+    digests.push(await sha256(await file.arrayBuffer()));
+  }
+  return digests.length === 1 ? digests[0] : sha256(new TextEncoder().encode(digests.join('\n')));
+};
@@ -0,0 +1,6 @@
+// Label of the pages a chunk was cut from, e.g. "p. 3" or "pp. 3-5"; chunks stored before page ranges were recorded have none
+export const formatPageRange = (chunk: { pageStart?: number; pageEnd?: number }): string | null => {
+  if (chunk.pageStart === undefined) return null
+  const pageEnd = chunk.pageEnd ?? chunk.pageStart
+  return pageEnd === chunk.pageStart ? `p. ${chunk.pageStart}` : `pp. ${chunk.pageStart}-${pageEnd}`
+}
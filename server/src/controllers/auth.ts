@@ -3,6 +3,7 @@ import { getAuthUrl, exchangeCodeForTokens, isAuthenticated, revokeAuthenticatio
 import { OAuth2Client } from 'google-auth-library';
 import { google } from 'googleapis';
 import axios from 'axios';
+import { logger } from '../core/logger';
 
 // Extend Express Request with session
 declare module 'express-serve-static-core' {
@@ -22,7 +23,7 @@ declare module 'express-serve-static-core' {
 export const startGoogleAuth = (req: Request, res: Response) => {
   try {
     // Log authentication configuration for debugging
-    console.log('Starting OAuth process with configuration:', {
+    logger.info('Starting OAuth process with configuration:', {
       redirectUri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3001/api/auth/google/callback',
       clientIdConfigured: !!process.env.GOOGLE_CLIENT_ID,
       clientSecretConfigured: !!process.env.GOOGLE_CLIENT_SECRET
@@ -39,7 +40,7 @@ export const startGoogleAuth = (req: Request, res: Response) => {
     // Redirect user to Google's authorization page
     res.redirect(authUrl);
   } catch (error) {
-    console.error('Error starting Google authentication:', error);
+    logger.error('Error starting Google authentication:', error);
     res.status(500).json({ 
       error: 'Failed to initiate Google authentication', 
       details: error instanceof Error ? error.message : 'Unknown error' 
@@ -58,12 +59,12 @@ export const handleGoogleCallback = async (req: Request, res: Response) => {
   }
   
   try {
-    console.log('Received callback with code, attempting to exchange for tokens');
+    logger.info('Received callback with code, attempting to exchange for tokens');
     
     // Exchange authorization code for tokens
     const { tokens, userId } = await exchangeCodeForTokens(code as string);
     
-    console.log('Token exchange successful, user authenticated:', { 
+    logger.info('Token exchange successful, user authenticated:', { 
       userId,
       tokenReceived: !!tokens.access_token,
       refreshTokenReceived: !!tokens.refresh_token,
@@ -80,13 +81,13 @@ export const handleGoogleCallback = async (req: Request, res: Response) => {
     
     res.redirect(returnUrl);
   } catch (error) {
-    console.error('Error handling Google callback:', error);
+    logger.error('Error handling Google callback:', error);
     
     // More detailed error logging
     if (error instanceof Error) {
-      console.error('Error name:', error.name);
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
+      logger.error('Error name:', error.name);
+      logger.error('Error message:', error.message);
+      logger.error('Error stack:', error.stack);
     }
     
     res.status(500).json({ 
@@ -111,7 +112,7 @@ export const handleGoogleToken = async (req: Request, res: Response) => {
     
     if (id_token) {
       // ID token verification flow
-      console.log('Received ID token, verifying...');
+      logger.info('Received ID token, verifying...');
       
       // Create client for token verification
       const client = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
@@ -131,14 +132,14 @@ export const handleGoogleToken = async (req: Request, res: Response) => {
       
       userId = payload.sub; // Google's unique user ID
       
-      console.log('ID token verified successfully:', {
+      logger.info('ID token verified successfully:', {
         userId,
         email: payload.email,
         emailVerified: payload.email_verified
       });
     } else if (access_token) {
       // Access token flow - validate using our YouTube auth service
-      console.log('Received access token, validating...');
+      logger.info('Received access token, validating...');
       
       try {
         // Use our specialized validator that also saves the token
@@ -150,12 +151,12 @@ export const handleGoogleToken = async (req: Request, res: Response) => {
         
         userId = userInfo.userId;
         
-        console.log('Access token validated successfully:', {
+        logger.info('Access token validated successfully:', {
           userId,
           email: userInfo.email
         });
       } catch (error) {
-        console.error('Error validating access token:', error);
+        logger.error('Error validating access token:', error);
         throw new Error('Failed to validate access token');
       }
     }
@@ -170,11 +171,11 @@ export const handleGoogleToken = async (req: Request, res: Response) => {
       message: 'Successfully authenticated with YouTube'
     });
   } catch (error) {
-    console.error('Error verifying Google token:', error);
+    logger.error('Error verifying Google token:', error);
     
     if (error instanceof Error) {
-      console.error('Error name:', error.name);
-      console.error('Error message:', error.message);
+      logger.error('Error name:', error.name);
+      logger.error('Error message:', error.message);
     }
     
     res.status(401).json({
@@ -208,14 +209,14 @@ export const logout = async (req: Request, res: Response) => {
       // Revoke Google access
       await revokeAuthentication(userId);
     } catch (error) {
-      console.error('Error revoking authentication:', error);
+      logger.error('Error revoking authentication:', error);
     }
   }
   
   // Clear session
   req.session.destroy((err: Error | null) => {
     if (err) {
-      console.error('Error destroying session:', err);
+      logger.error('Error destroying session:', err);
     }
     res.clearCookie('connect.sid');
     res.json({ success: true, message: 'Logged out successfully' });
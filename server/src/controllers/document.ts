@@ -1,21 +1,194 @@
 import { Request, Response } from 'express';
-import { createEmbedding } from '../services/embedding';
-import { parseDocument, parsePdfByPages, parseDocxByPages, processImageFolder, prepareContentForChunking, correctOcrWithLLM } from '../services/document';
-import { DatabaseService } from '../core/database-service';
-import { TaskType } from '@google/generative-ai';
-import { chunkDocument, ChunkingConfig } from '../services/chunking';
+import { DatabaseService, FieldWeights, SearchFilter } from '../core/database-service';
+import { CHUNKING_STRATEGIES, ChunkingConfig, ChunkingStrategy, EditableChunkFields, EMBEDDING_FIELDS, EmbeddingField, SOURCE_TYPES, SourceType } from '../services/chunking';
+import { editChunk, EDITABLE_CHUNK_FIELDS, rollbackChunk } from '../services/chunk-editing';
+import { searchKnowledgeBase, SEARCH_MODES, SearchMode } from '../services/search';
+import { jobQueue } from '../services/job-queue';
+import { defaultLlmBudget, LLM_BUDGET_ACTIONS, LlmBudget } from '../services/llm-usage';
+import { sourceTypeForUpload } from '../services/ingestion-pipeline';
+import { documentRegistry } from '../services/document-registry';
+import { decodeUploadedFileName, titleFromFileName } from '../core/document-names';
+import { hashUpload } from '../core/content-hash';
+import { DocumentRecord, DocumentStatus, DUPLICATE_ACTIONS, DuplicateAction } from '../types/document';
+import { JobStatus } from '../types/job';
 import path from 'path';
 import fs from 'fs';
+import { logger } from '../core/logger';
+import { ServiceUnavailableError } from '../core/fallback-service';
 
 // Create a singleton instance of the database service
 const dbService = new DatabaseService();
 
-// Initialize database on startup
-dbService.initialize().catch(err => {
-  console.error('Error initializing database:', err);
+// Initialize database on startup, then register documents stored before the registry existed
+dbService.initialize()
+  .then(() => documentRegistry.importUnregisteredDocuments())
+  .catch(err => {
+    logger.error('Error initializing database:', err);
+  });
+
+// Fields of an existing document shown when an upload duplicates it
+const duplicateSummary = (doc: DocumentRecord) => ({
+  id: doc.id,
+  slug: doc.slug,
+  documentTitle: doc.documentTitle,
+  status: doc.status,
+  chunkCount: doc.chunkCount,
+  createdAt: doc.createdAt
 });
 
-// Parse a document, split into chunks, embed each chunk and store in vector DB
+const removeUploadedFiles = (files: Express.Multer.File[]): void => {
+  for (const file of files) {
+    if (file.path && fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+};
+
+/**
+ * Check an upload against the documents with the same file hash, applying the
+ * duplicateAction chosen by the client. The uploaded files are removed when the
+ * upload is refused or skipped.
+ *
+ * @returns Duplicate handling to queue with the job, or null if a response has been sent
+ */
+const resolveDuplicateUpload = (
+  req: Request,
+  res: Response,
+  files: Express.Multer.File[],
+  fileHash: string
+): { duplicateAction?: DuplicateAction; replacesDocumentIds?: string[] } | null => {
+  const requested = req.body.duplicateAction;
+  if (requested !== undefined && !DUPLICATE_ACTIONS.includes(requested)) {
+    removeUploadedFiles(files);
+    res.status(400).json({ message: `duplicateAction must be one of: ${DUPLICATE_ACTIONS.join(', ')}` });
+    return null;
+  }
+  const duplicateAction = requested as DuplicateAction | undefined;
+
+  const duplicates = documentRegistry.findDuplicates({ fileHash });
+  if (duplicates.length === 0 || duplicateAction === 'keep_both') {
+    return { duplicateAction };
+  }
+
+  if (!duplicateAction) {
+    removeUploadedFiles(files);
+    res.status(409).json({
+      message: 'This file has already been uploaded',
+      duplicates: duplicates.map(duplicateSummary),
+      actions: DUPLICATE_ACTIONS
+    });
+    return null;
+  }
+
+  if (duplicateAction === 'skip') {
+    removeUploadedFiles(files);
+    logger.info(`Skipped duplicate upload of "${duplicates[0].documentTitle}"`);
+    res.status(200).json({
+      message: 'Duplicate upload skipped',
+      skipped: true,
+      duplicates: duplicates.map(duplicateSummary)
+    });
+    return null;
+  }
+
+  // Replacing a document that is still being ingested would race with its job
+  if (duplicates.some(doc => doc.status === DocumentStatus.PROCESSING)) {
+    removeUploadedFiles(files);
+    res.status(409).json({
+      message: 'The existing copy is still being processed and cannot be replaced yet',
+      duplicates: duplicates.map(duplicateSummary)
+    });
+    return null;
+  }
+
+  return { duplicateAction, replacesDocumentIds: duplicates.map(doc => doc.id) };
+};
+
+// Chunking options accepted with uploads and when reprocessing a document, by expected type
+const NUMERIC_CHUNKING_OPTIONS = {
+  targetTokens: { min: 1, max: Infinity },
+  minTokens: { min: 0, max: Infinity },
+  maxTokens: { min: 1, max: Infinity },
+  chunkOverlap: { min: 0, max: 0.5 },
+  semanticBreakpointPercentile: { min: 0, max: 100 }
+} as const;
+type NumericChunkingOption = keyof typeof NUMERIC_CHUNKING_OPTIONS;
+
+const BOOLEAN_CHUNKING_OPTIONS = [
+  'correctOcr', 'generateTitles', 'generateSummaries', 'enhanceContent', 'respectBoundaries', 'preserveHeadings'
+] as const;
+type BooleanChunkingOption = typeof BOOLEAN_CHUNKING_OPTIONS[number];
+
+// Sizes that must not exceed each other, smallest first
+const ORDERED_CHUNK_SIZES = [['minTokens', 'targetTokens'], ['targetTokens', 'maxTokens'], ['minTokens', 'maxTokens']] as const;
+
+// Check that the chunk sizes of a configuration are in increasing order
+const chunkSizeError = (config: Partial<ChunkingConfig>): string | undefined => {
+  for (const [smaller, larger] of ORDERED_CHUNK_SIZES) {
+    const smallerValue = config[smaller];
+    const largerValue = config[larger];
+    if (smallerValue !== undefined && largerValue !== undefined && smallerValue > largerValue) {
+      return `${smaller} must not be greater than ${larger}`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Read and validate the chunking options of a request. Upload form fields arrive as
+ * strings, so numbers and booleans are accepted as strings too, and empty fields are
+ * ignored.
+ * @param options Request fields holding the options
+ * @param rejectOtherFields Whether fields that are not chunking options are an error
+ * @returns The options, or a message saying why they are invalid
+ */
+const chunkingConfigFromRequest = (
+  options: Record<string, unknown>,
+  rejectOtherFields: boolean
+): { config: Partial<ChunkingConfig>; error?: undefined } | { error: string } => {
+  const config: Partial<ChunkingConfig> = {};
+  for (const [option, value] of Object.entries(options)) {
+    if (value === undefined || value === '') continue;
+
+    if (option === 'strategy') {
+      if (!CHUNKING_STRATEGIES.includes(value as ChunkingStrategy)) {
+        return { error: `strategy must be one of: ${CHUNKING_STRATEGIES.join(', ')}` };
+      }
+      config.strategy = value as ChunkingStrategy;
+    } else if (Object.prototype.hasOwnProperty.call(NUMERIC_CHUNKING_OPTIONS, option)) {
+      const { min, max } = NUMERIC_CHUNKING_OPTIONS[option as NumericChunkingOption];
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number) || number < min || number > max) {
+        return { error: `${option} must be a number from ${min}${max === Infinity ? '' : ` to ${max}`}` };
+      }
+      config[option as NumericChunkingOption] = number;
+    } else if (BOOLEAN_CHUNKING_OPTIONS.includes(option as BooleanChunkingOption)) {
+      if (value !== true && value !== false && value !== 'true' && value !== 'false') {
+        return { error: `${option} must be a boolean` };
+      }
+      config[option as BooleanChunkingOption] = value === true || value === 'true';
+    } else if (rejectOtherFields) {
+      return {
+        error: `Unknown chunking option "${option}". Expected: ${['strategy', ...Object.keys(NUMERIC_CHUNKING_OPTIONS), ...BOOLEAN_CHUNKING_OPTIONS].join(', ')}`
+      };
+    }
+  }
+
+  const sizeError = chunkSizeError(config);
+  return sizeError ? { error: sizeError } : { config };
+};
+
+// Read an LLM budget for the job from llmBudgetUsd and llmBudgetAction; jobs without one get the server default
+const llmBudgetFromRequest = (body: Record<string, unknown>): LlmBudget | undefined => {
+  const maxCostUsd = Number(body.llmBudgetUsd);
+  if (body.llmBudgetUsd === undefined || body.llmBudgetUsd === '' || !Number.isFinite(maxCostUsd) || maxCostUsd <= 0) {
+    return undefined;
+  }
+  const action = LLM_BUDGET_ACTIONS.find(option => option === body.llmBudgetAction) || defaultLlmBudget()?.action || 'degrade';
+  return { maxCostUsd, action };
+};
+
+// Queue an uploaded document to be parsed, chunked, embedded and stored in the vector DB
 export const parseAndStoreDocument = async (req: Request, res: Response) => {
   try {
     // Validate that file exists
@@ -24,23 +197,12 @@ export const parseAndStoreDocument = async (req: Request, res: Response) => {
     }
 
     // Extract chunking configuration from request body (if any)
-    const chunkingConfig: Partial<ChunkingConfig> = {};
-    
-    if (req.body.chunksPerPage && !isNaN(Number(req.body.chunksPerPage))) {
-      chunkingConfig.chunksPerPage = Number(req.body.chunksPerPage);
-    }
-    
-    if (req.body.chunkOverlap && !isNaN(Number(req.body.chunkOverlap))) {
-      chunkingConfig.chunkOverlap = Number(req.body.chunkOverlap);
-    }
-    
-    if (req.body.generateTitles !== undefined) {
-      chunkingConfig.generateTitles = req.body.generateTitles === 'true' || req.body.generateTitles === true;
-    }
-    
-    if (req.body.generateSummaries !== undefined) {
-      chunkingConfig.generateSummaries = req.body.generateSummaries === 'true' || req.body.generateSummaries === true;
+    const chunkingOptions = chunkingConfigFromRequest(req.body, false);
+    if (chunkingOptions.error !== undefined) {
+      removeUploadedFiles([req.file]);
+      return res.status(400).json({ message: chunkingOptions.error });
     }
+    const chunkingConfig = chunkingOptions.config;
 
     // Get domains from request body or use default
     let domains: string[] = ['default'];
@@ -61,93 +223,65 @@ export const parseAndStoreDocument = async (req: Request, res: Response) => {
       }
     }
     
-    // Get document title from request body if provided
-    const documentTitle = req.body.documentTitle || req.file.originalname;
-
-    // Process document and create chunks
-    let chunks: any[] = [];
-    
-    if (req.file.mimetype === 'application/pdf') {
-      console.log(`Processing PDF document: ${req.file.originalname}`);
-      // Parse PDF into pages
-      const pdfPages = await parsePdfByPages(req.file.path);
-      
-      // Create proper document structure with ID
-      const document = {
-        id: path.basename(req.file.originalname, path.extname(req.file.originalname)),
-        pages: pdfPages.pages
-      };
-      
-      // Prepare content for better sentence boundaries and OCR correction
-      const preparedDocument = await prepareContentForChunking(document);
-      
-      // Chunk the PDF by pages
-      chunks = await chunkDocument(preparedDocument, req.file.path, chunkingConfig, domains, documentTitle);
-    } 
-    else if (req.file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      console.log(`Processing DOCX document: ${req.file.originalname}`);
-      // Parse DOCX into logical pages/sections
-      const docxPages = await parseDocxByPages(req.file.path);
-      
-      // Create proper document structure with ID
-      const document = {
-        id: path.basename(req.file.originalname, path.extname(req.file.originalname)),
-        pages: docxPages.pages
-      };
-      
-      // Prepare content for better sentence boundaries and potentially OCR correction
-      const preparedDocument = await prepareContentForChunking(document);
-      
-      // Chunk the DOCX by sections
-      chunks = await chunkDocument(preparedDocument, req.file.path, chunkingConfig, domains, documentTitle);
-    }
-    else {
-      console.log(`Processing other document type: ${req.file.originalname} (${req.file.mimetype})`);
-      // For other document types, treat as a single page and chunk it
-      const fileContent = await parseDocument(req.file.path, req.file.mimetype);
-      
-      // Create a single page document structure
-      const document = {
-        id: path.basename(req.file.originalname, path.extname(req.file.originalname)),
-        pages: [
-          {
-            pageNumber: 1,
-            content: fileContent
-          }
-        ]
-      };
-      
-      // Prepare content for better sentence boundaries and OCR correction
-      const preparedDocument = await prepareContentForChunking(document);
-      
-      // Chunk the document
-      chunks = await chunkDocument(preparedDocument, req.file.path, chunkingConfig, domains, documentTitle);
-    }
-    
-    console.log(`Created ${chunks.length} chunks for document ${req.file.originalname} in domains: ${domains.join(', ')}`);
-    
-    // Store all chunks in database
-    await dbService.addDocumentChunks(chunks);
+    // Use the title from the request body, or the file name without its extension
+    const originalFilename = decodeUploadedFileName(req.file.originalname);
+    const documentTitle = String(req.body.documentTitle || '').trim().normalize('NFC') || titleFromFileName(originalFilename);
+    const documentName = path.basename(req.file.originalname, path.extname(req.file.originalname));
+
+    const fileHash = await hashUpload([req.file.path]);
+    const duplicateHandling = resolveDuplicateUpload(req, res, [req.file], fileHash);
+    if (!duplicateHandling) return;
+
+    const document = documentRegistry.register({
+      documentName: documentTitle,
+      documentTitle,
+      originalFilename,
+      mimeType: req.file.mimetype,
+      sourceType: sourceTypeForUpload('document', req.file.mimetype),
+      domains,
+      ingestionConfig: chunkingConfig,
+      fileHash
+    });
+
+    // Queue the document for background ingestion; the job owns the uploaded file from here on
+    const job = jobQueue.enqueue({
+      kind: 'document',
+      documentId: documentName,
+      documentRecordId: document.id,
+      documentTitle,
+      files: [{
+        path: req.file.path,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size
+      }],
+      domains,
+      chunkingConfig,
+      llmBudget: llmBudgetFromRequest(req.body),
+      ...duplicateHandling
+    });
+    documentRegistry.attachJob(document.id, job.id);
     
-    res.status(200).json({ 
-      message: 'Document parsed, chunked and embedded successfully',
-      totalChunks: chunks.length,
-      documentName: path.basename(req.file.originalname, path.extname(req.file.originalname)),
-      documentTitle: documentTitle || path.basename(req.file.originalname, path.extname(req.file.originalname)),
+    res.status(202).json({ 
+      message: 'Document queued for processing',
+      jobId: job.id,
+      documentId: document.id,
+      documentName,
+      documentTitle,
       domains
     });
   } catch (error) {
-    console.error('Error processing document:', error);
-    res.status(500).json({ message: 'Failed to process document' });
-  } finally {
-    // Clean up file regardless of success or failure
+    logger.error('Error queuing document:', error);
+    
+    // Clean up the uploaded file since no job will process it
     if (req.file?.path && fs.existsSync(req.file.path)) {
       fs.unlinkSync(req.file.path);
     }
+    res.status(500).json({ message: 'Failed to process document' });
   }
 };
 
-// Parse and store a folder of scanned document images
+// Queue a folder of scanned document images for OCR and storage
 export const parseAndStoreImageFolder = async (req: Request, res: Response) => {
   try {
     if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
@@ -155,23 +289,13 @@ export const parseAndStoreImageFolder = async (req: Request, res: Response) => {
     }
 
     // Extract chunking configuration from request body (if any)
-    const chunkingConfig: Partial<ChunkingConfig> = {};
-    
-    if (req.body.chunksPerPage && !isNaN(Number(req.body.chunksPerPage))) {
-      chunkingConfig.chunksPerPage = Number(req.body.chunksPerPage);
-    }
-    
-    if (req.body.chunkOverlap && !isNaN(Number(req.body.chunkOverlap))) {
-      chunkingConfig.chunkOverlap = Number(req.body.chunkOverlap);
-    }
-    
-    if (req.body.generateTitles !== undefined) {
-      chunkingConfig.generateTitles = req.body.generateTitles === 'true' || req.body.generateTitles === true;
-    }
-    
-    if (req.body.generateSummaries !== undefined) {
-      chunkingConfig.generateSummaries = req.body.generateSummaries === 'true' || req.body.generateSummaries === true;
+    const files = req.files as Express.Multer.File[];
+    const chunkingOptions = chunkingConfigFromRequest(req.body, false);
+    if (chunkingOptions.error !== undefined) {
+      removeUploadedFiles(files);
+      return res.status(400).json({ message: chunkingOptions.error });
     }
+    const chunkingConfig = chunkingOptions.config;
 
     // Get domains from request body or use default
     let domains: string[] = ['default'];
@@ -193,63 +317,60 @@ export const parseAndStoreImageFolder = async (req: Request, res: Response) => {
     }
     
     // Get document title from request body if provided
-    const documentTitle = req.body.documentTitle || 'Scanned Document';
+    const documentTitle = String(req.body.documentTitle || '').trim().normalize('NFC') || 'Scanned Document';
 
-    console.log(`Processing ${req.files.length} image files for document: ${documentTitle}`);
-    
-    // Get all image file paths
-    const filePaths = (req.files as Express.Multer.File[]).map(file => file.path);
-    
-    // Process the folder of images
-    const processedDocument = await processImageFolder(filePaths);
-    
-    console.log(`Processed ${processedDocument.pages.length} pages from folder`);
-    
-    // Process all pages at once instead of skipping first and last
-    // and organize them into batches with LLM processing
-    const document = {
-      id: `scan-batch-${Date.now()}`,
-      pages: processedDocument.pages
-    };
-    
-    // Prepare content for better sentence boundaries and OCR correction
-    const preparedDocument = await prepareContentForChunking(document);
-    
-    // Process the document with chunking
-    const allChunks = await chunkDocument(
-      preparedDocument,
-      `scan-batch-${Date.now()}`,
-      chunkingConfig,
+    const fileHash = await hashUpload(files.map(file => file.path));
+    const duplicateHandling = resolveDuplicateUpload(req, res, files, fileHash);
+    if (!duplicateHandling) return;
+
+    const document = documentRegistry.register({
+      documentName: documentTitle,
+      documentTitle,
+      originalFilename: files.map(file => decodeUploadedFileName(file.originalname)).join(', '),
+      mimeType: files[0].mimetype,
+      sourceType: 'image',
       domains,
-      documentTitle
-    );
-    
-    // Store all chunks in database
-    if (allChunks.length > 0) {
-      await dbService.addDocumentChunks(allChunks);
-    }
+      ingestionConfig: chunkingConfig,
+      fileHash
+    });
+
+    // Queue the image folder for background OCR and ingestion
+    const job = jobQueue.enqueue({
+      kind: 'image-folder',
+      documentId: `scan-batch-${Date.now()}`,
+      documentRecordId: document.id,
+      documentTitle,
+      files: files.map(file => ({
+        path: file.path,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size
+      })),
+      domains,
+      chunkingConfig,
+      llmBudget: llmBudgetFromRequest(req.body),
+      ...duplicateHandling
+    });
+    documentRegistry.attachJob(document.id, job.id);
     
-    console.log(`Created ${allChunks.length} chunks for scanned document folder in domains: ${domains.join(', ')}`);
+    logger.info(`Queued ${files.length} image files for document: ${documentTitle}`);
     
-    res.status(200).json({ 
-      message: 'Scanned document folder processed, chunked and embedded successfully',
-      totalChunks: allChunks.length,
-      totalPages: processedDocument.pages.length,
+    res.status(202).json({ 
+      message: 'Scanned document folder queued for processing',
+      jobId: job.id,
+      documentId: document.id,
+      totalFiles: files.length,
       documentTitle,
       domains
     });
   } catch (error) {
-    console.error('Error processing scanned document folder:', error);
-    res.status(500).json({ message: 'Failed to process scanned document folder' });
-  } finally {
-    // Clean up files regardless of success or failure
+    logger.error('Error queuing scanned document folder:', error);
+    
+    // Clean up uploaded files since no job will process them
     if (req.files && Array.isArray(req.files)) {
-      for (const file of req.files as Express.Multer.File[]) {
-        if (file.path && fs.existsSync(file.path)) {
-          fs.unlinkSync(file.path);
-        }
-      }
+      removeUploadedFiles(req.files as Express.Multer.File[]);
     }
+    res.status(500).json({ message: 'Failed to process scanned document folder' });
   }
 };
 
@@ -324,24 +445,71 @@ const preserveParagraphContinuity = (
   return enhancedContent;
 };
 
-// Search documents using semantic similarity
+// Read a query parameter that may be repeated (domains[]=a&domains[]=b) or comma-separated
+const parseListParam = (value: unknown): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+// Read the embedded fields a vector search targets, each optionally weighted (fields=raw:2,summary).
+// Returns null when a field or weight is invalid.
+const parseFieldWeights = (value: unknown): FieldWeights | null | undefined => {
+  const entries = parseListParam(value);
+  if (!entries) return undefined;
+  
+  const weights: FieldWeights = {};
+  for (const entry of entries) {
+    const [field, weight = '1'] = entry.split(':').map(part => part.trim());
+    if (!EMBEDDING_FIELDS.includes(field as EmbeddingField) || !(Number(weight) > 0)) return null;
+    weights[field as EmbeddingField] = Number(weight);
+  }
+  return weights;
+};
+
+// Search documents by semantic similarity, keyword match (BM25) or a fusion of both
 export const searchDocuments = async (req: Request, res: Response) => {
   try {
-    const { query } = req.query;
+    const { query, mode = 'vector', limit, sourceType, minScore } = req.query;
     
     if (!query || typeof query !== 'string') {
       return res.status(400).json({ message: 'Search query is required' });
     }
     
-    // Create embedding for the query using TaskType enum for search queries
-    const queryEmbedding = await createEmbedding(query, TaskType.RETRIEVAL_QUERY);
+    if (typeof mode !== 'string' || !SEARCH_MODES.includes(mode as SearchMode)) {
+      return res.status(400).json({ message: `Search mode must be one of: ${SEARCH_MODES.join(', ')}` });
+    }
+    
+    if (sourceType !== undefined && !SOURCE_TYPES.includes(sourceType as SourceType)) {
+      return res.status(400).json({ message: `Source type must be one of: ${SOURCE_TYPES.join(', ')}` });
+    }
+    
+    if (minScore !== undefined && isNaN(Number(minScore))) {
+      return res.status(400).json({ message: 'Minimum score must be a number' });
+    }
+    
+    const fields = parseFieldWeights(req.query.fields);
+    if (fields === null) {
+      return res.status(400).json({ message: `Fields must be a comma-separated list of ${EMBEDDING_FIELDS.join(', ')}, each optionally followed by :weight` });
+    }
+    
+    const searchLimit = limit && !isNaN(Number(limit)) ? Math.min(Math.max(1, Number(limit)), 100) : 10;
     
-    // Search using vector similarity
-    const searchResults = await dbService.searchByVector(queryEmbedding, 10);
+    const filter: SearchFilter = {
+      domains: parseListParam(req.query.domains),
+      documentNames: parseListParam(req.query.documentName),
+      sourceType: sourceType as SourceType | undefined,
+      minScore: minScore !== undefined ? Number(minScore) : undefined
+    };
+    
+    const searchResults = await searchKnowledgeBase(query, mode as SearchMode, searchLimit, filter, fields);
     
     res.status(200).json(searchResults);
   } catch (error) {
-    console.error('Error searching documents:', error);
+    logger.error('Error searching documents:', error);
     res.status(500).json({ message: 'Failed to search documents' });
   }
 };
@@ -354,7 +522,7 @@ export const listDocuments = async (req: Request, res: Response) => {
     // Get the limit parameter with a default value
     const documentLimit = limit && !isNaN(Number(limit)) ? Number(limit) : 0;
     
-    const documentNames = await dbService.getUniqueDocumentNames();
+    const documentNames = documentRegistry.documentNames();
     
     // Return either all documents or just the limited number
     res.status(200).json({
@@ -363,7 +531,7 @@ export const listDocuments = async (req: Request, res: Response) => {
       hasMore: documentLimit > 0 && documentNames.length > documentLimit
     });
   } catch (error) {
-    console.error('Error listing documents:', error);
+    logger.error('Error listing documents:', error);
     res.status(500).json({ message: 'Failed to list documents' });
   }
 };
@@ -385,7 +553,7 @@ export const getChunksByDocumentName = async (req: Request, res: Response) => {
       totalChunks: chunks.length
     });
   } catch (error) {
-    console.error('Error getting document chunks:', error);
+    logger.error('Error getting document chunks:', error);
     res.status(500).json({ message: 'Failed to get document chunks' });
   }
 };
@@ -406,11 +574,120 @@ export const deleteChunks = async (req: Request, res: Response) => {
       deletedCount
     });
   } catch (error) {
-    console.error('Error deleting chunks:', error);
+    logger.error('Error deleting chunks:', error);
     res.status(500).json({ message: 'Failed to delete chunks' });
   }
 };
 
+// Edit the content, title, summary or domains of a single chunk
+export const updateChunk = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const changes: Partial<EditableChunkFields> = {};
+
+    for (const field of ['content', 'enhancedContent', 'title', 'summary'] as const) {
+      const value = req.body[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'string') {
+        return res.status(400).json({ message: `${field} must be a string` });
+      }
+      changes[field] = value;
+    }
+
+    if (changes.content !== undefined && !changes.content.trim()) {
+      return res.status(400).json({ message: 'content must not be empty' });
+    }
+
+    const { domains } = req.body;
+    if (domains !== undefined) {
+      if (!Array.isArray(domains) || domains.length === 0 || !domains.every(d => typeof d === 'string' && d.trim())) {
+        return res.status(400).json({ message: 'domains must be a non-empty array of strings' });
+      }
+      changes.domains = domains.map((d: string) => d.trim());
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ message: `Nothing to update. Editable fields: ${EDITABLE_CHUNK_FIELDS.join(', ')}` });
+    }
+
+    const result = await editChunk(id, changes);
+    if (!result) {
+      return res.status(404).json({ message: `Chunk ${id} not found` });
+    }
+
+    const { embedding, ...chunk } = result.chunk;
+    res.status(200).json({
+      message: result.changedFields.length > 0 ? 'Chunk updated' : 'No changes to apply',
+      chunk,
+      changedFields: result.changedFields,
+      reembedded: result.reembedded
+    });
+  } catch (error) {
+    logger.error('Error updating chunk:', error);
+    res.status(500).json({ message: 'Failed to update chunk' });
+  }
+};
+
+// Get the current version of a chunk and the versions it replaced
+export const getChunkHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const chunk = await dbService.getChunkById(id);
+    if (!chunk) {
+      return res.status(404).json({ message: `Chunk ${id} not found` });
+    }
+
+    const { embedding, history, ...current } = chunk;
+    res.status(200).json({
+      chunkId: id,
+      currentVersion: chunk.version,
+      current,
+      history: history || []
+    });
+  } catch (error) {
+    logger.error('Error getting chunk history:', error);
+    res.status(500).json({ message: 'Failed to get chunk history' });
+  }
+};
+
+// Restore the text of an earlier version of a chunk
+export const rollbackChunkVersion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ message: 'Version must be a positive integer' });
+    }
+
+    const chunk = await dbService.getChunkById(id);
+    if (!chunk) {
+      return res.status(404).json({ message: `Chunk ${id} not found` });
+    }
+    if (version === chunk.version) {
+      return res.status(409).json({ message: `Version ${version} is already the current version` });
+    }
+
+    const revision = (chunk.history || []).find(entry => entry.version === version);
+    if (!revision) {
+      return res.status(404).json({ message: `Version ${version} of chunk ${id} not found` });
+    }
+
+    const result = await rollbackChunk(chunk, revision);
+    const { embedding, ...updated } = result.chunk;
+    res.status(200).json({
+      message: result.changedFields.length > 0
+        ? `Restored version ${version} as version ${result.chunk.version}`
+        : `Version ${version} has the same text as the current version`,
+      chunk: updated,
+      changedFields: result.changedFields,
+      reembedded: result.reembedded
+    });
+  } catch (error) {
+    logger.error('Error rolling back chunk:', error);
+    res.status(500).json({ message: 'Failed to roll back chunk' });
+  }
+};
+
 // Search documents by name
 export const searchDocumentsByName = async (req: Request, res: Response) => {
   try {
@@ -425,29 +702,232 @@ export const searchDocumentsByName = async (req: Request, res: Response) => {
     
     // Properly decode the search term
     const decodedTerm = decodeURIComponent(term);
-    console.log(`Searching for documents with decoded term: "${decodedTerm}"`);
-    
-    // First get all documents
-    const allDocuments = await dbService.getUniqueDocumentNames();
+    logger.info(`Searching for documents with decoded term: "${decodedTerm}"`);
     
-    // Filter documents by name using case-insensitive and normalized comparison
-    const filteredDocuments = allDocuments.filter(docName => {
-      // Normalize both strings for comparison to handle diacritics properly
-      const normalizedDocName = docName.toLowerCase().normalize('NFC');
-      const normalizedTerm = decodedTerm.toLowerCase().normalize('NFC');
-      return normalizedDocName.includes(normalizedTerm);
+    // Match titles, slugs and file names, ignoring case and Vietnamese diacritics
+    const { documents, total, hasMore } = documentRegistry.list({
+      status: DocumentStatus.READY,
+      search: decodedTerm,
+      pageSize: searchLimit
     });
     
-    console.log(`Found ${filteredDocuments.length} documents matching term "${decodedTerm}"`);
+    logger.info(`Found ${total} documents matching term "${decodedTerm}"`);
     
-    // Return the filtered list, limited to the specified count
+    // Return the matching documents, limited to the specified count
     res.status(200).json({
-      documents: filteredDocuments.slice(0, searchLimit),
-      total: filteredDocuments.length,
-      hasMore: filteredDocuments.length > searchLimit
+      documents: documents.map(doc => ({
+        id: doc.id,
+        slug: doc.slug,
+        documentName: doc.documentName,
+        chunkCount: doc.chunkCount
+      })),
+      total,
+      hasMore
     });
   } catch (error) {
-    console.error('Error searching documents by name:', error);
+    logger.error('Error searching documents by name:', error);
     res.status(500).json({ message: 'Failed to search documents' });
   }
-}; 
\ No newline at end of file
+}; 
+
+// List registered documents one page at a time
+export const listRegisteredDocuments = async (req: Request, res: Response) => {
+  try {
+    const { page, pageSize, status, domain, q } = req.query;
+
+    if (status !== undefined && !Object.values(DocumentStatus).includes(status as DocumentStatus)) {
+      return res.status(400).json({ message: `Invalid status. Expected one of: ${Object.values(DocumentStatus).join(', ')}` });
+    }
+
+    res.status(200).json(documentRegistry.list({
+      page: page && !isNaN(Number(page)) ? Number(page) : undefined,
+      pageSize: pageSize && !isNaN(Number(pageSize)) ? Number(pageSize) : undefined,
+      status: status as DocumentStatus | undefined,
+      domain: typeof domain === 'string' && domain ? domain : undefined,
+      search: typeof q === 'string' && q.trim() ? q.trim() : undefined
+    }));
+  } catch (error) {
+    logger.error('Error listing registered documents:', error);
+    res.status(500).json({ message: 'Failed to list documents' });
+  }
+};
+
+// Check whether a file with the given SHA-256 hash has already been uploaded
+export const checkDuplicate = async (req: Request, res: Response) => {
+  try {
+    const hash = typeof req.query.hash === 'string' ? req.query.hash.trim().toLowerCase() : '';
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      return res.status(400).json({ message: 'hash must be a hex-encoded SHA-256 digest' });
+    }
+
+    const duplicates = documentRegistry.findDuplicates({ fileHash: hash });
+    res.status(200).json({
+      duplicate: duplicates.length > 0,
+      documents: duplicates.map(duplicateSummary)
+    });
+  } catch (error) {
+    logger.error('Error checking for duplicate uploads:', error);
+    res.status(500).json({ message: 'Failed to check for duplicates' });
+  }
+};
+
+// Get the registry record of a document
+export const getDocument = async (req: Request, res: Response) => {
+  try {
+    const document = documentRegistry.get(req.params.id);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+    res.status(200).json(document);
+  } catch (error) {
+    logger.error('Error getting document:', error);
+    res.status(500).json({ message: 'Failed to get document' });
+  }
+};
+
+// Rename or re-tag a document and all of its chunks
+export const updateDocument = async (req: Request, res: Response) => {
+  try {
+    const { documentTitle, domains } = req.body;
+
+    if (documentTitle !== undefined && (typeof documentTitle !== 'string' || !documentTitle.trim())) {
+      return res.status(400).json({ message: 'documentTitle must be a non-empty string' });
+    }
+    if (domains !== undefined && (!Array.isArray(domains) || domains.length === 0 || !domains.every(d => typeof d === 'string' && d.trim()))) {
+      return res.status(400).json({ message: 'domains must be a non-empty array of strings' });
+    }
+    if (documentTitle === undefined && domains === undefined) {
+      return res.status(400).json({ message: 'Nothing to update. Editable fields: documentTitle, domains' });
+    }
+
+    const existing = documentRegistry.get(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+    if (existing.status === DocumentStatus.PROCESSING) {
+      return res.status(409).json({ message: 'Document is still being processed' });
+    }
+
+    const document = await documentRegistry.update(req.params.id, {
+      ...(documentTitle !== undefined && { documentTitle: documentTitle.trim() }),
+      ...(domains !== undefined && { domains: domains.map((d: string) => d.trim()) })
+    });
+    res.status(200).json(document);
+  } catch (error) {
+    logger.error('Error updating document:', error);
+    if (error instanceof ServiceUnavailableError) {
+      return res.status(503).json({ message: 'Vector database is unavailable; the document was not changed' });
+    }
+    res.status(500).json({ message: 'Failed to update document' });
+  }
+};
+
+// Delete a document and all of its chunks, cancelling its ingestion job if it is still running.
+// A job storing its chunks is not interrupted, so none are written after the document is gone.
+export const deleteDocument = async (req: Request, res: Response) => {
+  try {
+    const document = documentRegistry.get(req.params.id);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    const job = document.jobId ? jobQueue.getJob(document.jobId) : undefined;
+    if (job && (job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING)) {
+      if (!jobQueue.isCancellable(job)) {
+        return res.status(409).json({ message: 'Document chunks are being stored; delete it once its job has finished' });
+      }
+      jobQueue.cancel(job.id);
+    }
+
+    const deletedCount = await documentRegistry.remove(document.id);
+    res.status(200).json({
+      message: `Deleted document "${document.documentTitle}" with ${deletedCount} chunks`,
+      deletedCount
+    });
+  } catch (error) {
+    logger.error('Error deleting document:', error);
+    if (error instanceof ServiceUnavailableError) {
+      return res.status(503).json({ message: 'Vector database is unavailable; the document was not deleted' });
+    }
+    res.status(500).json({ message: 'Failed to delete document' });
+  }
+};
+
+// Rerun parsing, chunking, enhancement and embedding over a document's archived original
+// with a new chunking configuration, swapping its chunks once the new ones are stored
+export const reprocessDocument = async (req: Request, res: Response) => {
+  try {
+    const requestedConfig = req.body.chunkingConfig ?? {};
+    if (typeof requestedConfig !== 'object' || Array.isArray(requestedConfig)) {
+      return res.status(400).json({ message: 'chunkingConfig must be an object' });
+    }
+    const chunkingOptions = chunkingConfigFromRequest(requestedConfig, true);
+    if (chunkingOptions.error !== undefined) {
+      return res.status(400).json({ message: chunkingOptions.error });
+    }
+
+    const document = documentRegistry.get(req.params.id);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+    if (document.status === DocumentStatus.PROCESSING) {
+      return res.status(409).json({ message: 'Document is still being processed' });
+    }
+    const originalFiles = document.originalFiles || [];
+    if (originalFiles.length === 0 || originalFiles.some(file => !fs.existsSync(file.path))) {
+      return res.status(409).json({ message: 'The original upload of this document is not archived, so it cannot be reprocessed' });
+    }
+
+    // Options that are not supplied keep the values the document was ingested with
+    const config: Partial<ChunkingConfig> = { ...document.ingestionConfig, ...chunkingOptions.config };
+    const sizeError = chunkSizeError(config);
+    if (sizeError) {
+      return res.status(400).json({ message: `${sizeError} (with the sizes the document was ingested with)` });
+    }
+    const kind = document.sourceType === 'image' ? 'image-folder' : 'document';
+    const job = jobQueue.enqueue({
+      kind,
+      documentId: kind === 'image-folder'
+        ? `scan-batch-${Date.now()}`
+        : path.basename(originalFiles[0].originalName, path.extname(originalFiles[0].originalName)),
+      documentRecordId: document.id,
+      documentTitle: document.documentName,
+      files: originalFiles,
+      domains: document.domains,
+      chunkingConfig: config,
+      // Other copies of the same content were kept when this document was uploaded
+      duplicateAction: 'keep_both',
+      reprocess: true,
+      llmBudget: llmBudgetFromRequest(req.body)
+    });
+    documentRegistry.setStatus(document.id, DocumentStatus.PROCESSING);
+    documentRegistry.attachJob(document.id, job.id);
+
+    res.status(202).json({
+      message: 'Document queued for reprocessing; the job reports the chunk changes when it completes',
+      jobId: job.id,
+      documentId: document.id,
+      chunkingConfig: config
+    });
+  } catch (error) {
+    logger.error('Error queuing document for reprocessing:', error);
+    res.status(500).json({ message: 'Failed to reprocess document' });
+  }
+};
+
+// Store document slugs on all chunks and repair underscore-mangled document names
+export const repairDocumentNames = async (req: Request, res: Response) => {
+  try {
+    const repairs = await documentRegistry.repairDocumentNames();
+    res.status(200).json({
+      message: `Repaired ${repairs.length} document names`,
+      repairs
+    });
+  } catch (error) {
+    logger.error('Error repairing document names:', error);
+    if (error instanceof ServiceUnavailableError) {
+      return res.status(503).json({ message: 'Vector database is unavailable; documents not yet repaired keep their names' });
+    }
+    res.status(500).json({ message: 'Failed to repair document names' });
+  }
+};
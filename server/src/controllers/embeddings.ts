@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { pendingEmbeddings } from '../services/pending-embeddings';
+import { embeddingCache } from '../services/embedding-cache';
+import { EmbeddingStatus } from '../services/chunking';
+import { logger } from '../core/logger';
+
+// Statuses of the chunks waiting for a real embedding
+const UNEMBEDDED_STATUSES: EmbeddingStatus[] = ['pending', 'failed'];
+
+// List the chunks stored without a real embedding, optionally filtered by status
+export const listPendingEmbeddings = async (req: Request, res: Response) => {
+  try {
+    const { status, limit } = req.query;
+
+    if (status && !UNEMBEDDED_STATUSES.includes(status as EmbeddingStatus)) {
+      return res.status(400).json({ message: `Invalid status. Expected one of: ${UNEMBEDDED_STATUSES.join(', ')}` });
+    }
+
+    const chunkLimit = limit && !isNaN(Number(limit)) ? Number(limit) : 100;
+    const statuses: EmbeddingStatus[] = status ? [status as EmbeddingStatus] : UNEMBEDDED_STATUSES;
+
+    res.status(200).json(await pendingEmbeddings.list(statuses, chunkLimit));
+  } catch (error) {
+    logger.error('Error listing pending embeddings:', error);
+    res.status(500).json({ message: 'Failed to list pending embeddings' });
+  }
+};
+
+// Queue failed chunks for embedding again and retry pending chunks right away
+export const retryPendingEmbeddings = async (req: Request, res: Response) => {
+  try {
+    const retried = await pendingEmbeddings.retry();
+    res.status(202).json({ message: 'Embedding retry started', retried });
+  } catch (error) {
+    logger.error('Error retrying pending embeddings:', error);
+    res.status(500).json({ message: 'Failed to retry pending embeddings' });
+  }
+};
+
+// Report the size of the embedding cache and its hits and misses
+export const getEmbeddingCacheStats = (req: Request, res: Response) => {
+  res.status(200).json(embeddingCache.stats());
+};
+
+// Remove every cached embedding, so the next embedding of any text calls the provider
+export const clearEmbeddingCache = (req: Request, res: Response) => {
+  try {
+    const cleared = embeddingCache.clear();
+    res.status(200).json({ message: 'Embedding cache cleared', cleared });
+  } catch (error) {
+    logger.error('Error clearing the embedding cache:', error);
+    res.status(500).json({ message: 'Failed to clear the embedding cache' });
+  }
+};
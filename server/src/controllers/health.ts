@@ -0,0 +1,19 @@
+import { Request, Response } from 'express';
+import { healthService } from '../services/health';
+import { logger } from '../core/logger';
+
+// Report that the server process is running
+export const getHealth = (req: Request, res: Response) => {
+  res.status(200).json(healthService.liveness());
+};
+
+// Report the state of every dependency; 503 while Qdrant or the collection is unavailable
+export const getReadiness = async (req: Request, res: Response) => {
+  try {
+    const report = await healthService.readiness();
+    res.status(report.status === 'unavailable' ? 503 : 200).json(report);
+  } catch (error) {
+    logger.error('Error checking readiness:', error);
+    res.status(503).json({ status: 'unavailable', message: 'Failed to check dependencies' });
+  }
+};
@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { jobQueue } from '../services/job-queue';
+import { JobStatus } from '../types/job';
+import { logger } from '../core/logger';
+
+// List ingestion jobs, newest first, optionally filtered by status
+export const listJobs = async (req: Request, res: Response) => {
+  try {
+    const { status, limit } = req.query;
+
+    if (status && !Object.values(JobStatus).includes(status as JobStatus)) {
+      return res.status(400).json({ message: `Invalid status. Expected one of: ${Object.values(JobStatus).join(', ')}` });
+    }
+
+    const jobLimit = limit && !isNaN(Number(limit)) ? Number(limit) : 50;
+    const jobs = jobQueue.listJobs(status as JobStatus | undefined, jobLimit);
+
+    res.status(200).json({ jobs, total: jobs.length });
+  } catch (error) {
+    logger.error('Error listing jobs:', error);
+    res.status(500).json({ message: 'Failed to list jobs' });
+  }
+};
+
+// Get a single ingestion job with its stage and per-page state
+export const getJob = async (req: Request, res: Response) => {
+  try {
+    const job = jobQueue.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    res.status(200).json(job);
+  } catch (error) {
+    logger.error('Error getting job:', error);
+    res.status(500).json({ message: 'Failed to get job' });
+  }
+};
+
+// Cancel a queued or running job
+export const cancelJob = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!jobQueue.getJob(id)) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    const job = jobQueue.cancel(id);
+    if (!job) {
+      return res.status(409).json({ message: 'Only queued or running jobs that are not storing their chunks can be cancelled' });
+    }
+
+    res.status(200).json({ message: 'Job cancelled', job });
+  } catch (error) {
+    logger.error('Error cancelling job:', error);
+    res.status(500).json({ message: 'Failed to cancel job' });
+  }
+};
+
+// Re-queue a failed job; it resumes from its last completed stage
+export const retryJob = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!jobQueue.getJob(id)) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    const job = jobQueue.retry(id);
+    if (!job) {
+      return res.status(409).json({ message: 'Only failed jobs with available input files can be retried' });
+    }
+
+    res.status(202).json({ message: 'Job queued for retry', job });
+  } catch (error) {
+    logger.error('Error retrying job:', error);
+    res.status(500).json({ message: 'Failed to retry job' });
+  }
+};
@@ -0,0 +1,14 @@
+import { Request, Response } from 'express';
+import { metricsRegistry } from '../core/metrics';
+import { logger } from '../core/logger';
+
+// Serve all metrics in the Prometheus text format
+export const getMetrics = async (req: Request, res: Response) => {
+  try {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.end(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error('Error collecting metrics:', error);
+    res.status(500).json({ message: 'Failed to collect metrics' });
+  }
+};
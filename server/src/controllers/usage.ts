@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { llmUsage } from '../services/llm-usage';
+import { logger } from '../core/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/;
+
+// Report Gemini token usage and cost by day, document and stage
+export const getUsage = (req: Request, res: Response) => {
+  try {
+    const { from, to, documentId, jobId } = req.query;
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && (typeof value !== 'string' || !DATE_PATTERN.test(value))) {
+        return res.status(400).json({ message: `${name} must be a date (YYYY-MM-DD) or an ISO timestamp` });
+      }
+    }
+
+    res.status(200).json(llmUsage.report({
+      from: from as string | undefined,
+      to: to as string | undefined,
+      documentId: typeof documentId === 'string' ? documentId : undefined,
+      jobId: typeof jobId === 'string' ? jobId : undefined
+    }));
+  } catch (error) {
+    logger.error('Error building usage report:', error);
+    res.status(500).json({ message: 'Failed to build usage report' });
+  }
+};
@@ -3,6 +3,9 @@ import { extractYouTubeId, processYoutubeTranscript, getVideoDetails } from '../
 import { DatabaseService } from '../core/database-service';
 import { isAuthenticated, tokenStore } from '../services/youtube-auth';
 import { progressTracker } from '../services/progress-tracker';
+import { documentRegistry } from '../services/document-registry';
+import { DocumentStatus } from '../types/document';
+import { logger } from '../core/logger';
 
 // Create a singleton instance of the database service
 const dbService = new DatabaseService();
@@ -25,14 +28,14 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
     }
     
     // Initialize progress tracking
-    progressTracker.initializeProgressTracking(videoId, socketId);
+    progressTracker.initializeProgressTracking(videoId, 'youtube', socketId);
     
     // First, check if this video has already been transcribed
     progressTracker.updateTranscriptFetch(videoId, 'Checking if transcript already exists', 10);
     const transcriptExists = await dbService.doesTranscriptExist(videoId);
     
     if (transcriptExists) {
-      progressTracker.completeProcessing(videoId, 0);
+      progressTracker.completeProcessing(videoId, 'youtube', 0);
       return res.status(200).json({
         message: 'This video has already been transcribed',
         videoId,
@@ -68,7 +71,7 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
     const chunkSize = req.body.chunkSize ? parseInt(req.body.chunkSize, 10) : 4000;
     const chunkOverlap = req.body.chunkOverlap ? parseInt(req.body.chunkOverlap, 10) : 500;
     
-    console.log(`Processing YouTube video: "${videoDetails.title}" (${videoId}) in domains: ${domains.join(', ')}`);
+    logger.info(`Processing YouTube video: "${videoDetails.title}" (${videoId}) in domains: ${domains.join(', ')}`);
     progressTracker.updateTranscriptFetch(videoId, `Processing YouTube video: "${videoDetails.title}"`, 30);
     
     // Authentication data from multiple sources
@@ -82,11 +85,11 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
     
     if (authHeader && authHeader.startsWith('Bearer ')) {
       accessToken = authHeader.substring(7); // Remove "Bearer " prefix
-      console.log('Using access token from Authorization header');
+      logger.info('Using access token from Authorization header');
       
       // Validate token format
       if (!accessToken || accessToken.length < 20) {
-        console.warn('Invalid access token format, but proceeding with alternative methods');
+        logger.warn('Invalid access token format, but proceeding with alternative methods');
         accessToken = undefined;
       }
     }
@@ -96,7 +99,7 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
     
     // Note: Authentication is preferred but no longer strictly required
     // due to our web scraping fallback approach
-    console.log(`User authentication status: ${useOAuth ? 'Authenticated' : 'Not authenticated (using fallback methods)'}`);
+    logger.info(`User authentication status: ${useOAuth ? 'Authenticated' : 'Not authenticated (using fallback methods)'}`);
     progressTracker.updateTranscriptFetch(
       videoId, 
       `Auth status: ${useOAuth ? 'Authenticated' : 'Not authenticated (will use fallback methods)'}`,
@@ -124,10 +127,12 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
             progressTracker.updateTranscriptFetch(videoId, message, progress);
             break;
           case 'transcript_process':
-            progressTracker.updateTranscriptProcess(videoId, message, progress);
             // Check if this is the special message containing total chunks info
             if (message.startsWith('Total chunks:')) {
               totalChunks = progress || totalChunks;
+              progressTracker.updateTranscriptProcess(videoId, message, 80);
+            } else {
+              progressTracker.updateTranscriptProcess(videoId, message, progress);
             }
             break;
           case 'chunk_creation':
@@ -144,26 +149,39 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
       }
     );
     
-    console.log(`Created ${chunks.length} chunks for YouTube video ${videoId}`);
+    logger.info(`Created ${chunks.length} chunks for YouTube video ${videoId}`);
     progressTracker.updateChunkStorage(videoId, `Storing ${chunks.length} chunks`, 90);
     
-    // Store all chunks in database
-    await dbService.addDocumentChunks(chunks);
+    // Register the video as a document and store all chunks in database
+    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const document = documentRegistry.register({
+      documentName: chunks[0]?.documentName || videoDetails.title,
+      documentTitle: videoDetails.title,
+      originalFilename: videoUrl,
+      mimeType: 'video/youtube',
+      sourceType: 'youtube',
+      domains,
+      ingestionConfig: { chunkSize, chunkOverlap },
+      status: DocumentStatus.READY,
+      chunkCount: chunks.length
+    });
+    await dbService.addDocumentChunks(chunks.map(chunk => ({ ...chunk, documentId: document.id, documentSlug: document.slug })));
     
-    progressTracker.completeProcessing(videoId, chunks.length);
+    progressTracker.completeProcessing(videoId, 'youtube', chunks.length);
     
     res.status(200).json({
       message: 'YouTube transcript extracted, chunked and embedded successfully',
       totalChunks: chunks.length,
+      documentId: document.id,
       videoId,
-      videoUrl: `https://www.youtube.com/watch?v=${videoId}`,
+      videoUrl,
       videoTitle: videoDetails.title,
       videoDescription: videoDetails.description || '',
       domains,
       usedOAuth: useOAuth
     });
   } catch (error) {
-    console.error('Error processing YouTube transcript:', error);
+    logger.error('Error processing YouTube transcript:', error);
     
     // Get videoId from request body if available for error reporting
     const videoId = extractYouTubeId(req.body.youtubeUrl);
@@ -199,7 +217,7 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
         errorMessage = `${errorMessage}: ${error.message}`;
       }
 
-      console.error('Error details:', {
+      logger.error('Error details:', {
         name: error.name,
         message: error.message,
         stack: error.stack
@@ -207,7 +225,7 @@ export const processYoutubeVideo = async (req: Request, res: Response) => {
       
       // Report error via progress tracker if we have a video ID
       if (videoId) {
-        progressTracker.reportError(videoId, errorMessage, error.message);
+        progressTracker.reportError(videoId, 'youtube', errorMessage, error.message);
       }
     }
     
@@ -247,7 +265,7 @@ export const checkTranscriptExists = async (req: Request, res: Response) => {
       videoId
     });
   } catch (error) {
-    console.error('Error checking transcript existence:', error);
+    logger.error('Error checking transcript existence:', error);
     
     res.status(500).json({ 
       message: 'Failed to check if transcript exists',
@@ -265,13 +283,13 @@ export const countYoutubeVideoChunks = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Video ID is required' });
     }
     
-    console.log(`Counting chunks for YouTube video: ${videoId}`);
+    logger.info(`Counting chunks for YouTube video: ${videoId}`);
     
     // Check if the transcript exists before counting
     const transcriptExists = await dbService.doesTranscriptExist(videoId);
     
     if (!transcriptExists) {
-      console.log(`No transcript found for video ID: ${videoId}`);
+      logger.info(`No transcript found for video ID: ${videoId}`);
       return res.status(404).json({
         message: 'No transcript found for this video ID',
         videoId,
@@ -280,10 +298,10 @@ export const countYoutubeVideoChunks = async (req: Request, res: Response) => {
     }
     
     try {
-      console.log(`Transcript found for ${videoId}. Counting chunks...`);
+      logger.info(`Transcript found for ${videoId}. Counting chunks...`);
       const count = await dbService.countYoutubeTranscriptChunks(videoId);
       
-      console.log(`Found ${count} chunks for YouTube video: ${videoId}`);
+      logger.info(`Found ${count} chunks for YouTube video: ${videoId}`);
       
       return res.status(200).json({
         message: `Found ${count} chunks for the video`,
@@ -291,7 +309,7 @@ export const countYoutubeVideoChunks = async (req: Request, res: Response) => {
         count
       });
     } catch (countError: any) {
-      console.error(`Error in Qdrant during countYoutubeTranscriptChunks:`, countError);
+      logger.error(`Error in Qdrant during countYoutubeTranscriptChunks:`, countError);
       
       // Provide a detailed error message
       return res.status(500).json({
@@ -301,7 +319,7 @@ export const countYoutubeVideoChunks = async (req: Request, res: Response) => {
       });
     }
   } catch (error: any) {
-    console.error('Error in countYoutubeVideoChunks controller:', error);
+    logger.error('Error in countYoutubeVideoChunks controller:', error);
     return res.status(500).json({
       message: 'An error occurred while processing your request',
       error: error.message || 'Unknown error'
@@ -318,13 +336,13 @@ export const deleteYoutubeVideoChunks = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Video ID is required' });
     }
     
-    console.log(`Attempting to delete all chunks for YouTube video: ${videoId}`);
+    logger.info(`Attempting to delete all chunks for YouTube video: ${videoId}`);
     
     // Check if the transcript exists before attempting deletion
     const transcriptExists = await dbService.doesTranscriptExist(videoId);
     
     if (!transcriptExists) {
-      console.log(`No transcript found for video ID: ${videoId}`);
+      logger.info(`No transcript found for video ID: ${videoId}`);
       return res.status(404).json({
         message: 'No transcript found for this video ID',
         videoId
@@ -332,10 +350,15 @@ export const deleteYoutubeVideoChunks = async (req: Request, res: Response) => {
     }
     
     try {
-      console.log(`Transcript found for ${videoId}. Proceeding with deletion...`);
+      logger.info(`Transcript found for ${videoId}. Proceeding with deletion...`);
       const deletedCount = await dbService.deleteYoutubeTranscriptChunks(videoId);
       
-      console.log(`Successfully deleted ${deletedCount} chunks for YouTube video: ${videoId}`);
+      logger.info(`Successfully deleted ${deletedCount} chunks for YouTube video: ${videoId}`);
+      
+      // The chunks are gone, so the video is no longer a registered document
+      for (const document of documentRegistry.findByOriginalFilename(`https://www.youtube.com/watch?v=${videoId}`)) {
+        documentRegistry.forget(document.id);
+      }
       
       return res.status(200).json({
         message: `Successfully deleted ${deletedCount} chunks for the video`,
@@ -343,7 +366,7 @@ export const deleteYoutubeVideoChunks = async (req: Request, res: Response) => {
         deletedCount
       });
     } catch (deleteError: any) {
-      console.error(`Error in Qdrant during deleteYoutubeTranscriptChunks:`, deleteError);
+      logger.error(`Error in Qdrant during deleteYoutubeTranscriptChunks:`, deleteError);
       
       // Provide a detailed error message
       return res.status(500).json({
@@ -353,7 +376,7 @@ export const deleteYoutubeVideoChunks = async (req: Request, res: Response) => {
       });
     }
   } catch (error: any) {
-    console.error('Error in deleteYoutubeVideoChunks controller:', error);
+    logger.error('Error in deleteYoutubeVideoChunks controller:', error);
     return res.status(500).json({
       message: 'An error occurred while processing your request',
       error: error.message || 'Unknown error'
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+/**
+ * Content hashes used to detect duplicate uploads.
+ *
+ * The file hash of a single upload is the SHA-256 of its bytes. The file hash of a
+ * multi-file upload (an image folder) is the SHA-256 of the per-file hex digests
+ * joined by newlines, in upload order; clients compute the same value before uploading.
+ */
+
+const sha256 = (data: string | Buffer): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * SHA-256 of a file, streamed so large uploads are not read into memory
+ * @param filePath File to hash
+ */
+export const hashFile = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
+/**
+ * File hash of an upload made of one or more files
+ * @param filePaths Uploaded files in upload order
+ */
+export const hashUpload = async (filePaths: string[]): Promise<string> => {
+  const digests: string[] = [];
+  for (const filePath of filePaths) {
+    digests.push(await hashFile(filePath));
+  }
+  return digests.length === 1 ? digests[0] : sha256(digests.join('\n'));
+};
+
+/**
+ * SHA-256 of the parsed text of a document, ignoring case, Unicode composition and
+ * whitespace, so the same content parsed from a different file still matches
+ * @param pages Parsed pages in page order
+ */
+export const hashNormalizedText = (pages: { content: string }[]): string =>
+  sha256(
+    pages
+      .map(page => page.content.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join(' ')
+  );
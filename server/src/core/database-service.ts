@@ -1,8 +1,15 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
 import dotenv from 'dotenv';
 import { FallbackService } from './fallback-service';
-import { DocumentChunk } from '../services/chunking';
+import path from 'path';
+import { DocumentChunk, EmbeddingField, EmbeddingStatus, PassageSpan, SourceType } from '../services/chunking';
+import { LexicalIndex } from './lexical-index';
 import { v4 as uuidv4 } from 'uuid';
+import { activeEmbeddingModel, onEmbeddingModelChange } from './embedding-model';
+import { PersistentChunkMap } from './fallback-store';
+import { dataPath, readJson, writeJsonAtomic } from './json-store';
+import { timeStage } from './metrics';
+import { logger, startLogContext } from './logger';
 
 // Load environment variables
 dotenv.config();
@@ -10,82 +17,554 @@ dotenv.config();
 // Configuration constants
 const QDRANT_URL = process.env.QDRANT_URL || 'http://localhost:6333';
 const QDRANT_API_KEY = process.env.QDRANT_API_KEY;
-const COLLECTION_NAME = process.env.COLLECTION_NAME || 'knowledge_base';
-const VECTOR_SIZE = parseInt(process.env.GEMINI_VECTOR_SIZE || '768', 10); // Gemini embedding size
+// Collection created on first start; embedding migrations create versioned successors
+export const COLLECTION_NAME = process.env.COLLECTION_NAME || 'knowledge_base';
+// Alias all reads and writes go through, switched atomically when an embedding migration completes
+export const COLLECTION_ALIAS = process.env.COLLECTION_ALIAS || `${COLLECTION_NAME}_active`;
 
-// In-memory storage for fallback when Qdrant is not available
-const inMemoryDocuments = new Map<string, { document: DocumentChunk }>();
+// Payload fields indexed in every knowledge base collection
+const PAYLOAD_INDEX_FIELDS = ['documentName', 'title', 'domains', 'sourceType', 'documentId', 'embeddingStatus'];
+
+/**
+ * Create a Qdrant client for the configured server
+ */
+export const createQdrantClient = (): QdrantClient => new QdrantClient({
+  url: QDRANT_URL,
+  apiKey: QDRANT_API_KEY
+});
+
+/**
+ * How a collection stores the vectors of a chunk:
+ * - single: one vector per point, the mean of the content passages (oldest collections)
+ * - passages: one vector per content passage, scored by the best passage
+ * - named: a named vector per embedded field; raw and enhanced hold a vector per passage
+ */
+export type VectorLayout = 'single' | 'passages' | 'named';
+
+/**
+ * Create a knowledge base collection with its payload indices. Each point holds a
+ * named vector per embedded field of its chunk; the content fields hold one vector
+ * per passage and are scored by their best-matching passage.
+ * @param client Qdrant client
+ * @param collectionName Name of the new collection
+ * @param vectorSize Size of the embedding vectors stored in it
+ */
+export const createKnowledgeBaseCollection = async (
+  client: QdrantClient,
+  collectionName: string,
+  vectorSize: number
+): Promise<void> => {
+  logger.info(`Creating Qdrant collection: ${collectionName} with vector size: ${vectorSize}`);
+  const passageVectors = { size: vectorSize, distance: 'Cosine' as const, multivector_config: { comparator: 'max_sim' as const } };
+  await client.createCollection(collectionName, {
+    vectors: {
+      raw: passageVectors,
+      enhanced: passageVectors,
+      summary: { size: vectorSize, distance: 'Cosine' }
+    }
+  });
+  
+  for (const field of PAYLOAD_INDEX_FIELDS) {
+    await client.createPayloadIndex(collectionName, {
+      field_name: field,
+      field_schema: 'keyword'
+    });
+  }
+};
+
+type ChunkVectorFields = Pick<DocumentChunk, 'embedding' | 'passageEmbeddings' | 'enhancedEmbeddings' | 'summaryEmbedding'>;
+
+/**
+ * Vectors of a chunk, one per passage
+ * @param chunk Chunk with its embedding
+ */
+export const chunkVectors = (chunk: Pick<DocumentChunk, 'embedding' | 'passageEmbeddings'>): number[][] =>
+  chunk.passageEmbeddings?.length ? chunk.passageEmbeddings : [chunk.embedding];
+
+/**
+ * Vectors of one embedded field of a chunk. A chunk without enhanced content, or
+ * without a title and summary, is represented by its content vectors in that field,
+ * so a search of any field covers every chunk.
+ * @param chunk Chunk with its embeddings
+ * @param field Embedded field
+ */
+export const fieldVectors = (chunk: ChunkVectorFields, field: EmbeddingField): number[][] => {
+  switch (field) {
+    case 'enhanced':
+      return chunk.enhancedEmbeddings?.length ? chunk.enhancedEmbeddings : chunkVectors(chunk);
+    case 'summary':
+      return [chunk.summaryEmbedding ?? chunk.embedding];
+    default:
+      return chunkVectors(chunk);
+  }
+};
+
+const meanVector = (vectors: number[][]): number[] =>
+  vectors[0].map((_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length);
+
+/**
+ * Qdrant vector of a chunk in a collection with the given layout
+ * @param chunk Chunk with its embeddings
+ * @param layout Vector layout of the collection
+ */
+export const toPointVector = (
+  chunk: ChunkVectorFields,
+  layout: VectorLayout
+): number[] | number[][] | Record<EmbeddingField, number[] | number[][]> => {
+  switch (layout) {
+    case 'named':
+      return {
+        raw: fieldVectors(chunk, 'raw'),
+        enhanced: fieldVectors(chunk, 'enhanced'),
+        summary: fieldVectors(chunk, 'summary')[0]
+      };
+    case 'passages':
+      return chunkVectors(chunk);
+    default:
+      return meanVector(chunkVectors(chunk));
+  }
+};
+
+/**
+ * Determine the vector layout of a collection from its vector configuration
+ * @param vectors The `config.params.vectors` of the collection info
+ */
+export const vectorLayoutOf = (vectors: unknown): VectorLayout => {
+  const config = vectors as { size?: unknown; multivector_config?: unknown } | undefined;
+  if (config && typeof config.size !== 'number') return 'named';
+  return config?.multivector_config ? 'passages' : 'single';
+};
+
+// The layout of the collection behind the alias is re-checked after this long, and as
+// soon as an embedding migration switches the alias to a collection with another layout
+const VECTOR_LAYOUT_CACHE_MS = 60000;
+let vectorLayoutCache: { value: VectorLayout; checkedAt: number } | null = null;
+onEmbeddingModelChange(() => { vectorLayoutCache = null; });
+
+// Each field contributes this many candidates per requested result when several are searched
+const FIELD_CANDIDATE_FACTOR = 3;
+
+// Relative weight of each embedded field in a vector search; fields left out are not searched
+export type FieldWeights = Partial<Record<EmbeddingField, number>>;
+const DEFAULT_FIELD_WEIGHTS: FieldWeights = { raw: 1 };
+
+// Weighted mean of the similarity of each searched field
+const weightedScore = (fieldScores: FieldWeights, weights: FieldWeights): number => {
+  let total = 0;
+  let weightSum = 0;
+  for (const [field, weight] of Object.entries(weights) as [EmbeddingField, number][]) {
+    total += (fieldScores[field] ?? 0) * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? total / weightSum : 0;
+};
+
+// Chunks whose vector is a placeholder, which vector search must not return
+const UNEMBEDDED_STATUSES: EmbeddingStatus[] = ['pending', 'failed'];
+const UNEMBEDDED_CONDITION = { key: 'embeddingStatus', match: { any: UNEMBEDDED_STATUSES } };
+const isEmbedded = (chunk: Pick<DocumentChunk, 'embeddingStatus'>) => !UNEMBEDDED_STATUSES.includes(chunk.embeddingStatus as EmbeddingStatus);
+
+// Storage for fallback when Qdrant is not available, persisted until it is synced to Qdrant
+const inMemoryDocuments = new PersistentChunkMap('fallback-chunks.jsonl');
+
+// Keyword (BM25) indexes over the in-memory fallback store and the Qdrant collection.
+// The Qdrant index is built from the collection on the first keyword search and kept in sync afterwards.
+const inMemoryLexicalIndex = new LexicalIndex();
+const qdrantLexicalIndex = new LexicalIndex();
+let qdrantLexicalIndexLoad: Promise<void> | null = null;
+
+// Filterable fields of the chunks in the Qdrant keyword index, used to filter keyword matches
+type ChunkFacets = Pick<DocumentChunk, 'id' | 'documentId' | 'ingestionJobId' | 'documentName' | 'domains' | 'sourceFile' | 'sourceType'>;
+// Payload fields the Qdrant keyword index is built from: the indexed text and the facets
+const LEXICAL_INDEX_FIELDS = [
+  'id', 'title', 'summary', 'content', 'enhancedContent', 'documentId', 'ingestionJobId',
+  'documentName', 'domains', 'sourceFile', 'sourceType', 'pageStart', 'pageEnd'
+] as const;
+const qdrantChunkFacets = new Map<string, ChunkFacets>();
+
+for (const [id, { document }] of inMemoryDocuments) {
+  inMemoryLexicalIndex.add(id, document);
+}
+
+// Locally stored chunks written to Qdrant per request when it is reachable again
+const FALLBACK_SYNC_BATCH_SIZE = 64;
+// Delay before initializing again while Qdrant is unreachable or local chunks remain
+const FALLBACK_SYNC_RETRY_MS = 60000;
+const FALLBACK_SYNC_REPORT_FILE = 'fallback-sync.json';
+let fallbackSyncTimer: NodeJS.Timeout | null = null;
+
+const toChunkFacets = (chunk: Pick<ChunkPayload, keyof ChunkFacets>): ChunkFacets => ({
+  id: chunk.id,
+  documentId: chunk.documentId,
+  ingestionJobId: chunk.ingestionJobId,
+  documentName: chunk.documentName,
+  domains: chunk.domains || ['default'],
+  sourceFile: chunk.sourceFile,
+  sourceType: inferSourceType(chunk)
+});
 
 // Search result interface with scores
 export interface SearchResult {
   id: string;
+  documentId?: string;
+  documentSlug?: string;
   documentName: string;
   content: string;
   enhancedContent?: string;
   title?: string;
   summary?: string;
   sourceFile?: string;
+  sourceType?: SourceType;
   domains?: string[];
+  pageStart?: number; // Pages the chunk was cut from
+  pageEnd?: number;
   score: number;
+  matchedTerms?: string[]; // Query terms found by keyword search
+  matchedPassage?: MatchedPassage; // Best-matching passage of a chunk embedded as several passages
+  fieldScores?: FieldWeights; // Vector similarity of each searched field, before weighting
+}
+
+// Passage of a chunk's content that scored highest against the query vector
+export interface MatchedPassage extends PassageSpan {
+  index: number;
+  text: string;
+  score: number;
+}
+
+// Chunks of a document stored before the document registry existed, grouped by document name
+export interface UnregisteredDocument {
+  documentName: string;
+  sourceFile?: string;
+  sourceType?: SourceType;
+  domains: string[];
+  chunkCount: number;
+}
+
+// State of the Qdrant server and the collection behind the alias
+export interface QdrantStatus {
+  reachable: boolean;
+  alias: string;
+  collection?: string; // Collection the alias points to
+  collectionExists: boolean;
+  vectorLayout?: VectorLayout;
+  pointCount?: number;
+  error?: string;
+}
+
+// Outcome of writing the locally stored chunks to Qdrant after an outage
+export interface FallbackSyncReport {
+  syncedAt: string;
+  synced: number; // Points written to Qdrant
+  failed: number; // Chunks kept locally because Qdrant rejected them
+  remaining: number; // Chunks still stored locally afterwards
+}
+
+// Chunk waiting for a real embedding, as listed to administrators
+export interface UnembeddedChunk {
+  id: string;
+  documentId?: string;
+  documentName: string;
+  title: string;
+  embeddingStatus: EmbeddingStatus;
+  embeddingError?: string;
+  embeddingAttempts: number;
+  updatedAt?: string;
+}
+
+// Restrictions applied to a search; all given conditions must match
+export interface SearchFilter {
+  domains?: string[]; // Chunk belongs to at least one of these domains
+  documentNames?: string[]; // Chunk belongs to one of these documents
+  sourceType?: SourceType;
+  minScore?: number; // Minimum vector similarity score
 }
 
+/**
+ * Determine the source type of a chunk, inferring it for chunks stored before the field existed
+ * @param chunk Chunk or payload with at least an id and source file
+ */
+export const inferSourceType = (chunk: { id: string; sourceFile?: string; sourceType?: SourceType }): SourceType | undefined => {
+  if (chunk.sourceType) return chunk.sourceType;
+  if (chunk.id.startsWith('youtube_')) return 'youtube';
+
+  const sourceFile = chunk.sourceFile || '';
+  if (sourceFile.startsWith('scan-batch-')) return 'image';
+
+  switch (path.extname(sourceFile).toLowerCase()) {
+    case '.pdf':
+      return 'pdf';
+    case '.docx':
+      return 'docx';
+    case '.txt':
+      return 'text';
+    case '.png':
+    case '.jpg':
+    case '.jpeg':
+    case '.tif':
+    case '.tiff':
+      return 'image';
+    default:
+      return undefined;
+  }
+};
+
+// Payload of a chunk's Qdrant point: the chunk without its vectors. Points stored
+// before domains existed have none.
+type ChunkPayload = Omit<DocumentChunk, 'embedding' | 'passageEmbeddings' | 'enhancedEmbeddings' | 'summaryEmbedding' | 'domains'> & {
+  domains?: string[];
+};
+
+/**
+ * Narrow the payload of a Qdrant point to a chunk payload
+ * @throws Error if the point holds no chunk
+ */
+const toChunkPayload = (payload: Schemas['Record']['payload']): ChunkPayload => {
+  if (!payload || typeof payload.id !== 'string' || typeof payload.content !== 'string') {
+    throw new Error('Qdrant point has no chunk payload');
+  }
+  return payload as unknown as ChunkPayload;
+};
+
+/**
+ * Narrow the payload of a Qdrant point fetched with only some of its fields
+ * @param payload Payload of the point
+ * @param fields Fields the point was fetched with, including the chunk id
+ * @returns The fields, or undefined if the point holds no chunk
+ */
+const pickChunkPayload = <K extends keyof ChunkPayload>(
+  payload: Schemas['Record']['payload'],
+  fields: readonly K[]
+): Pick<ChunkPayload, K> | undefined =>
+  payload && typeof payload.id === 'string' && fields.includes('id' as K) ? payload as unknown as Pick<ChunkPayload, K> : undefined;
+
+/**
+ * Check a chunk against the domain, document and source type conditions of a filter
+ * @param chunk Chunk or payload to check
+ * @param filter Search filter; the score threshold is not checked here
+ */
+export const matchesSearchFilter = (chunk: ChunkFacets, filter: SearchFilter): boolean => {
+  if (filter.domains?.length && !(chunk.domains || []).some(domain => filter.domains?.includes(domain))) {
+    return false;
+  }
+  if (filter.documentNames?.length && !filter.documentNames.includes(chunk.documentName)) {
+    return false;
+  }
+  if (filter.sourceType && inferSourceType(chunk) !== filter.sourceType) {
+    return false;
+  }
+  return true;
+};
+
 // Database service class
 export class DatabaseService {
   private qdrantClient: QdrantClient;
   private fallbackService: FallbackService;
   
   constructor() {
-    this.qdrantClient = new QdrantClient({ 
-      url: QDRANT_URL,
-      apiKey: QDRANT_API_KEY
-    });
+    this.qdrantClient = createQdrantClient();
     this.fallbackService = new FallbackService('Qdrant');
-    console.log(`Initializing database service with Qdrant at ${QDRANT_URL}`);
+    logger.info(`Initializing database service with Qdrant at ${QDRANT_URL}`);
   }
   
-  // Initialize Qdrant and create collections if they don't exist
+  // Initialize Qdrant, creating the collection and its alias if they don't exist
   public async initialize(): Promise<void> {
     try {
-      // Check if collections exist
-      const collections = await this.qdrantClient.getCollections();
-      
-      // Check if the knowledge base collection exists
-      const collectionExists = collections.collections?.some(
-        (collection) => collection.name === COLLECTION_NAME
-      );
+      const { aliases } = await this.qdrantClient.getAliases();
+      const aliasExists = aliases.some(alias => alias.alias_name === COLLECTION_ALIAS);
       
-      if (!collectionExists) {
-        console.log(`Creating Qdrant collection: ${COLLECTION_NAME} with vector size: ${VECTOR_SIZE}`);
-        
-        // Create knowledge base collection
-        await this.qdrantClient.createCollection(COLLECTION_NAME, {
-          vectors: {
-            size: VECTOR_SIZE,
-            distance: 'Cosine'
-          }
-        });
+      if (!aliasExists) {
+        const collections = await this.qdrantClient.getCollections();
+        const collectionExists = collections.collections?.some(
+          (collection) => collection.name === COLLECTION_NAME
+        );
         
-        // Create relevant payload indices for knowledge base
-        await this.qdrantClient.createPayloadIndex(COLLECTION_NAME, {
-          field_name: 'documentName',
-          field_schema: 'keyword'
-        });
+        if (!collectionExists) {
+          await createKnowledgeBaseCollection(this.qdrantClient, COLLECTION_NAME, activeEmbeddingModel().vectorSize);
+        }
         
-        await this.qdrantClient.createPayloadIndex(COLLECTION_NAME, {
-          field_name: 'title',
-          field_schema: 'keyword'
+        // Collections created before aliases were used are put behind the alias as they are
+        await this.qdrantClient.updateCollectionAliases({
+          actions: [{ create_alias: { collection_name: COLLECTION_NAME, alias_name: COLLECTION_ALIAS } }]
         });
-        
-        await this.qdrantClient.createPayloadIndex(COLLECTION_NAME, {
-          field_name: 'domains',
+        logger.info(`Created Qdrant alias ${COLLECTION_ALIAS} -> ${COLLECTION_NAME}`);
+      }
+      
+      // Indices also added to collections created before the fields existed
+      for (const field of ['sourceType', 'documentId', 'embeddingStatus']) {
+        await this.qdrantClient.createPayloadIndex(COLLECTION_ALIAS, {
+          field_name: field,
           field_schema: 'keyword'
         });
       }
+      await this.backfillSourceTypes();
+      vectorLayoutCache = null;
+      if (await this.vectorLayout() !== 'named') {
+        logger.warn(`${COLLECTION_ALIAS} stores only content vectors; run an embedding migration to store a named vector per field`);
+      }
       
       this.fallbackService.resetWarningFlag('initialize');
-      console.log('Qdrant initialized successfully');
+      logger.info('Qdrant initialized successfully');
+      
+      const report = await this.syncFallbackChunks();
+      if (report && report.remaining > 0) {
+        this.scheduleFallbackSync();
+      }
     } catch (error) {
       this.fallbackService.handleError('initialize', error);
+      this.scheduleFallbackSync();
+    }
+  }
+  
+  // Query Qdrant directly, bypassing the fallback, for the readiness check
+  public async getQdrantStatus(): Promise<QdrantStatus> {
+    try {
+      const { aliases } = await this.qdrantClient.getAliases();
+      const collection = aliases.find(alias => alias.alias_name === COLLECTION_ALIAS)?.collection_name;
+      if (!collection) {
+        return { reachable: true, alias: COLLECTION_ALIAS, collectionExists: false };
+      }
+      
+      const info = await this.qdrantClient.getCollection(collection);
+      return {
+        reachable: true,
+        alias: COLLECTION_ALIAS,
+        collection,
+        collectionExists: true,
+        vectorLayout: vectorLayoutOf(info.config.params.vectors),
+        pointCount: info.points_count ?? undefined
+      };
+    } catch (error) {
+      return {
+        reachable: false,
+        alias: COLLECTION_ALIAS,
+        collectionExists: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+  
+  // Initialize again later, syncing the chunks stored locally in the meantime
+  private scheduleFallbackSync(): void {
+    if (fallbackSyncTimer) return;
+    // The retry is not part of the request or job that happened to schedule it
+    fallbackSyncTimer = startLogContext({}, () => setTimeout(() => {
+      fallbackSyncTimer = null;
+      this.initialize();
+    }, FALLBACK_SYNC_RETRY_MS));
+    fallbackSyncTimer.unref();
+  }
+  
+  /**
+   * Write the chunks stored locally while Qdrant was unavailable to the collection
+   * and remove them from the local store
+   * @returns Sync report, or null if nothing was stored locally
+   */
+  private async syncFallbackChunks(): Promise<FallbackSyncReport | null> {
+    if (inMemoryDocuments.size === 0) return null;
+    
+    const chunks = Array.from(inMemoryDocuments.values()).map(({ document }) => document);
+    logger.info(`Syncing ${chunks.length} locally stored chunks to Qdrant`);
+    const layout = await this.vectorLayout();
+    let synced = 0;
+    let failed = 0;
+    
+    for (let i = 0; i < chunks.length; i += FALLBACK_SYNC_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + FALLBACK_SYNC_BATCH_SIZE);
+      try {
+        // Chunks that reached Qdrant before the outage keep their point
+        const existing = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+          filter: { must: [{ key: 'id', match: { any: batch.map(chunk => chunk.id) } }] },
+          with_payload: { include: ['id'] },
+          limit: batch.length
+        });
+        const pointIds = new Map(existing.points.map(point => [pickChunkPayload(point.payload, ['id'])?.id, point.id]));
+        
+        await this.qdrantClient.upsert(COLLECTION_ALIAS, {
+          wait: true,
+          points: batch.map(chunk => ({
+            id: pointIds.get(chunk.id) ?? uuidv4(),
+            vector: toPointVector(chunk, layout),
+            payload: this.toPayload(chunk)
+          }))
+        });
+        
+        for (const chunk of batch) {
+          inMemoryDocuments.delete(chunk.id);
+          inMemoryLexicalIndex.remove(chunk.id);
+          if (qdrantLexicalIndexLoad) {
+            qdrantLexicalIndex.add(chunk.id, chunk);
+            qdrantChunkFacets.set(chunk.id, toChunkFacets(chunk));
+          }
+        }
+        synced += batch.length;
+      } catch (error) {
+        logger.error(`Error syncing ${batch.length} locally stored chunks to Qdrant:`, error);
+        failed += batch.length;
+      }
+    }
+    
+    // Start a new log once everything has been synced
+    if (inMemoryDocuments.size === 0) {
+      inMemoryDocuments.clear();
+    }
+    
+    const report: FallbackSyncReport = {
+      syncedAt: new Date().toISOString(),
+      synced,
+      failed,
+      remaining: inMemoryDocuments.size
+    };
+    writeJsonAtomic(dataPath(FALLBACK_SYNC_REPORT_FILE), report);
+    logger.info(`Synced ${synced} points to Qdrant (${failed} failed, ${report.remaining} still stored locally)`);
+    return report;
+  }
+  
+  // Report of the last sync of locally stored chunks to Qdrant, if there was one
+  public getLastFallbackSync(): FallbackSyncReport | null {
+    return readJson<FallbackSyncReport | null>(dataPath(FALLBACK_SYNC_REPORT_FILE), null);
+  }
+  
+  // Number of chunks stored locally and not yet synced to Qdrant
+  public getLocalChunkCount(): number {
+    return inMemoryDocuments.size;
+  }
+  
+  // Set the source type of points stored before the field existed, inferred from their id and source file
+  private async backfillSourceTypes(): Promise<void> {
+    const fields = ['id', 'sourceFile'] as const;
+    const pointsByType = new Map<SourceType, (string | number)[]>();
+    let nextPageOffset: string | undefined;
+    const limit = 100;
+    
+    // Collect first: updating points while scrolling would shift the filtered pages
+    do {
+      const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+        filter: { must: [{ is_empty: { key: 'sourceType' } }] },
+        with_payload: { include: [...fields] },
+        limit,
+        offset: nextPageOffset,
+      });
+      
+      response.points.forEach(point => {
+        const payload = pickChunkPayload(point.payload, fields);
+        const sourceType = payload ? inferSourceType(payload) : undefined;
+        if (sourceType) {
+          const points = pointsByType.get(sourceType) || [];
+          points.push(point.id);
+          pointsByType.set(sourceType, points);
+        }
+      });
+      
+      nextPageOffset = response.next_page_offset as string | undefined;
+    } while (nextPageOffset);
+    
+    for (const [sourceType, points] of pointsByType.entries()) {
+      await this.qdrantClient.setPayload(COLLECTION_ALIAS, {
+        payload: { sourceType },
+        points,
+        wait: true
+      });
+      logger.info(`Backfilled source type "${sourceType}" on ${points.length} chunks`);
     }
   }
   
@@ -97,35 +576,175 @@ export class DatabaseService {
       () => {
         for (const doc of documents) {
           inMemoryDocuments.set(doc.id, { document: doc });
+          inMemoryLexicalIndex.add(doc.id, doc);
         }
+        this.scheduleFallbackSync();
       },
       // Qdrant function
       async () => {
         if (documents.length === 0) return;
         
         // Prepare points for bulk insertion
+        const layout = await this.vectorLayout();
         const points = documents.map(doc => {
           return {
             id: uuidv4(),
-            vector: doc.embedding,
-            payload: {
-              id: doc.id,
-              documentName: doc.documentName,
-              content: doc.content,
-              enhancedContent: doc.enhancedContent,
-              title: doc.title,
-              summary: doc.summary,
-              sourceFile: doc.sourceFile,
-              domains: doc.domains
-            }
+            vector: toPointVector(doc, layout),
+            payload: this.toPayload(doc)
           };
         });
         
         // Insert documents
-        await this.qdrantClient.upsert(COLLECTION_NAME, {
+        await timeStage('qdrant_upsert', () => this.qdrantClient.upsert(COLLECTION_ALIAS, {
           wait: true,
           points
+        }));
+        
+        // Keep the keyword index in sync once it has been built
+        if (qdrantLexicalIndexLoad) {
+          for (const doc of documents) {
+            qdrantLexicalIndex.add(doc.id, doc);
+            qdrantChunkFacets.set(doc.id, toChunkFacets(doc));
+          }
+        }
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+
+  // Build the Qdrant payload stored for a chunk
+  private toPayload(doc: DocumentChunk) {
+    return {
+      id: doc.id,
+      documentId: doc.documentId,
+      documentSlug: doc.documentSlug,
+      ingestionJobId: doc.ingestionJobId,
+      documentName: doc.documentName,
+      content: doc.content,
+      passages: doc.passages,
+      embeddingModel: doc.embeddingModel,
+      embeddingStatus: doc.embeddingStatus,
+      embeddingError: doc.embeddingError,
+      embeddingAttempts: doc.embeddingAttempts,
+      enhancedContent: doc.enhancedContent,
+      title: doc.title,
+      summary: doc.summary,
+      sourceFile: doc.sourceFile,
+      pageStart: doc.pageStart,
+      pageEnd: doc.pageEnd,
+      sourceType: doc.sourceType ?? inferSourceType(doc),
+      domains: doc.domains,
+      version: doc.version,
+      versionSource: doc.versionSource,
+      history: doc.history,
+      updatedAt: doc.updatedAt
+    };
+  }
+
+  // Find the Qdrant point IDs storing a chunk (normally exactly one)
+  private async findPointIds(chunkId: string): Promise<(string | number)[]> {
+    const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+      filter: { must: [{ key: 'id', match: { value: chunkId } }] },
+      with_payload: false,
+      limit: 100
+    });
+    return response.points.map(point => point.id);
+  }
+
+  // Rebuild a chunk from its Qdrant payload and vector, which holds named vectors per field,
+  // one vector per passage or a single one
+  private toChunk(payload: ChunkPayload, vector: unknown): DocumentChunk {
+    const named = vector && !Array.isArray(vector) ? vector as Partial<Record<EmbeddingField, number[] | number[][]>> : undefined;
+    const raw = named ? named.raw as number[][] : vector as number[] | number[][];
+    const vectors = Array.isArray(raw[0]) ? raw as number[][] : [raw as number[]];
+    const enhanced = payload.enhancedContent && payload.enhancedContent !== payload.content ? named?.enhanced as number[][] : undefined;
+    const summary = payload.title || payload.summary ? named?.summary as number[] : undefined;
+    return {
+      id: payload.id,
+      documentId: payload.documentId,
+      documentSlug: payload.documentSlug,
+      ingestionJobId: payload.ingestionJobId,
+      documentName: payload.documentName,
+      content: payload.content,
+      enhancedContent: payload.enhancedContent,
+      embedding: vectors[0],
+      passages: payload.passages,
+      passageEmbeddings: vectors.length > 1 ? vectors : undefined,
+      enhancedEmbeddings: enhanced,
+      summaryEmbedding: summary,
+      embeddingModel: payload.embeddingModel,
+      embeddingStatus: payload.embeddingStatus,
+      embeddingError: payload.embeddingError,
+      embeddingAttempts: payload.embeddingAttempts,
+      title: payload.title,
+      summary: payload.summary,
+      sourceFile: payload.sourceFile,
+      pageStart: payload.pageStart,
+      pageEnd: payload.pageEnd,
+      sourceType: inferSourceType(payload),
+      domains: payload.domains || ['default'],
+      version: payload.version || 1,
+      versionSource: payload.versionSource || 'raw_parse',
+      history: payload.history || [],
+      updatedAt: payload.updatedAt
+    };
+  }
+  
+  // Get a single chunk, including its embedding and history
+  public async getChunkById(chunkId: string): Promise<DocumentChunk | null> {
+    return this.fallbackService.withFallback<DocumentChunk | null>(
+      'getChunkById',
+      // Fallback function
+      () => inMemoryDocuments.get(chunkId)?.document || null,
+      // Qdrant function
+      async () => {
+        const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+          filter: { must: [{ key: 'id', match: { value: chunkId } }] },
+          with_payload: true,
+          with_vector: true,
+          limit: 1
         });
+        
+        const point = response.points[0];
+        if (!point) return null;
+        
+        return this.toChunk(toChunkPayload(point.payload), point.vector);
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+
+  // Replace a stored chunk (payload and embedding), keeping its Qdrant point ID
+  public async updateChunk(chunk: DocumentChunk): Promise<boolean> {
+    return this.fallbackService.withFallback(
+      'updateChunk',
+      // Fallback function
+      () => {
+        if (!inMemoryDocuments.has(chunk.id)) return false;
+        inMemoryDocuments.set(chunk.id, { document: chunk });
+        inMemoryLexicalIndex.add(chunk.id, chunk);
+        return true;
+      },
+      // Qdrant function
+      async () => {
+        const pointIds = await this.findPointIds(chunk.id);
+        if (pointIds.length === 0) return false;
+        
+        const layout = await this.vectorLayout();
+        await this.qdrantClient.upsert(COLLECTION_ALIAS, {
+          wait: true,
+          points: pointIds.map(pointId => ({
+            id: pointId,
+            vector: toPointVector(chunk, layout),
+            payload: this.toPayload(chunk)
+          }))
+        });
+        
+        if (qdrantLexicalIndexLoad) {
+          qdrantLexicalIndex.add(chunk.id, chunk);
+          qdrantChunkFacets.set(chunk.id, toChunkFacets(chunk));
+        }
+        return true;
       },
       this.fallbackService.isFallbackActive()
     );
@@ -152,59 +771,373 @@ export class DatabaseService {
     return dotProduct / (aMagnitude * bMagnitude);
   }
 
-  // Search for documents using vector similarity
-  public async searchByVector(queryVector: number[], limit = 10): Promise<SearchResult[]> {
+  /**
+   * Score a chunk by its best-matching passage
+   * @param queryVector Query embedding
+   * @param vectors Vectors of the chunk, one per passage
+   * @param chunk Content and passage ranges of the chunk
+   * @returns Similarity of the best passage, and the passage itself when the chunk has several
+   */
+  private matchPassages(
+    queryVector: number[],
+    vectors: number[][],
+    chunk: { content: string; passages?: PassageSpan[] }
+  ): { score: number; matchedPassage?: MatchedPassage } {
+    const scores = vectors.map(vector => this.cosineSimilarity(queryVector, vector));
+    const index = scores.indexOf(Math.max(...scores));
+    const passage = chunk.passages?.[index];
+    if (!passage || !chunk.passages || chunk.passages.length < 2) {
+      return { score: scores[index] };
+    }
+    return {
+      score: scores[index],
+      matchedPassage: { index, ...passage, text: chunk.content.slice(passage.start, passage.end), score: scores[index] }
+    };
+  }
+
+  // Vector layout of the collection behind the alias
+  private async vectorLayout(): Promise<VectorLayout> {
+    if (vectorLayoutCache && Date.now() - vectorLayoutCache.checkedAt < VECTOR_LAYOUT_CACHE_MS) {
+      return vectorLayoutCache.value;
+    }
+    
+    const { aliases } = await this.qdrantClient.getAliases();
+    const collection = aliases.find(alias => alias.alias_name === COLLECTION_ALIAS)?.collection_name || COLLECTION_ALIAS;
+    const info = await this.qdrantClient.getCollection(collection);
+    vectorLayoutCache = { value: vectorLayoutOf(info.config.params.vectors), checkedAt: Date.now() };
+    return vectorLayoutCache.value;
+  }
+
+  // Translate a search filter into Qdrant filter conditions
+  private toQdrantFilter(filter: SearchFilter) {
+    const must: Schemas['Condition'][] = [];
+    
+    if (filter.domains?.length) {
+      must.push({ key: 'domains', match: { any: filter.domains } });
+    }
+    if (filter.documentNames?.length) {
+      must.push({ key: 'documentName', match: { any: filter.documentNames } });
+    }
+    if (filter.sourceType) {
+      must.push({ key: 'sourceType', match: { value: filter.sourceType } });
+    }
+    
+    return must.length > 0 ? { must } : undefined;
+  }
+
+  /**
+   * Search for documents using vector similarity
+   * @param queryVector Query embedding
+   * @param limit Maximum number of results
+   * @param filter Search filter; the minimum score applies to the weighted score
+   * @param fields Embedded fields to search and their weights. A chunk scores the
+   * weighted mean of its similarity in each field, each field scored by its best passage.
+   */
+  public async searchByVector(
+    queryVector: number[],
+    limit = 10,
+    filter: SearchFilter = {},
+    fields: FieldWeights = DEFAULT_FIELD_WEIGHTS
+  ): Promise<SearchResult[]> {
     return this.fallbackService.withFallback(
       'searchByVector',
       // Fallback function
       () => {
+        const weights = Object.entries(fields) as [EmbeddingField, number][];
+        
         // Search documents
         return Array.from(inMemoryDocuments.values())
+          .filter(item => isEmbedded(item.document) && matchesSearchFilter(item.document, filter))
           .map(item => {
             const doc = item.document;
+            const fieldScores: FieldWeights = {};
+            for (const [field] of weights) {
+              fieldScores[field] = this.matchPassages(queryVector, fieldVectors(doc, field), doc).score;
+            }
             return {
               id: doc.id,
+              documentId: doc.documentId,
               documentName: doc.documentName,
               content: doc.content,
               enhancedContent: doc.enhancedContent,
               title: doc.title,
               summary: doc.summary,
               sourceFile: doc.sourceFile,
+              pageStart: doc.pageStart,
+              pageEnd: doc.pageEnd,
+              sourceType: inferSourceType(doc),
               domains: doc.domains,
-              score: this.cosineSimilarity(queryVector, doc.embedding)
+              score: weightedScore(fieldScores, fields),
+              matchedPassage: fields.raw !== undefined ? this.matchPassages(queryVector, chunkVectors(doc), doc).matchedPassage : undefined,
+              fieldScores
             };
           })
+          .filter(result => filter.minScore === undefined || result.score >= filter.minScore)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit);
+      },
+      // Qdrant function
+      async () => {
+        const layout = await this.vectorLayout();
+        const weights = this.searchableFields(fields, layout);
+        const fieldNames = Object.keys(weights) as EmbeddingField[];
+        const candidateLimit = fieldNames.length > 1 ? limit * FIELD_CANDIDATE_FACTOR : limit;
+        
+        // Candidates of all fields, with the similarity of each field that ranked them
+        const candidates = new Map<string | number, { payload: ChunkPayload; fieldScores: FieldWeights; rawVectors?: number[][] }>();
+        for (const field of fieldNames) {
+          for (const hit of await this.searchField(queryVector, field, layout, candidateLimit, filter)) {
+            const candidate = candidates.get(hit.id) || { payload: hit.payload, fieldScores: {} };
+            candidate.fieldScores[field] = hit.score;
+            candidate.rawVectors = candidate.rawVectors || hit.rawVectors;
+            candidates.set(hit.id, candidate);
+          }
+        }
+        
+        // A candidate ranked by some fields only is scored locally in the others
+        const incomplete = Array.from(candidates.entries())
+          .filter(([, candidate]) => fieldNames.some(field => candidate.fieldScores[field] === undefined));
+        if (incomplete.length > 0) {
+          const points = await this.qdrantClient.retrieve(COLLECTION_ALIAS, {
+            ids: incomplete.map(([id]) => id),
+            with_payload: false,
+            with_vector: fieldNames
+          });
+          for (const point of points) {
+            const candidate = candidates.get(point.id);
+            const vectors = point.vector as Partial<Record<EmbeddingField, number[] | number[][]>>;
+            if (!candidate || !vectors) continue;
+            for (const field of fieldNames) {
+              const fieldVector = vectors[field];
+              if (candidate.fieldScores[field] !== undefined || !fieldVector) continue;
+              const passageVectors = Array.isArray(fieldVector[0]) ? fieldVector as number[][] : [fieldVector as number[]];
+              candidate.fieldScores[field] = this.matchPassages(queryVector, passageVectors, candidate.payload).score;
+              if (field === 'raw') candidate.rawVectors = passageVectors;
+            }
+          }
+        }
+        
+        return Array.from(candidates.values())
+          .map(({ payload, fieldScores, rawVectors }) => ({
+            id: payload.id,
+            documentId: payload.documentId,
+            documentName: payload.documentName,
+            content: payload.content,
+            enhancedContent: payload.enhancedContent,
+            title: payload.title,
+            summary: payload.summary,
+            sourceFile: payload.sourceFile,
+            pageStart: payload.pageStart,
+            pageEnd: payload.pageEnd,
+            sourceType: inferSourceType(payload),
+            domains: payload.domains || ['default'],
+            score: weightedScore(fieldScores, weights),
+            matchedPassage: rawVectors ? this.matchPassages(queryVector, rawVectors, payload).matchedPassage : undefined,
+            fieldScores
+          }))
+          .filter(result => filter.minScore === undefined || result.score >= filter.minScore)
           .sort((a, b) => b.score - a.score)
           .slice(0, limit);
       },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+
+  // Restrict field weights to the fields the collection stores; collections without named vectors store the content only
+  private searchableFields(fields: FieldWeights, layout: VectorLayout): FieldWeights {
+    if (layout === 'named') return fields;
+    
+    const ignored = Object.keys(fields).filter(field => field !== 'raw');
+    if (ignored.length > 0) {
+      logger.warn(`${COLLECTION_ALIAS} has no named vectors; searching the content instead of ${ignored.join(', ')}`);
+    }
+    return { raw: fields.raw ?? 1 };
+  }
+
+  /**
+   * Rank points by the similarity of one embedded field to the query vector
+   * @returns Hits with the point ID and payload, and the content passage vectors when the field is raw
+   */
+  private async searchField(
+    queryVector: number[],
+    field: EmbeddingField,
+    layout: VectorLayout,
+    limit: number,
+    filter: SearchFilter
+  ): Promise<{ id: string | number; payload: ChunkPayload; score: number; rawVectors?: number[][] }[]> {
+    const searchFilter = { ...this.toQdrantFilter(filter), must_not: [UNEMBEDDED_CONDITION] };
+    
+    if (layout === 'single') {
+      const hits = await this.qdrantClient.search(COLLECTION_ALIAS, {
+        vector: queryVector,
+        limit,
+        filter: searchFilter,
+        with_payload: true
+      });
+      return hits.map(hit => ({ id: hit.id, payload: toChunkPayload(hit.payload), score: hit.score }));
+    }
+    
+    // Passage vectors score a point by its best passage (MaxSim); the content passages
+    // are returned to tell which passage that was
+    const { points } = await this.qdrantClient.query(COLLECTION_ALIAS, {
+      query: field === 'summary' ? queryVector : [queryVector],
+      using: layout === 'named' ? field : undefined,
+      limit,
+      filter: searchFilter,
+      with_payload: true,
+      with_vector: field !== 'raw' ? false : layout === 'named' ? ['raw'] : true
+    });
+    return points.map(hit => {
+      const vector = layout === 'named' ? (hit.vector as Record<string, unknown> | undefined)?.raw : hit.vector;
+      return {
+        id: hit.id,
+        payload: toChunkPayload(hit.payload),
+        score: hit.score,
+        rawVectors: Array.isArray(vector) && Array.isArray(vector[0]) ? vector as number[][] : undefined
+      };
+    });
+  }
+
+  // Search for documents by keyword using the BM25 index
+  public async searchByKeyword(query: string, limit = 10, filter: SearchFilter = {}): Promise<SearchResult[]> {
+    return this.fallbackService.withFallback(
+      'searchByKeyword',
+      // Fallback function
+      () => {
+        const accept = (id: string) => {
+          const item = inMemoryDocuments.get(id);
+          return !!item && matchesSearchFilter(item.document, filter);
+        };
+        
+        return inMemoryLexicalIndex.search(query, limit, accept)
+          .map(match => {
+            const doc = (inMemoryDocuments.get(match.id) as { document: DocumentChunk }).document;
+            return {
+              id: doc.id,
+              documentId: doc.documentId,
+              documentName: doc.documentName,
+              content: doc.content,
+              enhancedContent: doc.enhancedContent,
+              title: doc.title,
+              summary: doc.summary,
+              sourceFile: doc.sourceFile,
+              pageStart: doc.pageStart,
+              pageEnd: doc.pageEnd,
+              sourceType: inferSourceType(doc),
+              domains: doc.domains,
+              score: match.score,
+              matchedTerms: match.matchedTerms
+            };
+          });
+      },
       // Qdrant function
       async () => {
-        const results = await this.qdrantClient.search(COLLECTION_NAME, {
-          vector: queryVector,
-          limit: limit,
-          with_payload: true
+        await this.ensureQdrantLexicalIndex();
+        
+        const accept = (id: string) => {
+          const facets = qdrantChunkFacets.get(id);
+          return !!facets && matchesSearchFilter(facets, filter);
+        };
+        
+        const matches = qdrantLexicalIndex.search(query, limit, accept);
+        if (matches.length === 0) return [];
+        
+        // Fetch the payloads of the matched chunks
+        const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+          filter: {
+            should: matches.map(match => ({
+              key: 'id',
+              match: { value: match.id }
+            }))
+          },
+          with_payload: true,
+          limit: matches.length
         });
         
-        return results.map(hit => {
-          const payload = hit.payload as any;
-          
-          return {
+        const payloadsById = new Map<string, ChunkPayload>();
+        response.points.forEach(point => {
+          const payload = toChunkPayload(point.payload);
+          payloadsById.set(payload.id, payload);
+        });
+        
+        return matches.flatMap(match => {
+          const payload = payloadsById.get(match.id);
+          return payload ? [{
             id: payload.id,
+            documentId: payload.documentId,
             documentName: payload.documentName,
             content: payload.content,
             enhancedContent: payload.enhancedContent,
             title: payload.title,
             summary: payload.summary,
             sourceFile: payload.sourceFile,
+            pageStart: payload.pageStart,
+            pageEnd: payload.pageEnd,
+            sourceType: inferSourceType(payload),
             domains: payload.domains || ['default'],
-            score: hit.score
-          };
+            score: match.score,
+            matchedTerms: match.matchedTerms
+          }] : [];
         });
       },
       this.fallbackService.isFallbackActive()
     );
   }
 
+  // Build the keyword index from the Qdrant collection the first time it is needed
+  private ensureQdrantLexicalIndex(): Promise<void> {
+    if (!qdrantLexicalIndexLoad) {
+      qdrantLexicalIndexLoad = (async () => {
+        logger.info('Building keyword index from Qdrant collection...');
+        await this.indexQdrantChunks();
+        logger.info(`Keyword index built with ${qdrantLexicalIndex.size} chunks`);
+      })().catch(error => {
+        // Allow the next search to retry the build
+        qdrantLexicalIndexLoad = null;
+        qdrantLexicalIndex.clear();
+        qdrantChunkFacets.clear();
+        throw error;
+      });
+    }
+    
+    return qdrantLexicalIndexLoad;
+  }
+
+  // Add the chunks matching a filter to the Qdrant keyword index, replacing their earlier entries
+  private async indexQdrantChunks(filter?: { must: Schemas['Condition'][] }): Promise<void> {
+    let nextPageOffset: string | undefined;
+    const limit = 100;
+    
+    do {
+      const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+        filter,
+        with_payload: { include: [...LEXICAL_INDEX_FIELDS] },
+        limit,
+        offset: nextPageOffset,
+      });
+      
+      response.points.forEach(point => {
+        const payload = pickChunkPayload(point.payload, LEXICAL_INDEX_FIELDS);
+        if (payload) {
+          qdrantLexicalIndex.add(payload.id, payload);
+          qdrantChunkFacets.set(payload.id, toChunkFacets(payload));
+        }
+      });
+      
+      nextPageOffset = response.next_page_offset as string | undefined;
+    } while (nextPageOffset);
+  }
+
+  // Remove deleted chunks from the Qdrant keyword index
+  private removeFromQdrantLexicalIndex(shouldRemove: (chunkId: string) => boolean): void {
+    for (const id of qdrantLexicalIndex.ids()) {
+      if (shouldRemove(id)) {
+        qdrantLexicalIndex.remove(id);
+        qdrantChunkFacets.delete(id);
+      }
+    }
+  }
+
   // Check if a transcript already exists for a specific videoId
   public async doesTranscriptExist(videoId: string): Promise<boolean> {
     const idPattern = `youtube_${videoId}`;
@@ -237,15 +1170,15 @@ export class DatabaseService {
         
         try {
           // Try with count first as it's more efficient
-          const countResponse = await this.qdrantClient.count(COLLECTION_NAME, { filter });
+          const countResponse = await this.qdrantClient.count(COLLECTION_ALIAS, { filter });
           return countResponse.count > 0;
         } catch (error) {
-          console.error('Error checking transcript existence with count:', error);
+          logger.error('Error checking transcript existence with count:', error);
           
           // Alternative approach if count with text matching doesn't work
           try {
             // Use scroll to check if any documents match
-            const results = await this.qdrantClient.scroll(COLLECTION_NAME, {
+            const results = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
               filter,
               limit: 1,
               with_payload: true
@@ -253,11 +1186,11 @@ export class DatabaseService {
             
             return results.points.length > 0;
           } catch (scrollFilterError) {
-            console.error('Error with filter scroll check:', scrollFilterError);
+            logger.error('Error with filter scroll check:', scrollFilterError);
             
             // Last resort: get first few results and check client-side
             try {
-              const allResults = await this.qdrantClient.scroll(COLLECTION_NAME, {
+              const allResults = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
                 limit: 100, // Reasonable limit to check
                 with_payload: true
               });
@@ -268,7 +1201,7 @@ export class DatabaseService {
                 return payload.id && payload.id.startsWith(idPattern);
               });
             } catch (scrollError) {
-              console.error('Error with fallback scroll check:', scrollError);
+              logger.error('Error with fallback scroll check:', scrollError);
               return false;
             }
           }
@@ -292,6 +1225,7 @@ export class DatabaseService {
           const doc = inMemoryDocuments.get(key)?.document;
           if (doc && doc.id.startsWith(idPattern)) {
             inMemoryDocuments.delete(key);
+            inMemoryLexicalIndex.remove(doc.id);
             deletedCount++;
           }
         });
@@ -313,7 +1247,7 @@ export class DatabaseService {
           };
           
           // First, count how many chunks will be deleted
-          const countResponse = await this.qdrantClient.count(COLLECTION_NAME, { filter });
+          const countResponse = await this.qdrantClient.count(COLLECTION_ALIAS, { filter });
           const count = countResponse.count;
           
           if (count === 0) {
@@ -321,14 +1255,15 @@ export class DatabaseService {
           }
           
           // Then delete the chunks
-          await this.qdrantClient.delete(COLLECTION_NAME, {
+          await this.qdrantClient.delete(COLLECTION_ALIAS, {
             filter,
             wait: true
           });
+          this.removeFromQdrantLexicalIndex(id => id.startsWith(idPattern));
           
           return count;
         } catch (error) {
-          console.error(`Error deleting YouTube video chunks: ${error}`);
+          logger.error(`Error deleting YouTube video chunks: ${error}`);
           
           // Fallback approach if text matching doesn't work
           try {
@@ -338,7 +1273,7 @@ export class DatabaseService {
             const limit = 100;
             
             do {
-              const response = await this.qdrantClient.scroll(COLLECTION_NAME, {
+              const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
                 with_payload: true,
                 limit,
                 offset: nextPageOffset,
@@ -364,16 +1299,17 @@ export class DatabaseService {
             
             for (let i = 0; i < chunksToDelete.length; i += batchSize) {
               const batch = chunksToDelete.slice(i, i + batchSize);
-              await this.qdrantClient.delete(COLLECTION_NAME, {
+              await this.qdrantClient.delete(COLLECTION_ALIAS, {
                 points: batch,
                 wait: true
               });
               deletedCount += batch.length;
             }
+            this.removeFromQdrantLexicalIndex(id => id.startsWith(idPattern));
             
             return deletedCount;
           } catch (fallbackError) {
-            console.error('Error with fallback deletion approach:', fallbackError);
+            logger.error('Error with fallback deletion approach:', fallbackError);
             throw error;
           }
         }
@@ -416,10 +1352,10 @@ export class DatabaseService {
           };
           
           // Count how many chunks exist
-          const countResponse = await this.qdrantClient.count(COLLECTION_NAME, { filter });
+          const countResponse = await this.qdrantClient.count(COLLECTION_ALIAS, { filter });
           return countResponse.count;
         } catch (error) {
-          console.error(`Error counting YouTube video chunks: ${error}`);
+          logger.error(`Error counting YouTube video chunks: ${error}`);
           
           // Fallback to client-side filtering if text matching doesn't work
           try {
@@ -428,7 +1364,7 @@ export class DatabaseService {
             const limit = 100;
             
             do {
-              const response = await this.qdrantClient.scroll(COLLECTION_NAME, {
+              const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
                 with_payload: true,
                 limit,
                 offset: nextPageOffset,
@@ -446,7 +1382,7 @@ export class DatabaseService {
             
             return count;
           } catch (scrollError) {
-            console.error('Error with fallback scroll count:', scrollError);
+            logger.error('Error with fallback scroll count:', scrollError);
             throw error;
           }
         }
@@ -484,7 +1420,7 @@ export class DatabaseService {
           const limit = 100;
           
           do {
-            const response = await this.qdrantClient.scroll(COLLECTION_NAME, {
+            const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
               with_payload: { include: ['documentName'] },
               limit,
               offset: nextPageOffset,
@@ -502,7 +1438,7 @@ export class DatabaseService {
           
           return Array.from(documentNames);
         } catch (error) {
-          console.error('Error getting unique document names:', error);
+          logger.error('Error getting unique document names:', error);
           return [];
         }
       },
@@ -512,7 +1448,7 @@ export class DatabaseService {
   
   // Get all chunks for a specific document name
   public async getChunksByDocumentName(documentName: string): Promise<SearchResult[]> {
-    return this.fallbackService.withFallback(
+    return this.fallbackService.withFallback<SearchResult[]>(
       'getChunksByDocumentName',
       // Fallback function
       () => {
@@ -523,12 +1459,16 @@ export class DatabaseService {
             const doc = item.document;
             return {
               id: doc.id,
+              documentId: doc.documentId,
+              documentSlug: doc.documentSlug,
               documentName: doc.documentName,
               content: doc.content,
               enhancedContent: doc.enhancedContent,
               title: doc.title,
               summary: doc.summary,
               sourceFile: doc.sourceFile,
+              pageStart: doc.pageStart,
+              pageEnd: doc.pageEnd,
               domains: doc.domains,
               score: 1.0 // Not relevant for this query but needed for type
             };
@@ -554,7 +1494,7 @@ export class DatabaseService {
           const limit = 100;
           
           do {
-            const response = await this.qdrantClient.scroll(COLLECTION_NAME, {
+            const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
               filter,
               with_payload: true,
               limit,
@@ -566,12 +1506,16 @@ export class DatabaseService {
               
               return {
                 id: payload.id,
+                documentId: payload.documentId,
+                documentSlug: payload.documentSlug,
                 documentName: payload.documentName,
                 content: payload.content,
                 enhancedContent: payload.enhancedContent,
                 title: payload.title,
                 summary: payload.summary,
                 sourceFile: payload.sourceFile,
+                pageStart: payload.pageStart,
+                pageEnd: payload.pageEnd,
                 domains: payload.domains || ['default'],
                 score: 1.0 // Not relevant for this query but needed for type
               };
@@ -583,7 +1527,7 @@ export class DatabaseService {
           
           return chunks;
         } catch (error) {
-          console.error(`Error getting chunks for document ${documentName}:`, error);
+          logger.error(`Error getting chunks for document ${documentName}:`, error);
           return [];
         }
       },
@@ -603,11 +1547,12 @@ export class DatabaseService {
         for (const id of chunkIds) {
           if (inMemoryDocuments.has(id)) {
             inMemoryDocuments.delete(id);
+            inMemoryLexicalIndex.remove(id);
             deletedCount++;
           }
         }
         
-        console.log(`Deleted ${deletedCount} in-memory chunks`);
+        logger.info(`Deleted ${deletedCount} in-memory chunks`);
         return deletedCount;
       },
       // Qdrant function
@@ -623,30 +1568,321 @@ export class DatabaseService {
             }))
           };
           
-          console.log(`Attempting to delete ${chunkIds.length} chunks`);
+          logger.info(`Attempting to delete ${chunkIds.length} chunks`);
           
           // Count how many points match our filter
-          const countResponse = await this.qdrantClient.count(COLLECTION_NAME, { filter });
+          const countResponse = await this.qdrantClient.count(COLLECTION_ALIAS, { filter });
           const pointCount = countResponse.count;
           
           if (pointCount === 0) {
-            console.log('No matching chunks found to delete');
+            logger.info('No matching chunks found to delete');
             return 0;
           }
           
-          console.log(`Found ${pointCount} chunks to delete`);
+          logger.info(`Found ${pointCount} chunks to delete`);
           
           // Use the delete method with the filter
-          await this.qdrantClient.delete(COLLECTION_NAME, {
+          await this.qdrantClient.delete(COLLECTION_ALIAS, {
             filter,
             wait: true
           });
+          const deletedIds = new Set(chunkIds);
+          this.removeFromQdrantLexicalIndex(id => deletedIds.has(id));
           
-          console.log(`Deleted ${pointCount} chunks`);
+          logger.info(`Deleted ${pointCount} chunks`);
           return pointCount;
         } catch (error) {
-          console.error('Error deleting chunks:', error);
-          return 0;
+          logger.error('Error deleting chunks:', error);
+          // Let the fallback delete chunks stored locally during an outage
+          throw error;
+        }
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+  
+  /**
+   * Change the document slug, name or domains on every chunk of a registered document,
+   * including the chunks stored locally during an outage
+   * @throws ServiceUnavailableError if Qdrant cannot be updated; the registry record must then keep its values
+   */
+  public async updateDocumentChunks(
+    documentId: string,
+    changes: Partial<Pick<DocumentChunk, 'documentSlug' | 'documentName' | 'domains'>>
+  ): Promise<void> {
+    const filter = { must: [{ key: 'documentId', match: { value: documentId } }] };
+    await this.fallbackService.withoutFallback('updateDocumentChunks', async () => {
+      await this.qdrantClient.setPayload(COLLECTION_ALIAS, { payload: changes, filter, wait: true });
+      
+      // Re-read the updated chunks into the keyword index once it has been built
+      if (qdrantLexicalIndexLoad) {
+        await this.indexQdrantChunks(filter);
+      }
+    });
+    
+    for (const { document } of inMemoryDocuments.values()) {
+      if (document.documentId === documentId) {
+        Object.assign(document, changes);
+        inMemoryDocuments.set(document.id, { document });
+        inMemoryLexicalIndex.add(document.id, document);
+      }
+    }
+  }
+  
+  // Get the ID, title and storing job of every chunk of a registered document
+  public async getDocumentChunkTitles(documentId: string): Promise<Pick<DocumentChunk, 'id' | 'title' | 'ingestionJobId'>[]> {
+    return this.fallbackService.withFallback(
+      'getDocumentChunkTitles',
+      // Fallback function
+      () => Array.from(inMemoryDocuments.values())
+        .filter(({ document }) => document.documentId === documentId)
+        .map(({ document }) => ({ id: document.id, title: document.title, ingestionJobId: document.ingestionJobId })),
+      // Qdrant function
+      async () => {
+        const fields = ['id', 'title', 'ingestionJobId'] as const;
+        const chunks: Pick<DocumentChunk, 'id' | 'title' | 'ingestionJobId'>[] = [];
+        let nextPageOffset: string | undefined;
+        const limit = 100;
+        
+        do {
+          const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+            filter: { must: [{ key: 'documentId', match: { value: documentId } }] },
+            with_payload: { include: [...fields] },
+            limit,
+            offset: nextPageOffset,
+          });
+          
+          response.points.forEach(point => {
+            const payload = pickChunkPayload(point.payload, fields);
+            if (payload) {
+              chunks.push({ id: payload.id, title: payload.title, ingestionJobId: payload.ingestionJobId });
+            }
+          });
+          
+          nextPageOffset = response.next_page_offset as string | undefined;
+        } while (nextPageOffset);
+        
+        return chunks;
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+  
+  /**
+   * Delete every chunk of a registered document, including the chunks stored locally during an outage
+   * @param documentId Registry ID of the document
+   * @param keepIngestionJobId Keep the chunks stored by this job, so a reprocessed
+   *   document's old chunks are swapped for its new ones in a single delete
+   * @throws ServiceUnavailableError if the chunks cannot be deleted from Qdrant; the registry
+   *   record must then be kept so the chunks are not orphaned
+   */
+  public async deleteDocumentChunks(documentId: string, keepIngestionJobId?: string): Promise<number> {
+    const isDeleted = (chunk: ChunkFacets) =>
+      chunk.documentId === documentId && (!keepIngestionJobId || chunk.ingestionJobId !== keepIngestionJobId);
+    
+    const count = await this.fallbackService.withoutFallback('deleteDocumentChunks', async () => {
+      const filter = {
+        must: [{ key: 'documentId', match: { value: documentId } }],
+        ...(keepIngestionJobId && { must_not: [{ key: 'ingestionJobId', match: { value: keepIngestionJobId } }] })
+      };
+      const { count } = await this.qdrantClient.count(COLLECTION_ALIAS, { filter });
+      if (count === 0) return 0;
+      
+      await this.qdrantClient.delete(COLLECTION_ALIAS, { filter, wait: true });
+      this.removeFromQdrantLexicalIndex(id => {
+        const facets = qdrantChunkFacets.get(id);
+        return !!facets && isDeleted(facets);
+      });
+      return count;
+    });
+    
+    const localIds = Array.from(inMemoryDocuments.values())
+      .filter(({ document }) => isDeleted(document))
+      .map(({ document }) => document.id);
+    for (const id of localIds) {
+      inMemoryDocuments.delete(id);
+      inMemoryLexicalIndex.remove(id);
+    }
+    
+    if (count + localIds.length > 0) {
+      logger.info(`Deleted ${count + localIds.length} chunks of document ${documentId}`);
+    }
+    return count + localIds.length;
+  }
+  
+  /**
+   * Get chunks waiting for a real embedding
+   * @param statuses Embedding statuses to include
+   * @param limit Maximum number of chunks
+   * @returns Complete chunks without their placeholder vectors
+   */
+  public async getUnembeddedChunks(statuses: EmbeddingStatus[] = UNEMBEDDED_STATUSES, limit = 100): Promise<DocumentChunk[]> {
+    return this.fallbackService.withFallback(
+      'getUnembeddedChunks',
+      // Fallback function
+      () => Array.from(inMemoryDocuments.values())
+        .filter(({ document }) => statuses.includes(document.embeddingStatus as EmbeddingStatus))
+        .slice(0, limit)
+        .map(({ document }) => ({ ...document, embedding: [] })),
+      // Qdrant function
+      async () => {
+        const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+          filter: { must: [{ key: 'embeddingStatus', match: { any: statuses } }] },
+          with_payload: true,
+          with_vector: false,
+          limit
+        });
+        return response.points.map(point => this.toChunk(toChunkPayload(point.payload), []));
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+  
+  // Count the chunks waiting for a real embedding by status
+  public async countUnembeddedChunks(): Promise<Record<'pending' | 'failed', number>> {
+    return this.fallbackService.withFallback(
+      'countUnembeddedChunks',
+      // Fallback function
+      () => {
+        const documents = Array.from(inMemoryDocuments.values()).map(({ document }) => document);
+        return {
+          pending: documents.filter(doc => doc.embeddingStatus === 'pending').length,
+          failed: documents.filter(doc => doc.embeddingStatus === 'failed').length
+        };
+      },
+      // Qdrant function
+      async () => {
+        const count = async (status: EmbeddingStatus) => (await this.qdrantClient.count(COLLECTION_ALIAS, {
+          filter: { must: [{ key: 'embeddingStatus', match: { value: status } }] },
+          exact: true
+        })).count;
+        return { pending: await count('pending'), failed: await count('failed') };
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+  
+  // Queue chunks whose re-embedding gave up for another round of attempts
+  public async retryFailedEmbeddings(): Promise<number> {
+    return this.fallbackService.withFallback(
+      'retryFailedEmbeddings',
+      // Fallback function
+      () => {
+        let retried = 0;
+        for (const { document } of inMemoryDocuments.values()) {
+          if (document.embeddingStatus === 'failed') {
+            document.embeddingStatus = 'pending';
+            document.embeddingAttempts = 0;
+            inMemoryDocuments.set(document.id, { document });
+            retried++;
+          }
+        }
+        return retried;
+      },
+      // Qdrant function
+      async () => {
+        const filter = { must: [{ key: 'embeddingStatus', match: { value: 'failed' } }] };
+        const { count } = await this.qdrantClient.count(COLLECTION_ALIAS, { filter, exact: true });
+        if (count === 0) return 0;
+        
+        await this.qdrantClient.setPayload(COLLECTION_ALIAS, {
+          payload: { embeddingStatus: 'pending', embeddingAttempts: 0 },
+          filter,
+          wait: true
+        });
+        return count;
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+  
+  // Summarise the documents whose chunks were stored before the document registry existed
+  public async getUnregisteredDocuments(): Promise<UnregisteredDocument[]> {
+    const fields = ['id', 'documentName', 'domains', 'sourceFile', 'sourceType'] as const;
+    const summaries = new Map<string, UnregisteredDocument>();
+    const addChunk = (chunk: Pick<ChunkPayload, typeof fields[number]>) => {
+      const summary = summaries.get(chunk.documentName) || {
+        documentName: chunk.documentName,
+        sourceFile: chunk.sourceFile,
+        sourceType: inferSourceType(chunk),
+        domains: [],
+        chunkCount: 0
+      };
+      summary.chunkCount++;
+      summary.domains = Array.from(new Set([...summary.domains, ...(chunk.domains || [])]));
+      summaries.set(chunk.documentName, summary);
+    };
+    
+    return this.fallbackService.withFallback(
+      'getUnregisteredDocuments',
+      // Fallback function
+      () => {
+        for (const { document } of inMemoryDocuments.values()) {
+          if (!document.documentId && document.documentName) {
+            addChunk(document);
+          }
+        }
+        return Array.from(summaries.values());
+      },
+      // Qdrant function
+      async () => {
+        let nextPageOffset: string | undefined;
+        const limit = 100;
+        
+        do {
+          const response = await this.qdrantClient.scroll(COLLECTION_ALIAS, {
+            filter: { must: [{ is_empty: { key: 'documentId' } }] },
+            with_payload: { include: [...fields] },
+            limit,
+            offset: nextPageOffset,
+          });
+          
+          response.points.forEach(point => {
+            const payload = pickChunkPayload(point.payload, fields);
+            if (payload?.documentName) {
+              addChunk(payload);
+            }
+          });
+          
+          nextPageOffset = response.next_page_offset as string | undefined;
+        } while (nextPageOffset);
+        
+        return Array.from(summaries.values());
+      },
+      this.fallbackService.isFallbackActive()
+    );
+  }
+  
+  // Link the unregistered chunks with a document name to a registry record
+  public async assignDocumentId(documentName: string, documentId: string): Promise<void> {
+    return this.fallbackService.withFallback(
+      'assignDocumentId',
+      // Fallback function
+      () => {
+        for (const { document } of inMemoryDocuments.values()) {
+          if (!document.documentId && document.documentName === documentName) {
+            document.documentId = documentId;
+            inMemoryDocuments.set(document.id, { document });
+          }
+        }
+      },
+      // Qdrant function
+      async () => {
+        await this.qdrantClient.setPayload(COLLECTION_ALIAS, {
+          payload: { documentId },
+          filter: {
+            must: [
+              { key: 'documentName', match: { value: documentName } },
+              { is_empty: { key: 'documentId' } }
+            ]
+          },
+          wait: true
+        });
+        
+        for (const facets of qdrantChunkFacets.values()) {
+          if (!facets.documentId && facets.documentName === documentName) {
+            facets.documentId = documentId;
+          }
         }
       },
       this.fallbackService.isFallbackActive()
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { decodeUploadedFileName, isMangledName, slugify, titleFromFileName, uniqueSlug } from './document-names';
+
+describe('slugify', () => {
+  it('turns a Vietnamese title into an ASCII slug', () => {
+    expect(slugify('Hải Thượng Y Tông Tâm Lĩnh')).toBe('hai-thuong-y-tong-tam-linh');
+    expect(slugify('Đông y: Tập 2 (bản in)')).toBe('dong-y-tap-2-ban-in');
+  });
+
+  it('trims separators and caps the length without a trailing dash', () => {
+    expect(slugify('  --Sách--  ')).toBe('sach');
+    const slug = slugify(`${'a'.repeat(79)} b`);
+    expect(slug).toBe('a'.repeat(79));
+  });
+
+  it('names titles without letters or digits "document"', () => {
+    expect(slugify('???')).toBe('document');
+  });
+});
+
+describe('uniqueSlug', () => {
+  it('keeps a free slug', () => {
+    expect(uniqueSlug('Nội Kinh', () => false)).toBe('noi-kinh');
+  });
+
+  it('adds the first free numeric suffix', () => {
+    const taken = new Set(['noi-kinh', 'noi-kinh-2']);
+    expect(uniqueSlug('Nội Kinh', slug => taken.has(slug))).toBe('noi-kinh-3');
+  });
+});
+
+describe('decodeUploadedFileName', () => {
+  it('recovers UTF-8 names decoded as latin1', () => {
+    const mangled = Buffer.from('Hải Thượng.pdf', 'utf8').toString('latin1');
+    expect(decodeUploadedFileName(mangled)).toBe('Hải Thượng.pdf');
+  });
+
+  it('keeps names that were decoded correctly', () => {
+    expect(decodeUploadedFileName('Hải Thượng.pdf')).toBe('Hải Thượng.pdf');
+    expect(decodeUploadedFileName('café.pdf')).toBe('café.pdf');
+  });
+});
+
+describe('titleFromFileName', () => {
+  it('drops the directory, extension and upload prefix', () => {
+    expect(titleFromFileName('uploads/1700000000000-123456-Hải Thượng.pdf')).toBe('Hải Thượng');
+  });
+});
+
+describe('isMangledName', () => {
+  it('recognises names with every non-alphanumeric character replaced by an underscore', () => {
+    expect(isMangledName('H_i_Th__ng', 'Hải Thượng.pdf')).toBe(true);
+    expect(isMangledName('Hai_Thuong_Y_Tong', 'uploads/1700000000000-123456-Hai Thuong Y Tong.pdf')).toBe(true);
+    expect(isMangledName('1700000000000_123456_Hai_Thuong', 'uploads/1700000000000-123456-Hai Thuong.pdf')).toBe(true);
+  });
+
+  it('does not flag the display title or unrelated names', () => {
+    expect(isMangledName('Hai Thuong', 'Hai Thuong.pdf')).toBe(false);
+    expect(isMangledName('Another_Book', 'Hai Thuong.pdf')).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import path from 'path';
+import { foldDiacritics } from './lexical-index';
+
+/**
+ * Helpers for document identifiers and display titles.
+ *
+ * Every document has a stable ASCII slug (used in chunk IDs and URLs) and a Unicode
+ * display title stored as the documentName of its chunks.
+ */
+
+const MAX_SLUG_LENGTH = 80;
+
+// Prefix the upload route adds to stored files ("<timestamp in ms>-<random>-<original name>")
+const UPLOAD_PREFIX = /^\d{13}-\d{1,10}-/;
+
+/**
+ * Turn a title into a URL-safe slug, e.g. "Hải Thượng Y Tông" -> "hai-thuong-y-tong"
+ * @param text Title to convert
+ */
+export const slugify = (text: string): string =>
+  foldDiacritics(text.normalize('NFC'))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '') || 'document';
+
+/**
+ * Slug for a title that is not yet used by another document, suffixed with -2, -3, ... if needed
+ * @param text Title to convert
+ * @param isTaken Whether a slug is already in use
+ */
+export const uniqueSlug = (text: string, isTaken: (slug: string) => boolean): string => {
+  const base = slugify(text);
+  let slug = base;
+  for (let suffix = 2; isTaken(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+};
+
+/**
+ * Recover the UTF-8 name of an uploaded file. Multer decodes multipart file names as
+ * latin1, which turns Vietnamese names into mojibake ("Háº£i" instead of "Hải").
+ * @param fileName File name as reported by multer
+ */
+export const decodeUploadedFileName = (fileName: string): string => {
+  // Names with characters outside latin1 were not mis-decoded
+  if (!/^[\x00-\xff]*$/.test(fileName)) return fileName;
+
+  const decoded = Buffer.from(fileName, 'latin1').toString('utf8');
+  return decoded.includes('\uFFFD') ? fileName : decoded;
+};
+
+/**
+ * Display title derived from a file name or stored upload path
+ * @param fileName Original file name or upload path
+ */
+export const titleFromFileName = (fileName: string): string =>
+  decodeUploadedFileName(path.basename(fileName, path.extname(fileName)).replace(UPLOAD_PREFIX, '')).normalize('NFC');
+
+/**
+ * Check whether a document name is the underscore-mangled form of a file name,
+ * as produced for chunks stored before display titles were kept
+ * @param documentName Stored document name
+ * @param fileName Original file name or upload path the document was created from
+ */
+export const isMangledName = (documentName: string, fileName: string): boolean => {
+  const mangle = (text: string) => text.replace(/[^a-zA-Z0-9]/g, '_');
+  const baseName = path.basename(fileName, path.extname(fileName));
+  const title = titleFromFileName(fileName);
+
+  return documentName !== title &&
+    (documentName === mangle(baseName) || documentName === mangle(baseName.replace(UPLOAD_PREFIX, '')) || documentName === mangle(title));
+};
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { dataPath, readJson, writeJsonAtomic } from './json-store';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Embedding model used for the active knowledge base collection.
+ *
+ * The provider and model are configured through the environment until an embedding
+ * migration activates another one; the migration records it in the data directory,
+ * where a running server picks it up without a restart.
+ */
+
+export const EMBEDDING_PROVIDERS = ['gemini', 'openai', 'hash'] as const;
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[number];
+
+export interface EmbeddingModelConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  vectorSize: number;
+  collection?: string; // Collection whose vectors were produced by this model
+  activatedAt?: string;
+}
+
+// Provider, model and dimension recorded on each chunk with its vector
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+}
+
+// Model used when EMBEDDING_MODEL is not set
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  gemini: process.env.GEMINI_EMBEDDING_MODEL || 'embedding-001',
+  openai: 'text-embedding-3-small',
+  hash: 'feature-hash-v1'
+};
+
+/**
+ * Check whether a value names a supported embedding provider
+ */
+export const isEmbeddingProvider = (value: unknown): value is EmbeddingProviderName =>
+  EMBEDDING_PROVIDERS.includes(value as EmbeddingProviderName);
+
+const configuredProvider = process.env.EMBEDDING_PROVIDER || 'gemini';
+if (!isEmbeddingProvider(configuredProvider)) {
+  throw new Error(`EMBEDDING_PROVIDER must be one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+}
+
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingModelConfig = {
+  provider: configuredProvider,
+  model: process.env.EMBEDDING_MODEL || DEFAULT_MODELS[configuredProvider],
+  vectorSize: parseInt(process.env.EMBEDDING_VECTOR_SIZE || process.env.GEMINI_VECTOR_SIZE || '768', 10)
+};
+
+/**
+ * Default model name of a provider
+ */
+export const defaultModelFor = (provider: EmbeddingProviderName): string => DEFAULT_MODELS[provider];
+
+const MODEL_FILE = 'embedding-model.json';
+
+// How often the model file is checked for a migration run by another process
+const MODEL_FILE_POLL_MS = 1000;
+
+let cached: EmbeddingModelConfig | null = null;
+const changeListeners: Array<() => void> = [];
+
+/**
+ * Call a listener whenever a migration activates another embedding model
+ */
+export const onEmbeddingModelChange = (listener: () => void): void => {
+  changeListeners.push(listener);
+};
+
+const activate = (config: EmbeddingModelConfig): void => {
+  cached = config;
+  changeListeners.forEach(listener => listener());
+};
+
+const readModelFile = (filePath: string): EmbeddingModelConfig => {
+  if (!fs.existsSync(filePath)) return DEFAULT_EMBEDDING_MODEL;
+  // Migrations recorded before providers existed all used Gemini
+  return { provider: 'gemini', ...readJson<Partial<EmbeddingModelConfig>>(filePath, DEFAULT_EMBEDDING_MODEL) } as EmbeddingModelConfig;
+};
+
+/**
+ * Embedding model of the active collection, read once and again only when a migration
+ * replaces the model file
+ */
+export const activeEmbeddingModel = (): EmbeddingModelConfig => {
+  if (!cached) {
+    const filePath = dataPath(MODEL_FILE);
+    cached = readModelFile(filePath);
+    // Polling keeps file checks off the request path and does not keep the process alive
+    fs.watchFile(filePath, { interval: MODEL_FILE_POLL_MS, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) activate(readModelFile(filePath));
+    });
+  }
+  return cached;
+};
+
+/**
+ * Record the embedding model of a newly activated collection
+ */
+export const setActiveEmbeddingModel = (config: EmbeddingModelConfig): void => {
+  writeJsonAtomic(dataPath(MODEL_FILE), config);
+  activate(config);
+};
+
+/**
+ * Description of a model stored on the chunks it embedded
+ */
+export const embeddingModelInfo = (config: EmbeddingModelConfig): EmbeddingModelInfo => ({
+  provider: config.provider,
+  model: config.model,
+  dimensions: config.vectorSize
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreakerOptions, CircuitEvent, FallbackService, ServiceUnavailableError } from './fallback-service';
+
+const OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumCalls: 2,
+  windowSize: 4,
+  baseRetryMs: 1000,
+  maxRetryMs: 3000,
+  jitterRatio: 0,
+  timeoutMs: 0
+};
+
+// Refused connections are the expected failure, which the service does not log as unexpected
+const fail = () => Promise.reject(Object.assign(new Error('fetch failed'), {
+  cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+}));
+const succeed = () => Promise.resolve('primary');
+const fallback = () => 'fallback';
+
+// Each test uses its own service name, so the events of other tests' services are ignored
+let serviceCount = 0;
+const createService = (options: Partial<CircuitBreakerOptions> = {}) => {
+  const name = `Test ${++serviceCount}`;
+  const events: CircuitEvent[] = [];
+  FallbackService.addEventHook(event => {
+    if (event.service === name) events.push(event);
+  });
+  return { service: new FallbackService(name, { ...OPTIONS, ...options }), events };
+};
+
+const stateChanges = (events: CircuitEvent[]) =>
+  events.flatMap(event => event.type === 'state_change' ? [`${event.from}->${event.to}`] : []);
+
+describe('FallbackService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps calling the primary until enough calls have failed', async () => {
+    const { service } = createService();
+
+    await expect(service.withFallback('read', fallback, fail)).resolves.toBe('fallback');
+    expect(service.isFallbackActive()).toBe(false);
+
+    await service.withFallback('read', fallback, fail);
+    expect(service.isFallbackActive()).toBe(true);
+
+    const primary = vi.fn(succeed);
+    await expect(service.withFallback('read', fallback, primary)).resolves.toBe('fallback');
+    expect(primary).not.toHaveBeenCalled();
+  });
+
+  it('computes the failure rate over the most recent calls', async () => {
+    const { service } = createService();
+
+    await service.withFallback('read', fallback, succeed);
+    await service.withFallback('read', fallback, succeed);
+    await service.withFallback('read', fallback, succeed);
+    await service.withFallback('read', fallback, fail);
+    expect(service.isFallbackActive()).toBe(false);
+
+    // The window of four calls now holds two successes and two failures
+    await service.withFallback('read', fallback, fail);
+    expect(service.isFallbackActive()).toBe(true);
+  });
+
+  it('keeps a circuit per operation', async () => {
+    const { service } = createService();
+
+    await service.withFallback('read', fallback, fail);
+    await service.withFallback('read', fallback, fail);
+
+    await expect(service.withFallback('write', fallback, succeed)).resolves.toBe('primary');
+    expect(service.isPrimaryAvailable('write')).toBe(true);
+    expect(service.isPrimaryAvailable('read')).toBe(false);
+  });
+
+  it('closes the circuit after a successful trial call', async () => {
+    const { service, events } = createService();
+
+    await service.withFallback('read', fallback, fail);
+    await service.withFallback('read', fallback, fail);
+
+    vi.setSystemTime(999);
+    expect(service.isPrimaryAvailable('read')).toBe(false);
+    vi.setSystemTime(1000);
+    expect(service.isPrimaryAvailable('read')).toBe(true);
+
+    await expect(service.withFallback('read', fallback, succeed)).resolves.toBe('primary');
+    expect(service.isFallbackActive()).toBe(false);
+    expect(stateChanges(events)).toEqual(['closed->open', 'open->half_open', 'half_open->closed']);
+  });
+
+  it('doubles the open time after every failed trial, up to the maximum', async () => {
+    const { service } = createService();
+
+    await service.withFallback('read', fallback, fail);
+    await service.withFallback('read', fallback, fail);
+
+    // Open for 1s, then 2s after the first failed trial, then 3s instead of 4s
+    for (const [trialAt, nextTrialAt] of [[1000, 3000], [3000, 6000], [6000, 9000]]) {
+      vi.setSystemTime(trialAt);
+      await service.withFallback('read', fallback, fail);
+
+      vi.setSystemTime(nextTrialAt - 1);
+      expect(service.isPrimaryAvailable('read')).toBe(false);
+      vi.setSystemTime(nextTrialAt);
+      expect(service.isPrimaryAvailable('read')).toBe(true);
+    }
+  });
+
+  it('lets a single trial call through at a time', async () => {
+    const { service } = createService();
+
+    await service.withFallback('read', fallback, fail);
+    await service.withFallback('read', fallback, fail);
+    vi.setSystemTime(1000);
+
+    let finishTrial: (value: string) => void = () => undefined;
+    const trial = service.withFallback('read', fallback, () => new Promise<string>(resolve => { finishTrial = resolve; }));
+
+    const primary = vi.fn(succeed);
+    await expect(service.withFallback('read', fallback, primary)).resolves.toBe('fallback');
+    expect(primary).not.toHaveBeenCalled();
+
+    finishTrial('primary');
+    await expect(trial).resolves.toBe('primary');
+    expect(service.isFallbackActive()).toBe(false);
+  });
+
+  it('counts calls outlasting the timeout as failures', async () => {
+    vi.useRealTimers();
+    const { service, events } = createService({ timeoutMs: 10, minimumCalls: 1 });
+
+    const hanging = () => new Promise<string>(() => undefined);
+    await expect(service.withFallback('read', fallback, hanging)).resolves.toBe('fallback');
+
+    expect(events.map(event => event.type)).toContain('timeout');
+    expect(service.isFallbackActive()).toBe(true);
+  });
+
+  it('fails operations without a fallback instead of falling back', async () => {
+    const { service } = createService();
+
+    await expect(service.withoutFallback('write', fail)).rejects.toThrow(ServiceUnavailableError);
+    await expect(service.withoutFallback('write', fail)).rejects.toThrow('fetch failed');
+
+    // The circuit is open now, so the primary is not called
+    const primary = vi.fn(succeed);
+    await expect(service.withoutFallback('write', primary)).rejects.toThrow(ServiceUnavailableError);
+    expect(primary).not.toHaveBeenCalled();
+  });
+});
@@ -1,19 +1,160 @@
-// Generic fallback service to handle service unavailability consistently
+import dotenv from 'dotenv';
+import { logger } from './logger';
+
+// Load environment variables
+dotenv.config();
+
+// State of the circuit guarding one operation of a service
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold: number; // Share of failed calls in the window (0-1) that opens the circuit
+  minimumCalls: number; // Calls recorded before the failure rate is evaluated
+  windowSize: number; // Most recent calls the failure rate is computed over
+  baseRetryMs: number; // Time the circuit stays open after it first opens
+  maxRetryMs: number; // Upper bound of the doubling open time
+  jitterRatio: number; // Random share added to or removed from each open time
+  timeoutMs: number; // Primary calls taking longer count as failures; 0 for no timeout
+}
+
+const envNumber = (name: string, defaultValue: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : defaultValue;
+};
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: envNumber('CIRCUIT_FAILURE_RATE', 0.5),
+  minimumCalls: envNumber('CIRCUIT_MINIMUM_CALLS', 3),
+  windowSize: envNumber('CIRCUIT_WINDOW_SIZE', 10),
+  baseRetryMs: envNumber('CIRCUIT_BASE_RETRY_MS', 5000),
+  maxRetryMs: envNumber('CIRCUIT_MAX_RETRY_MS', 300000),
+  jitterRatio: envNumber('CIRCUIT_JITTER_RATIO', 0.2),
+  timeoutMs: envNumber('CIRCUIT_TIMEOUT_MS', 60000)
+};
+
+// Raised when a primary call does not settle within the circuit's timeout
+export class CircuitTimeoutError extends Error {
+  constructor(serviceName: string, operation: string, timeoutMs: number) {
+    super(`${serviceName} ${operation} timed out after ${timeoutMs}ms`);
+    this.name = 'CircuitTimeoutError';
+  }
+}
+
+// Raised when an operation without a fallback cannot reach the primary service
+export class ServiceUnavailableError extends Error {
+  constructor(serviceName: string, operation: string, cause?: unknown) {
+    super(`${serviceName} is unavailable for ${operation}${cause instanceof Error ? `: ${cause.message}` : ''}`);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+// Something that happened in a circuit, passed to the metrics hooks
+export type CircuitEvent =
+  | { type: 'success' | 'failure' | 'timeout'; service: string; operation: string; durationMs: number }
+  | { type: 'fallback'; service: string; operation: string }
+  | { type: 'state_change'; service: string; operation: string; from: CircuitState; to: CircuitState };
+
+export type CircuitEventHook = (event: CircuitEvent) => void;
+
+// Circuit of one operation, as reported by the readiness endpoint
+export interface CircuitStatus {
+  operation: string;
+  state: CircuitState;
+  failureRate: number;
+  retryAt?: string; // When an open circuit lets a trial call through
+}
+
+// Fallback state of a service, as reported by the readiness endpoint
+export interface FallbackStatus {
+  service: string;
+  fallbackActive: boolean;
+  lastErrorAt?: string;
+  lastError?: string;
+  circuits: CircuitStatus[];
+}
+
+interface Circuit {
+  state: CircuitState;
+  outcomes: boolean[]; // Recent calls, true for a failure
+  openCount: number; // Consecutive times the circuit opened without a successful trial
+  retryAt: number;
+  trialInFlight: boolean;
+  warned: boolean;
+}
+
+/**
+ * Generic fallback service to handle service unavailability consistently.
+ *
+ * Each operation has its own circuit breaker: the circuit opens once the failure rate
+ * of its recent calls reaches the threshold, sends calls to the fallback while open,
+ * and lets a single trial call through once the open time (doubling with every
+ * failed trial, with jitter) has passed.
+ */
 export class FallbackService {
-  private warningFlags: Map<string, boolean> = new Map();
-  private lastAttemptTime: Map<string, number> = new Map();
-  private isUsingFallback: boolean = false;
-  
-  // Configuration for retry behavior
-  private retryIntervalMs: number = 60000; // Try primary service again after 1 minute
-  
-  constructor(private serviceName: string) {}
-  
+  // Every instance, so the state of all services can be reported
+  private static instances: FallbackService[] = [];
+  private static hooks: CircuitEventHook[] = [];
+
+  private circuits: Map<string, Circuit> = new Map();
+  private lastError: { at: string; message: string } | null = null;
+  private options: CircuitBreakerOptions;
+
+  constructor(private serviceName: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    FallbackService.instances.push(this);
+  }
+
+  /**
+   * Register a function called with every circuit event of every service
+   * @param hook Function receiving the events; errors it throws are ignored
+   */
+  public static addEventHook(hook: CircuitEventHook): void {
+    FallbackService.hooks.push(hook);
+  }
+
+  /**
+   * Fallback state of every service, merging the instances that guard the same service
+   */
+  public static getStatuses(): FallbackStatus[] {
+    const statuses = new Map<string, FallbackStatus>();
+
+    for (const instance of FallbackService.instances) {
+      const status = statuses.get(instance.serviceName) || { service: instance.serviceName, fallbackActive: false, circuits: [] };
+      status.fallbackActive = status.fallbackActive || instance.isFallbackActive();
+      if (instance.lastError && (!status.lastErrorAt || instance.lastError.at > status.lastErrorAt)) {
+        status.lastErrorAt = instance.lastError.at;
+        status.lastError = instance.lastError.message;
+      }
+
+      for (const [operation, circuit] of instance.circuits) {
+        const failures = circuit.outcomes.filter(Boolean).length;
+        const circuitStatus: CircuitStatus = {
+          operation,
+          state: circuit.state,
+          failureRate: circuit.outcomes.length ? failures / circuit.outcomes.length : 0,
+          ...(circuit.state !== 'closed' && { retryAt: new Date(circuit.retryAt).toISOString() })
+        };
+        // Of several instances guarding the same operation, report the least healthy circuit
+        const index = status.circuits.findIndex(existing => existing.operation === operation);
+        if (index === -1) {
+          status.circuits.push(circuitStatus);
+        } else if (circuitStatus.state !== 'closed' || status.circuits[index].state === 'closed') {
+          status.circuits[index] = circuitStatus;
+        }
+      }
+      statuses.set(instance.serviceName, status);
+    }
+
+    return Array.from(statuses.values());
+  }
+
   /**
    * Execute an operation with automatic fallback if the primary method fails
-   * @param operation Operation name for logging
+   * @param operation Operation name, identifying its circuit
    * @param fallbackFn Function to execute as fallback
    * @param primaryFn Function to try first
+   * @param forceFallback Ignored: the circuit of the operation decides. Kept so existing
+   *   call sites passing isFallbackActive() keep working.
    * @returns Result of either primary or fallback function
    */
   public async withFallback<T>(
@@ -22,116 +163,246 @@ export class FallbackService {
     primaryFn: () => Promise<T>,
     forceFallback = false
   ): Promise<T> {
-    // If explicitly in fallback mode and retry interval hasn't elapsed, use fallback immediately
-    if (forceFallback && !this.shouldRetryPrimary(operation)) {
-      return Promise.resolve(fallbackFn());
-    }
-    
-    // Try primary function, with fallback on error
-    return primaryFn().then(result => {
-      // If we get here, primary function succeeded - reset fallback state
-      this.isUsingFallback = false;
-      this.resetWarningFlag(operation);
+    const circuit = this.getCircuit(operation);
+
+    if (!this.acquire(operation, circuit)) {
+      this.emit({ type: 'fallback', service: this.serviceName, operation });
+      return fallbackFn();
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await this.withTimeout(operation, primaryFn);
+      this.recordSuccess(operation, Date.now() - startedAt);
       return result;
-    }).catch((error) => {
-      this.handleError(operation, error);
+    } catch (error) {
+      this.recordFailure(operation, error, Date.now() - startedAt);
+      this.emit({ type: 'fallback', service: this.serviceName, operation });
       return fallbackFn();
-    });
+    }
   }
-  
+
   /**
-   * Handle errors consistently with proper logging
-   * @param operation Name of the operation that failed
-   * @param error Error that occurred
+   * Execute an operation that must reach the primary service, such as a write other records
+   * depend on. It uses the operation's circuit like withFallback, but fails instead of falling back.
+   * @param operation Operation name, identifying its circuit
+   * @param primaryFn Function calling the primary service
+   * @returns Result of the primary function
+   * @throws ServiceUnavailableError if the circuit is open or the primary call fails
    */
-  public handleError(operation: string, error: any): void {
-    const errorKey = `${this.serviceName}:${operation}`;
-    this.isUsingFallback = true;
-    this.lastAttemptTime.set(errorKey, Date.now());
-    
-    // Only log the full warning once per service+operation combination
-    if (!this.warningFlags.get(errorKey)) {
-      console.warn(`${this.serviceName} unavailable during ${operation}. Using fallback until service is available.`);
-      
-      // Add service-specific guidance
-      if (this.serviceName === 'Qdrant') {
-        console.warn(`Ensure ${this.serviceName} is running at the configured URL with proper credentials.`);
-        console.warn('You can install Qdrant using Docker: docker run -p 6333:6333 qdrant/qdrant');
-      } else if (this.serviceName === 'Embedding') {
-        console.warn('Check your embedding service configuration and connectivity.');
-      }
-      
-      this.warningFlags.set(errorKey, true);
-    } else {
-      // For subsequent errors, just log a debug message
-      console.debug(`${this.serviceName} still unavailable during ${operation}. Using fallback.`);
+  public async withoutFallback<T>(operation: string, primaryFn: () => Promise<T>): Promise<T> {
+    const circuit = this.getCircuit(operation);
+
+    if (!this.acquire(operation, circuit)) {
+      throw new ServiceUnavailableError(this.serviceName, operation);
     }
-    
-    // If it's not a connection refused error, log more details for debugging
-    if (error?.cause?.code !== 'ECONNREFUSED') {
-      console.error(`Unexpected error in ${this.serviceName} during ${operation}:`, error);
+
+    const startedAt = Date.now();
+    try {
+      const result = await this.withTimeout(operation, primaryFn);
+      this.recordSuccess(operation, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.recordFailure(operation, error, Date.now() - startedAt);
+      throw new ServiceUnavailableError(this.serviceName, operation, error);
     }
   }
-  
+
+  /**
+   * Record a failed call of an operation and log it consistently
+   * @param operation Name of the operation that failed
+   * @param error Error that occurred
+   */
+  public handleError(operation: string, error: unknown): void {
+    this.recordFailure(operation, error, 0);
+  }
+
   /**
-   * Reset the warning flag for an operation
-   * @param operation Operation name to reset
+   * Record a successful call of an operation made outside withFallback
+   * @param operation Operation name
    */
   public resetWarningFlag(operation?: string): void {
     if (operation) {
-      const errorKey = `${this.serviceName}:${operation}`;
-      this.warningFlags.delete(errorKey);
-      this.lastAttemptTime.delete(errorKey);
+      this.recordSuccess(operation, 0);
     } else {
-      // Reset all warning flags for this service
-      for (const key of this.warningFlags.keys()) {
-        if (key.startsWith(`${this.serviceName}:`)) {
-          this.warningFlags.delete(key);
-          this.lastAttemptTime.delete(key);
-        }
-      }
+      this.forceRetryPrimary();
     }
   }
-  
+
   /**
-   * Determines if we should attempt the primary service again after a failure
-   * @param operation The operation being performed
-   * @returns True if enough time has passed to retry the primary service
+   * Check if any operation of the service is currently in fallback mode
    */
-  private shouldRetryPrimary(operation: string): boolean {
-    const errorKey = `${this.serviceName}:${operation}`;
-    const lastAttempt = this.lastAttemptTime.get(errorKey);
-    
-    // If no failed attempt recorded or enough time has passed since last attempt
-    if (!lastAttempt || Date.now() - lastAttempt > this.retryIntervalMs) {
-      return true;
-    }
-    
-    return false;
-  }
-  
+  public isFallbackActive(): boolean {
+    return Array.from(this.circuits.values()).some(circuit => circuit.state !== 'closed');
+  }
+
   /**
-   * Check if the service is currently in fallback mode
+   * Check whether the next call of an operation will try the primary service,
+   * either because its circuit is closed or because a trial call is due
+   * @param operation The operation that will be performed
    */
-  public isFallbackActive(): boolean {
-    return this.isUsingFallback;
+  public isPrimaryAvailable(operation: string): boolean {
+    const circuit = this.circuits.get(operation);
+    if (!circuit || circuit.state === 'closed') return true;
+    return !circuit.trialInFlight && Date.now() >= circuit.retryAt;
   }
-  
+
   /**
-   * Force the service to try the primary implementation next time
+   * Close every circuit, so the next calls try the primary implementation
    */
   public forceRetryPrimary(): void {
-    this.isUsingFallback = false;
-    this.resetWarningFlag();
+    for (const [operation, circuit] of this.circuits) {
+      circuit.outcomes = [];
+      circuit.openCount = 0;
+      circuit.trialInFlight = false;
+      circuit.warned = false;
+      this.transition(operation, circuit, 'closed');
+    }
   }
-  
+
   /**
-   * Set retry interval for attempting primary service after failure
+   * Set the time circuits stay open after they first open
    * @param intervalMs Interval in milliseconds
    */
   public setRetryInterval(intervalMs: number): void {
     if (intervalMs > 0) {
-      this.retryIntervalMs = intervalMs;
+      this.options.baseRetryMs = intervalMs;
+    }
+  }
+
+  private getCircuit(operation: string): Circuit {
+    let circuit = this.circuits.get(operation);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openCount: 0, retryAt: 0, trialInFlight: false, warned: false };
+      this.circuits.set(operation, circuit);
+    }
+    return circuit;
+  }
+
+  // Decide whether a call may use the primary service, moving a due open circuit to half-open
+  private acquire(operation: string, circuit: Circuit): boolean {
+    if (circuit.state === 'closed') return true;
+    if (circuit.trialInFlight || Date.now() < circuit.retryAt) return false;
+
+    this.transition(operation, circuit, 'half_open');
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  private async withTimeout<T>(operation: string, primaryFn: () => Promise<T>): Promise<T> {
+    if (this.options.timeoutMs <= 0) return primaryFn();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CircuitTimeoutError(this.serviceName, operation, this.options.timeoutMs)),
+        this.options.timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([primaryFn(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordSuccess(operation: string, durationMs: number): void {
+    const circuit = this.getCircuit(operation);
+    this.emit({ type: 'success', service: this.serviceName, operation, durationMs });
+
+    if (circuit.state !== 'closed') {
+      logger.info(`${this.serviceName} is available again for ${operation}.`);
+      circuit.outcomes = [];
+      circuit.openCount = 0;
+      this.transition(operation, circuit, 'closed');
+    }
+    circuit.trialInFlight = false;
+    circuit.warned = false;
+    this.record(circuit, false);
+  }
+
+  private recordFailure(operation: string, error: unknown, durationMs: number): void {
+    const circuit = this.getCircuit(operation);
+    const type = error instanceof CircuitTimeoutError ? 'timeout' : 'failure';
+    this.emit({ type, service: this.serviceName, operation, durationMs });
+    this.lastError = {
+      at: new Date().toISOString(),
+      message: `${operation}: ${error instanceof Error ? error.message : String(error)}`
+    };
+    this.record(circuit, true);
+    this.logFailure(operation, circuit, error);
+
+    const failures = circuit.outcomes.filter(Boolean).length;
+    const tripped = circuit.state === 'half_open' || (
+      circuit.outcomes.length >= this.options.minimumCalls &&
+      failures / circuit.outcomes.length >= this.options.failureRateThreshold
+    );
+    circuit.trialInFlight = false;
+
+    if (tripped) {
+      const retryMs = this.retryDelay(circuit.openCount);
+      circuit.openCount++;
+      circuit.retryAt = Date.now() + retryMs;
+      this.transition(operation, circuit, 'open');
+      logger.warn(`${this.serviceName} circuit for ${operation} is open; retrying in ${Math.round(retryMs / 1000)}s.`);
+    }
+  }
+
+  private record(circuit: Circuit, failed: boolean): void {
+    circuit.outcomes.push(failed);
+    if (circuit.outcomes.length > this.options.windowSize) {
+      circuit.outcomes.shift();
+    }
+  }
+
+  // Exponential backoff with jitter, capped at the maximum open time
+  private retryDelay(openCount: number): number {
+    const delay = Math.min(this.options.baseRetryMs * 2 ** openCount, this.options.maxRetryMs);
+    const jitter = delay * this.options.jitterRatio * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delay + jitter));
+  }
+
+  private transition(operation: string, circuit: Circuit, to: CircuitState): void {
+    if (circuit.state === to) return;
+    const from = circuit.state;
+    circuit.state = to;
+    this.emit({ type: 'state_change', service: this.serviceName, operation, from, to });
+  }
+
+  private emit(event: CircuitEvent): void {
+    for (const hook of FallbackService.hooks) {
+      try {
+        hook(event);
+      } catch (error) {
+        // Metrics must never break the operation being measured
+      }
+    }
+  }
+
+  private logFailure(operation: string, circuit: Circuit, error: unknown): void {
+    // Only log the full warning once until the operation succeeds again
+    if (!circuit.warned) {
+      logger.warn(`${this.serviceName} unavailable during ${operation}. Using fallback until service is available.`);
+
+      // Add service-specific guidance
+      if (this.serviceName === 'Qdrant') {
+        logger.warn(`Ensure ${this.serviceName} is running at the configured URL with proper credentials.`);
+        logger.warn('You can install Qdrant using Docker: docker run -p 6333:6333 qdrant/qdrant:v1.13.0');
+      } else if (this.serviceName === 'Embedding') {
+        logger.warn('Check your embedding service configuration and connectivity.');
+      }
+
+      circuit.warned = true;
+    } else {
+      // For subsequent errors, just log a debug message
+      logger.debug(`${this.serviceName} still unavailable during ${operation}. Using fallback.`);
+    }
+
+    // If it's not a connection refused error, log more details for debugging
+    const cause = error instanceof Error && 'cause' in error ? error.cause : undefined;
+    if (!(cause instanceof Error && (cause as NodeJS.ErrnoException).code === 'ECONNREFUSED')) {
+      logger.error(`Unexpected error in ${this.serviceName} during ${operation}:`, error);
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+import { dataPath, JsonLinesLog } from './json-store';
+import type { DocumentChunk } from '../services/chunking';
+import { logger } from './logger';
+
+export interface StoredChunk {
+  document: DocumentChunk;
+}
+
+// One line of the log: a chunk written or deleted
+type LogEntry = { op: 'put'; chunk: DocumentChunk } | { op: 'delete'; id: string };
+
+/**
+ * Chunks stored while Qdrant is unavailable.
+ *
+ * Behaves like a Map, but every write and delete is appended to a JSON Lines log in
+ * the data directory, so the chunks survive a restart until they are synced to
+ * Qdrant. The log is replayed and compacted when the store is created. Chunks
+ * changed in place must be set again to be persisted.
+ */
+export class PersistentChunkMap extends Map<string, StoredChunk> {
+  private filePath: string;
+  private log: JsonLinesLog<LogEntry>;
+
+  constructor(fileName: string) {
+    super();
+    this.filePath = dataPath(fileName);
+    this.log = new JsonLinesLog(this.filePath, () => this.logEntries());
+    this.load();
+  }
+
+  public set(id: string, entry: StoredChunk): this {
+    super.set(id, entry);
+    this.append({ op: 'put', chunk: entry.document });
+    return this;
+  }
+
+  public delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.append({ op: 'delete', id });
+    }
+    return deleted;
+  }
+
+  public clear(): void {
+    super.clear();
+    this.compact();
+  }
+
+  private append(entry: LogEntry): void {
+    this.log.append([entry]);
+  }
+
+  // Replay the log, compacting it when it holds more than one line per chunk
+  private load(): void {
+    const { entries, lineCount } = this.log.read();
+    for (const entry of entries) {
+      if (entry.op === 'put') {
+        super.set(entry.chunk.id, { document: entry.chunk });
+      } else {
+        super.delete(entry.id);
+      }
+    }
+
+    if (this.size > 0) {
+      logger.info(`Loaded ${this.size} locally stored chunks from ${this.filePath}`);
+    }
+    if (lineCount !== this.size) {
+      this.compact();
+    }
+  }
+
+  // Rewrite the log with one entry per stored chunk
+  private compact(): void {
+    this.log.rewrite(this.logEntries());
+  }
+
+  private logEntries(): LogEntry[] {
+    return Array.from(this.values()).map(({ document }): LogEntry => ({ op: 'put', chunk: document }));
+  }
+}
@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { logger } from './logger';
+
+// Load environment variables
+dotenv.config();
+
+// Directory holding all locally persisted server state (jobs, registries, caches)
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+/**
+ * Resolve a path inside the data directory, creating parent directories as needed
+ * @param segments Path segments relative to the data directory
+ * @returns Absolute path inside the data directory
+ */
+export const dataPath = (...segments: string[]): string => {
+  const fullPath = path.join(DATA_DIR, ...segments);
+  const dir = path.extname(fullPath) ? path.dirname(fullPath) : fullPath;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return fullPath;
+};
+
+/**
+ * Write a JSON file atomically so a crash mid-write never leaves a truncated file
+ * @param filePath Destination file
+ * @param data Data to serialise
+ * @param pretty Whether to indent the JSON; large files written often are kept compact
+ */
+export const writeJsonAtomic = (filePath: string, data: unknown, pretty = true): void => {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data), 'utf8');
+  fs.renameSync(tempPath, filePath);
+};
+
+// Whether a process is still running; signal 0 only checks that it exists
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * Claim a file shared by the processes using the data directory, such as the server and
+ * the embedding migration command, so that only one of them writes it. The claim is a
+ * `<file>.lock` holding the id of the claiming process; it is released when that process
+ * exits and taken over once it has ended without releasing it.
+ * @param filePath File to claim
+ * @returns Id of the process holding the claim
+ */
+const claimFile = (filePath: string): number => {
+  const lockPath = `${filePath}.lock`;
+  const tempPath = `${lockPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, String(process.pid), 'utf8');
+
+  try {
+    for (;;) {
+      try {
+        // Linking fails if the lock exists, and never exposes a lock without its process id
+        fs.linkSync(tempPath, lockPath);
+        process.once('exit', () => {
+          if (readFileOrEmpty(lockPath) === String(process.pid)) fs.rmSync(lockPath, { force: true });
+        });
+        return process.pid;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const owner = parseInt(readFileOrEmpty(lockPath), 10);
+      if (owner === process.pid || (owner > 0 && isRunning(owner))) return owner;
+      fs.rmSync(lockPath, { force: true });
+    }
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+};
+
+const readFileOrEmpty = (filePath: string): string => {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    return '';
+  }
+};
+
+/**
+ * Log of JSON values, one per line, that is appended to as changes happen and read
+ * back in full on startup. Rewriting it replaces the file atomically.
+ *
+ * Only one process writes a log at a time. Another process using the same data directory
+ * keeps its changes in memory until the writing process has ended, then takes the log
+ * over and writes its current entries in full.
+ */
+export class JsonLinesLog<T> {
+  private claimed = false;
+  private writtenBy?: number;
+
+  /**
+   * @param filePath Log file
+   * @param snapshot Current entries, written when the log is taken over from another process
+   */
+  constructor(private filePath: string, private snapshot?: () => T[]) {}
+
+  /**
+   * Read every entry of the log, skipping a line left incomplete by a crash mid-write
+   * @returns The entries in order, and the number of lines including unreadable ones
+   */
+  read(): { entries: T[]; lineCount: number } {
+    if (!fs.existsSync(this.filePath)) return { entries: [], lineCount: 0 };
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim());
+    const entries: T[] = [];
+    for (const line of lines) {
+      try {
+        entries.push(JSON.parse(line) as T);
+      } catch (error) {
+        // Counted below
+      }
+    }
+    if (entries.length < lines.length) {
+      logger.warn(`Skipped ${lines.length - entries.length} unreadable entries in ${this.filePath}`);
+    }
+    return { entries, lineCount: lines.length };
+  }
+
+  append(entries: T[]): void {
+    if (entries.length === 0 || !this.claim()) return;
+    fs.appendFileSync(this.filePath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+  }
+
+  /**
+   * Replace the log with the given entries
+   */
+  rewrite(entries: T[]): void {
+    if (!this.claim()) return;
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  // Whether this process may write the log, taking it over from a process that has ended
+  private claim(): boolean {
+    if (this.claimed) return true;
+
+    const owner = claimFile(this.filePath);
+    if (owner !== process.pid) {
+      if (this.writtenBy !== owner) {
+        logger.warn(`${this.filePath} is written by process ${owner}; changes made by this process are kept in memory`);
+        this.writtenBy = owner;
+      }
+      return false;
+    }
+
+    this.claimed = true;
+    if (this.writtenBy !== undefined && this.snapshot) {
+      logger.info(`Took over ${this.filePath} from process ${this.writtenBy}`);
+      this.rewrite(this.snapshot());
+    }
+    return true;
+  }
+}
+
+/**
+ * Read a JSON file, returning a default value if it does not exist or is unreadable
+ * @param filePath File to read
+ * @param defaultValue Value returned when the file is missing or corrupt
+ */
+export const readJson = <T>(filePath: string, defaultValue: T): T => {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return defaultValue;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    logger.error(`Error reading JSON file ${filePath}:`, error);
+    return defaultValue;
+  }
+};
+
+export interface JsonFileStoreOptions {
+  flushDelayMs?: number; // Write the changes made within this time in one go; 0 writes on every change
+}
+
+// Stores with changes not yet written, flushed when the process exits
+const pendingStores = new Set<{ flush(): void }>();
+process.once('exit', () => {
+  for (const store of pendingStores) {
+    store.flush();
+  }
+});
+
+/**
+ * Simple keyed record store persisted as a single JSON file.
+ * Records are kept in memory and flushed to disk on every mutation, or once
+ * per flush delay for stores that change often.
+ */
+export class JsonFileStore<T extends { id: string }> {
+  private records: Map<string, T> = new Map();
+  private filePath: string;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(fileName: string, private options: JsonFileStoreOptions = {}) {
+    this.filePath = dataPath(fileName);
+    const stored = readJson<T[]>(this.filePath, []);
+    for (const record of stored) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  public get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.records.has(id);
+  }
+
+  public values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  public set(record: T): T {
+    this.records.set(record.id, record);
+    this.scheduleFlush();
+    return record;
+  }
+
+  /**
+   * Apply a partial update to an existing record
+   * @returns The updated record, or undefined if it does not exist
+   */
+  public update(id: string, changes: Partial<T>): T | undefined {
+    const existing = this.records.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...changes, id };
+    this.records.set(id, updated);
+    this.scheduleFlush();
+    return updated;
+  }
+
+  public delete(id: string): boolean {
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      this.scheduleFlush();
+    }
+    return deleted;
+  }
+
+  /**
+   * Write the records to disk now, including changes waiting for the flush delay
+   */
+  public flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    pendingStores.delete(this);
+
+    try {
+      writeJsonAtomic(this.filePath, Array.from(this.records.values()), false);
+    } catch (error) {
+      logger.error(`Error persisting store ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.options.flushDelayMs) {
+      this.flush();
+      return;
+    }
+    if (this.flushTimer) return;
+
+    pendingStores.add(this);
+    this.flushTimer = setTimeout(() => this.flush(), this.options.flushDelayMs);
+    this.flushTimer.unref();
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { foldDiacritics, LexicalIndex, tokenize } from './lexical-index';
+
+describe('foldDiacritics', () => {
+  it('removes Vietnamese tone and vowel marks', () => {
+    expect(foldDiacritics('Hải Thượng Lãn Ông')).toBe('Hai Thuong Lan Ong');
+  });
+
+  it('folds đ and Đ, which have no combining mark', () => {
+    expect(foldDiacritics('Đông y đại cương')).toBe('Dong y dai cuong');
+  });
+
+  it('folds text in composed and decomposed form alike', () => {
+    expect(foldDiacritics('thượng'.normalize('NFD'))).toBe(foldDiacritics('thượng'.normalize('NFC')));
+  });
+});
+
+describe('tokenize', () => {
+  it('indexes syllables and bigrams both as written and folded', () => {
+    expect(tokenize('Hải Thượng')).toEqual(['hải', 'hai', 'hải_thượng', 'hai_thuong', 'thượng', 'thuong']);
+  });
+
+  it('does not repeat syllables without diacritics', () => {
+    expect(tokenize('y tong')).toEqual(['y', 'y_tong', 'tong']);
+  });
+});
+
+describe('LexicalIndex', () => {
+  it('scores a match with BM25', () => {
+    const index = new LexicalIndex();
+    index.add('a', { content: 'mạch' });
+    index.add('b', { content: 'khác' });
+
+    // "mạch" and "mach" each match once in a document of average length, scoring their IDF
+    const [match] = index.search('mạch');
+    expect(match.id).toBe('a');
+    expect(match.score).toBeCloseTo(2 * Math.log(2));
+  });
+
+  it('ranks adjacent syllables above the same syllables apart', () => {
+    const index = new LexicalIndex();
+    index.add('apart', { content: 'thượng vị đau, hải sản' });
+    index.add('together', { content: 'sách hải thượng y tông' });
+
+    expect(index.search('hải thượng').map(match => match.id)).toEqual(['together', 'apart']);
+  });
+
+  it('matches queries typed without diacritics and reports the syllables as typed', () => {
+    const index = new LexicalIndex();
+    index.add('a', { title: 'Hải Thượng Lãn Ông' });
+
+    const [match] = index.search('hai thuong');
+    expect(match.id).toBe('a');
+    expect(match.matchedTerms.sort()).toEqual(['hai', 'thuong']);
+  });
+
+  it('weights titles above content', () => {
+    const index = new LexicalIndex();
+    index.add('content', { title: 'khác', content: 'mạch văn bản' });
+    index.add('title', { title: 'mạch', content: 'văn bản khác' });
+
+    expect(index.search('mạch')[0].id).toBe('title');
+  });
+
+  it('ranks rarer terms higher', () => {
+    const index = new LexicalIndex();
+    index.add('common', { content: 'bệnh thường gặp' });
+    index.add('rare', { content: 'bệnh hiếm gặp' });
+    index.add('other', { content: 'bệnh khác gặp' });
+
+    expect(index.search('bệnh hiếm')[0].id).toBe('rare');
+  });
+
+  it('applies the limit and the accept filter', () => {
+    const index = new LexicalIndex();
+    ['a', 'b', 'c'].forEach(id => index.add(id, { content: 'thuốc nam' }));
+
+    expect(index.search('thuốc', 2)).toHaveLength(2);
+    expect(index.search('thuốc', 10, id => id !== 'b').map(match => match.id).sort()).toEqual(['a', 'c']);
+  });
+
+  it('replaces a document added again and forgets removed ones', () => {
+    const index = new LexicalIndex();
+    index.add('a', { content: 'thuốc nam' });
+    index.add('a', { content: 'châm cứu' });
+
+    expect(index.size).toBe(1);
+    expect(index.search('thuốc')).toEqual([]);
+    expect(index.search('châm')[0].id).toBe('a');
+
+    expect(index.remove('a')).toBe(true);
+    expect(index.remove('a')).toBe(false);
+    expect(index.search('châm')).toEqual([]);
+  });
+});
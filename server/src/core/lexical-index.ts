@@ -0,0 +1,209 @@
+/**
+ * In-memory BM25 index used for keyword search over document chunks.
+ *
+ * Tokenisation is tuned for Vietnamese: every syllable is indexed both as written
+ * and with its diacritics folded away ("Thượng" -> "thượng" + "thuong"), and
+ * adjacent syllables are also indexed as bigrams so multi-syllable words such as
+ * "hải thượng" rank above documents that merely contain both syllables.
+ */
+
+// BM25 tuning parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Relative weight of each indexed field in the term frequencies
+const FIELD_WEIGHTS = {
+  title: 2,
+  summary: 1.5,
+  content: 1,
+  enhancedContent: 1
+};
+
+export type IndexableFields = {
+  [field in keyof typeof FIELD_WEIGHTS]?: string;
+};
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+  matchedTerms: string[]; // Query syllables found in the document, as typed by the user
+}
+
+interface IndexedDocument {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+/**
+ * Remove Vietnamese diacritics (including đ) from text
+ */
+export const foldDiacritics = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D');
+
+/**
+ * Split text into lower-cased syllables
+ */
+export const splitSyllables = (text: string): string[] =>
+  text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+/**
+ * Turn text into index terms: syllables, folded syllables and syllable bigrams
+ * @param text Text to tokenise
+ */
+export const tokenize = (text: string): string[] => {
+  const syllables = splitSyllables(text);
+  const terms: string[] = [];
+
+  for (let i = 0; i < syllables.length; i++) {
+    const syllable = syllables[i];
+    const folded = foldDiacritics(syllable);
+    terms.push(syllable);
+    if (folded !== syllable) {
+      terms.push(folded);
+    }
+
+    if (i < syllables.length - 1) {
+      const next = syllables[i + 1];
+      const bigram = `${syllable}_${next}`;
+      const foldedBigram = `${folded}_${foldDiacritics(next)}`;
+      terms.push(bigram);
+      if (foldedBigram !== bigram) {
+        terms.push(foldedBigram);
+      }
+    }
+  }
+
+  return terms;
+};
+
+export class LexicalIndex {
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  public has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  public ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * Add or replace a document in the index
+   */
+  public add(id: string, fields: IndexableFields): void {
+    this.remove(id);
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+      const text = fields[field as keyof IndexableFields];
+      if (!text) continue;
+
+      for (const term of tokenize(text)) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const term of termFrequencies.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+
+    this.documents.set(id, { length, termFrequencies });
+    this.totalLength += length;
+  }
+
+  public remove(id: string): boolean {
+    const existing = this.documents.get(id);
+    if (!existing) return false;
+
+    for (const term of existing.termFrequencies.keys()) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= existing.length;
+    return true;
+  }
+
+  public clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank documents against a query with BM25
+   * @param query Free-text query
+   * @param limit Maximum number of matches to return
+   * @param accept Optional predicate restricting which document IDs may match
+   */
+  public search(query: string, limit = 10, accept?: (id: string) => boolean): LexicalMatch[] {
+    if (this.documents.size === 0) return [];
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, number>();
+    const matchedTerms = new Map<string, Set<string>>();
+
+    // Map exact and folded query syllables back to the syllable as typed, so callers can highlight it
+    const termToSyllable = new Map<string, string>();
+    for (const syllable of splitSyllables(query)) {
+      termToSyllable.set(syllable, syllable);
+      if (!termToSyllable.has(foldDiacritics(syllable))) {
+        termToSyllable.set(foldDiacritics(syllable), syllable);
+      }
+    }
+
+    for (const term of new Set(tokenize(query))) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+
+      const idf = Math.log(1 + (this.documents.size - ids.size + 0.5) / (ids.size + 0.5));
+
+      for (const id of ids) {
+        if (accept && !accept(id)) continue;
+
+        const doc = this.documents.get(id) as IndexedDocument;
+        const tf = doc.termFrequencies.get(term) || 0;
+        const termScore = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+
+        const syllable = termToSyllable.get(term);
+        if (syllable) {
+          let terms = matchedTerms.get(id);
+          if (!terms) {
+            terms = new Set();
+            matchedTerms.set(id, terms);
+          }
+          terms.add(syllable);
+        }
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => ({
+        id,
+        score,
+        matchedTerms: Array.from(matchedTerms.get(id) || [])
+      }));
+  }
+}
@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Correlation fields attached to every entry logged while handling a request or
+ * running a job
+ */
+export interface LogContext {
+  requestId?: string;
+  jobId?: string;
+  documentId?: string;
+  videoId?: string;
+}
+
+const parseLevel = (value: string | undefined): LogLevel =>
+  value && value in LEVEL_ORDER ? value as LogLevel : 'info';
+
+const parseList = (value: string | undefined, defaults: string[]): string[] =>
+  value === undefined ? defaults : value.split(',').map(item => item.trim()).filter(Boolean);
+
+const LOG_LEVEL = parseLevel(process.env.LOG_LEVEL?.toLowerCase());
+
+// Fields whose values are never written: document text and credentials
+const REDACTED_FIELDS = new Set(parseList(process.env.LOG_REDACT_FIELDS, [
+  'text', 'content', 'originalText', 'correctedText', 'pageContent', 'transcript',
+  'accessToken', 'refreshToken', 'token', 'apiKey', 'authorization', 'password', 'secret'
+]).map(field => field.toLowerCase()));
+
+// Tokens and API keys are also masked inside messages unless LOG_REDACT_TOKENS=false
+const REDACT_TOKENS = process.env.LOG_REDACT_TOKENS !== 'false';
+const TOKEN_PATTERNS = [
+  /Bearer\s+[A-Za-z0-9._~+/-]+=*/g,
+  /ya29\.[A-Za-z0-9._-]+/g, // Google OAuth access tokens
+  /1\/\/[A-Za-z0-9._-]{20,}/g, // Google OAuth refresh tokens
+  /AIza[A-Za-z0-9_-]{35}/g // Google API keys
+];
+
+const REDACTED = '[redacted]';
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+const redactString = (value: string): string =>
+  REDACT_TOKENS ? TOKEN_PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), value) : value;
+
+// Copy a value for output, masking redacted fields and tokens at any depth
+const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) };
+  }
+  if (!value || typeof value !== 'object') return value;
+  if (depth > 5) return '[truncated]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = REDACTED_FIELDS.has(key.toLowerCase()) && field !== undefined ? REDACTED : redact(field, depth + 1);
+  }
+  return result;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Error);
+
+/**
+ * Write one JSON line. Arguments after the message are treated the way the
+ * console calls they replace used them: an Error becomes the `error` field, a
+ * plain object is merged into the entry and anything else is collected in `details`.
+ */
+const write = (level: LogLevel, message: string, args: unknown[]): void => {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[LOG_LEVEL]) return;
+
+  const entry: Record<string, unknown> = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: redactString(message),
+    ...contextStorage.getStore()
+  };
+  const details: unknown[] = [];
+  for (const arg of args) {
+    if (arg instanceof Error) {
+      entry.error = redact(arg);
+    } else if (isPlainObject(arg)) {
+      Object.assign(entry, redact(arg));
+    } else {
+      details.push(redact(arg));
+    }
+  }
+  if (details.length > 0) {
+    entry.details = details;
+  }
+  // Fields passed by the caller never replace the level or message
+  entry.level = level;
+  entry.message = redactString(message);
+
+  const line = JSON.stringify(entry);
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+};
+
+export const logger = {
+  debug: (message: string, ...args: unknown[]) => write('debug', message, args),
+  info: (message: string, ...args: unknown[]) => write('info', message, args),
+  warn: (message: string, ...args: unknown[]) => write('warn', message, args),
+  error: (message: string, ...args: unknown[]) => write('error', message, args)
+};
+
+/**
+ * Run a function with correlation fields added to the current context
+ */
+export const withLogContext = <T>(context: LogContext, fn: () => T): T =>
+  contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+
+/**
+ * Run a function in a new context that does not inherit the caller's fields,
+ * for work such as a queued job that outlives the request that started it
+ */
+export const startLogContext = <T>(context: LogContext, fn: () => T): T =>
+  contextStorage.run({ ...context }, fn);
+
+/**
+ * The correlation fields of the current request or job
+ */
+export const getLogContext = (): LogContext => ({ ...contextStorage.getStore() });
+
+// Request ids supplied by a proxy are reused when they look safe to log
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+/**
+ * Express middleware assigning a correlation id to each request, taken from the
+ * X-Request-Id header when present and returned in the response
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.get('X-Request-Id');
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : uuidv4();
+  res.setHeader('X-Request-Id', requestId);
+  startLogContext({ requestId }, next);
+};
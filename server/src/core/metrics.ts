@@ -0,0 +1,216 @@
+import { NextFunction, Request, Response } from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { CircuitState, FallbackService } from './fallback-service';
+
+/**
+ * Prometheus metrics served at /metrics.
+ *
+ * Stages are the calls an ingestion spends its time in; Gemini stages also count
+ * towards the Gemini request metrics. Label values are fixed sets, never IDs or
+ * file names, to keep the number of series bounded.
+ */
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export type PipelineStage =
+  | 'ocr' // Google Cloud Vision text detection of an image
+  | 'ocr_correction' // Gemini correction of OCR errors
+  | 'sentence_repair' // Gemini repair of sentences split across pages
+  | 'chunk_title'
+  | 'chunk_summary'
+  | 'enhancement'
+  | 'embedding'
+  | 'qdrant_upsert'
+  | 'youtube_transcript' // Fetching, chunking and embedding a YouTube transcript
+  | 'youtube_metadata';
+
+// Seconds; OCR and Gemini calls regularly take tens of seconds
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const stageDuration = new Histogram({
+  name: 'pipeline_stage_duration_seconds',
+  help: 'Duration of ingestion pipeline stages',
+  labelNames: ['stage', 'outcome'],
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const geminiRequests = new Counter({
+  name: 'gemini_requests_total',
+  help: 'Gemini API requests by purpose and outcome',
+  labelNames: ['purpose', 'outcome'],
+  registers: [metricsRegistry]
+});
+
+const geminiRetries = new Counter({
+  name: 'gemini_retries_total',
+  help: 'Gemini requests retried after a rate limit or transient failure, by purpose and reason',
+  labelNames: ['purpose', 'reason'],
+  registers: [metricsRegistry]
+});
+
+const geminiQueueWait = new Histogram({
+  name: 'gemini_queue_wait_seconds',
+  help: 'Time Gemini requests waited for the rate limiter and a free concurrency slot',
+  labelNames: ['kind'],
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const embeddingCacheLookups = new Counter({
+  name: 'embedding_cache_lookups_total',
+  help: 'Texts looked up in the embedding cache, by whether a vector was found',
+  labelNames: ['result'],
+  registers: [metricsRegistry]
+});
+
+const jobStageDuration = new Histogram({
+  name: 'ingestion_job_stage_duration_seconds',
+  help: 'Time an ingestion job spent in each of its stages, per document',
+  labelNames: ['kind', 'stage'],
+  buckets: [...DURATION_BUCKETS, 600, 1800, 3600],
+  registers: [metricsRegistry]
+});
+
+const fallbackActivations = new Counter({
+  name: 'fallback_activations_total',
+  help: 'Calls answered by the fallback instead of the primary service',
+  labelNames: ['service', 'operation'],
+  registers: [metricsRegistry]
+});
+
+const dependencyCallDuration = new Histogram({
+  name: 'dependency_call_duration_seconds',
+  help: 'Duration of calls to services guarded by a circuit breaker',
+  labelNames: ['service', 'operation', 'outcome'],
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+const circuitState = new Gauge({
+  name: 'circuit_breaker_state',
+  help: 'Circuit breaker state per operation: 0 closed, 1 half-open, 2 open',
+  labelNames: ['service', 'operation'],
+  registers: [metricsRegistry]
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Duration of HTTP requests by route',
+  labelNames: ['method', 'route', 'status_code'],
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+FallbackService.addEventHook(event => {
+  const labels = { service: event.service, operation: event.operation };
+  switch (event.type) {
+    case 'fallback':
+      fallbackActivations.inc(labels);
+      break;
+    case 'state_change':
+      circuitState.set(labels, CIRCUIT_STATE_VALUES[event.to]);
+      break;
+    default:
+      // Calls recorded outside withFallback have no duration
+      if (event.durationMs > 0) {
+        dependencyCallDuration.observe({ ...labels, outcome: event.type }, event.durationMs / 1000);
+      }
+  }
+});
+
+/**
+ * Time a pipeline stage, recording whether it succeeded
+ * @param stage Stage being timed
+ * @param fn The work of the stage; its result or error is passed through
+ */
+export const timeStage = async <T>(stage: PipelineStage, fn: () => Promise<T>): Promise<T> => {
+  const end = stageDuration.startTimer({ stage });
+  try {
+    const result = await fn();
+    end({ outcome: 'success' });
+    return result;
+  } catch (error) {
+    end({ outcome: 'error' });
+    throw error;
+  }
+};
+
+/**
+ * Count a Gemini request by outcome
+ * @param purpose Stage the request is made for
+ * @param request The API call
+ */
+export const countGeminiRequest = async <T>(purpose: PipelineStage, request: () => Promise<T>): Promise<T> => {
+  try {
+    const result = await request();
+    geminiRequests.inc({ purpose, outcome: 'success' });
+    return result;
+  } catch (error) {
+    geminiRequests.inc({ purpose, outcome: 'error' });
+    throw error;
+  }
+};
+
+/**
+ * Time a Gemini request made for a pipeline stage and count it by outcome
+ * @param stage Stage the request is made for
+ * @param request The API call
+ */
+export const timeGeminiRequest = <T>(stage: PipelineStage, request: () => Promise<T>): Promise<T> =>
+  timeStage(stage, () => countGeminiRequest(stage, request));
+
+/**
+ * Count a retry of a Gemini request
+ * @param purpose Stage the request is made for
+ * @param reason Why the attempt failed
+ */
+export const countGeminiRetry = (purpose: PipelineStage, reason: 'rate_limited' | 'server_error' | 'network'): void => {
+  geminiRetries.inc({ purpose, reason });
+};
+
+/**
+ * Record how long a Gemini request waited before it was sent
+ * @param kind Rate limiter the request waited for
+ * @param seconds Time spent waiting
+ */
+export const observeGeminiQueueWait = (kind: string, seconds: number): void => {
+  geminiQueueWait.observe({ kind }, seconds);
+};
+
+/**
+ * Count the texts found and not found in the embedding cache
+ * @param hits Texts with a cached vector
+ * @param misses Texts without one
+ */
+export const countEmbeddingCacheLookups = (hits: number, misses: number): void => {
+  if (hits > 0) embeddingCacheLookups.inc({ result: 'hit' }, hits);
+  if (misses > 0) embeddingCacheLookups.inc({ result: 'miss' }, misses);
+};
+
+/**
+ * Start timing a stage of an ingestion job
+ * @returns Function recording the elapsed time once the stage is complete
+ */
+export const startJobStageTimer = (kind: string, stage: string): (() => void) => {
+  const end = jobStageDuration.startTimer({ kind, stage });
+  return () => {
+    end();
+  };
+};
+
+/**
+ * Express middleware recording the latency of every request by its route pattern
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const end = httpRequestDuration.startTimer({ method: req.method });
+  res.on('finish', () => {
+    // The pattern (/api/documents/:id) rather than the URL, so IDs do not create series
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    end({ route, status_code: String(res.statusCode) });
+  });
+  next();
+};
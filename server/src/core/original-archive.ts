@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, dataPath } from './json-store';
+import type { JobFile } from '../types/job';
+
+/**
+ * Archive of the original uploaded files of each document, kept so a document can be
+ * reprocessed with a new pipeline configuration after its chunks have been stored.
+ */
+
+const ARCHIVE_DIR = path.resolve(DATA_DIR, 'originals');
+
+// Move a file, copying it when the destination is on another file system
+const moveFile = (from: string, to: string): void => {
+  try {
+    fs.renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    fs.copyFileSync(from, to);
+    fs.unlinkSync(from);
+  }
+};
+
+/**
+ * Check whether a file is already stored in the archive
+ * @param filePath File to check
+ */
+export const isArchived = (filePath: string): boolean =>
+  path.resolve(filePath).startsWith(ARCHIVE_DIR + path.sep);
+
+/**
+ * Move the uploaded files of a document into its archive directory
+ * @param documentId Registry ID of the document
+ * @param files Uploaded files in upload order
+ * @returns The files with their archived paths
+ */
+export const archiveOriginals = (documentId: string, files: JobFile[]): JobFile[] =>
+  files.map((file, index) => {
+    if (isArchived(file.path)) return file;
+
+    // Prefix with the upload position so files with the same name do not collide
+    const archivedPath = dataPath('originals', documentId, `${index + 1}-${path.basename(file.path)}`);
+    moveFile(file.path, archivedPath);
+    return { ...file, path: archivedPath };
+  });
+
+/**
+ * Delete the archived originals of a document
+ * @param documentId Registry ID of the document
+ */
+export const removeOriginals = (documentId: string): void => {
+  fs.rmSync(path.join(ARCHIVE_DIR, documentId), { recursive: true, force: true });
+};
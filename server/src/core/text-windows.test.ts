@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { findBoundary, nextWindowStart } from './text-windows';
+
+describe('findBoundary', () => {
+  const text = 'one two three four';
+
+  it('ends after the boundary closest to the ideal position', () => {
+    expect(findBoundary(text, 0, text.length, [/\s+/], 9)).toBe(8);
+  });
+
+  it('only considers boundaries inside the searched range', () => {
+    expect(findBoundary(text, 0, 6, [/\s+/], 9)).toBe(4);
+  });
+
+  it('prefers an earlier pattern to a closer boundary of a later one', () => {
+    const sentences = 'aaaa bbbb. cccc dddd';
+    expect(findBoundary(sentences, 0, sentences.length, [/\.\s+/, /\s+/], 0)).toBe(11);
+  });
+
+  it('returns undefined when no pattern matches', () => {
+    expect(findBoundary('abcdef', 0, 6, [/\s+/], 3)).toBeUndefined();
+  });
+});
+
+describe('nextWindowStart', () => {
+  const text = 'one two three four';
+
+  it('starts at the end of the window without overlap', () => {
+    expect(nextWindowStart(text, 0, 14, 0)).toBe(14);
+  });
+
+  it('moves the overlap forward to the next word', () => {
+    // Seven characters before the end fall on the space before "three"
+    expect(nextWindowStart(text, 0, 14, 7)).toBe(8);
+    expect(nextWindowStart(text, 0, 14, 9)).toBe(8);
+  });
+
+  it('cuts a word when the overlap holds no space', () => {
+    expect(nextWindowStart('abcdefghij', 0, 10, 3)).toBe(7);
+  });
+
+  it('always starts after the start of the window', () => {
+    expect(nextWindowStart('abcdefghij', 2, 5, 10)).toBe(3);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Helpers for cutting text into consecutive, possibly overlapping windows that end
+ * at natural boundaries. Used for the passages of a chunk's embeddings and for
+ * chunks split by size.
+ */
+
+/**
+ * Find the best place to end a window: the boundary closest to the ideal position
+ * found by the first pattern that matches between `from` and `to`
+ * @param text Whole text
+ * @param from Start of the range searched
+ * @param to End of the range searched
+ * @param patterns Boundaries in order of preference, e.g. paragraph, sentence, word
+ * @param ideal Position the window would ideally end at
+ * @returns Position just after the boundary, or undefined if no pattern matches
+ */
+export const findBoundary = (text: string, from: number, to: number, patterns: RegExp[], ideal: number): number | undefined => {
+  const range = text.slice(from, to);
+  return patterns
+    .map(pattern => Array.from(range.matchAll(new RegExp(pattern.source, 'g')))
+      .map(match => from + (match.index as number) + match[0].length)
+      .sort((a, b) => Math.abs(a - ideal) - Math.abs(b - ideal))[0])
+    .find(position => position !== undefined);
+};
+
+/**
+ * Where the window after [start, end) begins: `overlap` characters before its end,
+ * moved forward to a word boundary so no word is cut
+ * @param text Whole text
+ * @param start Start of the previous window
+ * @param end End of the previous window
+ * @param overlap Characters the windows should share; 0 for none
+ */
+export const nextWindowStart = (text: string, start: number, end: number, overlap: number): number => {
+  if (overlap <= 0) return end;
+
+  const overlapStart = Math.max(end - overlap, start + 1);
+  const space = text.slice(overlapStart, end).search(/\s/);
+  return space === -1 ? overlapStart : overlapStart + space + 1;
+};
@@ -9,7 +9,16 @@ import { Server } from 'socket.io';
 import documentRoutes from './routes/document';
 import youtubeRoutes from './routes/youtube';
 import authRoutes from './routes/auth';
+import jobRoutes from './routes/jobs';
+import embeddingRoutes from './routes/embeddings';
+import healthRoutes from './routes/health';
+import metricsRoutes from './routes/metrics';
+import usageRoutes from './routes/usage';
 import { DatabaseService } from './core/database-service';
+import { httpMetrics } from './core/metrics';
+import { jobQueue } from './services/job-queue';
+import { pendingEmbeddings } from './services/pending-embeddings';
+import { logger, requestContext } from './core/logger';
 
 // Load environment variables
 dotenv.config();
@@ -36,56 +45,46 @@ const io = new Server(httpServer, {
 
 // Socket.io connection handler
 io.on('connection', (socket) => {
-  console.log('New client connected', socket.id);
+  logger.info('New client connected', socket.id);
   
-  // Handle joining a specific video room for progress updates
-  socket.on('join-video-room', (data: { videoId: string }) => {
-    if (data.videoId) {
-      socket.join(`video-${data.videoId}`);
-      console.log(`Socket ${socket.id} joined room for video ${data.videoId}`);
+  // Handle joining a specific job room for progress updates
+  socket.on('join-job-room', (data: { jobId: string }) => {
+    if (data.jobId) {
+      socket.join(`job-${data.jobId}`);
+      logger.info(`Socket ${socket.id} joined room for job ${data.jobId}`);
       
       // Send an immediate connection confirmation to the client
       socket.emit('room-joined', { 
-        videoId: data.videoId,
-        message: `Successfully joined room for video ${data.videoId}` 
+        jobId: data.jobId,
+        message: `Successfully joined room for job ${data.jobId}` 
       });
       
       // Import the progress tracker when needed to avoid circular dependencies
       const { progressTracker } = require('./services/progress-tracker');
       
-      // Try to resend the latest update for this video
-      const resent = progressTracker.resendLatestUpdate(data.videoId);
-      
-      // If no updates to resend, send a test progress update to verify communication
-      if (!resent) {
-        io.to(`video-${data.videoId}`).emit('progress-update', {
-          videoId: data.videoId,
-          stage: 'initializing',
-          message: 'WebSocket connection established successfully',
-          progress: 1
-        });
-      }
+      // Try to resend the latest update for this job
+      progressTracker.resendLatestUpdate(data.jobId);
     } else {
-      console.error('Socket tried to join a room without providing videoId', socket.id);
+      logger.error('Socket tried to join a room without providing jobId', socket.id);
     }
   });
   
-  // Handle client requesting the latest progress for a video
-  socket.on('request-latest-progress', (data: { videoId: string }) => {
-    if (data.videoId) {
-      console.log(`Socket ${socket.id} requested latest progress for video ${data.videoId}`);
+  // Handle client requesting the latest progress for a job
+  socket.on('request-latest-progress', (data: { jobId: string }) => {
+    if (data.jobId) {
+      logger.info(`Socket ${socket.id} requested latest progress for job ${data.jobId}`);
       
       // Import the progress tracker when needed to avoid circular dependencies
       const { progressTracker } = require('./services/progress-tracker');
       
-      // Try to resend the latest update for this video
-      const resent = progressTracker.resendLatestUpdate(data.videoId);
+      // Try to resend the latest update for this job
+      const resent = progressTracker.resendLatestUpdate(data.jobId);
       
       if (!resent) {
         socket.emit('progress-update', {
-          videoId: data.videoId,
+          jobId: data.jobId,
           stage: 'unknown',
-          message: 'No recent progress updates available for this video',
+          message: 'No recent progress updates available for this job',
           progress: 0
         });
       }
@@ -93,17 +92,25 @@ io.on('connection', (socket) => {
   });
   
   socket.on('error', (error) => {
-    console.error('Socket error:', socket.id, error);
+    logger.error('Socket error:', socket.id, error);
   });
   
   socket.on('disconnect', (reason) => {
-    console.log('Client disconnected', socket.id, 'Reason:', reason);
+    logger.info('Client disconnected', socket.id, 'Reason:', reason);
   });
 });
 
 // Export socket.io instance for use in other modules
 export { io };
 
+// Exit on stop signals rather than being killed, so stores with delayed writes flush on exit
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    logger.info(`Received ${signal}, shutting down`);
+    process.exit(0);
+  });
+}
+
 // Initialize database service
 const dbService = new DatabaseService();
 dbService.initialize().then(() => {
@@ -111,12 +118,14 @@ dbService.initialize().then(() => {
   const uploadsDir = path.join(process.cwd(), 'uploads');
   if (!fs.existsSync(uploadsDir)) {
     fs.mkdirSync(uploadsDir, { recursive: true });
-    console.log(`Created uploads directory at ${uploadsDir}`);
+    logger.info(`Created uploads directory at ${uploadsDir}`);
   } else {
-    console.log(`Uploads directory exists at ${uploadsDir}`);
+    logger.info(`Uploads directory exists at ${uploadsDir}`);
   }
 
   // Middleware
+  app.use(requestContext);
+  app.use(httpMetrics);
   app.use(cors({
     origin: function(origin, callback) {
       // Allow requests with no origin (like mobile apps or curl requests)
@@ -129,19 +138,20 @@ dbService.initialize().then(() => {
         'http://127.0.0.1:5173'
       ];
       
-      console.log('CORS Request from origin:', origin);
+      logger.info('CORS Request from origin:', origin);
       
       // Check if the origin is allowed
       if(allowedOrigins.indexOf(origin) !== -1 || !origin) {
         callback(null, true);
       } else {
-        console.log('CORS blocked for origin:', origin);
+        logger.info('CORS blocked for origin:', origin);
         callback(new Error('Not allowed by CORS'));
       }
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+    exposedHeaders: ['X-Request-Id']
   }));
   app.use(express.json());
   
@@ -164,6 +174,11 @@ dbService.initialize().then(() => {
   app.use('/api/documents', documentRoutes);
   app.use('/api/youtube', youtubeRoutes);
   app.use('/api/auth', authRoutes);
+  app.use('/api/jobs', jobRoutes);
+  app.use('/api/embeddings', embeddingRoutes);
+  app.use('/api/usage', usageRoutes);
+  app.use('/api', healthRoutes);
+  app.use('/metrics', metricsRoutes);
 
   // Serve static files in production
   if (process.env.NODE_ENV === 'production') {
@@ -176,8 +191,14 @@ dbService.initialize().then(() => {
 
   // Start server
   httpServer.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
+    logger.info(`Server running on port ${PORT}`);
+
+    // Resume interrupted ingestion jobs and start draining the queue
+    jobQueue.start();
+
+    // Embed chunks stored while the embedding provider was unavailable
+    pendingEmbeddings.start();
   });
 }).catch(error => {
-  console.error('Failed to initialize database service:', error);
+  logger.error('Failed to initialize database service:', error);
 }); 
\ No newline at end of file
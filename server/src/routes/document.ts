@@ -52,11 +52,23 @@ const upload = multer({
 router.post('/upload', upload.single('document'), documentController.parseAndStoreDocument);
 router.post('/upload-folder', upload.array('documents', 50), documentController.parseAndStoreImageFolder);
 router.get('/search', documentController.searchDocuments);
+router.get('/check-duplicate', documentController.checkDuplicate);
 
 // New routes for document management
 router.get('/list', documentController.listDocuments);
 router.get('/search-by-name', documentController.searchDocumentsByName);
 router.get('/chunks/:documentName', documentController.getChunksByDocumentName);
 router.delete('/chunks', documentController.deleteChunks);
+router.patch('/chunks/:id', documentController.updateChunk);
+router.get('/chunks/:id/history', documentController.getChunkHistory);
+router.post('/chunks/:id/rollback/:version', documentController.rollbackChunkVersion);
+router.post('/migrations/repair-names', documentController.repairDocumentNames);
+
+// Document registry routes; registered last so /:id does not shadow the routes above
+router.get('/', documentController.listRegisteredDocuments);
+router.get('/:id', documentController.getDocument);
+router.patch('/:id', documentController.updateDocument);
+router.delete('/:id', documentController.deleteDocument);
+router.post('/:id/reprocess', documentController.reprocessDocument);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,18 @@
+import express from 'express';
+import * as embeddingsController from '../controllers/embeddings';
+
+const router = express.Router();
+
+// Route for listing chunks waiting for a real embedding
+router.get('/pending', embeddingsController.listPendingEmbeddings);
+
+// Route for retrying pending and failed chunks now
+router.post('/retry', embeddingsController.retryPendingEmbeddings);
+
+// Route for embedding cache hit and miss counts
+router.get('/cache', embeddingsController.getEmbeddingCacheStats);
+
+// Route for removing every cached embedding
+router.delete('/cache', embeddingsController.clearEmbeddingCache);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import * as healthController from '../controllers/health';
+
+const router = express.Router();
+
+// Route for the liveness check
+router.get('/health', healthController.getHealth);
+
+// Route for the readiness check with dependency status
+router.get('/ready', healthController.getReadiness);
+
+export default router;
@@ -0,0 +1,18 @@
+import express from 'express';
+import * as jobsController from '../controllers/jobs';
+
+const router = express.Router();
+
+// Route for listing ingestion jobs
+router.get('/', jobsController.listJobs);
+
+// Route for getting the state of a single job
+router.get('/:id', jobsController.getJob);
+
+// Route for cancelling a queued or running job
+router.post('/:id/cancel', jobsController.cancelJob);
+
+// Route for retrying a failed job
+router.post('/:id/retry', jobsController.retryJob);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import * as metricsController from '../controllers/metrics';
+
+const router = express.Router();
+
+// Route for Prometheus scraping
+router.get('/', metricsController.getMetrics);
+
+export default router;
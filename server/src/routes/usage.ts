@@ -0,0 +1,9 @@
+import express from 'express';
+import * as usageController from '../controllers/usage';
+
+const router = express.Router();
+
+// Route for the LLM usage and cost report
+router.get('/', usageController.getUsage);
+
+export default router;
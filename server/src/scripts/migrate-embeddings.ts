@@ -0,0 +1,113 @@
+/**
+ * Embedding model migration command
+ *
+ * Usage, after `npm run build`:
+ *   npm run migrate:embeddings -- start [--provider gemini|openai|hash] --model <name> --vector-size <n> [--batch-size 32] [--delay-ms 1000]
+ *   npm run migrate:embeddings -- resume [--batch-size 32] [--delay-ms 1000]
+ *   npm run migrate:embeddings -- status
+ *   npm run migrate:embeddings -- abandon
+ *   npm run migrate:embeddings -- remove <collection>
+ *
+ * `npm run migrate:embeddings` runs the compiled script, dist/scripts/migrate-embeddings.js.
+ */
+import { COLLECTION_ALIAS } from '../core/database-service';
+import { activeEmbeddingModel, EMBEDDING_PROVIDERS, isEmbeddingProvider } from '../core/embedding-model';
+import { logger } from '../core/logger';
+import { DEFAULT_MIGRATION_OPTIONS, embeddingMigration } from '../services/embedding-migration';
+import { MigrationOptions } from '../types/migration';
+
+const USAGE = `Usage: migrate-embeddings <command> [options]
+
+Commands:
+  start --model <name> --vector-size <n>   Copy the knowledge base into a new collection embedded with <name>
+  resume                                   Continue the unfinished migration from its last checkpoint
+  status                                   Show the active collection and all migrations
+  abandon                                  Stop the unfinished migration and delete its new collection
+  remove <collection>                      Delete a collection that is no longer active
+
+Options for start:
+  --provider <name>  Embedding provider: ${EMBEDDING_PROVIDERS.join(', ')} (default: the active provider)
+
+Options for start and resume:
+  --batch-size <n>   Points embedded per batch (default ${DEFAULT_MIGRATION_OPTIONS.batchSize})
+  --delay-ms <n>     Pause between batches in milliseconds (default ${DEFAULT_MIGRATION_OPTIONS.delayMs})`;
+
+// Split arguments into positional values and --name value options
+const parseArgs = (args: string[]) => {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      options[args[i].slice(2)] = args[i + 1];
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, options };
+};
+
+const positiveInteger = (value: string | undefined, name: string, defaultValue?: number): number => {
+  if (value === undefined && defaultValue !== undefined) return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || (parsed === 0 && name !== 'delay-ms')) {
+    throw new Error(`--${name} must be a ${name === 'delay-ms' ? 'non-negative' : 'positive'} integer`);
+  }
+  return parsed;
+};
+
+const migrationOptions = (options: Record<string, string>): MigrationOptions => ({
+  batchSize: positiveInteger(options['batch-size'], 'batch-size', DEFAULT_MIGRATION_OPTIONS.batchSize),
+  delayMs: positiveInteger(options['delay-ms'], 'delay-ms', DEFAULT_MIGRATION_OPTIONS.delayMs)
+});
+
+async function main(): Promise<void> {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [command, collectionName] = positional;
+
+  switch (command) {
+    case 'start': {
+      if (!options.model) throw new Error('--model is required');
+      const provider = options.provider ?? activeEmbeddingModel().provider;
+      if (!isEmbeddingProvider(provider)) {
+        throw new Error(`--provider must be one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+      }
+      await embeddingMigration.start({
+        provider,
+        model: options.model,
+        vectorSize: positiveInteger(options['vector-size'], 'vector-size')
+      }, migrationOptions(options));
+      break;
+    }
+    case 'resume':
+      await embeddingMigration.resume(migrationOptions(options));
+      break;
+    case 'status': {
+      const model = activeEmbeddingModel();
+      console.log(`${COLLECTION_ALIAS} -> ${await embeddingMigration.activeCollection() ?? '(missing)'}`);
+      console.log(`Embedding model: ${model.provider} ${model.model} (${model.vectorSize} dimensions)`);
+      for (const migration of embeddingMigration.list()) {
+        console.log(
+          `${migration.createdAt}  ${migration.sourceCollection} -> ${migration.targetCollection}  ${migration.provider ?? 'gemini'} ${migration.model}  ` +
+          `${migration.status}, ${migration.migratedCount} points copied${migration.error ? `: ${migration.error}` : ''}`
+        );
+      }
+      break;
+    }
+    case 'abandon':
+      await embeddingMigration.abandon();
+      break;
+    case 'remove':
+      if (!collectionName) throw new Error('The collection to remove is required');
+      await embeddingMigration.remove(collectionName);
+      break;
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+main().catch(error => {
+  logger.error('Embedding migration command failed:', error);
+  process.exitCode = 1;
+});
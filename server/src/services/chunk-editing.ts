@@ -0,0 +1,80 @@
+import { DatabaseService } from '../core/database-service';
+import { createChunkEmbedding } from './embedding';
+import { ChunkRevision, ChunkVersionSource, DocumentChunk, EditableChunkFields, startChunkVersion } from './chunking';
+import { logger } from '../core/logger';
+
+// Create a singleton instance of the database service
+const dbService = new DatabaseService();
+
+export const EDITABLE_CHUNK_FIELDS: (keyof EditableChunkFields)[] = ['content', 'enhancedContent', 'title', 'summary', 'domains'];
+
+export interface ChunkEditResult {
+  chunk: DocumentChunk;
+  changedFields: (keyof EditableChunkFields)[];
+  reembedded: boolean;
+}
+
+/**
+ * Store changes to a chunk as a new version, moving the current version into its history.
+ * The embedding is regenerated when the content changes.
+ */
+async function applyChunkChanges(
+  chunk: DocumentChunk,
+  changes: Partial<EditableChunkFields>,
+  source: ChunkVersionSource
+): Promise<ChunkEditResult> {
+  // A missing optional field and an empty string are the same value
+  const changedFields = EDITABLE_CHUNK_FIELDS.filter(field =>
+    changes[field] !== undefined && JSON.stringify(changes[field]) !== JSON.stringify(chunk[field] ?? '')
+  );
+  if (changedFields.length === 0) {
+    return { chunk, changedFields, reembedded: false };
+  }
+
+  const updated: DocumentChunk = { ...chunk };
+  startChunkVersion(updated, source);
+  Object.assign(updated, Object.fromEntries(changedFields.map(field => [field, changes[field]])));
+
+  // Every field but the domains has a vector computed from it
+  const reembedded = changedFields.some(field => field !== 'domains');
+  if (reembedded) {
+    Object.assign(updated, await createChunkEmbedding(updated));
+  }
+
+  await dbService.updateChunk(updated);
+  logger.info(`Stored version ${updated.version} of chunk ${chunk.id} (${source}: ${changedFields.join(', ')})${reembedded ? (updated.embeddingStatus === 'pending' ? ' and queued it for re-embedding' : ' and regenerated its embedding') : ''}`);
+
+  return { chunk: updated, changedFields, reembedded };
+}
+
+/**
+ * Apply a manual edit to a stored chunk
+ *
+ * @param chunkId ID of the chunk to edit
+ * @param changes New values for the editable fields
+ * @returns The edit result, or null if the chunk does not exist
+ */
+export async function editChunk(chunkId: string, changes: Partial<EditableChunkFields>): Promise<ChunkEditResult | null> {
+  const chunk = await dbService.getChunkById(chunkId);
+  if (!chunk) return null;
+
+  return applyChunkChanges(chunk, changes, 'manual_edit');
+}
+
+/**
+ * Restore the text of an earlier version of a chunk. The restore is stored as a new
+ * version, so the rolled-back version stays in the history.
+ *
+ * @param chunk Current state of the chunk
+ * @param revision Earlier version to restore
+ * @returns The edit result
+ */
+export async function rollbackChunk(chunk: DocumentChunk, revision: ChunkRevision): Promise<ChunkEditResult> {
+  return applyChunkChanges(chunk, {
+    content: revision.content,
+    enhancedContent: revision.enhancedContent ?? '',
+    title: revision.title ?? '',
+    summary: revision.summary ?? '',
+    domains: revision.domains
+  }, 'rollback');
+}
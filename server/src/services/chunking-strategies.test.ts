@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { ChunkingConfig } from './chunking';
+import { estimateTokens, isHeading, PageText, resolveChunkSizes, segmentPages } from './chunking-strategies';
+
+const config = (overrides: Partial<ChunkingConfig> = {}): ChunkingConfig => ({
+  strategy: 'page',
+  targetTokens: 500,
+  minTokens: 100,
+  maxTokens: 1500,
+  chunkOverlap: 0,
+  semanticBreakpointPercentile: 90,
+  correctOcr: false,
+  generateTitles: false,
+  generateSummaries: false,
+  enhanceContent: false,
+  respectBoundaries: true,
+  preserveHeadings: true,
+  ...overrides
+});
+
+// Sentences of about 30 characters, each different so it can be located in the text
+const sentences = (count: number, from = 1): string =>
+  Array.from({ length: count }, (_, index) => `Sentence number ${from + index} is here.`).join(' ');
+
+const pages = (...contents: string[]): PageText[] =>
+  contents.map((content, index) => ({ pageNumber: index + 1, content }));
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('  abcdefghi  ')).toBe(3);
+  });
+});
+
+describe('resolveChunkSizes', () => {
+  it('orders the minimum, target and maximum', () => {
+    expect(resolveChunkSizes(config({ targetTokens: 200, minTokens: 300, maxTokens: 100 })))
+      .toEqual({ targetTokens: 200, minTokens: 200, maxTokens: 200 });
+  });
+});
+
+describe('isHeading', () => {
+  it('recognises Markdown, numbered, named and capitalised headings', () => {
+    expect(isHeading('## Dosage')).toBe(true);
+    expect(isHeading('2.1 Scope of treatment')).toBe(true);
+    expect(isHeading('Chương 3 Bệnh phụ khoa')).toBe(true);
+    expect(isHeading('BÀI THUỐC CỔ PHƯƠNG')).toBe(true);
+  });
+
+  it('rejects sentences and long lines', () => {
+    expect(isHeading('The patient recovered within a week.')).toBe(false);
+    expect(isHeading('THE PATIENT RECOVERED.')).toBe(false);
+    expect(isHeading(`# ${'word '.repeat(20)}`)).toBe(false);
+  });
+});
+
+describe('segmentPages', () => {
+  it('keeps one chunk per page with the page strategy', async () => {
+    const segments = await segmentPages(pages('  First page. ', 'Second page.'), config(), false);
+    expect(segments).toEqual([
+      { content: 'First page.', pageStart: 1, pageEnd: 1 },
+      { content: 'Second page.', pageStart: 2, pageEnd: 2 }
+    ]);
+  });
+
+  it('merges pages below the minimum size', async () => {
+    const segments = await segmentPages(pages('First page.', 'Second page.', 'Third page.'), config());
+    expect(segments).toEqual([{ content: 'First page.\n\nSecond page.\n\nThird page.', pageStart: 1, pageEnd: 3 }]);
+  });
+
+  it('cuts fixed-size chunks at sentence ends', async () => {
+    const text = sentences(20);
+    const segments = await segmentPages(pages(text), config({ strategy: 'fixed', targetTokens: 20, minTokens: 5, maxTokens: 30 }));
+
+    expect(segments.length).toBeGreaterThan(1);
+    for (const segment of segments) {
+      expect(segment.content.length).toBeLessThanOrEqual(30 * 4);
+      expect(segment.content).toMatch(/\.$/);
+    }
+    expect(segments.map(segment => segment.content).join(' ')).toBe(text);
+  });
+
+  it('repeats the end of a fixed-size chunk at the start of the next one', async () => {
+    const text = sentences(20);
+    const segments = await segmentPages(pages(text), config({ strategy: 'fixed', targetTokens: 20, minTokens: 5, maxTokens: 30, chunkOverlap: 0.25 }));
+
+    for (let i = 1; i < segments.length; i++) {
+      const previousStart = text.indexOf(segments[i - 1].content);
+      const start = text.indexOf(segments[i].content);
+      expect(start).toBeGreaterThan(previousStart);
+      expect(start).toBeLessThan(previousStart + segments[i - 1].content.length);
+      // Overlapping chunks start at a word
+      expect(text[start - 1]).toBe(' ');
+    }
+  });
+
+  it('records the pages a chunk spans', async () => {
+    const segments = await segmentPages(pages(sentences(2), sentences(2, 3)), config({ strategy: 'fixed' }));
+    expect(segments).toEqual([{ content: `${sentences(2)}\n\n${sentences(2, 3)}`, pageStart: 1, pageEnd: 2 }]);
+  });
+
+  it('starts a chunk at every heading with the heading strategy', async () => {
+    const text = `Preface.\n# Chapter one\n${sentences(2)}\nCHƯƠNG HAI\n${sentences(2, 3)}`;
+    const segments = await segmentPages(pages(text), config({ strategy: 'heading' }), false);
+    expect(segments.map(segment => segment.content.split('\n')[0])).toEqual(['Preface.', '# Chapter one', 'CHƯƠNG HAI']);
+  });
+
+  it('ends semantic chunks at sentence ends', async () => {
+    const text = [
+      'Acupuncture needles are placed along the meridians.',
+      'The needles stay in place for twenty minutes.',
+      'Meridian points are chosen for each patient.',
+      'Ginseng roots are dried in the sun for weeks.',
+      'Dried roots are sliced before they are boiled.',
+      'The decoction is taken twice a day.'
+    ].join(' ');
+    const segments = await segmentPages(pages(text), config({ strategy: 'semantic', minTokens: 1, semanticBreakpointPercentile: 50 }), false);
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach(segment => expect(segment.content).toMatch(/\.$/));
+    expect(segments.map(segment => segment.content).join(' ')).toBe(text);
+  });
+});
@@ -0,0 +1,312 @@
+import { TaskType } from '@google/generative-ai';
+import type { ChunkingConfig } from './chunking';
+import { createEmbeddings } from './embedding';
+import { logger } from '../core/logger';
+import { findBoundary, nextWindowStart } from '../core/text-windows';
+
+/**
+ * Splitting a document's pages into chunks.
+ *
+ * The pages are joined into one text, so every strategy except 'page' can place a
+ * chunk across page breaks. Each strategy proposes chunk boundaries, then chunks
+ * larger than maxTokens are split into windows of about targetTokens (overlapping
+ * by chunkOverlap) and chunks smaller than minTokens are merged with a neighbour.
+ * The 'page' strategy only applies the sizes when they are configured explicitly.
+ */
+
+// Token counts are estimated from the length of the text, about four characters per token
+const CHARS_PER_TOKEN = 4;
+
+// Separator between pages in the joined text, so no page ends mid-paragraph of the next
+const PAGE_SEPARATOR = '\n\n';
+
+// Text the semantic strategy compares is each sentence with its neighbours on both sides
+const SEMANTIC_SENTENCE_BUFFER = 1;
+
+// End of a sentence (with closing quotes or brackets) or of a paragraph
+const SENTENCE_BOUNDARY = /[.!?。…]+["'”’)\]]*\s+|\n\s*\n/g;
+
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+\S/, // Markdown heading
+  /^(chương|phần|mục|bài|tiết|điều|chapter|part|section)\s+([0-9]+|[IVXLC]+)\b/i,
+  /^([0-9]+(\.[0-9]+)*|[IVXLC]+)[.)]?\s+[^.!?;:,]+$/ // Numbered heading such as "2.1 Scope", without closing punctuation
+];
+
+// Page text a chunk is cut from
+export interface PageText {
+  pageNumber: number;
+  content: string;
+}
+
+// Part of a document that becomes one chunk, with the pages it was cut from
+export interface ChunkSegment {
+  content: string;
+  pageStart: number;
+  pageEnd: number;
+}
+
+// Character range [start, end) of the joined page text
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Pages joined into one text, with the range of each page
+interface PageStream {
+  text: string;
+  pages: (Span & { pageNumber: number })[];
+}
+
+// Chunk sizes in characters
+interface CharSizes {
+  target: number;
+  min: number;
+  max: number;
+  overlap: number;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ * @param text Text to measure
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.trim().length / CHARS_PER_TOKEN);
+
+/**
+ * Whether a line looks like a heading: a Markdown heading, a numbered or named
+ * chapter or section, or a short line in capitals
+ * @param line A single line of text
+ */
+export const isHeading = (line: string): boolean => {
+  const text = line.trim();
+  if (!text || text.length > 120 || text.split(/\s+/).length > 15) return false;
+  if (HEADING_PATTERNS.some(pattern => pattern.test(text))) return true;
+  return text.length >= 4 && text === text.toUpperCase() && /\p{Lu}/u.test(text) && !/[.,;!?]$/.test(text);
+};
+
+/**
+ * Sizes in tokens with the minimum, target and maximum in increasing order
+ * @param config Chunking configuration
+ */
+export const resolveChunkSizes = (config: ChunkingConfig): Pick<ChunkingConfig, 'targetTokens' | 'minTokens' | 'maxTokens'> => {
+  const targetTokens = Math.max(1, config.targetTokens);
+  return {
+    targetTokens,
+    minTokens: Math.min(config.minTokens, targetTokens),
+    maxTokens: Math.max(config.maxTokens, targetTokens)
+  };
+};
+
+const toCharSizes = (config: ChunkingConfig): CharSizes => {
+  const { targetTokens, minTokens, maxTokens } = resolveChunkSizes(config);
+  const overlap = Math.min(Math.max(config.chunkOverlap, 0), 0.5);
+  return {
+    target: targetTokens * CHARS_PER_TOKEN,
+    min: minTokens * CHARS_PER_TOKEN,
+    max: maxTokens * CHARS_PER_TOKEN,
+    overlap: Math.floor(targetTokens * overlap) * CHARS_PER_TOKEN
+  };
+};
+
+const joinPages = (pages: PageText[]): PageStream => {
+  let text = '';
+  const ranges: PageStream['pages'] = [];
+  for (const page of pages) {
+    if (text) text += PAGE_SEPARATOR;
+    ranges.push({ pageNumber: page.pageNumber, start: text.length, end: text.length + page.content.length });
+    text += page.content;
+  }
+  return { text, pages: ranges };
+};
+
+// Length of a span without surrounding whitespace
+const trimmedLength = (text: string, span: Span): number => text.slice(span.start, span.end).trim().length;
+
+/**
+ * Cut a span into windows of about the target size, ending each at a paragraph,
+ * sentence or word boundary and starting the next one `overlap` characters earlier
+ */
+const windowSpans = (text: string, span: Span, sizes: CharSizes, config: ChunkingConfig): Span[] => {
+  const patterns = config.respectBoundaries ? [/\n\s*\n/g, SENTENCE_BOUNDARY, /\s+/g] : [/\s+/g];
+  const windows: Span[] = [];
+  let start = span.start;
+
+  while (start < span.end) {
+    let end = span.end;
+    if (span.end - start > sizes.target) {
+      // Take the boundary closest to the target size, preferring paragraphs over sentences over words
+      const ideal = start + sizes.target;
+      const searchStart = start + Math.floor(sizes.target / 2);
+      const searchEnd = Math.min(span.end, start + sizes.max, start + Math.floor(sizes.target * 1.25));
+      end = findBoundary(text, searchStart, searchEnd, patterns, ideal) ?? ideal;
+
+      // Keep a heading ending the window with the text that follows it
+      if (config.preserveHeadings) {
+        const lines = text.slice(start, end).trimEnd().split('\n');
+        const lastLine = lines[lines.length - 1];
+        const headingStart = start + text.slice(start, end).trimEnd().length - lastLine.length;
+        if (lines.length > 1 && isHeading(lastLine) && headingStart - start >= sizes.target / 4) {
+          end = headingStart;
+        }
+      }
+    }
+
+    windows.push({ start, end });
+    if (end >= span.end) break;
+    start = nextWindowStart(text, start, end, sizes.overlap);
+  }
+  return windows;
+};
+
+/**
+ * Split spans above the maximum size and merge spans below the minimum size with
+ * the next one, as long as the merged span stays within the maximum
+ */
+const enforceSizes = (text: string, spans: Span[], sizes: CharSizes, config: ChunkingConfig): Span[] => {
+  const split = spans.flatMap(span => trimmedLength(text, span) > sizes.max ? windowSpans(text, span, sizes, config) : [span]);
+
+  const merged: Span[] = [];
+  for (const span of split.filter(span => trimmedLength(text, span) > 0)) {
+    const last = merged[merged.length - 1];
+    const small = last && (trimmedLength(text, last) < sizes.min || trimmedLength(text, span) < sizes.min);
+    if (small && trimmedLength(text, { start: last.start, end: span.end }) <= sizes.max) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+};
+
+const pageSpans = (stream: PageStream): Span[] => stream.pages.map(({ start, end }) => ({ start, end }));
+
+// Sections starting at each heading line, plus the text before the first heading
+const headingSpans = (text: string): Span[] => {
+  const starts = [0];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    if (lineStart > 0 && isHeading(line)) {
+      starts.push(lineStart);
+    }
+    lineStart += line.length + 1;
+  }
+  return starts.map((start, index) => ({ start, end: starts[index + 1] ?? text.length }));
+};
+
+const sentenceSpans = (text: string): Span[] => {
+  const spans: Span[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = (match.index as number) + match[0].length;
+    if (text.slice(start, end).trim()) {
+      spans.push({ start, end });
+      start = end;
+    }
+  }
+  if (text.slice(start).trim()) {
+    spans.push({ start, end: text.length });
+  }
+  return spans;
+};
+
+const cosineDistance = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? 1 - dot / Math.sqrt(normA * normB) : 1;
+};
+
+/**
+ * Sections ending where the meaning of consecutive sentences changes most: a
+ * sentence (with its neighbours) is compared to the next one by embedding, and a
+ * section ends after sentences whose distance to the next is at or above the
+ * configured percentile of all distances, once it has reached the minimum size
+ */
+const semanticSpans = async (text: string, sizes: CharSizes, config: ChunkingConfig): Promise<Span[]> => {
+  const sentences = sentenceSpans(text);
+  if (sentences.length < 3) return [{ start: 0, end: text.length }];
+
+  const units = sentences.map((_, index) => {
+    const first = sentences[Math.max(0, index - SEMANTIC_SENTENCE_BUFFER)];
+    const last = sentences[Math.min(sentences.length - 1, index + SEMANTIC_SENTENCE_BUFFER)];
+    return text.slice(first.start, last.end).trim();
+  });
+  const vectors = await createEmbeddings(units, TaskType.SEMANTIC_SIMILARITY);
+  const distances = vectors.slice(0, -1).map((vector, index) => cosineDistance(vector, vectors[index + 1]));
+
+  const sorted = [...distances].sort((a, b) => a - b);
+  const percentile = Math.min(Math.max(config.semanticBreakpointPercentile, 0), 100);
+  const threshold = sorted[Math.min(sorted.length - 1, Math.floor(percentile / 100 * sorted.length))];
+
+  const spans: Span[] = [];
+  let start = 0;
+  sentences.forEach((sentence, index) => {
+    const next = sentences[index + 1];
+    if (!next) {
+      spans.push({ start, end: text.length });
+      return;
+    }
+    const tooLarge = trimmedLength(text, { start, end: next.end }) > sizes.max;
+    const breakpoint = distances[index] >= threshold && trimmedLength(text, { start, end: sentence.end }) >= sizes.min;
+    if (tooLarge || breakpoint) {
+      spans.push({ start, end: sentence.end });
+      start = sentence.end;
+    }
+  });
+  return spans;
+};
+
+// Trim a span and find the pages it covers; text between pages belongs to the page after it
+const toSegment = (stream: PageStream, span: Span): ChunkSegment => {
+  const raw = stream.text.slice(span.start, span.end);
+  const start = span.start + (raw.length - raw.trimStart().length);
+  const end = span.end - (raw.length - raw.trimEnd().length);
+  const first = stream.pages.find(page => page.end > start) || stream.pages[stream.pages.length - 1];
+  const last = [...stream.pages].reverse().find(page => page.start < end) || first;
+  return {
+    content: stream.text.slice(start, end),
+    pageStart: first.pageNumber,
+    pageEnd: last.pageNumber
+  };
+};
+
+/**
+ * Split pages into chunk segments with the configured strategy and sizes
+ * @param pages Non-empty pages in page order
+ * @param config Chunking configuration
+ * @param limitSizes Whether to split and merge chunks outside minTokens and maxTokens
+ * @returns Segments in document order
+ */
+export const segmentPages = async (pages: PageText[], config: ChunkingConfig, limitSizes = true): Promise<ChunkSegment[]> => {
+  if (pages.length === 0) return [];
+
+  const stream = joinPages(pages);
+  const sizes = toCharSizes(config);
+  let spans: Span[];
+  switch (config.strategy) {
+    case 'fixed':
+      spans = windowSpans(stream.text, { start: 0, end: stream.text.length }, sizes, config);
+      break;
+    case 'heading':
+      spans = headingSpans(stream.text);
+      break;
+    case 'semantic':
+      try {
+        spans = await semanticSpans(stream.text, sizes, config);
+      } catch (error) {
+        logger.warn('Semantic chunking failed to embed the sentences; falling back to fixed-size chunks', error);
+        spans = windowSpans(stream.text, { start: 0, end: stream.text.length }, sizes, config);
+      }
+      break;
+    default:
+      spans = pageSpans(stream);
+  }
+
+  return (limitSizes ? enforceSizes(stream.text, spans, sizes, config) : spans)
+    .filter(span => trimmedLength(stream.text, span) > 0)
+    .map(span => toSegment(stream, span));
+};
@@ -1,9 +1,14 @@
-import { TaskType } from '@google/generative-ai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import dotenv from 'dotenv';
-import { createEmbedding } from './embedding';
+import { createChunkEmbeddings } from './embedding';
 import path from 'path';
 import { enhanceContent, EnhancementType } from './content-enhancement';
+import { ProgressStage, StageCounters, StageProgressCallback } from '../types/progress';
+import type { EmbeddingModelInfo } from '../core/embedding-model';
+import { logger } from '../core/logger';
+import { llmUsage } from './llm-usage';
+import { geminiClient } from './gemini-client';
+import { ChunkSegment, PageText, segmentPages } from './chunking-strategies';
+import { correctOcrWithLLM } from './document';
 
 // Load environment variables
 dotenv.config();
@@ -11,37 +16,157 @@ dotenv.config();
 // Gemini API key for generating titles and summaries
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
 if (!GEMINI_API_KEY) {
-  console.warn('GEMINI_API_KEY is not set in environment variables. Please add it to your .env file.');
+  logger.warn('GEMINI_API_KEY is not set in environment variables. Please add it to your .env file.');
 }
 
+// Chunks titled, enhanced and embedded together; a resumed run redoes at most one group
+const CHUNK_GROUP_SIZE = 8;
+
+// Kinds of source a chunk can be extracted from
+export const SOURCE_TYPES = ['pdf', 'docx', 'text', 'image', 'youtube'] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
 // DocumentChunk interface - represents a single chunk of a document
 export interface DocumentChunk {
   id: string;
-  documentName: string;
+  documentId?: string; // Registry record of the document the chunk belongs to
+  documentSlug?: string; // Stable ASCII identifier of the document
+  ingestionJobId?: string; // Job that stored the chunk, used to swap chunks when a document is reprocessed
+  documentName: string; // Display title of the document
   content: string;
   enhancedContent?: string;
-  embedding: number[];
+  embedding: number[]; // Vector of the whole chunk, or of its first passage when it has several
+  passages?: PassageSpan[]; // Ranges of the content embedded separately, set when the chunk has several
+  passageEmbeddings?: number[][]; // One vector per passage, in the order of passages
+  enhancedEmbeddings?: number[][]; // One vector per passage of the enhanced content, set when it differs from the content
+  summaryEmbedding?: number[]; // Vector of the title and summary, set when the chunk has either
+  embeddingModel?: EmbeddingModelInfo; // Provider, model and dimension that produced the embedding
+  embeddingStatus?: EmbeddingStatus; // Missing on chunks stored before the field existed, which are ready
+  embeddingError?: string; // Last provider error while the chunk is pending or failed
+  embeddingAttempts?: number; // Failed background re-embedding attempts
   title: string;
   summary: string;
   sourceFile: string;
+  sourceType?: SourceType;
   domains: string[];
+  pageStart?: number; // First page the chunk was cut from
+  pageEnd?: number; // Last page the chunk was cut from, the same as pageStart for a single page
+  version?: number; // Starts at 1 and increases with every rewrite
+  versionSource?: ChunkVersionSource; // What produced the current version
+  history?: ChunkRevision[]; // Previous versions of the chunk, oldest first
+  updatedAt?: string;
+}
+
+// Character range [start, end) of a chunk's content embedded as one passage
+export interface PassageSpan {
+  start: number;
+  end: number;
+}
+
+// Fields of a chunk embedded into separate named vectors, which search can target or weight:
+// the raw content, the enhanced content and the title with the summary
+export const EMBEDDING_FIELDS = ['raw', 'enhanced', 'summary'] as const;
+export type EmbeddingField = typeof EMBEDDING_FIELDS[number];
+
+// Whether a chunk's vector is a real embedding. Pending and failed chunks hold a
+// placeholder vector until they are re-embedded and are left out of vector search.
+export const EMBEDDING_STATUSES = ['ready', 'pending', 'failed'] as const;
+export type EmbeddingStatus = typeof EMBEDDING_STATUSES[number];
+
+// What produced a version of a chunk
+export const CHUNK_VERSION_SOURCES = ['raw_parse', 'ocr_correction', 'metadata', 'enhancement', 'manual_edit', 'rollback'] as const;
+export type ChunkVersionSource = typeof CHUNK_VERSION_SOURCES[number];
+
+// Fields of a stored chunk that curators can edit
+export type EditableChunkFields = Pick<DocumentChunk, 'content' | 'enhancedContent' | 'title' | 'summary' | 'domains'>;
+
+// Snapshot of a chunk's editable fields before they were changed
+export interface ChunkRevision extends EditableChunkFields {
+  version: number;
+  source: ChunkVersionSource;
+  replacedAt: string;
+}
+
+// Append a previous state of a chunk to its history and start the next version
+const recordVersion = (chunk: DocumentChunk, previous: DocumentChunk, source: ChunkVersionSource): void => {
+  const now = new Date().toISOString();
+  const version = previous.version || 1;
+
+  chunk.history = [...(previous.history || []), {
+    content: previous.content,
+    enhancedContent: previous.enhancedContent,
+    title: previous.title,
+    summary: previous.summary,
+    domains: previous.domains,
+    version,
+    source: previous.versionSource || 'raw_parse',
+    replacedAt: now
+  }];
+  chunk.version = version + 1;
+  chunk.versionSource = source;
+  chunk.updatedAt = now;
+};
+
+/**
+ * Move the current version of a chunk into its history and start a new version.
+ * Chunks stored before versioning are treated as version 1 from the raw parse.
+ *
+ * @param chunk Chunk that is about to be rewritten, updated in place
+ * @param source What produces the new version
+ */
+export const startChunkVersion = (chunk: DocumentChunk, source: ChunkVersionSource): void => {
+  recordVersion(chunk, { ...chunk }, source);
+};
+
+/**
+ * Run an LLM rewrite of several chunks and record a new version of each chunk whose text it changed
+ *
+ * @param chunks Chunks to rewrite in place
+ * @param source What the rewrite is
+ * @param rewrite Function that rewrites the chunks in place
+ */
+async function withChunkVersions(chunks: DocumentChunk[], source: ChunkVersionSource, rewrite: () => Promise<void>): Promise<void> {
+  const previous = chunks.map(chunk => ({ ...chunk }));
+  await rewrite();
+
+  chunks.forEach((chunk, index) => {
+    const changed = (['content', 'enhancedContent', 'title', 'summary'] as const).some(field => chunk[field] !== previous[index][field]);
+    if (changed) {
+      recordVersion(chunk, previous[index], source);
+    }
+  });
 }
 
+// How a document's pages are split into chunks: one chunk per page, windows of a fixed
+// size, sections starting at headings, or sections ending where the topic changes
+export const CHUNKING_STRATEGIES = ['page', 'fixed', 'heading', 'semantic'] as const;
+export type ChunkingStrategy = typeof CHUNKING_STRATEGIES[number];
+
 // Configuration interface for chunking parameters
 export interface ChunkingConfig {
-  chunksPerPage: number;
-  chunkOverlap: number;
+  strategy: ChunkingStrategy;
+  targetTokens: number; // Size of fixed-size chunks and of the parts a too large chunk is split into
+  minTokens: number; // Smaller chunks are merged with the next one
+  maxTokens: number; // Larger chunks are split
+  chunkOverlap: number; // Share of targetTokens repeated at the start of the next part when text is split by size
+  semanticBreakpointPercentile: number; // Semantic strategy: how unusual a change of topic must be to end a chunk
+  correctOcr: boolean; // Whether to correct OCR errors with AI, recorded as a new version of each chunk
   generateTitles: boolean;
   generateSummaries: boolean;
   enhanceContent: boolean;  // Whether to use AI to enhance content
-  respectBoundaries: boolean; // Whether to use boundary-aware chunking
+  respectBoundaries: boolean; // Whether to split at paragraph and sentence ends rather than at any word
   preserveHeadings: boolean;  // Whether to keep headings with their content
 }
 
 // Default chunking configuration
 const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
-  chunksPerPage: 2, // Default 2 chunks per page
+  strategy: 'page',
+  targetTokens: 500,
+  minTokens: 100,
+  maxTokens: 1500,
   chunkOverlap: 0.2, // 20% overlap between chunks
+  semanticBreakpointPercentile: 90,
+  correctOcr: false, // Only scanned documents need it
   generateTitles: true,
   generateSummaries: true,
   enhanceContent: true, // Default to enhancing content
@@ -49,22 +174,65 @@ const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
   preserveHeadings: true    // Default to preserving headings with their content
 };
 
+// Options that make the page strategy split and merge pages by size
+const SIZE_OPTIONS = ['targetTokens', 'minTokens', 'maxTokens'] as const;
+
+// Default titles name the pages a chunk was cut from, e.g. "Page 3", "Pages 3-5" or "Page 3 (part 2)"
+const DEFAULT_TITLE_PATTERN = /^Pages? \d+(-\d+)?( \(part \d+\))?$/;
+
+/**
+ * IDs and default titles of the chunks cut from a document, named after the pages
+ * they cover and numbered when several chunks cover the same pages
+ * @param documentSlug Identifier of the document
+ * @param segments Segments in document order
+ */
+const segmentNames = (documentSlug: string, segments: ChunkSegment[]): { id: string; title: string }[] => {
+  const rangeOf = (segment: ChunkSegment) => `${segment.pageStart}-${segment.pageEnd}`;
+  const counts = new Map<string, number>();
+  for (const segment of segments) {
+    counts.set(rangeOf(segment), (counts.get(rangeOf(segment)) || 0) + 1);
+  }
+
+  const parts = new Map<string, number>();
+  return segments.map(segment => {
+    const singlePage = segment.pageStart === segment.pageEnd;
+    const id = singlePage ? `${documentSlug}_page_${segment.pageStart}` : `${documentSlug}_pages_${segment.pageStart}-${segment.pageEnd}`;
+    const title = singlePage ? `Page ${segment.pageStart}` : `Pages ${segment.pageStart}-${segment.pageEnd}`;
+    if (counts.get(rangeOf(segment)) === 1) return { id, title };
+
+    const part = (parts.get(rangeOf(segment)) || 0) + 1;
+    parts.set(rangeOf(segment), part);
+    return { id: `${id}_part_${part}`, title: `${title} (part ${part})` };
+  });
+};
+
+// Resume state for chunking runs that can be interrupted (e.g. ingestion jobs)
+export interface ChunkCheckpoint {
+  completedChunks: DocumentChunk[]; // Chunks finished by an earlier run; their pages are not reprocessed
+  onChunkComplete: (chunk: DocumentChunk) => void | Promise<void>; // Called once a chunk is embedded, titled and enhanced
+}
+
 /**
- * Process a document into page-based chunks with complete sentences
+ * Process a document into chunks with the configured strategy, recording the pages
+ * each chunk was cut from
  * 
  * @param document Object containing parsed document pages with __preProcessed flag for complete sentences
  * @param sourceFilePath Path to the source file
  * @param config Chunking configuration
  * @param domains Array of domains the document belongs to
  * @param documentTitle Optional title provided by the user
+ * @param checkpoint Optional resume state; finished chunks are reused and each new chunk is reported when complete
+ * @param onProgress Optional callback notified as each chunk moves through chunking, metadata, enhancement and embedding
  * @returns Array of document chunks with embeddings, titles, and summaries
  */
 export async function chunkDocument(
-  document: { pages: { pageNumber: number; content: string; __preProcessed?: boolean }[] },
+  document: { slug?: string; pages: { pageNumber: number; content: string; __preProcessed?: boolean }[] },
   sourceFilePath: string,
   config: Partial<ChunkingConfig> = {},
   domains: string[] = ['default'],
-  documentTitle: string = ''
+  documentTitle: string = '',
+  checkpoint?: ChunkCheckpoint,
+  onProgress?: StageProgressCallback
 ): Promise<DocumentChunk[]> {
   // Merge default config with provided config
   const fullConfig: ChunkingConfig = {
@@ -72,11 +240,11 @@ export async function chunkDocument(
     ...config
   };
   
-  // Get document name from file path
-  const documentName = path.basename(sourceFilePath, path.extname(sourceFilePath))
+  // Chunk IDs are built from the document slug; documents without one fall back to the file path
+  const documentSlug = document.slug || path.basename(sourceFilePath, path.extname(sourceFilePath))
     .replace(/[^a-zA-Z0-9]/g, '_'); // Replace non-alphanumeric with underscore
   
-  console.log(`📄 Processing ${documentName} with ${document.pages.length} pages in domains: ${domains.join(', ')}`);
+  logger.info(`Processing ${documentSlug} with ${document.pages.length} pages in domains: ${domains.join(', ')}`);
   
   // Sort pages by page number
   const sortedPages = [...document.pages].sort((a, b) => a.pageNumber - b.pageNumber);
@@ -84,17 +252,24 @@ export async function chunkDocument(
   // Check if pages have been pre-processed to ensure complete sentences
   const pagesProcessed = sortedPages.some(page => page.__preProcessed);
   if (!pagesProcessed) {
-    console.warn('⚠️ Warning: Pages have not been pre-processed for complete sentences. Chunks may contain incomplete sentences.');
-    console.warn('⚠️ Recommendation: Use prepareContentForChunking before chunking to ensure complete sentences.');
+    logger.warn('Warning: Pages have not been pre-processed for complete sentences. Chunks may contain incomplete sentences.');
+    logger.warn('Recommendation: Use prepareContentForChunking before chunking to ensure complete sentences.');
   } else {
-    console.log('✅ Pages have been pre-processed for complete sentences.');
+    logger.info('Pages have been pre-processed for complete sentences.');
   }
   
-  console.log(`🧩 Creating one chunk per page with complete sentences...`);
+  logger.info(`Creating chunks with the ${fullConfig.strategy} strategy...`);
   
-  // Generate chunks - one chunk per page
   const chunks: DocumentChunk[] = [];
   
+  // Chunks already finished by a previous (interrupted) run
+  const completedChunks = new Map<string, DocumentChunk>(
+    (checkpoint?.completedChunks || []).map(chunk => [chunk.id, chunk])
+  );
+  if (completedChunks.size > 0) {
+    logger.info(`Resuming chunking with ${completedChunks.size} chunks already completed`);
+  }
+  
   // Function to check if text has incomplete sentences at the end
   const hasIncompleteEnding = (text: string): boolean => {
     // If empty text, consider complete
@@ -157,7 +332,7 @@ export async function chunkDocument(
       /(của|cho|với|trong|về|bởi vì|và|hoặc|hay|nhưng)\s*$/i.test(trimmedContent);
     
     if (isPartialWord) {
-      console.log(`⚠️ Chunk ending detected with partial word/phrase "${lastWord}" on page ${pageNumber}`);
+      logger.info(`Chunk ending detected with partial word/phrase on page ${pageNumber}`, { text: lastWord });
       
       // Get a more substantial amount of text from the next page
       const borrowedText = getBorrowedText(nextPageContent);
@@ -167,12 +342,12 @@ export async function chunkDocument(
         if (partialWordPatterns.includes(lastWord.toLowerCase()) || /^[bcdfghjklmnpqrstvwxyzđ]/.test(lastWord)) {
           // Remove the partial word and replace with complete borrowed content
           const fixedContent = trimmedContent.substring(0, trimmedContent.lastIndexOf(' ' + lastWord)) + ' ' + borrowedText;
-          console.log(`✅ Fixed partial word ending by borrowing text: "${borrowedText.substring(0, 40)}..."`);
+          logger.info('Fixed partial word ending by borrowing text', { text: borrowedText.substring(0, 40) });
           return fixedContent;
         } else {
           // For other cases, just append with proper spacing
           const fixedContent = trimmedContent + ' ' + borrowedText;
-          console.log(`✅ Fixed incomplete ending by borrowing text: "${borrowedText.substring(0, 40)}..."`);
+          logger.info('Fixed incomplete ending by borrowing text', { text: borrowedText.substring(0, 40) });
           return fixedContent;
         }
       }
@@ -201,178 +376,260 @@ export async function chunkDocument(
     return trimmedNextContent.substring(0, Math.min(200, trimmedNextContent.length));
   };
   
-  // Process pages to create chunks
+  // Complete a page that ends mid-sentence or mid-word with the start of the next page,
+  // so its chunk reads as whole text when chunks follow page breaks
+  const completePageContent = (
+    page: { pageNumber: number; content: string; __preProcessed?: boolean },
+    nextPage: { pageNumber: number; content: string } | null
+  ): string => {
+    // Check for incomplete sentences at the end
+    let pageContent = page.content.trim();
+    
+    // Check for partial words at the end that need to be fixed
+    pageContent = fixPartialWordEnding(
+      pageContent, 
+      page.pageNumber, 
+      nextPage ? nextPage.content : null
+    );
+    
+    // If page is not pre-processed and has incomplete sentences at the end, 
+    // borrow text from next page to complete it
+    if (!page.__preProcessed && hasIncompleteEnding(pageContent) && nextPage) {
+      logger.info(`Page ${page.pageNumber} has incomplete ending, attempting to fix...`);
+      
+      // Look for the first sentence in the next page
+      const nextPageContent = nextPage.content.trim();
+      let borrowedText = '';
+      
+      // Try to find the first complete sentence
+      const firstSentenceMatch = nextPageContent.match(/^[^.!?:;。]*[.!?:;。]/);
+      if (firstSentenceMatch && firstSentenceMatch[0]) {
+        borrowedText = firstSentenceMatch[0].trim();
+      } else {
+        // If no complete sentence, borrow a reasonable amount
+        borrowedText = nextPageContent.substring(0, Math.min(200, nextPageContent.length));
+      }
+      
+      // Add borrowed text
+      if (borrowedText) {
+        pageContent = pageContent + ' ' + borrowedText;
+        logger.info(`Fixed incomplete ending by borrowing text from page ${nextPage.pageNumber}`);
+      }
+    }
+    
+    // Final check for partial words at the very end
+    const lastWord = pageContent.trim().split(/\s+/).pop() || '';
+    if (/^[bcdfghjklmnpqrstvwxyzđ]$/.test(lastWord) || ['vi', 'ph', 'th', 'ch'].includes(lastWord.toLowerCase())) {
+      logger.warn(`Page ${page.pageNumber} still ends with potential partial word`, { text: lastWord });
+      
+      // Emergency fix - borrow more content if possible
+      if (nextPage) {
+        const extraContent = nextPage.content.trim().split(/\s+/).slice(0, 3).join(' ');
+        pageContent = pageContent + ' ' + extraContent;
+        logger.info('Emergency fix applied by adding text', { text: extraContent });
+      }
+    }
+    
+    // Validate chunk - final check for incomplete ending
+    if (hasIncompleteEnding(pageContent)) {
+      logger.warn(`Page ${page.pageNumber} may still have incomplete sentences at the end`);
+    }
+    return pageContent;
+  };
+  
+  // Text of the non-empty pages; page breaks are only chunk boundaries with the page strategy
+  const pageTexts: PageText[] = [];
   for (let i = 0; i < sortedPages.length; i++) {
     const page = sortedPages[i];
     const nextPage = i < sortedPages.length - 1 ? sortedPages[i + 1] : null;
     
     // Skip empty pages
     if (!page.content.trim()) {
-      console.log(`⏭️ Skipping empty page ${page.pageNumber}`);
+      logger.info(`Skipping empty page ${page.pageNumber}`);
       continue;
     }
+    pageTexts.push({
+      pageNumber: page.pageNumber,
+      content: fullConfig.strategy === 'page' ? completePageContent(page, nextPage) : page.content.trim()
+    });
+  }
+  
+  // Pages keep one chunk each, as before sizes existed, unless sizes are configured
+  const limitSizes = fullConfig.strategy !== 'page' || SIZE_OPTIONS.some(option => config[option] !== undefined);
+  const segments = await segmentPages(pageTexts, fullConfig, limitSizes);
+  const segmentIds = segmentNames(documentSlug, segments);
+  logger.info(`Split ${pageTexts.length} pages into ${segments.length} chunks`);
+  
+  const segmentCounters = (index: number): StageCounters => ({
+    currentPage: sortedPages.findIndex(page => page.pageNumber === segments[index].pageEnd) + 1,
+    totalPages: sortedPages.length,
+    currentChunk: index + 1,
+    totalChunks: segments.length
+  });
+  const describePages = (pageStart: number, pageEnd: number): string =>
+    pageStart === pageEnd ? `page ${pageStart}` : `pages ${pageStart}-${pageEnd}`;
+  
+  // Create the chunk of a segment with its default title and no summary yet
+  const createChunk = (index: number): DocumentChunk => ({
+    id: segmentIds[index].id,
+    documentSlug,
+    documentName: documentTitle || documentSlug,
+    content: segments[index].content,
+    embedding: [], // Generated once the title, summary and enhanced content are known
+    title: segmentIds[index].title, // Default title - will be updated if generateTitles is true
+    summary: "", // Will be filled in later if generateSummaries is true
+    sourceFile: sourceFilePath,
+    domains: domains,
+    pageStart: segments[index].pageStart,
+    pageEnd: segments[index].pageEnd,
+    version: 1,
+    versionSource: 'raw_parse'
+  });
+  
+  // Correct, title, enhance and embed new chunks; `last` is the index of the last segment among them
+  const processChunks = async (newChunks: DocumentChunk[], pages: string, last: number): Promise<void> => {
+    // Correct OCR errors first so titles, summaries and enhancement start from the corrected text;
+    // the text as parsed stays in the history as the raw_parse version
+    if (fullConfig.correctOcr) {
+      onProgress?.(ProgressStage.OCR_CORRECTION, `Correcting OCR errors in ${pages}`, segmentCounters(last));
+      await withChunkVersions(newChunks, 'ocr_correction', async () => {
+        await Promise.all(newChunks.map(async chunk => {
+          chunk.content = await correctOcrWithLLM(chunk.content) || chunk.content;
+        }));
+      });
+    }
     
-    console.log(`📝 Processing page ${page.pageNumber}...`);
+    // Generate titles and summaries if enabled
+    if (fullConfig.generateTitles || fullConfig.generateSummaries) {
+      onProgress?.(ProgressStage.METADATA, `Generating titles and summaries for ${pages}`, segmentCounters(last));
+      await withChunkVersions(newChunks, 'metadata', () => generateChunkMetadata(newChunks, fullConfig));
+    }
     
-    // Create a unique ID for the chunk
-    const chunkId = `${documentName}_page_${page.pageNumber}`;
+    // Enhance content if enabled, unless the job has spent its LLM budget
+    if (fullConfig.enhanceContent && llmUsage.isOverBudget()) {
+      logger.warn(`Skipping enhancement of ${pages}: the job's LLM budget is spent`);
+    } else if (fullConfig.enhanceContent) {
+      onProgress?.(ProgressStage.ENHANCEMENT, `Enhancing content of ${pages}`, segmentCounters(last));
+      await withChunkVersions(newChunks, 'enhancement', async () => {
+        await Promise.all(newChunks.map(chunk => enhanceChunk(chunk, domains)));
+      });
+    }
     
-    try {
-      // Check for incomplete sentences at the end
-      let pageContent = page.content.trim();
-      
-      // Check for partial words at the end that need to be fixed
-      pageContent = fixPartialWordEnding(
-        pageContent, 
-        page.pageNumber, 
-        nextPage ? nextPage.content : null
-      );
-      
-      // If page is not pre-processed and has incomplete sentences at the end, 
-      // borrow text from next page to complete it
-      if (!page.__preProcessed && hasIncompleteEnding(pageContent) && nextPage) {
-        console.log(`⚠️ Page ${page.pageNumber} has incomplete ending, attempting to fix...`);
-        
-        // Look for the first sentence in the next page
-        const nextPageContent = nextPage.content.trim();
-        let borrowedText = '';
-        
-        // Try to find the first complete sentence
-        const firstSentenceMatch = nextPageContent.match(/^[^.!?:;。]*[.!?:;。]/);
-        if (firstSentenceMatch && firstSentenceMatch[0]) {
-          borrowedText = firstSentenceMatch[0].trim();
-        } else {
-          // If no complete sentence, borrow a reasonable amount
-          borrowedText = nextPageContent.substring(0, Math.min(200, nextPageContent.length));
-        }
-        
-        // Add borrowed text
-        if (borrowedText) {
-          pageContent = pageContent + ' ' + borrowedText;
-          console.log(`✅ Fixed incomplete ending by borrowing text from page ${nextPage.pageNumber}`);
-        }
+    // Generate the embeddings of the content, enhanced content, title and summary; pending
+    // with a placeholder vector while the embedding provider is unavailable
+    onProgress?.(ProgressStage.EMBEDDING_GENERATION, `Generating embeddings for ${pages}`, segmentCounters(last));
+    const embeddings = await createChunkEmbeddings(newChunks);
+    newChunks.forEach((chunk, index) => {
+      Object.assign(chunk, embeddings[index]);
+      logger.info(`Created chunk ${chunk.id} (${chunk.content.length} chars)`);
+    });
+  };
+  
+  // Process segments in groups: the chunks of a group are titled and enhanced
+  // concurrently and embedded in one call, then reported complete one by one
+  for (let first = 0; first < segments.length; first += CHUNK_GROUP_SIZE) {
+    const last = Math.min(first + CHUNK_GROUP_SIZE, segments.length) - 1;
+    const pages = describePages(segments[first].pageStart, segments[last].pageEnd);
+    
+    logger.info(`Processing chunks ${first + 1}-${last + 1}/${segments.length} (${pages})...`);
+    onProgress?.(ProgressStage.CHUNKING, `Chunking ${pages}`, segmentCounters(last));
+    
+    // Reuse chunks completed by an earlier run instead of calling the APIs again
+    const newIndexes: number[] = [];
+    for (let i = first; i <= last; i++) {
+      if (completedChunks.has(segmentIds[i].id)) {
+        logger.info(`Chunk ${segmentIds[i].id} already created, reusing stored chunk`);
+      } else {
+        newIndexes.push(i);
       }
-      
-      // Final check for partial words at the very end
-      const lastWord = pageContent.trim().split(/\s+/).pop() || '';
-      if (/^[bcdfghjklmnpqrstvwxyzđ]$/.test(lastWord) || ['vi', 'ph', 'th', 'ch'].includes(lastWord.toLowerCase())) {
-        console.warn(`⚠️ WARNING: Page ${page.pageNumber} still ends with potential partial word "${lastWord}"`);
-        
-        // Emergency fix - borrow more content if possible
-        if (nextPage) {
-          const extraContent = nextPage.content.trim().split(/\s+/).slice(0, 3).join(' ');
-          pageContent = pageContent + ' ' + extraContent;
-          console.log(`🔧 Emergency fix applied by adding "${extraContent}"`);
+    }
+    
+    let newChunks = newIndexes.map(createChunk);
+    if (newChunks.length > 0) {
+      try {
+        await processChunks(newChunks, pages, last);
+      } catch (error) {
+        // Retry from fresh chunks one at a time, so one failing chunk does not take the group with it;
+        // a chunk that fails on its own fails the job, which a retry resumes from the chunks completed so far
+        logger.error(`Error processing ${pages}, retrying its chunks one at a time:`, error);
+        newChunks = [];
+        for (const index of newIndexes) {
+          const chunk = createChunk(index);
+          const chunkPages = describePages(segments[index].pageStart, segments[index].pageEnd);
+          try {
+            await processChunks([chunk], chunkPages, index);
+          } catch (chunkError) {
+            const message = chunkError instanceof Error ? chunkError.message : String(chunkError);
+            throw new Error(`Could not process chunk ${chunk.id} (${chunkPages}): ${message}`);
+          }
+          newChunks.push(chunk);
         }
       }
-      
-      // Generate embedding
-      const embedding = await createEmbedding(pageContent);
-      if (!embedding) {
-        console.error(`❌ Failed to generate embedding for page ${page.pageNumber}`);
-        continue;
-      }
-      
-      // Create the chunk object with default title and summary
-      const chunk: DocumentChunk = {
-        id: chunkId,
-        documentName: documentTitle || documentName,
-        content: pageContent,
-        embedding: embedding,
-        title: `Page ${page.pageNumber}`, // Default title - will be updated if generateTitles is true
-        summary: "", // Will be filled in later if generateSummaries is true
-        sourceFile: sourceFilePath,
-        domains: domains
-      };
-      
-      // Validate chunk - final check for incomplete ending
-      if (hasIncompleteEnding(pageContent)) {
-        console.warn(`⚠️ Page ${page.pageNumber} may still have incomplete sentences at the end`);
+    }
+    
+    const newById = new Map(newChunks.map(chunk => [chunk.id, chunk]));
+    for (let i = first; i <= last; i++) {
+      const chunk = completedChunks.get(segmentIds[i].id) ?? newById.get(segmentIds[i].id);
+      if (chunk) chunks.push(chunk);
+    }
+    
+    // Report the finished chunks outside the error handler so the caller can stop chunking by throwing
+    if (checkpoint) {
+      for (const chunk of newChunks) {
+        await checkpoint.onChunkComplete(chunk);
       }
-      
-      // Add to chunks array
-      chunks.push(chunk);
-      
-      console.log(`✅ Created chunk for page ${page.pageNumber} (${pageContent.length} chars)`);
-    } catch (error) {
-      console.error(`❌ Error processing page ${page.pageNumber}:`, error);
     }
   }
   
-  console.log(`✅ Created ${chunks.length} chunks (one per page)`);
+  logger.info(`Created ${chunks.length} chunks`);
   
-  // Generate titles and summaries if enabled
-  if ((fullConfig.generateTitles || fullConfig.generateSummaries) && chunks.length > 0) {
-    console.log(`🤖 Generating titles and summaries for chunks...`);
-    await generateChunkMetadata(chunks, fullConfig);
-  } else {
-    console.log(`⏭️ Skipping title/summary generation as requested in config`);
+  if (!fullConfig.generateTitles && !fullConfig.generateSummaries) {
+    logger.info(`Skipping title/summary generation as requested in config`);
+  }
+  if (!fullConfig.enhanceContent) {
+    logger.info(`Skipping content enhancement as requested in config`);
   }
   
-  // Enhance content if enabled
-  if (fullConfig.enhanceContent && chunks.length > 0) {
-    console.log(`✨ Enhancing content for ${chunks.length} chunks...`);
-    
-    // Process chunks in batches to avoid API rate limits
-    const batchSize = 3;
-    const batchCount = Math.ceil(chunks.length / batchSize);
-    
-    for (let batchIndex = 0; batchIndex < batchCount; batchIndex++) {
-      const batchStart = batchIndex * batchSize;
-      const batchEnd = Math.min((batchIndex + 1) * batchSize, chunks.length);
-      const currentBatch = chunks.slice(batchStart, batchEnd);
-      
-      console.log(`Processing enhancement batch ${batchIndex + 1}/${batchCount} (chunks ${batchStart + 1}-${batchEnd})`);
-      
-      // Process each chunk in the batch
-      for (const chunk of currentBatch) {
-        try {
-          // Determine the appropriate enhancement types based on domains
-          const enhancementTypes = [
-            EnhancementType.FORMATTING,
-            EnhancementType.READABILITY
-          ];
-          
-          // If domain is technical, add explanation
-          if (domains.some(d => d.toLowerCase().includes('technical') || d.toLowerCase().includes('science'))) {
-            enhancementTypes.push(EnhancementType.EXPLANATION);
-          }
-          
-          // If domain is educational, add structure
-          if (domains.some(d => d.toLowerCase().includes('educational') || d.toLowerCase().includes('training'))) {
-            enhancementTypes.push(EnhancementType.STRUCTURE);
-          }
-          
-          // Enhance content
-          const enhancedChunk = await enhanceContent(chunk, {
-            types: enhancementTypes,
-            domain: domains[0] // Use first domain as primary domain
-          });
-          
-          // Update the chunk in the original array
-          Object.assign(chunk, enhancedChunk);
-          
-          console.log(`✅ Enhanced content for chunk ${chunk.id}`);
-          
-          // Add a small delay between chunk processing
-          await new Promise(resolve => setTimeout(resolve, 500));
-        } catch (error) {
-          console.error(`❌ Error enhancing content for chunk ${chunk.id}:`, error);
-        }
-      }
-      
-      // Add a small delay between batches
-      if (batchIndex < batchCount - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1500));
-      }
+  return chunks;
+}
+
+/**
+ * Enhance a chunk's content in place, choosing enhancement types from its domains
+ * 
+ * @param chunk Document chunk to enhance
+ * @param domains Array of domains the document belongs to
+ */
+async function enhanceChunk(chunk: DocumentChunk, domains: string[]): Promise<void> {
+  try {
+    // Determine the appropriate enhancement types based on domains
+    const enhancementTypes = [
+      EnhancementType.FORMATTING,
+      EnhancementType.READABILITY
+    ];
+    
+    // If domain is technical, add explanation
+    if (domains.some(d => d.toLowerCase().includes('technical') || d.toLowerCase().includes('science'))) {
+      enhancementTypes.push(EnhancementType.EXPLANATION);
     }
     
-    console.log(`✅ Content enhancement complete for ${chunks.length} chunks`);
-  } else {
-    console.log(`⏭️ Skipping content enhancement as requested in config`);
+    // If domain is educational, add structure
+    if (domains.some(d => d.toLowerCase().includes('educational') || d.toLowerCase().includes('training'))) {
+      enhancementTypes.push(EnhancementType.STRUCTURE);
+    }
+    
+    // Enhance content
+    const enhancedChunk = await enhanceContent(chunk, {
+      types: enhancementTypes,
+      domain: domains[0] // Use first domain as primary domain
+    });
+    
+    // Update the chunk in place
+    Object.assign(chunk, enhancedChunk);
+    
+    logger.info(`Enhanced content for chunk ${chunk.id}`);
+  } catch (error) {
+    logger.error(`Error enhancing content for chunk ${chunk.id}:`, error);
   }
-  
-  return chunks;
 }
 
 /**
@@ -387,54 +644,44 @@ async function generateChunkMetadata(
 ): Promise<void> {
   // Skip if no API key
   if (!GEMINI_API_KEY) {
-    console.warn('⚠️ Skipping title/summary generation - GEMINI_API_KEY not set');
+    logger.warn('Skipping title/summary generation - GEMINI_API_KEY not set');
     return;
   }
 
-  const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-  const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-  
-  // Process chunks in batches to avoid API rate limits
-  const batchSize = 3;
-  const batchCount = Math.ceil(chunks.length / batchSize);
+  const model = geminiClient.getModel();
   
-  for (let batchIndex = 0; batchIndex < batchCount; batchIndex++) {
-    const batchStart = batchIndex * batchSize;
-    const batchEnd = Math.min((batchIndex + 1) * batchSize, chunks.length);
-    const currentBatch = chunks.slice(batchStart, batchEnd);
+  // The chunks are independent; the Gemini client keeps their requests within the rate limit
+  await Promise.all(chunks.map(async chunk => {
+    // Prepare content sample that emphasizes the beginning and end
+    let contentSample = '';
     
-    console.log(`Processing metadata batch ${batchIndex + 1}/${batchCount} (chunks ${batchStart + 1}-${batchEnd})`);
+    if (chunk.content.length > 10000) {
+      // For very long content, take beginning, middle and end
+      contentSample = 
+        chunk.content.substring(0, 4000) + 
+        "\n...[MIDDLE CONTENT OMITTED]...\n" + 
+        chunk.content.substring(chunk.content.length - 4000);
+    } else if (chunk.content.length > 6000) {
+      // For long content, take beginning and end with more emphasis on the end
+      contentSample = 
+        chunk.content.substring(0, 2000) + 
+        "\n...[MIDDLE CONTENT OMITTED]...\n" + 
+        chunk.content.substring(chunk.content.length - 3000);
+    } else {
+      // For regular content, use the full text
+      contentSample = chunk.content;
+    }
     
-    // Process each chunk in the batch sequentially to avoid overwhelming the API
-    for (const chunk of currentBatch) {
+    // Generate title if needed
+    const generateTitle = async () => {
+      if (!config.generateTitles) return;
+      if (!DEFAULT_TITLE_PATTERN.test(chunk.title)) {
+        logger.info(`Skipping title generation for chunk ${chunk.id} - already has custom title: "${chunk.title}"`);
+        return;
+      }
+      
       try {
-        // Prepare content sample that emphasizes the beginning and end
-        let contentSample = '';
-        
-        if (chunk.content.length > 10000) {
-          // For very long content, take beginning, middle and end
-          contentSample = 
-            chunk.content.substring(0, 4000) + 
-            "\n...[MIDDLE CONTENT OMITTED]...\n" + 
-            chunk.content.substring(chunk.content.length - 4000);
-        } else if (chunk.content.length > 6000) {
-          // For long content, take beginning and end with more emphasis on the end
-          contentSample = 
-            chunk.content.substring(0, 2000) + 
-            "\n...[MIDDLE CONTENT OMITTED]...\n" + 
-            chunk.content.substring(chunk.content.length - 3000);
-        } else {
-          // For regular content, use the full text
-          contentSample = chunk.content;
-        }
-        
-        // Generate title if needed
-        if (config.generateTitles) {
-          if (!chunk.title.includes(`Page ${chunk.id.split('_page_')[1]}`)) {
-            console.log(`Skipping title generation for chunk ${chunk.id} - already has custom title: "${chunk.title}"`);
-          } else {
-            try {
-              const titlePrompt = `
+        const titlePrompt = `
 Generate a descriptive title for this document chunk from a Vietnamese text. The title should capture the main topic.
 
 CHUNK CONTENT:
@@ -454,33 +701,34 @@ INSTRUCTIONS:
 RETURN ONLY THE TITLE TEXT WITH NO OTHER COMMENTARY.
 `;
 
-              const titleResult = await model.generateContent({
-                contents: [{ role: "user", parts: [{ text: titlePrompt }] }],
-                generationConfig: {
-                  temperature: 0.2,
-                  maxOutputTokens: 60,
-                }
-              });
-              
-              const title = titleResult.response.text().trim();
-              if (title && title.length > 0) {
-                chunk.title = title;
-                console.log(`Generated title for chunk ${chunk.id}: "${title}"`);
-              } else {
-                console.warn(`Empty title generated for chunk ${chunk.id}, keeping default`);
-              }
-            } catch (error) {
-              console.error(`Error generating title for chunk ${chunk.id}:`, error);
-              // Keep the default title
-            }
+        const titleResult = await geminiClient.generateContent('chunk_title', model, {
+          contents: [{ role: "user", parts: [{ text: titlePrompt }] }],
+          generationConfig: {
+            temperature: 0.2,
+            maxOutputTokens: 60,
           }
-        }
+        });
         
-        // Generate summary if needed
-        if (config.generateSummaries) {
-          try {
-            // Create a summary prompt that emphasizes complete understanding
-            const summaryPrompt = `
+        const title = titleResult.response.text().trim();
+        if (title && title.length > 0) {
+          chunk.title = title;
+          logger.info(`Generated title for chunk ${chunk.id}: "${title}"`);
+        } else {
+          logger.warn(`Empty title generated for chunk ${chunk.id}, keeping default`);
+        }
+      } catch (error) {
+        logger.error(`Error generating title for chunk ${chunk.id}:`, error);
+        // Keep the default title
+      }
+    };
+    
+    // Generate summary if needed
+    const generateSummary = async () => {
+      if (!config.generateSummaries) return;
+      
+      try {
+        // Create a summary prompt that emphasizes complete understanding
+        const summaryPrompt = `
 Summarize this document chunk comprehensively, including important information from both the beginning and end. For Vietnamese text, write the summary in Vietnamese.
 
 CHUNK CONTENT:
@@ -503,41 +751,30 @@ INSTRUCTIONS:
 RETURN ONLY THE SUMMARY WITH NO OTHER COMMENTARY.
 `;
 
-            const summaryResult = await model.generateContent({
-              contents: [{ role: "user", parts: [{ text: summaryPrompt }] }],
-              generationConfig: {
-                temperature: 0.2,
-                maxOutputTokens: 250,
-              }
-            });
-            
-            const summary = summaryResult.response.text().trim();
-            if (summary && summary.length > 0) {
-              chunk.summary = summary;
-              console.log(`Generated summary for chunk ${chunk.id} (${summary.length} chars)`);
-            } else {
-              console.warn(`Empty summary generated for chunk ${chunk.id}`);
-              chunk.summary = ""; // Empty summary on error
-            }
-          } catch (error) {
-            console.error(`Error generating summary for chunk ${chunk.id}:`, error);
-            chunk.summary = ""; // Empty summary on error
+        const summaryResult = await geminiClient.generateContent('chunk_summary', model, {
+          contents: [{ role: "user", parts: [{ text: summaryPrompt }] }],
+          generationConfig: {
+            temperature: 0.2,
+            maxOutputTokens: 250,
           }
-        }
-        
-        // Add a small delay between chunk processing to avoid rate limits
-        await new Promise(resolve => setTimeout(resolve, 500));
+        });
         
+        const summary = summaryResult.response.text().trim();
+        if (summary && summary.length > 0) {
+          chunk.summary = summary;
+          logger.info(`Generated summary for chunk ${chunk.id} (${summary.length} chars)`);
+        } else {
+          logger.warn(`Empty summary generated for chunk ${chunk.id}`);
+          chunk.summary = ""; // Empty summary on error
+        }
       } catch (error) {
-        console.error(`Error processing metadata for chunk ${chunk.id}:`, error);
+        logger.error(`Error generating summary for chunk ${chunk.id}:`, error);
+        chunk.summary = ""; // Empty summary on error
       }
-    }
+    };
     
-    // Add a small delay between batches to avoid rate limits
-    if (batchIndex < batchCount - 1) {
-      await new Promise(resolve => setTimeout(resolve, 1500));
-    }
-  }
+    await Promise.all([generateTitle(), generateSummary()]);
+  }));
   
-  console.log(`✅ Metadata generation complete for ${chunks.length} chunks`);
+  logger.info(`Metadata generation complete for ${chunks.length} chunks`);
 }
@@ -1,6 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import dotenv from 'dotenv';
 import { DocumentChunk } from './chunking';
+import { logger } from '../core/logger';
+import { geminiClient } from './gemini-client';
 
 // Load environment variables
 dotenv.config();
@@ -8,7 +9,7 @@ dotenv.config();
 // Gemini API key for generating enhanced content
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
 if (!GEMINI_API_KEY) {
-  console.warn('GEMINI_API_KEY is not set in environment variables. Please add it to your .env file.');
+  logger.warn('GEMINI_API_KEY is not set in environment variables. Please add it to your .env file.');
 }
 
 /**
@@ -58,22 +59,20 @@ export async function enhanceContent(
   };
 
   try {
-    console.log(`Enhancing content for ${chunk.documentName} with types: ${fullOptions.types.join(', ')}`);
+    logger.info(`Enhancing content for ${chunk.documentName} with types: ${fullOptions.types.join(', ')}`);
     
     // Skip enhancement if content is empty
     if (!chunk.content || chunk.content.trim() === '') {
-      console.warn(`Skipping enhancement for ${chunk.documentName} - empty content`);
+      logger.warn(`Skipping enhancement for ${chunk.documentName} - empty content`);
       return chunk;
     }
 
     // Basic language detection (check for Vietnamese-specific characters)
     const hasVietnameseChars = /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i.test(chunk.content);
     const detectedLanguage = hasVietnameseChars ? 'Vietnamese' : 'English';
-    console.log(`Detected language for chunk ${chunk.id}: ${detectedLanguage}`);
+    logger.info(`Detected language for chunk ${chunk.id}: ${detectedLanguage}`);
 
-    // Initialize Gemini API
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+    const model = geminiClient.getModel();
 
     // Build prompt based on enhancement types
     let prompt = `Enhance the following content according to these specific instructions:\n\n`;
@@ -119,7 +118,7 @@ export async function enhanceContent(
     prompt += `\nCONTENT:\n${chunk.content}\n\nReturn ONLY the enhanced content in ${detectedLanguage}, with no additional explanations or commentary. PRESERVE THE ORIGINAL TEXT STRUCTURE.`;
 
     // Call Gemini API
-    const result = await model.generateContent({
+    const result = await geminiClient.generateContent('enhancement', model, {
       contents: [{ role: "user", parts: [{ text: prompt }] }],
       generationConfig: {
         temperature: fullOptions.temperature,
@@ -135,7 +134,7 @@ export async function enhanceContent(
       enhancedContent
     };
   } catch (error) {
-    console.error('Error enhancing content:', error);
+    logger.error('Error enhancing content:', error);
     // Return original chunk if enhancement fails
     return chunk;
   }
@@ -152,7 +151,7 @@ export async function batchEnhanceContent(
   chunks: DocumentChunk[],
   options: Partial<EnhancementOptions> = {}
 ): Promise<DocumentChunk[]> {
-  console.log(`Batch enhancing ${chunks.length} chunks`);
+  logger.info(`Batch enhancing ${chunks.length} chunks`);
   
   // Process chunks in batches to avoid overwhelming the API
   const batchSize = 10;
@@ -164,7 +163,7 @@ export async function batchEnhanceContent(
     const results = await Promise.all(promises);
     enhancedChunks.push(...results);
     
-    console.log(`Enhanced batch ${i / batchSize + 1} of ${Math.ceil(chunks.length / batchSize)}`);
+    logger.info(`Enhanced batch ${i / batchSize + 1} of ${Math.ceil(chunks.length / batchSize)}`);
   }
   
   return enhancedChunks;
@@ -0,0 +1,287 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../core/json-store';
+import { DatabaseService } from '../core/database-service';
+import { foldDiacritics } from '../core/lexical-index';
+import { isMangledName, slugify, titleFromFileName, uniqueSlug } from '../core/document-names';
+import { removeOriginals } from '../core/original-archive';
+import { DocumentListOptions, DocumentListPage, DocumentNameRepair, DocumentRecord, DocumentStatus } from '../types/document';
+import { JobFile } from '../types/job';
+import { logger } from '../core/logger';
+
+// Create a singleton instance of the database service
+const dbService = new DatabaseService();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export type NewDocumentInput = Pick<
+  DocumentRecord,
+  'documentName' | 'documentTitle' | 'originalFilename' | 'mimeType' | 'sourceType' | 'domains' | 'ingestionConfig'
+> & Partial<Pick<DocumentRecord, 'status' | 'pageCount' | 'chunkCount' | 'jobId' | 'fileHash'>>;
+
+// Fields of a document that can be changed after ingestion
+export type DocumentChanges = Partial<Pick<DocumentRecord, 'documentTitle' | 'domains'>>;
+
+// Mime types of legacy documents, keyed by source type
+const MIME_TYPES_BY_SOURCE: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  text: 'text/plain',
+  image: 'image/*',
+  youtube: 'video/youtube'
+};
+
+/**
+ * Persistent registry of ingested documents.
+ * Every chunk carries the ID of its document record in the documentId payload field,
+ * so document-level changes can be applied to all of its chunks at once.
+ */
+class DocumentRegistryService {
+  private store = new JsonFileStore<DocumentRecord>('documents.json');
+
+  constructor() {
+    // Give records created before slugs existed one; their chunks are updated by repairDocumentNames
+    for (const doc of this.store.values().filter(doc => !doc.slug)) {
+      this.store.update(doc.id, { slug: this.newSlug(doc.documentTitle) });
+    }
+  }
+
+  private newSlug(title: string): string {
+    const slugs = new Set(this.store.values().map(doc => doc.slug));
+    return uniqueSlug(title, slug => slugs.has(slug));
+  }
+
+  /**
+   * Create the record of a newly uploaded document
+   */
+  register(input: NewDocumentInput): DocumentRecord {
+    const now = new Date().toISOString();
+    return this.store.set({
+      status: DocumentStatus.PROCESSING,
+      pageCount: 0,
+      chunkCount: 0,
+      ...input,
+      id: uuidv4(),
+      slug: this.newSlug(input.documentTitle),
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  get(id: string): DocumentRecord | undefined {
+    return this.store.get(id);
+  }
+
+  findBySlug(slug: string): DocumentRecord | undefined {
+    return this.store.values().find(doc => doc.slug === slug);
+  }
+
+  /**
+   * Find the documents ingested from a file name or URL
+   */
+  findByOriginalFilename(originalFilename: string): DocumentRecord[] {
+    return this.store.values().filter(doc => doc.originalFilename === originalFilename);
+  }
+
+  /**
+   * Find live documents with the same file or parsed text as an upload
+   * @param hashes File and/or text hash of the upload
+   * @param excludeId Document being ingested, which is not its own duplicate
+   */
+  findDuplicates(hashes: Pick<DocumentRecord, 'fileHash' | 'textHash'>, excludeId?: string): DocumentRecord[] {
+    return this.store.values().filter(doc =>
+      doc.id !== excludeId &&
+      doc.status !== DocumentStatus.FAILED &&
+      doc.status !== DocumentStatus.CANCELLED &&
+      ((hashes.fileHash && doc.fileHash === hashes.fileHash) || (hashes.textHash && doc.textHash === hashes.textHash))
+    );
+  }
+
+  /**
+   * Record the hash of a document's parsed text
+   */
+  setTextHash(id: string, textHash: string): DocumentRecord | undefined {
+    return this.store.update(id, { textHash, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Record the archived uploads a document can be reprocessed from
+   */
+  setOriginalFiles(id: string, originalFiles: JobFile[]): DocumentRecord | undefined {
+    return this.store.update(id, { originalFiles, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Record the ingestion job that produces a document's chunks
+   */
+  attachJob(id: string, jobId: string): DocumentRecord | undefined {
+    return this.store.update(id, { jobId, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Drop a record whose chunks have already been deleted
+   */
+  forget(id: string): boolean {
+    return this.store.delete(id);
+  }
+
+  /**
+   * List documents, newest first, one page at a time
+   */
+  list(options: DocumentListOptions = {}): DocumentListPage {
+    const page = Math.max(1, Math.floor(options.page || 1));
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || DEFAULT_PAGE_SIZE)));
+    const fold = (text: string) => foldDiacritics(text.normalize('NFC')).toLowerCase();
+    const search = options.search ? fold(options.search) : undefined;
+
+    const matching = this.store.values()
+      .filter(doc => !options.status || doc.status === options.status)
+      .filter(doc => !options.domain || doc.domains.includes(options.domain))
+      .filter(doc => !search || [doc.documentTitle, doc.slug, doc.documentName, doc.originalFilename]
+        .some(value => fold(value).includes(search)))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const start = (page - 1) * pageSize;
+    return {
+      documents: matching.slice(start, start + pageSize),
+      total: matching.length,
+      page,
+      pageSize,
+      hasMore: start + pageSize < matching.length
+    };
+  }
+
+  /**
+   * Distinct names of the documents whose chunks have been stored, newest first
+   */
+  documentNames(): string[] {
+    const names = this.store.values()
+      .filter(doc => doc.status === DocumentStatus.READY)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(doc => doc.documentName);
+    return Array.from(new Set(names));
+  }
+
+  /**
+   * Update the ingestion state of a document
+   * @returns The updated record, or undefined if it does not exist
+   */
+  setStatus(
+    id: string,
+    status: DocumentStatus,
+    changes: Partial<Pick<DocumentRecord, 'pageCount' | 'chunkCount' | 'ingestionConfig' | 'error'>> = {}
+  ): DocumentRecord | undefined {
+    return this.store.update(id, {
+      error: undefined,
+      ...changes,
+      status,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Rename or re-tag a document, updating all of its chunks
+   * @returns The updated record, or undefined if it does not exist
+   * @throws ServiceUnavailableError if the chunks cannot be updated; the record is left unchanged
+   */
+  async update(id: string, changes: DocumentChanges): Promise<DocumentRecord | undefined> {
+    const existing = this.store.get(id);
+    if (!existing) return undefined;
+
+    // Chunks show the document under its title
+    const documentName = changes.documentTitle ?? existing.documentName;
+    await dbService.updateDocumentChunks(id, {
+      ...(changes.documentTitle !== undefined && { documentName }),
+      ...(changes.domains !== undefined && { domains: changes.domains })
+    });
+
+    logger.info(`Updated document ${id} (${Object.keys(changes).join(', ')})`);
+    return this.store.update(id, {
+      ...changes,
+      documentName,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Delete a document, all of its chunks and its archived originals
+   * @returns Number of deleted chunks, or undefined if the document does not exist
+   * @throws ServiceUnavailableError if the chunks cannot be deleted; the record and originals are kept
+   */
+  async remove(id: string): Promise<number | undefined> {
+    if (!this.store.has(id)) return undefined;
+
+    const deletedCount = await dbService.deleteDocumentChunks(id);
+    removeOriginals(id);
+    this.store.delete(id);
+    logger.info(`Deleted document ${id} with ${deletedCount} chunks`);
+    return deletedCount;
+  }
+
+  /**
+   * Register the documents whose chunks were stored before the registry existed
+   * @returns Number of documents registered
+   */
+  async importUnregisteredDocuments(): Promise<number> {
+    const unregistered = await dbService.getUnregisteredDocuments();
+
+    for (const doc of unregistered) {
+      // Chunks keep their stored name until repairDocumentNames replaces mangled ones
+      const record = this.register({
+        documentName: doc.documentName,
+        documentTitle: doc.sourceFile && isMangledName(doc.documentName, doc.sourceFile)
+          ? titleFromFileName(doc.sourceFile)
+          : doc.documentName,
+        originalFilename: doc.sourceFile || doc.documentName,
+        mimeType: (doc.sourceType && MIME_TYPES_BY_SOURCE[doc.sourceType]) || 'application/octet-stream',
+        sourceType: doc.sourceType,
+        domains: doc.domains.length > 0 ? doc.domains : ['default'],
+        ingestionConfig: {},
+        status: DocumentStatus.READY,
+        chunkCount: doc.chunkCount
+      });
+      await dbService.assignDocumentId(doc.documentName, record.id);
+    }
+
+    if (unregistered.length > 0) {
+      logger.info(`Registered ${unregistered.length} documents stored before the document registry existed`);
+    }
+    return unregistered.length;
+  }
+
+  /**
+   * Store every document's slug on its chunks, and replace underscore-mangled document
+   * names with the title recovered from the original file name. Documents whose name is
+   * repaired also get a new slug, since theirs was derived from the mangled name.
+   * @returns The documents whose names were repaired
+   */
+  async repairDocumentNames(): Promise<DocumentNameRepair[]> {
+    await this.importUnregisteredDocuments();
+    const repairs: DocumentNameRepair[] = [];
+
+    for (const doc of this.store.values()) {
+      if (!isMangledName(doc.documentName, doc.originalFilename)) {
+        await dbService.updateDocumentChunks(doc.id, { documentSlug: doc.slug });
+        continue;
+      }
+
+      const title = titleFromFileName(doc.originalFilename);
+      const slug = doc.slug === slugify(title) ? doc.slug : this.newSlug(title);
+      await dbService.updateDocumentChunks(doc.id, { documentSlug: slug, documentName: title });
+      this.store.update(doc.id, {
+        slug,
+        documentName: title,
+        documentTitle: title,
+        updatedAt: new Date().toISOString()
+      });
+
+      repairs.push({ id: doc.id, slug, from: doc.documentName, to: title });
+      logger.info(`Repaired document name "${doc.documentName}" -> "${title}"`);
+    }
+
+    return repairs;
+  }
+}
+
+// Export a singleton instance
+export const documentRegistry = new DocumentRegistryService();
@@ -5,6 +5,11 @@ import pdfParse from 'pdf-parse';
 import mammoth from 'mammoth';
 import { ImageAnnotatorClient } from '@google-cloud/vision';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ProgressStage, StageProgressCallback } from '../types/progress';
+import { timeStage } from '../core/metrics';
+import { logger } from '../core/logger';
+import { LlmBudgetExceededError } from './llm-usage';
+import { geminiClient } from './gemini-client';
 
 const readFile = util.promisify(fs.readFile);
 
@@ -32,7 +37,7 @@ const setupVisionClient = () => {
     
     return visionClient;
   } catch (error) {
-    console.error('Error initializing Google Cloud Vision client:', error);
+    logger.error('Error initializing Google Cloud Vision client:', error);
     throw new Error('Failed to initialize OCR service. Check your Google Cloud credentials.');
   }
 };
@@ -40,7 +45,7 @@ const setupVisionClient = () => {
 // Load Gemini API key
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
 if (!GEMINI_API_KEY) {
-  console.warn('GEMINI_API_KEY is not set in environment variables. OCR correction will be skipped.');
+  logger.warn('GEMINI_API_KEY is not set in environment variables. OCR correction will be skipped.');
 }
 
 // Parse document and extract text content
@@ -62,7 +67,7 @@ export const parseDocument = async (filePath: string, mimeType: string): Promise
           const pdfData = await pdfParse(pdfBuffer);
           text = pdfData.text;
         } catch (pdfError: unknown) {
-          console.error('Error parsing PDF:', pdfError);
+          logger.error('Error parsing PDF:', pdfError);
           const errorMessage = pdfError instanceof Error ? pdfError.message : 'Unknown error';
           throw new Error(`Failed to parse PDF document: ${errorMessage}`);
         }
@@ -100,7 +105,7 @@ export const parseDocument = async (filePath: string, mimeType: string): Promise
     
     return text;
   } catch (error) {
-    console.error(`Error parsing document ${path.basename(filePath)}:`, error);
+    logger.error(`Error parsing document ${path.basename(filePath)}:`, error);
     throw new Error('Failed to parse document');
   }
 };
@@ -120,7 +125,7 @@ export const parseDocxByPages = async (filePath: string): Promise<{ pages: { pag
     const docxResult = await mammoth.extractRawText({ buffer: docxBuffer });
     const fullText = docxResult.value;
     
-    console.log(`📄 Extracted ${fullText.length} characters from DOCX document`);
+    logger.info(`Extracted ${fullText.length} characters from DOCX document`);
     
     // Array to store page data
     const pages: { pageNumber: number; content: string }[] = [];
@@ -138,7 +143,7 @@ export const parseDocxByPages = async (filePath: string): Promise<{ pages: { pag
     
     // If we have clear headings, use them to split
     if (headingMatches.length > 4) {
-      console.log(`🔍 Found ${headingMatches.length} headings to use as section breaks`);
+      logger.info(`Found ${headingMatches.length} headings to use as section breaks`);
       
       let lastIndex = 0;
       let pageNumber = 1;
@@ -179,7 +184,7 @@ export const parseDocxByPages = async (filePath: string): Promise<{ pages: { pag
     } 
     // If we have enough paragraphs, use them to create logical sections
     else if (paragraphs.length > 10) {
-      console.log(`🔍 Using ${paragraphs.length} paragraphs to create logical sections`);
+      logger.info(`Using ${paragraphs.length} paragraphs to create logical sections`);
       
       // Group paragraphs into sections of roughly equal size
       const paragraphsPerSection = Math.max(3, Math.ceil(paragraphs.length / 15)); // Aim for ~15 sections
@@ -202,7 +207,7 @@ export const parseDocxByPages = async (filePath: string): Promise<{ pages: { pag
     } 
     // Otherwise, just split by estimated page size
     else {
-      console.log(`🔍 Splitting document into ${Math.ceil(fullText.length / estimatedPageSize)} estimated pages`);
+      logger.info(`Splitting document into ${Math.ceil(fullText.length / estimatedPageSize)} estimated pages`);
       
       // Find reasonable break points (end of paragraphs) near our target page size
       let currentPos = 0;
@@ -246,11 +251,11 @@ export const parseDocxByPages = async (filePath: string): Promise<{ pages: { pag
       }
     }
     
-    console.log(`📑 Created ${pages.length} logical pages/sections from DOCX document`);
+    logger.info(`Created ${pages.length} logical pages/sections from DOCX document`);
     
     return { pages };
   } catch (error) {
-    console.error(`Error parsing DOCX by pages ${path.basename(filePath)}:`, error);
+    logger.error(`Error parsing DOCX by pages ${path.basename(filePath)}:`, error);
     throw new Error('Failed to parse DOCX document by pages');
   }
 };
@@ -268,17 +273,17 @@ const processImageWithOCR = async (imagePath: string): Promise<string> => {
     const maxSizeMB = process.env.MAX_FILE_SIZE_MB ? parseInt(process.env.MAX_FILE_SIZE_MB) : 10;
     const fileSizeMB = imageBuffer.length / (1024 * 1024);
     if (fileSizeMB > maxSizeMB) {
-      console.warn(`Image file size (${fileSizeMB.toFixed(2)}MB) exceeds limit of ${maxSizeMB}MB: ${path.basename(imagePath)}`);
+      logger.warn(`Image file size (${fileSizeMB.toFixed(2)}MB) exceeds limit of ${maxSizeMB}MB: ${path.basename(imagePath)}`);
     }
     
-    console.log(`Processing OCR for image: ${path.basename(imagePath)}`);
+    logger.info(`Processing OCR for image: ${path.basename(imagePath)}`);
     
     // Call the Google Cloud Vision API for text detection
-    const [result] = await client.textDetection(imageBuffer);
+    const [result] = await timeStage('ocr', () => client.textDetection(imageBuffer));
     const detections = result.textAnnotations || [];
     
     if (detections.length === 0) {
-      console.warn(`No text detected in image: ${path.basename(imagePath)}`);
+      logger.warn(`No text detected in image: ${path.basename(imagePath)}`);
       return '';
     }
     
@@ -286,11 +291,11 @@ const processImageWithOCR = async (imagePath: string): Promise<string> => {
     const fullText = detections[0].description || '';
     
     // Log detection info
-    console.log(`Detected ${detections.length - 1} text blocks in image: ${path.basename(imagePath)}`);
+    logger.info(`Detected ${detections.length - 1} text blocks in image: ${path.basename(imagePath)}`);
     
     return fullText;
   } catch (error) {
-    console.error(`Error processing OCR for image ${path.basename(imagePath)}:`, error);
+    logger.error(`Error processing OCR for image ${path.basename(imagePath)}:`, error);
     throw new Error(`OCR processing failed for image: ${path.basename(imagePath)}`);
   }
 };
@@ -413,7 +418,7 @@ export const parsePdfByPages = async (filePath: string): Promise<{ pages: { page
           // Return an empty string as we're storing pages separately
           return '';
         } catch (pageError) {
-          console.error(`Error extracting text from page ${pageData.pageNumber}:`, pageError);
+          logger.error(`Error extracting text from page ${pageData.pageNumber}:`, pageError);
           
           // Fall back to basic extraction
           pages.push({
@@ -433,7 +438,7 @@ export const parsePdfByPages = async (filePath: string): Promise<{ pages: { page
     
     // If the page renderer didn't work, fall back to basic PDF parsing
     if (pages.length === 0) {
-      console.log('Falling back to basic PDF parsing');
+      logger.info('Falling back to basic PDF parsing');
       const pdfData = await pdfParse(pdfBuffer);
       
       // Create a single page with all content
@@ -445,14 +450,15 @@ export const parsePdfByPages = async (filePath: string): Promise<{ pages: { page
     
     return { pages };
   } catch (error) {
-    console.error(`Error parsing PDF by pages ${path.basename(filePath)}:`, error);
+    logger.error(`Error parsing PDF by pages ${path.basename(filePath)}:`, error);
     throw new Error('Failed to parse PDF document by pages');
   }
 };
 
 // Process a folder of scanned document images
 export const processImageFolder = async (
-  filePaths: string[]
+  filePaths: string[],
+  onProgress?: StageProgressCallback
 ): Promise<{ pages: { pageNumber: number; content: string }[] }> => {
   try {
     // Sort files by their numeric page number in filename
@@ -465,6 +471,11 @@ export const processImageFolder = async (
       const filePath = sortedFilePaths[i];
       const pageNumber = extractPageNumberFromFilename(filePath);
       
+      onProgress?.(ProgressStage.OCR, `Running OCR on page ${i + 1} of ${sortedFilePaths.length}`, {
+        currentPage: i + 1,
+        totalPages: sortedFilePaths.length
+      });
+      
       // Perform OCR on the image
       const rawContent = await processImageWithOCR(filePath);
       
@@ -476,11 +487,15 @@ export const processImageFolder = async (
     }
     
     // Process each page to exclude headers/footers
+    onProgress?.(ProgressStage.HEADER_FOOTER_REMOVAL, `Removing headers and footers from ${pages.length} pages`, {
+      currentPage: pages.length,
+      totalPages: pages.length
+    });
     const processedPages = await processHeadersFooters(pages);
     
     return { pages: processedPages };
   } catch (error) {
-    console.error('Error processing image folder:', error);
+    logger.error('Error processing image folder:', error);
     throw new Error('Failed to process image folder');
   }
 };
@@ -879,14 +894,12 @@ export const correctOcrWithLLM = async (text: string): Promise<string> => {
     // Get API key - try to use the AI model
     const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY;
     if (!apiKey) {
-      console.warn('⚠️ No AI API key found for OCR correction. Basic regex corrections applied but full correction unavailable.');
+      logger.warn('No AI API key found for OCR correction. Basic regex corrections applied but full correction unavailable.');
       return preProcessedText;
     }
 
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ 
-        model: "gemini-1.5-pro", 
+      const model = geminiClient.getModel({
         generationConfig: {
           temperature: 0,
           topP: 0.1,
@@ -942,7 +955,7 @@ KEEP the exact same text structure as the original.
 Specifically fix "huy ế t" to "huyết" (NOT "huyếch") and "thuy ế t" to "thuyết" (NOT "thuật").
 Return ONLY the corrected text, preserving original structure exactly as provided.)`;
 
-      // Call API with retry mechanism
+      // Ask again while the model keeps making the known wrong corrections
       let retryCount = 0;
       const maxRetries = 3;
       let correctedText = preProcessedText;
@@ -950,7 +963,7 @@ Return ONLY the corrected text, preserving original structure exactly as provide
       
       while (retryCount < maxRetries) {
         try {
-          const result = await model.generateContent({
+          const result = await geminiClient.generateContent('ocr_correction', model, {
             contents: [{ role: "user", parts: [{ text: currentPrompt }] }],
             generationConfig: {
               temperature: 0.1,
@@ -965,7 +978,7 @@ Return ONLY the corrected text, preserving original structure exactly as provide
           const hasThuat = /\b(LỤC VỊ HOÀN|Lục Vị Hoàn) Thuật\b/i.test(correctedText);
           
           if (hasHuyech || hasThuat) {
-            console.log(`⚠️ AI still produced incorrect corrections (retry ${retryCount + 1}/${maxRetries})`);
+            logger.info(`AI still produced incorrect corrections (retry ${retryCount + 1}/${maxRetries})`);
             retryCount++;
             
             // Make the prompt more specific on problem areas
@@ -983,30 +996,32 @@ Return ONLY the corrected text, preserving original structure exactly as provide
           
           break;
         } catch (error) {
-          console.error(`❌ API error (attempt ${retryCount + 1}/${maxRetries}):`, error);
-          retryCount++;
-          
-          // Short delay before retrying
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          // The Gemini client has already retried rate limits and transient failures
+          if (error instanceof LlmBudgetExceededError) {
+            logger.warn('Skipping AI text correction:', error);
+          } else {
+            logger.error('AI text correction failed:', error);
+          }
+          break;
         }
       }
       
       // Verify it's not translated and hasn't lost content
       if (detectTranslationToEnglish(preProcessedText, correctedText) || 
           correctedText.length < preProcessedText.length * 0.8) {
-        console.warn('❌ AI correction issue detected. Using pre-processed text with regex fixes instead.');
+        logger.warn('AI correction issue detected. Using pre-processed text with regex fixes instead.');
         return preProcessedText;
       }
       
-      console.log(`✅ Enhanced text with AI (${correctedText.length} characters)`);
+      logger.info(`Enhanced text with AI (${correctedText.length} characters)`);
       return correctedText;
     } catch (error) {
-      console.error('❌ Error using AI for text correction:', error);
+      logger.error('Error using AI for text correction:', error);
       // Return regex-processed text if AI fails
       return preProcessedText;
     }
   } catch (error) {
-    console.error('Error correcting text:', error);
+    logger.error('Error correcting text:', error);
     return text;
   }
 };
@@ -1019,44 +1034,26 @@ export async function createCompleteSentencePages(document: Document): Promise<D
     return [];
   }
 
-  console.log(`Creating complete sentence pages for document with ${document.pages.length} pages`);
+  logger.info(`Creating complete sentence pages for document with ${document.pages.length} pages`);
 
   try {
-    // First correct OCR errors if needed
-    const correctedPages = await Promise.all(
-      document.pages.map(async (page) => {
-        if (!page.content.trim()) {
-          return page;
-        }
-        try {
-          const corrected = await correctOcrWithLLM(page.content);
-          return {
-            ...page,
-            content: corrected || page.content,
-          };
-        } catch (error) {
-          console.error(`Error correcting OCR for page ${page.pageNumber}:`, error);
-          return page;
-        }
-      })
-    );
-
-    // Then ensure complete sentences by checking previous and next pages
+    // Ensure complete sentences by checking previous and next pages. OCR errors are
+    // corrected per chunk, so the text before correction is kept as the chunk's first version.
     const enhancedPages: DocumentPage[] = [];
     
-    for (let i = 0; i < correctedPages.length; i++) {
-      const previousPage = i > 0 ? correctedPages[i - 1] : null;
-      const currentPage = correctedPages[i];
-      const nextPage = i < correctedPages.length - 1 ? correctedPages[i + 1] : null;
+    for (let i = 0; i < document.pages.length; i++) {
+      const previousPage = i > 0 ? document.pages[i - 1] : null;
+      const currentPage = document.pages[i];
+      const nextPage = i < document.pages.length - 1 ? document.pages[i + 1] : null;
       
       const enhancedPage = await ensureCompleteSentences(previousPage, currentPage, nextPage);
       enhancedPages.push(enhancedPage as DocumentPage);
     }
     
-    console.log(`Created ${enhancedPages.length} pages with complete sentences`);
+    logger.info(`Created ${enhancedPages.length} pages with complete sentences`);
     return enhancedPages;
   } catch (error) {
-    console.error('Error creating complete sentence pages:', error);
+    logger.error('Error creating complete sentence pages:', error);
     return document.pages;
   }
 }
@@ -1066,10 +1063,11 @@ export async function createCompleteSentencePages(document: Document): Promise<D
  * adding metadata, and optimizing for embedding and retrieval.
  * 
  * @param document The document with pages to prepare
+ * @param onProgress Optional callback notified as each page is repaired
  * @returns Document with processed content ready for chunking
  */
-export async function prepareContentForChunking(document: Document): Promise<Document> {
-  console.log(`🔍 Preparing ${document.pages.length} pages for chunking...`);
+export async function prepareContentForChunking(document: Document, onProgress?: StageProgressCallback): Promise<Document> {
+  logger.info(`Preparing ${document.pages.length} pages for chunking...`);
   
   // Clean raw pages to prepare for processing
   const rawPages = document.pages.map(page => ({
@@ -1078,12 +1076,18 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
   }));
   
   // First pass: Use the LLM approach to fix obvious issues
+  let repairedPageCount = 0;
   const enhancedPagesPromises = rawPages.map(async (page, index, allPages) => {
     const prevPage = index > 0 ? allPages[index - 1] : null;
     const nextPage = index < allPages.length - 1 ? allPages[index + 1] : null;
     
     // Use ensureCompleteSentences to fix sentence boundaries
     const enhancedPage = await ensureCompleteSentences(prevPage, page, nextPage);
+    repairedPageCount++;
+    onProgress?.(ProgressStage.SENTENCE_REPAIR, `Repaired sentence boundaries on ${repairedPageCount} of ${allPages.length} pages`, {
+      currentPage: repairedPageCount,
+      totalPages: allPages.length
+    });
     return {
       ...page,
       ...enhancedPage,
@@ -1119,7 +1123,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
       const startsWithPunctuation = /^[,;)}\]]/.test(currContent);
       
       if (startsWithLowercase || startsWithContinuationWord || startsWithPunctuation) {
-        console.log(`⚠️ Page ${currPage.pageNumber} begins with a fragment`);
+        logger.info(`Page ${currPage.pageNumber} begins with a fragment`);
         
         // Find the last sentence from previous page
         const sentenceRegex = /[^.!?:;。]+[.!?:;。]\s*$/;
@@ -1132,7 +1136,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
           if (lastSentence.length < 200 && !currContent.startsWith(lastSentence)) {
             currContent = lastSentence + ' ' + currContent;
             modified = true;
-            console.log(`✅ Added last sentence from page ${currPage.pageNumber-1} to beginning of page ${currPage.pageNumber}`);
+            logger.info(`Added last sentence from page ${currPage.pageNumber-1} to beginning of page ${currPage.pageNumber}`);
           }
         } else {
           // If no clear sentence, get last 150 characters
@@ -1147,7 +1151,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
           if (!currContent.startsWith(textToAdd)) {
             currContent = textToAdd + ' ' + currContent;
             modified = true;
-            console.log(`✅ Added ${textToAdd.length} chars from page ${currPage.pageNumber-1} to beginning of page ${currPage.pageNumber}`);
+            logger.info(`Added ${textToAdd.length} chars from page ${currPage.pageNumber-1} to beginning of page ${currPage.pageNumber}`);
           }
         }
       }
@@ -1163,7 +1167,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
       const endsWithPartialWord = lastWord.length <= 2 || /[bcdfghjklmnpqrstvwxzđ]$/i.test(lastWord);
       
       if (endsWithoutPunctuation || endsWithPartialWord) {
-        console.log(`⚠️ Page ${currPage.pageNumber} ends with a fragment`);
+        logger.info(`Page ${currPage.pageNumber} ends with a fragment`);
         
         // Find the first sentence from next page
         const sentenceRegex = /^[^.!?:;。]+[.!?:;。]/;
@@ -1176,7 +1180,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
           if (firstSentence.length < 200 && !currContent.endsWith(firstSentence)) {
             currContent = currContent + ' ' + firstSentence;
             modified = true;
-            console.log(`✅ Added first sentence from page ${currPage.pageNumber+1} to end of page ${currPage.pageNumber}`);
+            logger.info(`Added first sentence from page ${currPage.pageNumber+1} to end of page ${currPage.pageNumber}`);
           }
         } else {
           // If no clear sentence, get first 150 characters
@@ -1191,7 +1195,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
           if (!currContent.endsWith(textToAdd)) {
             currContent = currContent + ' ' + textToAdd;
             modified = true;
-            console.log(`✅ Added ${textToAdd.length} chars from page ${currPage.pageNumber+1} to end of page ${currPage.pageNumber}`);
+            logger.info(`Added ${textToAdd.length} chars from page ${currPage.pageNumber+1} to end of page ${currPage.pageNumber}`);
           }
         }
       }
@@ -1234,7 +1238,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
     
     // Fix overlap if found
     if (overlap > 0) {
-      console.log(`✅ Found ${overlap} character overlap between pages ${currPage.pageNumber} and ${nextPage.pageNumber}`);
+      logger.info(`Found ${overlap} character overlap between pages ${currPage.pageNumber} and ${nextPage.pageNumber}`);
       
       const fixedNextContent = nextContent.substring(overlap);
       finalPages[i + 1] = {
@@ -1279,7 +1283,7 @@ export async function prepareContentForChunking(document: Document): Promise<Doc
   
   // Log the results
   const modifiedPages = finalPages.filter(p => p.__modified).length;
-  console.log(`✅ Content preparation complete: ${modifiedPages} pages were modified to ensure complete sentences`);
+  logger.info(`Content preparation complete: ${modifiedPages} pages were modified to ensure complete sentences`);
   
   // Return document with processed pages
   return {
@@ -1311,7 +1315,7 @@ function sanitizeContentForAPI(text: string): string {
   const MAX_PROMPT_CHARS = 8000; // More conservative limit (reduced from 12000)
   
   if (sanitized.length > MAX_PROMPT_CHARS) {
-    console.log(`⚠️ Content too long (${sanitized.length} chars), truncating to ${MAX_PROMPT_CHARS} chars`);
+    logger.info(`Content too long (${sanitized.length} chars), truncating to ${MAX_PROMPT_CHARS} chars`);
     
     // Check if the text contains "CURRENT PAGE:" marker
     const currentPageIndex = sanitized.indexOf("CURRENT PAGE:");
@@ -1334,7 +1338,7 @@ function sanitizeContentForAPI(text: string): string {
       
       if (currentPageContent.length > currentPageBudget) {
         truncatedCurrentPage = currentPageContent.substring(0, currentPageBudget);
-        console.log(`  - Truncated current page content to ${truncatedCurrentPage.length} chars`);
+        logger.info(`  - Truncated current page content to ${truncatedCurrentPage.length} chars`);
       }
       
       // Give 15% each to previous and next pages
@@ -1346,7 +1350,7 @@ function sanitizeContentForAPI(text: string): string {
       
       if (prevPageContent.length > otherPagesBudget) {
         prevPageContent = prevPageContent.substring(0, otherPagesBudget);
-        console.log(`  - Truncated previous page content to ${prevPageContent.length} chars`);
+        logger.info(`  - Truncated previous page content to ${prevPageContent.length} chars`);
       }
       
       // Get next page portion
@@ -1355,12 +1359,12 @@ function sanitizeContentForAPI(text: string): string {
       
       if (nextPageContent.length > otherPagesBudget) {
         nextPageContent = nextPageContent.substring(0, otherPagesBudget);
-        console.log(`  - Truncated next page content to ${nextPageContent.length} chars`);
+        logger.info(`  - Truncated next page content to ${nextPageContent.length} chars`);
       }
       
       // Reassemble the prompt with truncated content
       sanitized = prevPageContent + truncatedCurrentPage + nextPageContent;
-      console.log(`  - Final prompt length: ${sanitized.length} chars`);
+      logger.info(`  - Final prompt length: ${sanitized.length} chars`);
     } else {
       // Simple truncation if we can't find the structure
       sanitized = sanitized.substring(0, MAX_PROMPT_CHARS);
@@ -1370,9 +1374,6 @@ function sanitizeContentForAPI(text: string): string {
   return sanitized;
 }
 
-// Add this simple sleep function to throttle requests
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 async function ensureCompleteSentences(prevPage: DocumentPage | null, currPage: DocumentPage, nextPage: DocumentPage | null): Promise<DocumentPage> {
   // Check if API has been disabled due to too many failures
   const funcWithProps = ensureCompleteSentences as unknown as EnsureCompleteSentencesFunction;
@@ -1382,7 +1383,7 @@ async function ensureCompleteSentences(prevPage: DocumentPage | null, currPage:
   
   if (skipApiCompletely || funcWithProps.apiDisabled) {
     const reason = skipApiCompletely ? 'disabled by environment variable' : 'too many failures';
-    console.log(`⚠️ API is ${reason}. Using manual fallback for page ${currPage.pageNumber}`);
+    logger.info(`API is ${reason}. Using manual fallback for page ${currPage.pageNumber}`);
     return manuallyFixTruncations(
       prevPage?.content?.trim() || '', 
       currPage?.content?.trim() || '', 
@@ -1403,7 +1404,7 @@ async function ensureCompleteSentences(prevPage: DocumentPage | null, currPage:
     return currPage;
   }
   
-  console.log(`🔍 Checking page ${currPage.pageNumber} for sentence completeness...`);
+  logger.info(`Checking page ${currPage.pageNumber} for sentence completeness...`);
   
   // Expanded list of Vietnamese continuation patterns
   const continuationPatterns = [
@@ -1439,7 +1440,7 @@ async function ensureCompleteSentences(prevPage: DocumentPage | null, currPage:
   const nextPageContent = nextPage?.content?.trim() || '';
   
   // Log context sizes for debugging
-  console.log(`Context sizes - Previous: ${prevPageContent.length}, Current: ${currentPageContent.length}, Next: ${nextPageContent.length}`);
+  logger.info(`Context sizes - Previous: ${prevPageContent.length}, Current: ${currentPageContent.length}, Next: ${nextPageContent.length}`);
   
   // Create a prompt for the language model with stronger language preservation instructions
   const promptBase = `
@@ -1479,7 +1480,7 @@ PRESERVE EXACT TEXT STRUCTURE - NO BULLET POINTS OR FORMATTING
     // Use Gemini to fix the content
     const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY;
     if (!apiKey) {
-      console.warn('⚠️ No AI API key found, using manual fallback for sentence completion');
+      logger.warn('No AI API key found, using manual fallback for sentence completion');
       return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
     }
 
@@ -1487,62 +1488,26 @@ PRESERVE EXACT TEXT STRUCTURE - NO BULLET POINTS OR FORMATTING
     const sanitizedPrompt = sanitizeContentForAPI(finalPrompt);
 
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ 
-        model: "gemini-1.5-pro", 
+      // Requests are aborted after 30 seconds; a timeout counts as an API failure
+      const timeoutMs = 30000;
+      const model = geminiClient.getModel({
         generationConfig: {
           temperature: 0.1,
           maxOutputTokens: 8000,
         }
-      });
-
-      // Add a throttling delay to avoid overwhelming the API
-      await sleep(500); // 500ms delay between API calls
-      
-      // Set up a simple timeout with a flag
-      const timeoutMs = 30000; // 30 seconds
-      console.log(`⏱️ Setting API timeout of ${timeoutMs/1000} seconds for page ${currPage.pageNumber}`);
-      
-      let apiTimedOut = false;
-      const timeoutId = setTimeout(() => {
-        apiTimedOut = true;
-        console.error(`⏱️ API timeout for page ${currPage.pageNumber} after ${timeoutMs/1000} seconds`);
-        
-        // Track API failures
-        const funcWithProps = ensureCompleteSentences as unknown as EnsureCompleteSentencesFunction;
-        funcWithProps.apiFailureCount = (funcWithProps.apiFailureCount || 0) + 1;
-        
-        // Log failure count and potentially disable API
-        console.log(`⚠️ API failure count: ${funcWithProps.apiFailureCount}/${funcWithProps.maxApiFailures}`);
-        
-        if (funcWithProps.apiFailureCount >= funcWithProps.maxApiFailures) {
-          console.log(`🚫 Disabling API due to too many failures (${funcWithProps.apiFailureCount})`);
-          funcWithProps.apiDisabled = true;
-        }
-      }, timeoutMs);
+      }, { timeout: timeoutMs });
       
-      console.log(`📤 Sending API request for page ${currPage.pageNumber} (content length: ${sanitizedPrompt.length} chars)`);
+      logger.info(`Sending API request for page ${currPage.pageNumber} (content length: ${sanitizedPrompt.length} chars)`);
       const startTime = Date.now();
       
       try {
-        // Make the API call with retry
-        const result = await retryApiCall(async () => {
-          return await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: sanitizedPrompt }] }],
-          });
-        }, 3, 1000); // 3 retries with 1s initial delay
-        
-        // Clear the timeout as the request completed
-        clearTimeout(timeoutId);
-        
-        // If the timeout already occurred, don't process the result
-        if (apiTimedOut) {
-          console.log(`⚠️ API result arrived after timeout for page ${currPage.pageNumber}, ignoring`);
-          return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
-        }
+        // The Gemini client retries rate limits and transient failures
+        const result = await geminiClient.generateContent('sentence_repair', model, {
+          contents: [{ role: "user", parts: [{ text: sanitizedPrompt }] }],
+        });
         
         const elapsedTime = (Date.now() - startTime) / 1000;
-        console.log(`✅ API request completed in ${elapsedTime.toFixed(2)} seconds for page ${currPage.pageNumber}`);
+        logger.info(`API request completed in ${elapsedTime.toFixed(2)} seconds for page ${currPage.pageNumber}`);
         
         // Process the result
         const response = result.response;
@@ -1553,13 +1518,13 @@ PRESERVE EXACT TEXT STRUCTURE - NO BULLET POINTS OR FORMATTING
         
         // If it was translated, use the original content instead
         if (wasTranslated) {
-          console.warn(`🚫 Ignoring API result for page ${currPage.pageNumber} due to translation to English`);
+          logger.warn(`Ignoring API result for page ${currPage.pageNumber} due to translation to English`);
           return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
         }
         
         // Verify the LLM actually made meaningful changes
         if (!enhancedContent || enhancedContent.length < currentPageContent.length * 0.5) {
-          console.warn(`⚠️ LLM output for page ${currPage.pageNumber} seems too short, using manual fallback`);
+          logger.warn(`LLM output for page ${currPage.pageNumber} seems too short, using manual fallback`);
           return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
         }
 
@@ -1574,9 +1539,9 @@ PRESERVE EXACT TEXT STRUCTURE - NO BULLET POINTS OR FORMATTING
           const endDiff = !enhancedContent.endsWith(currentPageContent.substring(currentPageContent.length - 50)) ?
             `Changed end: "...${enhancedContent.substring(enhancedContent.length - 50)}"` : 'No changes at end';
           
-          console.log(`✅ Enhanced page ${currPage.pageNumber}: ${startDiff}, ${endDiff}`);
+          logger.info(`Enhanced page ${currPage.pageNumber}: ${startDiff}, ${endDiff}`);
         } else {
-          console.log(`ℹ️ Page ${currPage.pageNumber}: LLM didn't make changes, content may already be complete`);
+          logger.info(`Page ${currPage.pageNumber}: LLM didn't make changes, content may already be complete`);
         }
         
         return { 
@@ -1585,36 +1550,33 @@ PRESERVE EXACT TEXT STRUCTURE - NO BULLET POINTS OR FORMATTING
           __modified: wasChanged
         };
       } catch (error: any) {
-        // Clear the timeout if an error occurs
-        clearTimeout(timeoutId);
-        
-        // Don't count the error if we already timed out
-        if (!apiTimedOut) {
+        // Don't count the error if the job's budget is spent
+        if (!(error instanceof LlmBudgetExceededError)) {
           // Track API failures
           const funcWithProps = ensureCompleteSentences as unknown as EnsureCompleteSentencesFunction;
           funcWithProps.apiFailureCount = (funcWithProps.apiFailureCount || 0) + 1;
           
-          console.error(`❌ API error for page ${currPage.pageNumber}:`, error);
+          logger.error(`API error for page ${currPage.pageNumber}:`, error);
           
           // Log failure count and potentially disable API
-          console.log(`⚠️ API failure count: ${funcWithProps.apiFailureCount}/${funcWithProps.maxApiFailures}`);
+          logger.info(`API failure count: ${funcWithProps.apiFailureCount}/${funcWithProps.maxApiFailures}`);
           
           if (funcWithProps.apiFailureCount >= funcWithProps.maxApiFailures) {
-            console.log(`🚫 Disabling API due to too many failures (${funcWithProps.apiFailureCount})`);
+            logger.info(`Disabling API due to too many failures (${funcWithProps.apiFailureCount})`);
             funcWithProps.apiDisabled = true;
           }
         }
         
-        console.log(`⚠️ Falling back to manual processing for page ${currPage.pageNumber}`);
+        logger.info(`Falling back to manual processing for page ${currPage.pageNumber}`);
         return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
       }
     } catch (error) {
-      console.error(`❌ Unexpected error when enhancing page ${currPage.pageNumber}:`, error);
+      logger.error(`Unexpected error when enhancing page ${currPage.pageNumber}:`, error);
       // Try manual fallback for any other errors
       return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
     }
   } catch (error) {
-    console.error(`❌ Error enhancing page ${currPage.pageNumber}:`, error);
+    logger.error(`Error enhancing page ${currPage.pageNumber}:`, error);
     // Try manual fallback if LLM fails
     return manuallyFixTruncations(prevPageContent, currentPageContent, nextPageContent, startsWithFragment, endsWithFragment, currPage);
   }
@@ -1631,7 +1593,7 @@ function manuallyFixTruncations(
   endsWithFragment: boolean,
   originalPage: DocumentPage
 ): DocumentPage {
-  console.log('🔧 Using manual fallback to fix truncations');
+  logger.info('Using manual fallback to fix truncations');
   let enhancedContent = currentPageContent;
   let wasModified = false;
   
@@ -1652,7 +1614,7 @@ function manuallyFixTruncations(
       const match = prevPageContent.match(pattern);
       if (match && match[0]) {
         lastContent = match[0].trim();
-        console.log(`✅ Found content from previous page using pattern: ${pattern}`);
+        logger.info(`Found content from previous page using pattern: ${pattern}`);
         break;
       }
     }
@@ -1661,16 +1623,16 @@ function manuallyFixTruncations(
       // Avoid duplicate content - check if current page already starts with this content
       if (!currentPageContent.startsWith(lastContent)) {
         enhancedContent = lastContent + ' ' + enhancedContent;
-        console.log(`✅ Manually added content from previous page: "${lastContent.substring(0, 30)}..."`);
+        logger.info('Manually added content from previous page', { text: lastContent.substring(0, 30) });
         wasModified = true;
       } else {
-        console.log(`ℹ️ Current page already starts with the content from previous page`);
+        logger.info(`Current page already starts with the content from previous page`);
       }
     } else {
       // Fallback: Take last 100 characters or so
       lastContent = prevPageContent.substring(Math.max(0, prevPageContent.length - 100));
       enhancedContent = lastContent + ' ' + enhancedContent;
-      console.log(`✅ Manually added last 100 chars from previous page as fallback`);
+      logger.info(`Manually added last 100 chars from previous page as fallback`);
       wasModified = true;
     }
   }
@@ -1692,7 +1654,7 @@ function manuallyFixTruncations(
       const match = nextPageContent.match(pattern);
       if (match && match[0]) {
         nextContent = match[0].trim();
-        console.log(`✅ Found content from next page using pattern: ${pattern}`);
+        logger.info(`Found content from next page using pattern: ${pattern}`);
         break;
       }
     }
@@ -1701,16 +1663,16 @@ function manuallyFixTruncations(
       // Avoid duplicate content - check if current page already ends with this content
       if (!currentPageContent.endsWith(nextContent)) {
         enhancedContent = enhancedContent + ' ' + nextContent;
-        console.log(`✅ Manually added content from next page: "${nextContent.substring(0, 30)}..."`);
+        logger.info('Manually added content from next page', { text: nextContent.substring(0, 30) });
         wasModified = true;
       } else {
-        console.log(`ℹ️ Current page already ends with the content from next page`);
+        logger.info(`Current page already ends with the content from next page`);
       }
     } else {
       // Fallback: Take first 100 characters
       nextContent = nextPageContent.substring(0, 100);
       enhancedContent = enhancedContent + ' ' + nextContent;
-      console.log(`✅ Manually added first 100 chars from next page as fallback`);
+      logger.info(`Manually added first 100 chars from next page as fallback`);
       wasModified = true;
     }
   }
@@ -1729,7 +1691,7 @@ function manuallyFixTruncations(
     
     if (nextWords && nextWords.length > 0) {
       enhancedContent = enhancedContent + ' ' + nextWords;
-      console.log(`✅ Manually fixed potential partial word "${lastWord}" by adding "${nextWords}"`);
+      logger.info('Manually fixed potential partial word', { text: `${lastWord} ${nextWords}` });
       wasModified = true;
     }
   }
@@ -1739,7 +1701,7 @@ function manuallyFixTruncations(
   
   // If we really couldn't fix anything, just keep the original content
   if (!wasModified) {
-    console.log(`ℹ️ No manual fixes applied to page ${originalPage.pageNumber}`);
+    logger.info(`No manual fixes applied to page ${originalPage.pageNumber}`);
     return originalPage;
   }
   
@@ -1817,51 +1779,6 @@ const markSentenceBoundaries = (text: string): string => {
   return markedText;
 };
 
-// Add this helper function for retrying API calls with exponential backoff
-async function retryApiCall<T>(
-  operation: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelayMs: number = 1000
-): Promise<T> {
-  let lastError: any;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error: any) {
-      lastError = error;
-      
-      // Check if we should retry based on the error
-      const isNetworkError = 
-        error.message?.includes('fetch failed') || 
-        error.message?.includes('network') ||
-        error.message?.includes('timeout') ||
-        error.message?.includes('ECONNRESET');
-      
-      // Don't retry if it's not a network error
-      if (!isNetworkError) {
-        console.log(`❌ Non-retryable error: ${error.message}`);
-        throw error;
-      }
-      
-      // If this was the last retry, throw the error
-      if (attempt === maxRetries) {
-        console.log(`❌ Failed after ${maxRetries} retries`);
-        throw error;
-      }
-      
-      // Calculate exponential backoff delay
-      const delayMs = initialDelayMs * Math.pow(2, attempt - 1);
-      console.log(`⏱️ Retry ${attempt}/${maxRetries} after ${delayMs}ms delay (${error.message})`);
-      
-      // Wait before retrying
-      await sleep(delayMs);
-    }
-  }
-  
-  // This should never happen, but TypeScript requires a return
-  throw lastError;
-}
 
 // Add a simple function to detect if text might have been accidentally translated to English
 function detectTranslationToEnglish(originalText: string, enhancedText: string): boolean {
@@ -1890,8 +1807,8 @@ function detectTranslationToEnglish(originalText: string, enhancedText: string):
   const englishRatio = englishWordCount / enhancedWords.length;
   
   if (englishRatio > threshold) {
-    console.error(`⚠️ TRANSLATION DETECTED! Content appears to have been translated to English (${(englishRatio * 100).toFixed(1)}% English words)`);
-    console.error(`⚠️ Original language should have been preserved. Using original content instead.`);
+    logger.error(`TRANSLATION DETECTED! Content appears to have been translated to English (${(englishRatio * 100).toFixed(1)}% English words)`);
+    logger.error(`Original language should have been preserved. Using original content instead.`);
     return true;
   }
   
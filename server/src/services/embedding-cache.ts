@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import type { TaskType } from '@google/generative-ai';
+import { dataPath, JsonLinesLog } from '../core/json-store';
+import { logger } from '../core/logger';
+import { countEmbeddingCacheLookups } from '../core/metrics';
+
+// Load environment variables
+dotenv.config();
+
+const parsedMaxEntries = parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '', 10);
+// Vectors kept before the least recently used are evicted; 0 disables the cache
+const MAX_ENTRIES = Number.isFinite(parsedMaxEntries) && parsedMaxEntries >= 0 ? parsedMaxEntries : 10000;
+
+// The log is rewritten once it holds this many times more lines than the cache holds entries
+const COMPACTION_FACTOR = 2;
+
+/**
+ * Model a vector was computed with; vectors are only reused for the same provider,
+ * model, task type and vector size
+ */
+export interface EmbeddingCacheScope {
+  provider: string;
+  model: string;
+  taskType: TaskType;
+  dimensions: number;
+}
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  since: string; // Start of the counts: server start or the last clear
+}
+
+// Line of the cache log: a vector stored, as base64 of its float32 values (the precision
+// Qdrant stores), or without a vector, a cached vector used, so replay restores the LRU order
+interface CacheLogEntry {
+  key: string;
+  vector?: string;
+}
+
+/**
+ * Hash of a text ignoring Unicode composition, runs of whitespace and surrounding
+ * whitespace, which do not change what the text means to an embedding model
+ */
+const hashText = (text: string): string =>
+  crypto.createHash('sha256').update(text.normalize('NFC').replace(/\s+/g, ' ').trim()).digest('hex');
+
+const cacheKey = (scope: EmbeddingCacheScope, text: string): string =>
+  [scope.provider, scope.model, scope.taskType, scope.dimensions, hashText(text)].join(':');
+
+const encodeVector = (vector: Float32Array): string =>
+  Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+
+const decodeVector = (encoded: string): Float32Array => {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+};
+
+/**
+ * Persistent cache of embedding vectors, so re-embedding text that was embedded
+ * before (a reprocessed document, a re-imported video, a repeated query) costs
+ * no provider call.
+ *
+ * Entries are kept in memory in least-recently-used order. Stored vectors and cache
+ * hits are appended to a JSON Lines log in the data directory, so the order survives
+ * a restart. Beyond EMBEDDING_CACHE_MAX_ENTRIES the least recently used entries are
+ * evicted, and the log is rewritten once it has grown to several times the size of
+ * the cache.
+ */
+class EmbeddingCacheService {
+  private log = new JsonLinesLog<CacheLogEntry>(dataPath('embedding-cache.jsonl'), () => this.logEntries());
+  // Map iteration follows insertion order, so re-inserting an entry on use keeps it last
+  private entries = new Map<string, Float32Array>();
+  private logLines = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private since = new Date().toISOString();
+
+  constructor() {
+    if (MAX_ENTRIES > 0) {
+      this.load();
+    }
+  }
+
+  /**
+   * Look up the vectors of several texts, counting hits and misses
+   * @param scope Model the vectors must come from
+   * @param texts Texts to look up
+   * @returns The cached vector of each text, or undefined where there is none
+   */
+  lookup(scope: EmbeddingCacheScope, texts: string[]): (number[] | undefined)[] {
+    if (MAX_ENTRIES === 0) return texts.map(() => undefined);
+
+    const touched: CacheLogEntry[] = [];
+    const vectors = texts.map(text => {
+      const key = cacheKey(scope, text);
+      const vector = this.entries.get(key);
+      if (!vector) return undefined;
+
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+      touched.push({ key });
+      return Array.from(vector);
+    });
+
+    this.hits += touched.length;
+    this.misses += texts.length - touched.length;
+    countEmbeddingCacheLookups(touched.length, texts.length - touched.length);
+    this.appendToLog(touched);
+    return vectors;
+  }
+
+  /**
+   * Add the vectors of several texts, evicting the least recently used entries beyond the size limit
+   * @param scope Model the vectors come from
+   * @param texts Embedded texts
+   * @param vectors Vector of each text, in the same order
+   */
+  store(scope: EmbeddingCacheScope, texts: string[], vectors: number[][]): void {
+    if (MAX_ENTRIES === 0 || texts.length === 0) return;
+
+    const stored = texts.map((text, index): CacheLogEntry => {
+      const key = cacheKey(scope, text);
+      const vector = Float32Array.from(vectors[index]);
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+      return { key, vector: encodeVector(vector) };
+    });
+    this.evictions += this.evict();
+    this.appendToLog(stored);
+  }
+
+  stats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: MAX_ENTRIES > 0,
+      entries: this.entries.size,
+      maxEntries: MAX_ENTRIES,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round(this.hits / lookups * 1000) / 1000 : 0,
+      evictions: this.evictions,
+      since: this.since
+    };
+  }
+
+  /**
+   * Remove every cached vector and reset the counts
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    const cleared = this.entries.size;
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.since = new Date().toISOString();
+    try {
+      this.log.rewrite([]);
+      this.logLines = 0;
+    } catch (error) {
+      logger.error('Error clearing the embedding cache file:', error);
+    }
+    logger.info(`Cleared ${cleared} cached embeddings`);
+    return cleared;
+  }
+
+  // Drop the least recently used entries beyond the size limit
+  private evict(): number {
+    let evicted = 0;
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(key);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  // Append to the log, or rewrite it instead once it has grown too large
+  private appendToLog(entries: CacheLogEntry[]): void {
+    if (entries.length === 0) return;
+    try {
+      if (this.logLines + entries.length > MAX_ENTRIES * COMPACTION_FACTOR) {
+        this.compact();
+      } else {
+        this.log.append(entries);
+        this.logLines += entries.length;
+      }
+    } catch (error) {
+      logger.error('Error saving embedding cache entries:', error);
+    }
+  }
+
+  // Rewrite the log with only the current entries, least recently used first
+  private compact(): void {
+    const entries = this.logEntries();
+    this.log.rewrite(entries);
+    this.logLines = entries.length;
+  }
+
+  private logEntries(): CacheLogEntry[] {
+    return Array.from(this.entries, ([key, vector]): CacheLogEntry => ({ key, vector: encodeVector(vector) }));
+  }
+
+  // Replay the log: stored vectors and uses, in the order they happened
+  private load(): void {
+    const { entries, lineCount } = this.log.read();
+    for (const entry of entries) {
+      const vector = entry.vector ? decodeVector(entry.vector) : this.entries.get(entry.key);
+      if (!vector) continue;
+      this.entries.delete(entry.key);
+      this.entries.set(entry.key, vector);
+    }
+    this.logLines = lineCount;
+    this.evict();
+    logger.info(`Loaded ${this.entries.size} cached embeddings`);
+  }
+}
+
+// Export a singleton instance
+export const embeddingCache = new EmbeddingCacheService();
@@ -0,0 +1,457 @@
+import { createHash } from 'crypto';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { JsonFileStore } from '../core/json-store';
+import {
+  COLLECTION_ALIAS, COLLECTION_NAME, createKnowledgeBaseCollection, createQdrantClient, toPointVector, vectorLayoutOf
+} from '../core/database-service';
+import { EmbeddingModelConfig, embeddingModelInfo, setActiveEmbeddingModel } from '../core/embedding-model';
+import { embedChunksFields } from './embedding';
+import { EmbeddingMigration, MigrationOptions, MigrationStatus } from '../types/migration';
+import { logger } from '../core/logger';
+
+export const DEFAULT_MIGRATION_OPTIONS: MigrationOptions = {
+  batchSize: 32,
+  delayMs: 1000
+};
+
+// Points read per page when only their IDs are needed
+const ID_PAGE_SIZE = 256;
+
+type PointId = string | number;
+
+interface StoredPoint {
+  id: PointId;
+  payload?: Record<string, unknown> | null;
+  vector?: unknown;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Scroll offsets are point IDs; Qdrant returns null on the last page
+const toOffset = (offset: unknown): PointId | undefined =>
+  typeof offset === 'string' || typeof offset === 'number' ? offset : undefined;
+
+// Embedding fields of a point re-embedded with the new model, which is no longer pending
+const reembeddedFields = (model: EmbeddingModelConfig) => ({
+  embeddingModel: embeddingModelInfo(model),
+  embeddingStatus: 'ready',
+  embeddingError: undefined,
+  embeddingAttempts: undefined
+});
+
+const pickEmbeddingFields = (payload: StoredPoint['payload']) => ({
+  passages: payload?.passages,
+  embeddingModel: payload?.embeddingModel,
+  embeddingStatus: payload?.embeddingStatus,
+  embeddingError: payload?.embeddingError,
+  embeddingAttempts: payload?.embeddingAttempts
+});
+
+// Payload fields the vectors of a point are computed from
+const EMBEDDED_PAYLOAD_FIELDS = ['content', 'enhancedContent', 'title', 'summary'];
+
+const embeddedTextChanged = (source: StoredPoint['payload'], copy: StoredPoint['payload']) =>
+  EMBEDDED_PAYLOAD_FIELDS.some(field => source?.[field] !== copy?.[field]);
+
+// Source points seen by a reconcile, with a hash of the payload each one had
+type SourceSnapshot = Map<string, { id: PointId; hash: string }>;
+
+const payloadHash = (payload: StoredPoint['payload']) =>
+  createHash('sha1').update(JSON.stringify(payload ?? null)).digest('hex');
+
+/**
+ * Moves the knowledge base to another embedding model without dropping it.
+ *
+ * A migration copies every point of the collection behind the alias into a new versioned
+ * collection, re-embedding the fields of each chunk with the new model in throttled batches.
+ * The new collection stores a named vector per field, so a migration also converts
+ * collections created before named vectors existed. The scroll offset is checkpointed
+ * after every batch, so an interrupted or failed migration resumes where it stopped. Once
+ * the copy is reconciled with the points written in the meantime and the point counts
+ * match, the alias is switched to the new collection in a single atomic update, and the
+ * points written to the old collection while the counts were being checked are copied
+ * across. The old collection is kept until it is removed explicitly.
+ */
+class EmbeddingMigrationService {
+  private store = new JsonFileStore<EmbeddingMigration>('embedding-migrations.json');
+  private client: QdrantClient = createQdrantClient();
+
+  /**
+   * Collection the knowledge base alias currently points to
+   */
+  async activeCollection(): Promise<string | undefined> {
+    const { aliases } = await this.client.getAliases();
+    return aliases.find(alias => alias.alias_name === COLLECTION_ALIAS)?.collection_name;
+  }
+
+  /**
+   * List migrations, newest first
+   */
+  list(): EmbeddingMigration[] {
+    return this.store.values().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Start migrating the knowledge base to a new embedding model
+   * @param model Embedding provider, model and vector size of the new collection
+   * @param options Batch size and throttling
+   * @returns The completed migration
+   */
+  async start(model: EmbeddingModelConfig, options: MigrationOptions = DEFAULT_MIGRATION_OPTIONS): Promise<EmbeddingMigration> {
+    const unfinished = this.unfinished();
+    if (unfinished) {
+      throw new Error(`Migration to ${unfinished.targetCollection} has not finished; resume it before starting another one`);
+    }
+
+    const sourceCollection = await this.activeCollection();
+    if (!sourceCollection) {
+      throw new Error(`Alias ${COLLECTION_ALIAS} does not exist; start the server once to create it`);
+    }
+
+    const targetCollection = await this.nextCollectionName();
+    await createKnowledgeBaseCollection(this.client, targetCollection, model.vectorSize);
+
+    const now = new Date().toISOString();
+    const migration = this.store.set({
+      id: targetCollection,
+      sourceCollection,
+      targetCollection,
+      provider: model.provider,
+      model: model.model,
+      vectorSize: model.vectorSize,
+      status: MigrationStatus.RUNNING,
+      copyFinished: false,
+      migratedCount: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+    logger.info(`Migrating ${sourceCollection} to ${targetCollection} with ${model.provider} embedding model ${model.model} (${model.vectorSize} dimensions)`);
+
+    return this.run(migration.id, options);
+  }
+
+  /**
+   * Continue the unfinished migration from its last checkpoint
+   * @param options Batch size and throttling
+   * @returns The completed migration
+   */
+  async resume(options: MigrationOptions = DEFAULT_MIGRATION_OPTIONS): Promise<EmbeddingMigration> {
+    const migration = this.unfinished();
+    if (!migration) {
+      throw new Error('There is no unfinished migration to resume');
+    }
+
+    logger.info(`Resuming migration to ${migration.targetCollection} after ${migration.migratedCount} points`);
+    return this.run(migration.id, options);
+  }
+
+  /**
+   * Give up the unfinished migration and delete the collection it was copying into
+   * @returns The abandoned migration
+   */
+  async abandon(): Promise<EmbeddingMigration> {
+    const migration = this.unfinished();
+    if (!migration) {
+      throw new Error('There is no unfinished migration to abandon');
+    }
+
+    await this.client.deleteCollection(migration.targetCollection);
+    logger.info(`Abandoned migration to ${migration.targetCollection}`);
+    return this.update(migration.id, { status: MigrationStatus.ABANDONED });
+  }
+
+  /**
+   * Delete a collection left behind by a migration
+   * @param collectionName Collection to delete
+   */
+  async remove(collectionName: string): Promise<void> {
+    if (collectionName === await this.activeCollection()) {
+      throw new Error(`${collectionName} is the active collection behind ${COLLECTION_ALIAS}`);
+    }
+    const unfinished = this.unfinished();
+    if (unfinished && (unfinished.sourceCollection === collectionName || unfinished.targetCollection === collectionName)) {
+      throw new Error(`${collectionName} is used by the unfinished migration to ${unfinished.targetCollection}`);
+    }
+
+    await this.client.deleteCollection(collectionName);
+    logger.info(`Deleted collection ${collectionName}`);
+  }
+
+  private unfinished(): EmbeddingMigration | undefined {
+    return this.list().find(migration =>
+      migration.status === MigrationStatus.RUNNING || migration.status === MigrationStatus.FAILED
+    );
+  }
+
+  private update(id: string, changes: Partial<EmbeddingMigration>): EmbeddingMigration {
+    return this.store.update(id, { ...changes, updatedAt: new Date().toISOString() }) as EmbeddingMigration;
+  }
+
+  // Next versioned collection name, e.g. knowledge_base_v2 after the original collection
+  private async nextCollectionName(): Promise<string> {
+    const { collections } = await this.client.getCollections();
+    const pattern = new RegExp(`^${COLLECTION_NAME.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}_v(\\d+)$`);
+    const versions = [...collections.map(collection => collection.name), ...this.store.values().map(m => m.targetCollection)]
+      .map(name => name.match(pattern))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => parseInt(match[1], 10));
+    return `${COLLECTION_NAME}_v${Math.max(1, ...versions) + 1}`;
+  }
+
+  private async run(id: string, options: MigrationOptions): Promise<EmbeddingMigration> {
+    let migration = this.update(id, { status: MigrationStatus.RUNNING, error: undefined });
+    const model: EmbeddingModelConfig = {
+      provider: migration.provider ?? 'gemini',
+      model: migration.model,
+      vectorSize: migration.vectorSize
+    };
+
+    let snapshot: SourceSnapshot;
+    try {
+      if (!migration.copyFinished) {
+        migration = await this.copy(migration, model, options);
+      }
+      snapshot = await this.reconcile(migration, model, options);
+      await this.validateCounts(migration);
+      await this.switchAlias(migration);
+
+      setActiveEmbeddingModel({ ...model, collection: migration.targetCollection, activatedAt: new Date().toISOString() });
+      logger.info(`${COLLECTION_ALIAS} now points to ${migration.targetCollection}; ${migration.sourceCollection} is kept until it is removed`);
+      migration = this.update(id, { status: MigrationStatus.COMPLETED, completedAt: new Date().toISOString() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.update(id, { status: MigrationStatus.FAILED, error: message });
+      throw error;
+    }
+
+    // The alias has switched, so a failure here cannot be resumed; it is reported instead
+    try {
+      await this.catchUp(migration, model, options, snapshot);
+    } catch (error) {
+      logger.error(
+        `Could not copy the points written to ${migration.sourceCollection} during the switch; ` +
+        `compare it with ${migration.targetCollection} before removing it:`, error
+      );
+    }
+    return migration;
+  }
+
+  // Copy all source points in batches, checkpointing the scroll offset after each one
+  private async copy(migration: EmbeddingMigration, model: EmbeddingModelConfig, options: MigrationOptions): Promise<EmbeddingMigration> {
+    do {
+      const response = await this.client.scroll(migration.sourceCollection, {
+        with_payload: true,
+        with_vector: false,
+        limit: options.batchSize,
+        offset: migration.offset
+      });
+
+      await this.copyPoints(migration.targetCollection, response.points, model);
+      const offset = toOffset(response.next_page_offset);
+      migration = this.update(migration.id, {
+        offset,
+        migratedCount: migration.migratedCount + response.points.length,
+        copyFinished: offset === undefined
+      });
+      logger.info(`Copied ${migration.migratedCount} points to ${migration.targetCollection}`);
+
+      if (offset !== undefined) await sleep(options.delayMs);
+    } while (!migration.copyFinished);
+
+    return migration;
+  }
+
+  // Re-embed points with the new model and write them to the target collection
+  private async copyPoints(collectionName: string, points: StoredPoint[], model: EmbeddingModelConfig): Promise<void> {
+    if (points.length === 0) return;
+
+    const embedded = await embedChunksFields(points.map(point => {
+      const payload = point.payload || {};
+      return {
+        content: String(payload.content ?? ''),
+        enhancedContent: payload.enhancedContent as string | undefined,
+        title: String(payload.title ?? ''),
+        summary: String(payload.summary ?? '')
+      };
+    }), model);
+
+    // Targets are created with named vectors, except by migrations started before they existed
+    const { config } = await this.client.getCollection(collectionName);
+    const layout = vectorLayoutOf(config.params.vectors);
+    await this.client.upsert(collectionName, {
+      wait: true,
+      points: points.map((point, index) => ({
+        id: point.id,
+        vector: toPointVector(embedded[index], layout),
+        payload: {
+          ...point.payload,
+          ...reembeddedFields(model),
+          passages: embedded[index].passages
+        }
+      }))
+    });
+  }
+
+  /**
+   * Bring the target collection in line with points added, edited or deleted in the
+   * source collection after they were copied. Points whose embedded text
+   * (content, enhanced content, title or summary) changed are re-embedded; points whose
+   * other fields changed keep their new vectors.
+   * @param since Snapshot of an earlier reconcile; only the source points written after it
+   * are brought across, and only the points it saw are deleted
+   * @returns Snapshot of the source points seen
+   */
+  private async reconcile(
+    migration: EmbeddingMigration,
+    model: EmbeddingModelConfig,
+    options: MigrationOptions,
+    since?: SourceSnapshot
+  ): Promise<SourceSnapshot> {
+    const { sourceCollection, targetCollection } = migration;
+    const snapshot: SourceSnapshot = new Map();
+    let reembedded = 0;
+    let updated = 0;
+    let offset: PointId | undefined;
+
+    do {
+      const response = await this.client.scroll(sourceCollection, {
+        with_payload: true,
+        with_vector: false,
+        limit: options.batchSize,
+        offset
+      });
+      const points = response.points.filter(point => {
+        const hash = payloadHash(point.payload);
+        snapshot.set(String(point.id), { id: point.id, hash });
+        return since?.get(String(point.id))?.hash !== hash;
+      });
+      const ids = points.map(point => point.id);
+
+      const copies = ids.length > 0
+        ? await this.client.retrieve(targetCollection, { ids, with_payload: true, with_vector: true })
+        : [];
+      const copiesById = new Map(copies.map(copy => [String(copy.id), copy]));
+
+      const stale: StoredPoint[] = [];
+      const changed: { id: PointId; vector: ReturnType<typeof toPointVector>; payload: Record<string, unknown> }[] = [];
+      for (const point of points) {
+        const copy = copiesById.get(String(point.id));
+        if (!copy || embeddedTextChanged(point.payload, copy.payload)) {
+          stale.push(point);
+        } else {
+          // Copies differ from their source in the embedding fields
+          const payload = { ...point.payload, ...pickEmbeddingFields(copy.payload) };
+          if (JSON.stringify(copy.payload) !== JSON.stringify(payload)) {
+            changed.push({ id: point.id, vector: copy.vector as ReturnType<typeof toPointVector>, payload });
+          }
+        }
+      }
+
+      await this.copyPoints(targetCollection, stale, model);
+      if (changed.length > 0) {
+        await this.client.upsert(targetCollection, { wait: true, points: changed });
+      }
+      reembedded += stale.length;
+      updated += changed.length;
+
+      offset = toOffset(response.next_page_offset);
+      if (stale.length > 0 && offset !== undefined) await sleep(options.delayMs);
+    } while (offset !== undefined);
+
+    // Drop copies of points deleted from the source collection
+    const deletedIds = since
+      ? [...since.values()].map(point => point.id).filter(pointId => !snapshot.has(String(pointId)))
+      : await this.targetIdsMissingFrom(targetCollection, snapshot);
+
+    if (deletedIds.length > 0) {
+      await this.client.delete(targetCollection, { wait: true, points: deletedIds });
+    }
+    logger.info(`Reconciled ${targetCollection}: ${reembedded} re-embedded, ${updated} updated, ${deletedIds.length} deleted`);
+    return snapshot;
+  }
+
+  private async targetIdsMissingFrom(targetCollection: string, snapshot: SourceSnapshot): Promise<PointId[]> {
+    const missing: PointId[] = [];
+    let offset: PointId | undefined;
+    do {
+      const response = await this.client.scroll(targetCollection, {
+        with_payload: false,
+        with_vector: false,
+        limit: ID_PAGE_SIZE,
+        offset
+      });
+      missing.push(...response.points.map(point => point.id).filter(pointId => !snapshot.has(String(pointId))));
+      offset = toOffset(response.next_page_offset);
+    } while (offset !== undefined);
+    return missing;
+  }
+
+  /**
+   * Bring across what reached the old collection between the last reconcile and the
+   * switch, and re-embed points the server wrote to the new collection with the old
+   * model before it noticed the switch. Points the server has written to the new
+   * collection since are left alone.
+   */
+  private async catchUp(
+    migration: EmbeddingMigration,
+    model: EmbeddingModelConfig,
+    options: MigrationOptions,
+    snapshot: SourceSnapshot
+  ): Promise<void> {
+    await this.reconcile(migration, model, options, snapshot);
+
+    const filter = {
+      must: [{ key: 'embeddingStatus', match: { value: 'ready' } }],
+      must_not: [{ key: 'embeddingModel.model', match: { value: model.model } }]
+    };
+    let reembedded = 0;
+    let offset: PointId | undefined;
+    do {
+      const response = await this.client.scroll(migration.targetCollection, {
+        filter,
+        with_payload: true,
+        with_vector: false,
+        limit: options.batchSize,
+        offset
+      });
+      await this.copyPoints(migration.targetCollection, response.points, model);
+      reembedded += response.points.length;
+      offset = toOffset(response.next_page_offset);
+    } while (offset !== undefined);
+
+    if (reembedded > 0) {
+      logger.info(`Re-embedded ${reembedded} points written to ${migration.targetCollection} with the previous model`);
+    }
+  }
+
+  private async validateCounts(migration: EmbeddingMigration): Promise<void> {
+    const { count: sourceCount } = await this.client.count(migration.sourceCollection, { exact: true });
+    const { count: targetCount } = await this.client.count(migration.targetCollection, { exact: true });
+    this.update(migration.id, { sourceCount, targetCount });
+
+    if (sourceCount !== targetCount) {
+      throw new Error(
+        `Point counts differ (${migration.sourceCollection}: ${sourceCount}, ${migration.targetCollection}: ${targetCount}); ` +
+        'resume the migration to reconcile them'
+      );
+    }
+  }
+
+  // Point the alias at the new collection; removing and recreating it in one request is atomic
+  private async switchAlias(migration: EmbeddingMigration): Promise<void> {
+    const activeCollection = await this.activeCollection();
+    if (activeCollection !== migration.sourceCollection) {
+      throw new Error(`${COLLECTION_ALIAS} points to ${activeCollection} instead of ${migration.sourceCollection}; abandon this migration and start a new one`);
+    }
+
+    await this.client.updateCollectionAliases({
+      actions: [
+        { delete_alias: { alias_name: COLLECTION_ALIAS } },
+        { create_alias: { collection_name: migration.targetCollection, alias_name: COLLECTION_ALIAS } }
+      ]
+    });
+  }
+}
+
+// Export a singleton instance
+export const embeddingMigration = new EmbeddingMigrationService();
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { TaskType } from '@google/generative-ai';
+import { tokenize } from '../core/lexical-index';
+import { EmbeddingProviderName } from '../core/embedding-model';
+import { geminiClient } from './gemini-client';
+
+// Load environment variables
+dotenv.config();
+
+// Time a request to an OpenAI-compatible server may take before it counts as failed
+const OPENAI_REQUEST_TIMEOUT_MS = 60000;
+
+/**
+ * A service that turns text into embedding vectors.
+ * Providers throw when they cannot produce a vector; they never substitute one.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+
+  /**
+   * Embed a single text
+   * @param text Text to embed, short enough for the provider's input limit
+   * @param taskType Whether the text is stored or used as a query
+   * @param model Model name
+   * @param dimensions Expected vector size
+   */
+  embed(text: string, taskType: TaskType, model: string, dimensions: number): Promise<number[]>;
+
+  /**
+   * Embed several texts with as few requests as the provider allows
+   * @param texts Texts to embed, each short enough for the provider's input limit
+   * @param taskType Whether the texts are stored or used as queries
+   * @param model Model name
+   * @param dimensions Expected vector size
+   * @returns One vector per text, in the same order
+   */
+  embedBatch(texts: string[], taskType: TaskType, model: string, dimensions: number): Promise<number[][]>;
+}
+
+/**
+ * Google Gemini embedding API, called through the shared client so embedding
+ * requests are batched, rate limited and retried
+ */
+class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini';
+  private apiKey = process.env.GEMINI_API_KEY || '';
+
+  async embed(text: string, taskType: TaskType, model: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text], taskType, model);
+    return vector;
+  }
+
+  async embedBatch(texts: string[], taskType: TaskType, model: string): Promise<number[][]> {
+    if (!this.apiKey) {
+      throw new Error('GEMINI_API_KEY is required for Gemini embeddings');
+    }
+    return geminiClient.embedContents(model, texts, taskType);
+  }
+}
+
+/**
+ * Any server implementing the OpenAI embeddings API, such as OpenAI itself or a
+ * local inference server (Ollama, LM Studio, vLLM, text-embeddings-inference)
+ */
+class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private baseUrl = (process.env.OPENAI_EMBEDDING_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  private apiKey = process.env.OPENAI_EMBEDDING_API_KEY || '';
+
+  async embed(text: string, taskType: TaskType, model: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text], taskType, model);
+    return vector;
+  }
+
+  async embedBatch(texts: string[], taskType: TaskType, model: string): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.baseUrl}/embeddings`,
+      { model, input: texts },
+      { headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}, timeout: OPENAI_REQUEST_TIMEOUT_MS }
+    );
+
+    // Results carry the index of their input, which servers need not keep in order
+    const data: { index?: number; embedding?: number[] }[] = response.data?.data || [];
+    const vectors = data
+      .map((item, position) => ({ index: item.index ?? position, embedding: item.embedding }))
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+    if (vectors.length !== texts.length || !vectors.every(Array.isArray)) {
+      throw new Error(`Embedding server at ${this.baseUrl} returned ${vectors.length} embeddings for ${texts.length} texts`);
+    }
+    return vectors as number[][];
+  }
+}
+
+/**
+ * Deterministic feature-hashing embeddings computed locally, for tests and offline
+ * development. Texts sharing words get similar vectors, but there is no semantic
+ * understanding, so it is no substitute for a real model in production.
+ */
+class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+
+  async embed(text: string, taskType: TaskType, model: string, dimensions: number): Promise<number[]> {
+    const vector = new Array<number>(dimensions).fill(0);
+
+    // Each term adds +1 or -1 to the dimension its hash selects
+    for (const term of tokenize(text)) {
+      const digest = crypto.createHash('sha256').update(term).digest();
+      vector[digest.readUInt32BE(0) % dimensions] += digest[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) {
+      // Cosine similarity is undefined for the zero vector
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map(value => value / norm);
+  }
+
+  async embedBatch(texts: string[], taskType: TaskType, model: string, dimensions: number): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text, taskType, model, dimensions)));
+  }
+}
+
+const PROVIDERS: Record<EmbeddingProviderName, EmbeddingProvider> = {
+  gemini: new GeminiEmbeddingProvider(),
+  openai: new OpenAICompatibleEmbeddingProvider(),
+  hash: new HashEmbeddingProvider()
+};
+
+/**
+ * Get the implementation of an embedding provider
+ * @param name Provider name
+ */
+export const getEmbeddingProvider = (name: EmbeddingProviderName): EmbeddingProvider => PROVIDERS[name];
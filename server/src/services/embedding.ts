@@ -1,188 +1,306 @@
-import dotenv from 'dotenv';
+import { TaskType } from '@google/generative-ai';
+import { activeEmbeddingModel, EmbeddingModelConfig, EmbeddingModelInfo, embeddingModelInfo } from '../core/embedding-model';
 import { FallbackService } from '../core/fallback-service';
-import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { getEmbeddingProvider } from './embedding-providers';
+import { embeddingCache, EmbeddingCacheScope } from './embedding-cache';
+import { DocumentChunk, PassageSpan } from './chunking';
+import { timeStage } from '../core/metrics';
+import { findBoundary, nextWindowStart } from '../core/text-windows';
+import { logger } from '../core/logger';
 
-// Load .env file from the server directory
-dotenv.config();
+// Embedding APIs limit the input size (Gemini accepts ~32KB); longer single texts are cut
+const MAX_INPUT_SIZE = 10000;
 
-// Gemini configuration
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-if (!GEMINI_API_KEY) {
-  console.warn('GEMINI_API_KEY is not set in environment variables. Please add it to your .env file.');
+// Chunks longer than this are embedded as several passages, each stored as its own vector,
+// so search can match a chunk by its best passage instead of an average of all of them
+const PASSAGE_SIZE = Math.min(MAX_INPUT_SIZE, parseInt(process.env.EMBEDDING_PASSAGE_SIZE || '2000', 10));
+// Characters shared by consecutive passages, so a sentence across a boundary is embedded whole once
+const PASSAGE_OVERLAP = Math.min(Math.floor(PASSAGE_SIZE / 2), parseInt(process.env.EMBEDDING_PASSAGE_OVERLAP || '200', 10));
+
+// Texts embedded per guarded provider call, so a failing call only leaves its own chunks pending
+const TEXTS_PER_CALL = 100;
+
+// Tracks whether the embedding provider is reachable; chunks stored while it is not
+// are queued for re-embedding. Calls have no overall timeout: a call can wait a long
+// time for the Gemini rate limiter, so only each HTTP request is timed out, by the provider.
+export const embeddingFallback = new FallbackService('Embedding', { timeoutMs: 0 });
+
+// Embedding fields of a chunk, set together whenever the chunk is (re-)embedded
+export type ChunkEmbedding = Pick<
+  DocumentChunk,
+  | 'embedding' | 'passages' | 'passageEmbeddings' | 'enhancedEmbeddings' | 'summaryEmbedding'
+  | 'embeddingModel' | 'embeddingStatus' | 'embeddingError' | 'embeddingAttempts'
+>;
+
+// Vectors of a chunk, one set per embedded field
+export type ChunkVectors = Pick<DocumentChunk, 'embedding' | 'passages' | 'passageEmbeddings' | 'enhancedEmbeddings' | 'summaryEmbedding'>;
+
+// Text fields of a chunk its vectors are computed from
+export type EmbeddedChunkFields = Pick<DocumentChunk, 'content' | 'enhancedContent' | 'title' | 'summary'>;
+
+export interface EmbeddingOptions {
+  // Whether cached vectors may be returned and new ones cached; off for provider probes
+  useCache?: boolean;
 }
 
-const GEMINI_VECTOR_SIZE = parseInt(process.env.GEMINI_VECTOR_SIZE || '768', 10);
+/**
+ * Generate embedding vectors for several texts with as few provider requests as possible
+ * 
+ * Uses the embedding provider and model of the active collection. Texts embedded
+ * before with the same model are answered from the embedding cache, and each
+ * distinct remaining text is sent to the provider once. Throws when the provider
+ * fails, so callers never store or search with a meaningless vector.
+ * 
+ * @param texts The texts to generate embeddings for
+ * @param taskType TaskType enum value for the embedding purpose
+ * @param embeddingModel Model to use instead of the one of the active collection
+ * @param options Whether to use the embedding cache
+ * @returns One vector per text, in the same order
+ */
+export const createEmbeddings = async (
+  texts: string[],
+  taskType: TaskType = TaskType.RETRIEVAL_DOCUMENT,
+  embeddingModel: EmbeddingModelConfig = activeEmbeddingModel(),
+  { useCache = true }: EmbeddingOptions = {}
+): Promise<number[][]> => {
+  if (texts.length === 0) return [];
+  const provider = getEmbeddingProvider(embeddingModel.provider);
+  const scope: EmbeddingCacheScope = {
+    provider: embeddingModel.provider,
+    model: embeddingModel.model,
+    taskType,
+    dimensions: embeddingModel.vectorSize
+  };
+
+  const inputs = texts.map(text => {
+    if (text.length <= MAX_INPUT_SIZE) return text;
+    logger.warn(`Text is too large to embed (${text.length} chars); embedding its first ${MAX_INPUT_SIZE} characters`);
+    return text.slice(0, MAX_INPUT_SIZE);
+  });
+
+  const vectors = useCache ? embeddingCache.lookup(scope, inputs) : inputs.map(() => undefined);
+  const missing = Array.from(new Set(inputs.filter((input, index) => !vectors[index])));
+  if (missing.length === 0) return vectors as number[][];
 
-// Create fallback service for embedding operations
-const embeddingFallback = new FallbackService('Embedding');
+  const embedded = await provider.embedBatch(missing, taskType, embeddingModel.model, embeddingModel.vectorSize);
+  for (const vector of embedded) {
+    if (vector.length !== embeddingModel.vectorSize) {
+      throw new Error(`${provider.name} model ${embeddingModel.model} returned ${vector.length} dimensions instead of ${embeddingModel.vectorSize}`);
+    }
+  }
+  if (useCache) {
+    embeddingCache.store(scope, missing, embedded);
+  }
+
+  const embeddedByInput = new Map(missing.map((input, index) => [input, embedded[index]]));
+  return inputs.map((input, index) => vectors[index] || embeddedByInput.get(input) as number[]);
+};
 
 /**
  * Generate an embedding vector for the provided text
  * 
- * Uses Google's Gemini for embeddings
- * 
  * @param text The text to generate an embedding for
  * @param taskType TaskType enum value for the embedding purpose
+ * @param embeddingModel Model to use instead of the one of the active collection
+ * @param options Whether to use the embedding cache
  * @returns A vector representation of the text
  */
 export const createEmbedding = async (
   text: string, 
-  taskType: TaskType = TaskType.RETRIEVAL_DOCUMENT
+  taskType: TaskType = TaskType.RETRIEVAL_DOCUMENT,
+  embeddingModel: EmbeddingModelConfig = activeEmbeddingModel(),
+  options: EmbeddingOptions = {}
 ): Promise<number[]> => {
-  return embeddingFallback.withFallback(
-    'generateVector',
-    // Fallback function - generate random vector
-    () => {
-      // Log information about text being embedded to help debugging
-      console.debug(`Generated fallback embedding for text of length ${text.length}.`);
-      return Array.from({ length: GEMINI_VECTOR_SIZE }, () => Math.random() - 0.5);
-    },
-    // Primary function - call Gemini embedding API
-    async () => {
-      return generateGeminiEmbedding(text, taskType);
-    },
-    embeddingFallback.isFallbackActive()
-  );
+  const [vector] = await createEmbeddings([text], taskType, embeddingModel, options);
+  return vector;
 };
 
 /**
- * Generate embedding using Google's Gemini API
- * 
- * @param text Text to generate embedding for
- * @param taskType Task type from TaskType enum
- * @returns Vector representation of the text
+ * Split text into passages of at most PASSAGE_SIZE characters, ending each at a
+ * paragraph, sentence or word boundary where possible
+ * @param text Text to split
+ * @returns Character ranges of the passages in the text, in order
  */
-async function generateGeminiEmbedding(
-  text: string, 
-  taskType: TaskType
-): Promise<number[]> {
-  if (!GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is required for Gemini embeddings');
+export const splitPassages = (text: string): PassageSpan[] => {
+  if (text.length <= PASSAGE_SIZE) {
+    return [{ start: 0, end: text.length }];
   }
 
-  // Gemini has a payload size limit of ~32KB
-  // Chunk the text if it's too large (approximately 10K characters to be safe)
-  const MAX_CHUNK_SIZE = 10000;
-  
-  if (text.length <= MAX_CHUNK_SIZE) {
-    // Text is small enough to process as a single chunk
-    return processTextChunk(text, taskType);
-  } else {
-    console.log(`Text is too large (${text.length} chars), chunking into smaller pieces...`);
-    
-    // Chunk by paragraphs or sentences to maintain context
-    const chunks = chunkText(text, MAX_CHUNK_SIZE);
-    console.log(`Created ${chunks.length} chunks`);
-    
-    if (chunks.length === 0) return []; // Shouldn't happen
-    
-    if (chunks.length === 1) {
-      return processTextChunk(chunks[0], taskType);
-    }
-    
-    // For multiple chunks, we'll use the average of all chunk embeddings
-    // This is a simple approach - more sophisticated approaches could weight key sections
-    const chunkEmbeddings = await Promise.all(
-      chunks.map(chunk => processTextChunk(chunk, taskType))
-    );
-    
-    // Average the embeddings
-    const embeddingSize = chunkEmbeddings[0].length;
-    const averageEmbedding = new Array(embeddingSize).fill(0);
-    
-    for (const embedding of chunkEmbeddings) {
-      for (let i = 0; i < embeddingSize; i++) {
-        averageEmbedding[i] += embedding[i] / chunks.length;
-      }
+  const passages: PassageSpan[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + PASSAGE_SIZE, text.length);
+    if (end < text.length) {
+      // Look for the last boundary in the last third of the passage only, so passages stay long
+      end = findBoundary(text, start + Math.floor(PASSAGE_SIZE * 2 / 3), end, [/\n\s*\n/, /[.!?。]\s/, /\s/], end) ?? end;
     }
-    
-    return averageEmbedding;
-  }
-  
-  // Helper function to process a single text chunk
-  async function processTextChunk(chunk: string, chunkTaskType: TaskType): Promise<number[]> {
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    const embeddingModel = genAI.getGenerativeModel({ model: "embedding-001" });
-    
-    // Create properly formatted request object with TaskType enum
-    // This format works with the Gemini API to properly specify the embedding use case
-    const result = await embeddingModel.embedContent({
-      content: {
-        parts: [{ text: chunk }],
-        role: "user"
-      },
-      taskType: chunkTaskType
-    });
-    
-    return result.embedding.values;
+    passages.push({ start, end });
+    if (end >= text.length) break;
+
+    start = nextWindowStart(text, start, end, PASSAGE_OVERLAP);
   }
-}
+  return passages;
+};
 
 /**
- * Split text into chunks that don't exceed the maximum size
- * Tries to split on paragraph boundaries first, then sentences if needed
+ * Text the summary vector of a chunk is computed from: its title and summary
+ * @param chunk Chunk fields
+ * @returns The text, or undefined if the chunk has neither
  */
-export function chunkText(text: string, maxChunkSize: number): string[] {
-  // Split by paragraphs first (double newlines)
-  const paragraphs = text.split(/\n\s*\n/);
-  
-  const chunks: string[] = [];
-  let currentChunk = '';
-  
-  for (const paragraph of paragraphs) {
-    // If a single paragraph is too big, we'll need to split by sentences
-    if (paragraph.length > maxChunkSize) {
-      if (currentChunk) {
-        chunks.push(currentChunk);
-        currentChunk = '';
-      }
-      
-      // Split by sentences (period + space or newline)
-      const sentences = paragraph.split(/\.\s+|\.\n/);
-      
-      for (const sentence of sentences) {
-        // Skip empty sentences
-        if (!sentence || sentence.trim() === '') continue;
-        
-        if (sentence.length > maxChunkSize) {
-          // If even a sentence is too long, split by word boundaries
-          const words = sentence.split(/\s+/).filter(word => word.trim() !== '');
-          let sentenceChunk = '';
-          
-          for (const word of words) {
-            if ((sentenceChunk + ' ' + word).length <= maxChunkSize) {
-              sentenceChunk += (sentenceChunk ? ' ' : '') + word;
-            } else {
-              if (sentenceChunk) chunks.push(sentenceChunk);
-              sentenceChunk = word;
-            }
-          }
-          
-          if (sentenceChunk) chunks.push(sentenceChunk);
-        } else {
-          // Sentence fits in a chunk
-          if ((currentChunk + '. ' + sentence).length <= maxChunkSize) {
-            currentChunk += (currentChunk ? '. ' : '') + sentence;
-          } else {
-            if (currentChunk) chunks.push(currentChunk);
-            currentChunk = sentence;
-          }
-        }
-      }
-    } else {
-      // Paragraph fits in a chunk
-      if ((currentChunk + '\n\n' + paragraph).length <= maxChunkSize) {
-        currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-      } else {
-        if (currentChunk) chunks.push(currentChunk);
-        currentChunk = paragraph;
+export const summaryText = (chunk: Pick<DocumentChunk, 'title' | 'summary'>): string | undefined =>
+  [chunk.title, chunk.summary].map(text => (text || '').trim()).filter(Boolean).join('\n\n') || undefined;
+
+// Texts embedded for a chunk: its content passages, enhanced content passages and summary text
+const chunkEmbeddingTexts = (chunk: EmbeddedChunkFields) => {
+  const enhancedContent = chunk.enhancedContent?.trim() && chunk.enhancedContent !== chunk.content ? chunk.enhancedContent : undefined;
+  const rawPassages = splitPassages(chunk.content);
+  const enhancedPassages = enhancedContent ? splitPassages(enhancedContent) : [];
+  const summary = summaryText(chunk);
+  return {
+    rawPassages,
+    enhancedPassages,
+    texts: [
+      ...rawPassages.map(passage => chunk.content.slice(passage.start, passage.end)),
+      ...enhancedPassages.map(passage => (enhancedContent as string).slice(passage.start, passage.end)),
+      ...(summary ? [summary] : [])
+    ]
+  };
+};
+
+/**
+ * Embed every field of several chunks: the content and the enhanced content one
+ * passage at a time, and the title with the summary as a single text. The enhanced
+ * content is skipped when it repeats the content.
+ * @param chunks Text fields of the chunks
+ * @param embeddingModel Model to use instead of the one of the active collection
+ * @returns The vectors of each chunk, in the same order
+ */
+export const embedChunksFields = async (
+  chunks: EmbeddedChunkFields[],
+  embeddingModel: EmbeddingModelConfig = activeEmbeddingModel()
+): Promise<ChunkVectors[]> => {
+  const fields = chunks.map(chunkEmbeddingTexts);
+
+  // The texts of all chunks are embedded together, in as few provider requests as possible
+  const vectors = await createEmbeddings(fields.flatMap(field => field.texts), TaskType.RETRIEVAL_DOCUMENT, embeddingModel);
+
+  let offset = 0;
+  return fields.map(({ rawPassages, enhancedPassages, texts }) => {
+    const chunkVectors = vectors.slice(offset, offset + texts.length);
+    offset += texts.length;
+    const rawVectors = chunkVectors.slice(0, rawPassages.length);
+    const enhancedVectors = chunkVectors.slice(rawPassages.length, rawPassages.length + enhancedPassages.length);
+    const hasSummary = texts.length > rawPassages.length + enhancedPassages.length;
+    const multiple = rawVectors.length > 1;
+
+    return {
+      embedding: rawVectors[0],
+      passages: multiple ? rawPassages : undefined,
+      passageEmbeddings: multiple ? rawVectors : undefined,
+      enhancedEmbeddings: enhancedVectors.length > 0 ? enhancedVectors : undefined,
+      summaryEmbedding: hasSummary ? chunkVectors[chunkVectors.length - 1] : undefined
+    };
+  });
+};
+
+/**
+ * Vector stored on chunks waiting to be embedded. Cosine similarity is undefined for
+ * the zero vector, so a unit vector is used; pending chunks are never vector-searched.
+ * @param dimensions Vector size of the collection
+ */
+export const placeholderEmbedding = (dimensions: number): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  vector[0] = 1;
+  return vector;
+};
+
+// Embed a group of chunks in one guarded call, or give them placeholders while the provider is unavailable
+const embedChunkGroup = async (
+  chunks: EmbeddedChunkFields[],
+  embeddingModel: EmbeddingModelConfig
+): Promise<ChunkEmbedding[]> => {
+  let providerError: unknown;
+
+  return embeddingFallback.withFallback<ChunkEmbedding[]>(
+    'createChunkEmbedding',
+    // Fallback function
+    () => chunks.map(() => ({
+      embedding: placeholderEmbedding(embeddingModel.vectorSize),
+      passages: undefined,
+      passageEmbeddings: undefined,
+      enhancedEmbeddings: undefined,
+      summaryEmbedding: undefined,
+      embeddingModel: embeddingModelInfo(embeddingModel),
+      embeddingStatus: 'pending',
+      embeddingError: providerError instanceof Error ? providerError.message : 'Embedding provider unavailable',
+      embeddingAttempts: 0
+    })),
+    // Embedding provider
+    async () => {
+      try {
+        const vectors = await timeStage('embedding', () => embedChunksFields(chunks, embeddingModel));
+        return vectors.map(chunkVectors => ({
+          ...chunkVectors,
+          embeddingModel: embeddingModelInfo(embeddingModel),
+          embeddingStatus: 'ready',
+          embeddingError: undefined,
+          embeddingAttempts: undefined
+        }));
+      } catch (error) {
+        providerError = error;
+        throw error;
       }
+    },
+    embeddingFallback.isFallbackActive()
+  );
+};
+
+/**
+ * Generate the embeddings of several chunks' fields together with the model that
+ * produced them, for storing on the chunks
+ * 
+ * The chunks are embedded in groups of up to TEXTS_PER_CALL texts, each group in
+ * its own guarded call. When the provider is unavailable the chunks of a group get
+ * a placeholder vector and the pending status instead, so they can be stored now
+ * and re-embedded later.
+ * 
+ * @param chunks Content, enhanced content, title and summary of the chunks
+ * @param embeddingModel Model to use instead of the one of the active collection
+ * @returns The embedding fields of each chunk, in the same order
+ */
+export const createChunkEmbeddings = async (
+  chunks: EmbeddedChunkFields[],
+  embeddingModel: EmbeddingModelConfig = activeEmbeddingModel()
+): Promise<ChunkEmbedding[]> => {
+  const groups: EmbeddedChunkFields[][] = [];
+  let groupTexts = 0;
+  for (const chunk of chunks) {
+    const texts = chunkEmbeddingTexts(chunk).texts.length;
+    if (groups.length === 0 || groupTexts + texts > TEXTS_PER_CALL) {
+      groups.push([]);
+      groupTexts = 0;
     }
+    groups[groups.length - 1].push(chunk);
+    groupTexts += texts;
   }
-  
-  if (currentChunk) {
-    chunks.push(currentChunk);
+
+  const embeddings: ChunkEmbedding[] = [];
+  for (const group of groups) {
+    embeddings.push(...await embedChunkGroup(group, embeddingModel));
   }
-  
-  return chunks;
-} 
\ No newline at end of file
+  return embeddings;
+};
+
+/**
+ * Generate the embeddings of a chunk's fields, or a placeholder vector and the
+ * pending status while the provider is unavailable
+ * @param chunk Content, enhanced content, title and summary of the chunk
+ * @param embeddingModel Model to use instead of the one of the active collection
+ */
+export const createChunkEmbedding = async (
+  chunk: EmbeddedChunkFields,
+  embeddingModel: EmbeddingModelConfig = activeEmbeddingModel()
+): Promise<ChunkEmbedding> => {
+  const [embedding] = await createChunkEmbeddings([chunk], embeddingModel);
+  return embedding;
+};
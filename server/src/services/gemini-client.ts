@@ -0,0 +1,249 @@
+import dotenv from 'dotenv';
+import {
+  GenerateContentRequest, GenerateContentResult, GenerativeModel, GoogleGenerativeAI, ModelParams, RequestOptions, TaskType
+} from '@google/generative-ai';
+import { countGeminiRequest, countGeminiRetry, observeGeminiQueueWait, PipelineStage } from '../core/metrics';
+import { logger } from '../core/logger';
+import { llmUsage } from './llm-usage';
+
+// Load environment variables
+dotenv.config();
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY || '';
+
+// Model used for titles, summaries, enhancement, OCR correction and sentence repair
+export const GENERATION_MODEL = 'gemini-1.5-pro';
+
+const parseCount = (value: string | undefined, defaultValue: number, min = 1): number => {
+  const count = parseInt(value || '', 10);
+  return Number.isFinite(count) && count >= min ? count : defaultValue;
+};
+
+// Requests per minute sent to each API; Gemini quotas are separate for generation and embedding models
+const GENERATE_REQUESTS_PER_MINUTE = parseCount(process.env.GEMINI_GENERATE_RPM, 60);
+const EMBED_REQUESTS_PER_MINUTE = parseCount(process.env.GEMINI_EMBED_RPM, 1500);
+// Requests sent without waiting after a quiet period, as a fraction of a minute's quota
+const BURST_FRACTION = 1 / 6;
+// Requests in flight at once across all jobs
+const MAX_CONCURRENCY = parseCount(process.env.GEMINI_MAX_CONCURRENCY, 4);
+// Retries of a request that was rate limited or failed transiently
+const MAX_RETRIES = parseCount(process.env.GEMINI_MAX_RETRIES, 4, 0);
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+// Time a single HTTP attempt may take; waiting for the rate limiter, a slot or a retry does not count
+const REQUEST_TIMEOUT_MS = parseCount(process.env.GEMINI_REQUEST_TIMEOUT_MS, 60000);
+// batchEmbedContents accepts at most 100 texts per request
+const EMBED_BATCH_SIZE = Math.min(100, parseCount(process.env.GEMINI_EMBED_BATCH_SIZE, 100));
+
+export type GeminiRequestKind = 'generate' | 'embed';
+
+type RetryReason = 'rate_limited' | 'server_error' | 'network';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Admits requests at a steady rate, allowing bursts up to its capacity. Waiting
+ * requests are admitted in the order they arrived.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private turn: Promise<void> = Promise.resolve();
+
+  constructor(private requestsPerMinute: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  // Wait until a request may be sent
+  take(): Promise<void> {
+    const turn = this.turn.then(() => this.waitForToken());
+    this.turn = turn;
+    return turn;
+  }
+
+  // Admit nothing for a while, e.g. for the delay Gemini asks for after a 429 response
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.updatedAt = this.pausedUntil;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.tokens = Math.min(this.capacity, this.tokens + Math.max(0, now - this.updatedAt) * this.requestsPerMinute / 60000);
+      this.updatedAt = Math.max(now, this.updatedAt);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) * 60000 / this.requestsPerMinute));
+    }
+  }
+}
+
+// Limits the number of requests in flight
+class Semaphore {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot over directly
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Decide whether a failed request is worth retrying. The SDK reports HTTP errors
+ * as "[429 Too Many Requests] message details", where the details of a 429 can
+ * include the delay Gemini asks for ("retryDelay":"30s").
+ */
+const classifyFailure = (error: unknown): { reason: RetryReason; delayMs?: number } | null => {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = parseInt(/\[(\d{3}) [^\]]*\]/.exec(message)?.[1] || '', 10);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    const retryDelay = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message)?.[1];
+    return { reason: 'rate_limited', delayMs: retryDelay ? Math.ceil(parseFloat(retryDelay) * 1000) : undefined };
+  }
+  if (status === 500 || status === 502 || status === 503 || status === 504) {
+    return { reason: 'server_error' };
+  }
+  if (!status && /fetch failed|network|timeout|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/i.test(message)) {
+    return { reason: 'network' };
+  }
+  return null;
+};
+
+// Exponential backoff with jitter, so requests throttled together do not retry together
+const backoffDelay = (attempt: number): number =>
+  Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+/**
+ * Shared access to the Gemini API for generation and embedding.
+ *
+ * Every request waits for a token of the rate limiter of its kind and for one of
+ * GEMINI_MAX_CONCURRENCY slots shared by all jobs. Requests that are rate limited
+ * (429) or fail transiently (5xx, network) are retried with exponential backoff; a
+ * 429 also pauses the rate limiter for the delay Gemini asks for, so concurrent
+ * requests back off together instead of being rejected in turn.
+ */
+class GeminiClient {
+  private genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+  private limiters: Record<GeminiRequestKind, TokenBucket> = {
+    generate: new TokenBucket(GENERATE_REQUESTS_PER_MINUTE, Math.max(1, Math.floor(GENERATE_REQUESTS_PER_MINUTE * BURST_FRACTION))),
+    embed: new TokenBucket(EMBED_REQUESTS_PER_MINUTE, Math.max(1, Math.floor(EMBED_REQUESTS_PER_MINUTE * BURST_FRACTION)))
+  };
+  private slots = new Semaphore(MAX_CONCURRENCY);
+
+  /**
+   * Get a generative model, by default the generation model
+   * @param params Model name and generation settings
+   * @param requestOptions Options of each request, such as its timeout (by default
+   * GEMINI_REQUEST_TIMEOUT_MS); time spent waiting for the rate limiter does not
+   * count towards the timeout
+   */
+  getModel(params: Partial<ModelParams> = {}, requestOptions?: RequestOptions): GenerativeModel {
+    return this.genAI.getGenerativeModel({ model: GENERATION_MODEL, ...params }, { timeout: REQUEST_TIMEOUT_MS, ...requestOptions });
+  }
+
+  /**
+   * Generate content, recording the usage and latency of each attempt against the
+   * current job; time spent waiting for the rate limiter or a retry is not included.
+   * Throws LlmBudgetExceededError without calling Gemini when the job has spent its budget.
+   * @param stage Pipeline stage the call is made for
+   * @param model Model to call
+   * @param request Prompt or request
+   */
+  async generateContent(
+    stage: PipelineStage,
+    model: GenerativeModel,
+    request: GenerateContentRequest | string
+  ): Promise<GenerateContentResult> {
+    // Checked before queueing too, so a job over its budget does not wait for a slot it will not use
+    llmUsage.assertWithinBudget();
+    return this.schedule('generate', stage, () => llmUsage.track(stage, model.model, () => model.generateContent(request)));
+  }
+
+  /**
+   * Embed texts in batches of up to GEMINI_EMBED_BATCH_SIZE per request
+   * @param modelName Embedding model
+   * @param texts Texts to embed
+   * @param taskType Whether the texts are stored or used as queries
+   * @returns One vector per text, in the same order
+   */
+  async embedContents(modelName: string, texts: string[], taskType: TaskType): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: modelName }, { timeout: REQUEST_TIMEOUT_MS });
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+      const response = await countGeminiRequest('embedding', () => this.schedule('embed', 'embedding', () => model.batchEmbedContents({
+        requests: batch.map(text => ({ content: { role: 'user', parts: [{ text }] }, taskType }))
+      })));
+      if (response.embeddings?.length !== batch.length) {
+        throw new Error(`Gemini returned ${response.embeddings?.length ?? 0} embeddings for ${batch.length} texts`);
+      }
+      vectors.push(...response.embeddings.map(embedding => embedding.values));
+    }
+    return vectors;
+  }
+
+  /**
+   * Send a request once the rate limiter and a concurrency slot allow it, retrying
+   * rate-limited and transient failures
+   * @param kind Rate limiter the request counts against
+   * @param stage Pipeline stage the request is made for, for metrics and logs
+   * @param request The API call
+   */
+  async schedule<T>(kind: GeminiRequestKind, stage: PipelineStage, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const queuedAt = Date.now();
+      await this.limiters[kind].take();
+      await this.slots.acquire();
+      observeGeminiQueueWait(kind, (Date.now() - queuedAt) / 1000);
+
+      let delayMs: number;
+      try {
+        return await request();
+      } catch (error) {
+        const failure = classifyFailure(error);
+        if (!failure || attempt >= MAX_RETRIES) throw error;
+
+        delayMs = Math.min(MAX_RETRY_DELAY_MS, failure.delayMs ?? backoffDelay(attempt));
+        if (failure.reason === 'rate_limited') {
+          this.limiters[kind].pause(delayMs);
+        }
+        countGeminiRetry(stage, failure.reason);
+        logger.warn(`Gemini ${stage} request failed (${failure.reason}); retry ${attempt + 1}/${MAX_RETRIES} in ${delayMs}ms`, error);
+      } finally {
+        this.slots.release();
+      }
+      await sleep(delayMs);
+    }
+  }
+}
+
+// Export a singleton instance
+export const geminiClient = new GeminiClient();
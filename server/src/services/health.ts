@@ -0,0 +1,118 @@
+import dotenv from 'dotenv';
+import { TaskType } from '@google/generative-ai';
+import { DatabaseService, FallbackSyncReport, QdrantStatus } from '../core/database-service';
+import { FallbackService, FallbackStatus } from '../core/fallback-service';
+import { activeEmbeddingModel } from '../core/embedding-model';
+import { createEmbedding } from './embedding';
+import { geminiClient, GENERATION_MODEL } from './gemini-client';
+
+// Load environment variables
+dotenv.config();
+
+// Probes that call paid APIs are repeated at most this often
+const PROBE_CACHE_MS = parseInt(process.env.HEALTH_PROBE_CACHE_MS || '60000', 10);
+
+// Result of calling an external API with a trivial request
+interface ProbeResult {
+  available: boolean;
+  checkedAt: string;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'degraded' | 'unavailable';
+  checkedAt: string;
+  qdrant: QdrantStatus & {
+    localChunkCount: number; // Chunks stored locally while Qdrant was unavailable, not yet synced
+    lastSync: FallbackSyncReport | null;
+  };
+  embedding: ProbeResult & { provider: string; model: string };
+  generation: ProbeResult & { model: string; configured: boolean };
+  visionOcr: { configured: boolean; credentials: 'api_key' | 'application_default' | 'none'; projectId?: string };
+  fallbacks: FallbackStatus[];
+}
+
+const dbService = new DatabaseService();
+
+/**
+ * Liveness and readiness checks reporting the state of the server's dependencies
+ */
+class HealthService {
+  private startedAt = Date.now();
+  private probes = new Map<string, { expiresAt: number; result: Promise<ProbeResult> }>();
+
+  /**
+   * Whether the process is up, without touching any dependency
+   */
+  liveness() {
+    return {
+      status: 'ok',
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Check every dependency. The server is unavailable without Qdrant and degraded
+   * while another dependency fails or a service is in fallback mode.
+   */
+  async readiness(): Promise<ReadinessReport> {
+    const embeddingModel = activeEmbeddingModel();
+    const generationConfigured = !!process.env.GEMINI_API_KEY;
+
+    const [qdrant, embedding, generation] = await Promise.all([
+      dbService.getQdrantStatus(),
+      this.probe(`embedding:${embeddingModel.provider}:${embeddingModel.model}`, () =>
+        createEmbedding('health check', TaskType.RETRIEVAL_QUERY, embeddingModel, { useCache: false })
+      ),
+      generationConfigured
+        ? this.probe('generation', () =>
+          geminiClient.getModel().countTokens('health check')
+        )
+        : Promise.resolve({ available: false, checkedAt: new Date().toISOString(), error: 'GEMINI_API_KEY is not set' })
+    ]);
+
+    const fallbacks = FallbackService.getStatuses();
+    const degraded = !embedding.available || !generation.available || fallbacks.some(status => status.fallbackActive);
+
+    return {
+      status: !qdrant.reachable || !qdrant.collectionExists ? 'unavailable' : degraded ? 'degraded' : 'ready',
+      checkedAt: new Date().toISOString(),
+      qdrant: {
+        ...qdrant,
+        localChunkCount: dbService.getLocalChunkCount(),
+        lastSync: dbService.getLastFallbackSync()
+      },
+      embedding: { provider: embeddingModel.provider, model: embeddingModel.model, ...embedding },
+      generation: { model: GENERATION_MODEL, configured: generationConfigured, ...generation },
+      visionOcr: {
+        configured: !!(process.env.GOOGLE_CREDENTIALS_BASE64 || process.env.GOOGLE_APPLICATION_CREDENTIALS),
+        credentials: process.env.GOOGLE_CREDENTIALS_BASE64
+          ? 'api_key'
+          : process.env.GOOGLE_APPLICATION_CREDENTIALS ? 'application_default' : 'none',
+        projectId: process.env.GOOGLE_CLOUD_PROJECT_ID
+      },
+      fallbacks
+    };
+  }
+
+  // Run a probe, reusing its result until it expires
+  private probe(key: string, check: () => Promise<unknown>): Promise<ProbeResult> {
+    const cached = this.probes.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const result = check()
+      .then(() => ({ available: true, checkedAt: new Date().toISOString() }))
+      .catch(error => ({
+        available: false,
+        checkedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    this.probes.set(key, { expiresAt: Date.now() + PROBE_CACHE_MS, result });
+    return result;
+  }
+}
+
+export const healthService = new HealthService();
@@ -0,0 +1,336 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseService } from '../core/database-service';
+import { dataPath, readJson, writeJsonAtomic } from '../core/json-store';
+import { hashNormalizedText } from '../core/content-hash';
+import { parseDocument, parsePdfByPages, parseDocxByPages, processImageFolder, prepareContentForChunking } from './document';
+import { chunkDocument, DocumentChunk, SourceType } from './chunking';
+import { documentRegistry } from './document-registry';
+import { IngestionJob, JobKind, JobPageState, JobStage, ReprocessReport } from '../types/job';
+import { DocumentStatus } from '../types/document';
+import { ProgressStage, StageCounters, StageProgressCallback } from '../types/progress';
+import { startJobStageTimer } from '../core/metrics';
+import { llmUsage } from './llm-usage';
+import { logger } from '../core/logger';
+
+// Create a singleton instance of the database service
+const dbService = new DatabaseService();
+
+type PipelinePage = { pageNumber: number; content: string; __preProcessed?: boolean };
+
+/**
+ * Access to the running job, provided by the job queue
+ */
+export interface JobContext {
+  readonly job: IngestionJob;
+  update(changes: Partial<IngestionJob>): IngestionJob;
+  throwIfCancelled(): void;
+  reportProgress(stage: ProgressStage, message: string, progress: number, counters?: StageCounters): void;
+}
+
+// Stop between steps once the job is cancelled, or has spent an LLM budget whose action is 'abort'
+const throwIfStopped = (ctx: JobContext): void => {
+  ctx.throwIfCancelled();
+  llmUsage.throwIfBudgetExceeded(ctx.job);
+};
+
+// Share of the overall job progress (0-100) covered by each pipeline stage
+const STAGE_PROGRESS_RANGES: Record<JobStage, [number, number]> = {
+  [JobStage.PARSE]: [0, 25],
+  [JobStage.PREPARE]: [25, 45],
+  [JobStage.CHUNK]: [45, 95],
+  [JobStage.STORE]: [95, 100]
+};
+
+/**
+ * Create a progress callback for a pipeline stage that maps page and chunk
+ * counters onto the stage's share of the overall job progress
+ * @param ctx Context of the running job
+ * @param jobStage Pipeline stage the callback reports for
+ */
+const stageReporter = (ctx: JobContext, jobStage: JobStage): StageProgressCallback => {
+  const [start, end] = STAGE_PROGRESS_RANGES[jobStage];
+  let lastProgress = start;
+
+  return (stage, message, counters = {}) => {
+    let fraction = 0;
+    if (counters.totalChunks) {
+      fraction = ((counters.currentChunk || 1) - 1) / counters.totalChunks;
+    } else if (counters.totalPages) {
+      fraction = (counters.currentPage || 0) / counters.totalPages;
+    }
+
+    // Never move backwards when sub-stages report with different counters
+    lastProgress = Math.max(lastProgress, Math.round(start + (end - start) * Math.min(1, fraction)));
+    ctx.reportProgress(stage, message, lastProgress, counters);
+  };
+};
+
+// Files holding the output of each completed stage, so a resumed job skips finished work
+const artifactPaths = (jobId: string) => ({
+  pages: dataPath('jobs', jobId, 'pages.json'),
+  prepared: dataPath('jobs', jobId, 'prepared.json'),
+  chunks: dataPath('jobs', jobId, 'chunks.json')
+});
+
+/**
+ * Remove the stored stage outputs for a job
+ * @param jobId Job whose artifacts should be deleted
+ */
+export const removeJobArtifacts = (jobId: string): void => {
+  const artifactDir = path.dirname(artifactPaths(jobId).pages);
+  if (fs.existsSync(artifactDir)) {
+    fs.rmSync(artifactDir, { recursive: true, force: true });
+  }
+};
+
+// Parse the uploaded file(s) of a job into pages
+const parseJobFiles = async (job: IngestionJob, onProgress: StageProgressCallback): Promise<PipelinePage[]> => {
+  if (job.kind === 'image-folder') {
+    logger.info(`Processing ${job.files.length} image files for document: ${job.documentTitle}`);
+    const processedDocument = await processImageFolder(job.files.map(file => file.path), onProgress);
+    logger.info(`Processed ${processedDocument.pages.length} pages from folder`);
+    return processedDocument.pages;
+  }
+
+  const file = job.files[0];
+  onProgress(ProgressStage.PARSING, `Parsing ${file.originalName}`);
+
+  if (file.mimeType === 'application/pdf') {
+    logger.info(`Processing PDF document: ${file.originalName}`);
+    return (await parsePdfByPages(file.path)).pages;
+  }
+
+  if (file.mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    logger.info(`Processing DOCX document: ${file.originalName}`);
+    return (await parseDocxByPages(file.path)).pages;
+  }
+
+  // For other document types, treat as a single page
+  logger.info(`Processing other document type: ${file.originalName} (${file.mimeType})`);
+  const fileContent = await parseDocument(file.path, file.mimeType);
+  return [{ pageNumber: 1, content: fileContent }];
+};
+
+/**
+ * Source type recorded on the chunks of an ingested upload
+ * @param kind Kind of ingestion job
+ * @param mimeType Mime type of the (first) uploaded file
+ */
+export const sourceTypeForUpload = (kind: JobKind, mimeType: string): SourceType => {
+  if (kind === 'image-folder') return 'image';
+
+  switch (mimeType) {
+    case 'application/pdf':
+      return 'pdf';
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return 'docx';
+    default:
+      return 'text';
+  }
+};
+
+// Update the per-page state of a job
+const updatePages = (
+  ctx: JobContext,
+  pageNumbers: number[],
+  changes: Partial<Omit<JobPageState, 'pageNumber'>>
+): void => {
+  const targets = new Set(pageNumbers);
+  ctx.update({
+    pages: ctx.job.pages.map(page => targets.has(page.pageNumber) ? { ...page, ...changes } : page)
+  });
+};
+
+const completeStage = (ctx: JobContext, stage: JobStage, changes: Partial<IngestionJob> = {}): void => {
+  ctx.update({
+    ...changes,
+    completedStages: [...ctx.job.completedStages.filter(s => s !== stage), stage]
+  });
+};
+
+// Pages a chunk was cut from; chunks checkpointed before page ranges were recorded have the page in their ID (e.g. "name_page_12")
+const chunkPageNumbers = (chunk: DocumentChunk): number[] => {
+  if (chunk.pageStart !== undefined && chunk.pageEnd !== undefined) {
+    const pageStart = chunk.pageStart;
+    return Array.from({ length: chunk.pageEnd - pageStart + 1 }, (_, index) => pageStart + index);
+  }
+  const match = chunk.id.match(/_page_(\d+)$/);
+  return match ? [parseInt(match[1], 10)] : [];
+};
+
+/**
+ * Compare the chunks of a document before and after reprocessing
+ * @param previous Chunks the document had before
+ * @param chunks Chunks produced by reprocessing
+ */
+const reprocessReport = (
+  previous: Pick<DocumentChunk, 'id' | 'title'>[],
+  chunks: Pick<DocumentChunk, 'id' | 'title'>[]
+): ReprocessReport => {
+  const previousIds = new Set(previous.map(chunk => chunk.id));
+  const chunkIds = new Set(chunks.map(chunk => chunk.id));
+  const previousTitles = new Set(previous.map(chunk => chunk.title || ''));
+  const titles = new Set(chunks.map(chunk => chunk.title || ''));
+
+  return {
+    previousChunkCount: previous.length,
+    chunkCount: chunks.length,
+    addedChunkIds: Array.from(chunkIds).filter(id => !previousIds.has(id)),
+    removedChunkIds: Array.from(previousIds).filter(id => !chunkIds.has(id)),
+    addedTitles: Array.from(titles).filter(title => title && !previousTitles.has(title)),
+    removedTitles: Array.from(previousTitles).filter(title => title && !titles.has(title)),
+    unchangedTitleCount: Array.from(titles).filter(title => title && previousTitles.has(title)).length
+  };
+};
+
+/**
+ * Record the text hash of the parsed document and check it against the other documents.
+ * Matches are queued for replacement when the upload replaces its duplicates, and refuse
+ * the upload unless both copies are to be kept.
+ */
+const checkTextDuplicates = (ctx: JobContext, pages: PipelinePage[]): void => {
+  const documentId = ctx.job.documentRecordId;
+  if (!documentId) return;
+
+  const textHash = hashNormalizedText(pages);
+  documentRegistry.setTextHash(documentId, textHash);
+
+  const duplicates = documentRegistry.findDuplicates({ textHash }, documentId);
+  if (duplicates.length === 0 || ctx.job.duplicateAction === 'keep_both') return;
+
+  if (ctx.job.duplicateAction === 'replace') {
+    // Copies still being ingested are left alone rather than racing with their jobs
+    const replaceable = duplicates.filter(doc => doc.status === DocumentStatus.READY);
+    const replacesDocumentIds = new Set([...(ctx.job.replacesDocumentIds || []), ...replaceable.map(doc => doc.id)]);
+    ctx.update({ replacesDocumentIds: Array.from(replacesDocumentIds) });
+    return;
+  }
+
+  const titles = duplicates.map(doc => `"${doc.documentTitle}"`).join(', ');
+  throw new Error(`Document has the same content as ${titles}; upload it again with duplicateAction "keep_both" or "replace"`);
+};
+
+/**
+ * Run (or resume) the ingestion pipeline for a job.
+ * Each stage persists its output before the next one starts; stages recorded as
+ * completed are loaded from disk instead of being executed again.
+ *
+ * @param ctx Context of the job being executed
+ * @returns Chunks stored for the document
+ */
+export async function runIngestionJob(ctx: JobContext): Promise<DocumentChunk[]> {
+  const paths = artifactPaths(ctx.job.id);
+  const isCompleted = (stage: JobStage) => ctx.job.completedStages.includes(stage);
+
+  // Stage 1: parse the uploaded files into pages
+  let pages: PipelinePage[];
+  if (isCompleted(JobStage.PARSE)) {
+    pages = readJson<PipelinePage[]>(paths.pages, []);
+    logger.info(`Job ${ctx.job.id}: reusing ${pages.length} parsed pages`);
+  } else {
+    ctx.update({ stage: JobStage.PARSE });
+    const endParseTimer = startJobStageTimer(ctx.job.kind, JobStage.PARSE);
+    const onProgress = stageReporter(ctx, JobStage.PARSE);
+    pages = await parseJobFiles(ctx.job, onProgress);
+    onProgress(ProgressStage.PARSING, `Parsed ${pages.length} pages`, { currentPage: pages.length, totalPages: pages.length });
+    writeJsonAtomic(paths.pages, pages);
+    completeStage(ctx, JobStage.PARSE, {
+      pages: pages.map(page => ({ pageNumber: page.pageNumber, parsed: true, prepared: false, chunked: false }))
+    });
+    endParseTimer();
+  }
+  checkTextDuplicates(ctx, pages);
+  throwIfStopped(ctx);
+
+  // Stage 2: repair sentence boundaries
+  let preparedPages: PipelinePage[];
+  if (isCompleted(JobStage.PREPARE)) {
+    preparedPages = readJson<PipelinePage[]>(paths.prepared, []);
+    logger.info(`Job ${ctx.job.id}: reusing ${preparedPages.length} prepared pages`);
+  } else {
+    ctx.update({ stage: JobStage.PREPARE });
+    const endPrepareTimer = startJobStageTimer(ctx.job.kind, JobStage.PREPARE);
+    const preparedDocument = await prepareContentForChunking(
+      { id: ctx.job.documentId, pages },
+      stageReporter(ctx, JobStage.PREPARE)
+    );
+    preparedPages = preparedDocument.pages;
+    writeJsonAtomic(paths.prepared, preparedPages);
+    completeStage(ctx, JobStage.PREPARE);
+    endPrepareTimer();
+    updatePages(ctx, preparedPages.map(page => page.pageNumber), { prepared: true });
+  }
+  throwIfStopped(ctx);
+
+  // Stage 3: chunk, embed and enhance, checkpointing after every chunk
+  let chunks: DocumentChunk[];
+  if (isCompleted(JobStage.CHUNK)) {
+    chunks = readJson<DocumentChunk[]>(paths.chunks, []);
+    logger.info(`Job ${ctx.job.id}: reusing ${chunks.length} chunks`);
+  } else {
+    ctx.update({ stage: JobStage.CHUNK });
+    const endChunkTimer = startJobStageTimer(ctx.job.kind, JobStage.CHUNK);
+    const completedChunks = readJson<DocumentChunk[]>(paths.chunks, []);
+    const sourceFilePath = ctx.job.kind === 'image-folder' ? ctx.job.documentId : ctx.job.files[0].path;
+
+    const slug = ctx.job.documentRecordId ? documentRegistry.get(ctx.job.documentRecordId)?.slug : undefined;
+
+    chunks = await chunkDocument(
+      { slug, pages: preparedPages },
+      sourceFilePath,
+      // Scanned pages are corrected for OCR errors unless the upload says otherwise
+      ctx.job.kind === 'image-folder' ? { correctOcr: true, ...ctx.job.chunkingConfig } : ctx.job.chunkingConfig,
+      ctx.job.domains,
+      ctx.job.documentTitle,
+      {
+        completedChunks,
+        onChunkComplete: (chunk) => {
+          completedChunks.push(chunk);
+          writeJsonAtomic(paths.chunks, completedChunks);
+
+          updatePages(ctx, chunkPageNumbers(chunk), { chunked: true });
+          throwIfStopped(ctx);
+        }
+      },
+      stageReporter(ctx, JobStage.CHUNK)
+    );
+
+    writeJsonAtomic(paths.chunks, chunks);
+    completeStage(ctx, JobStage.CHUNK, { totalChunks: chunks.length });
+    endChunkTimer();
+  }
+  throwIfStopped(ctx);
+
+  // Stage 4: store all chunks in the vector database
+  ctx.update({ stage: JobStage.STORE });
+  const endStoreTimer = startJobStageTimer(ctx.job.kind, JobStage.STORE);
+  stageReporter(ctx, JobStage.STORE)(ProgressStage.CHUNK_STORAGE, `Storing ${chunks.length} chunks`);
+  logger.info(`Created ${chunks.length} chunks for document ${ctx.job.documentTitle} in domains: ${ctx.job.domains.join(', ')}`);
+  const documentId = ctx.job.documentRecordId;
+  const previousChunks = ctx.job.reprocess && documentId ? await dbService.getDocumentChunkTitles(documentId) : [];
+  if (chunks.length > 0) {
+    const sourceType = sourceTypeForUpload(ctx.job.kind, ctx.job.files[0].mimeType);
+    throwIfStopped(ctx);
+    await dbService.addDocumentChunks(chunks.map(chunk => ({ ...chunk, sourceType, documentId, ingestionJobId: ctx.job.id })));
+  }
+
+  // Swap a reprocessed document's old chunks for the new ones, which are already stored
+  if (ctx.job.reprocess && documentId) {
+    await dbService.deleteDocumentChunks(documentId, ctx.job.id);
+    // Chunks stored by an earlier attempt of this job are not part of the old version
+    const report = reprocessReport(previousChunks.filter(chunk => chunk.ingestionJobId !== ctx.job.id), chunks);
+    logger.info(`Reprocessed document ${documentId}: ${report.previousChunkCount} -> ${report.chunkCount} chunks, ${report.addedTitles.length} new and ${report.removedTitles.length} removed titles`);
+    completeStage(ctx, JobStage.STORE, { reprocessReport: report });
+  } else {
+    completeStage(ctx, JobStage.STORE);
+  }
+  endStoreTimer();
+
+  // Swap out the documents this upload replaces now that its own chunks are stored
+  for (const replacedId of ctx.job.replacesDocumentIds || []) {
+    await documentRegistry.remove(replacedId);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,321 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../core/json-store';
+import { archiveOriginals, isArchived } from '../core/original-archive';
+import { runIngestionJob, removeJobArtifacts, JobContext } from './ingestion-pipeline';
+import { progressTracker } from './progress-tracker';
+import { documentRegistry } from './document-registry';
+import { IngestionJob, JobFile, JobKind, JobStage, JobStatus } from '../types/job';
+import { DocumentRecord, DocumentStatus, DuplicateAction } from '../types/document';
+import type { ChunkingConfig } from './chunking';
+import { defaultLlmBudget, LlmBudget, llmUsage } from './llm-usage';
+import { getLogContext, logger, startLogContext } from '../core/logger';
+
+// Number of jobs processed in parallel
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10));
+// Finished jobs kept in the job list; older ones are deleted with their leftover files
+const JOB_HISTORY_LIMIT = Math.max(0, parseInt(process.env.JOB_HISTORY_LIMIT || '200', 10));
+// Job progress changes many times per page, so the job file is written at most this often
+const JOB_STORE_FLUSH_MS = 1000;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+// Raised inside a running job once it has been cancelled
+class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface NewJobInput {
+  kind: JobKind;
+  documentId: string;
+  documentRecordId?: string;
+  documentTitle: string;
+  files: JobFile[];
+  domains: string[];
+  chunkingConfig: Partial<ChunkingConfig>;
+  duplicateAction?: DuplicateAction;
+  replacesDocumentIds?: string[];
+  reprocess?: boolean;
+  llmBudget?: LlmBudget;
+}
+
+/**
+ * Persistent queue of ingestion jobs drained by an in-process worker pool.
+ * Jobs interrupted by a restart are picked up again on start() and resume
+ * from their last completed stage.
+ */
+class JobQueueService {
+  private store = new JsonFileStore<IngestionJob>('jobs.json', { flushDelayMs: JOB_STORE_FLUSH_MS });
+  private running: Set<string> = new Set();
+  private started = false;
+
+  /**
+   * Start draining the queue, re-queuing jobs that were running when the server stopped
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const interrupted = this.store.values().filter(job => job.status === JobStatus.RUNNING);
+    for (const job of interrupted) {
+      logger.info(`Re-queuing job ${job.id} interrupted during stage ${job.stage}`);
+      this.store.update(job.id, { status: JobStatus.QUEUED });
+    }
+
+    this.pruneFinishedJobs();
+    const queued = this.store.values().filter(job => job.status === JobStatus.QUEUED).length;
+    logger.info(`Job queue started with concurrency ${JOB_CONCURRENCY} (${queued} jobs queued)`);
+    this.drain();
+  }
+
+  /**
+   * Add a new ingestion job to the queue
+   */
+  enqueue(input: NewJobInput): IngestionJob {
+    const now = new Date().toISOString();
+    const job = this.store.set({
+      ...input,
+      id: uuidv4(),
+      requestId: getLogContext().requestId,
+      llmBudget: input.llmBudget ?? defaultLlmBudget(),
+      status: JobStatus.QUEUED,
+      stage: JobStage.PARSE,
+      completedStages: [],
+      pages: [],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    logger.info(`Queued ${job.kind} job ${job.id} for "${job.documentTitle}"`);
+    progressTracker.reportQueued(job.id, job.kind);
+    this.drain();
+    return job;
+  }
+
+  getJob(jobId: string): IngestionJob | undefined {
+    return this.store.get(jobId);
+  }
+
+  /**
+   * List jobs, newest first
+   * @param limit Maximum number of jobs, between 1 and 200
+   */
+  listJobs(status?: JobStatus, limit = DEFAULT_LIST_LIMIT): IngestionJob[] {
+    const count = Math.min(MAX_LIST_LIMIT, Math.max(1, Math.floor(limit || DEFAULT_LIST_LIMIT)));
+    return this.store.values()
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, count);
+  }
+
+  /**
+   * Whether a job can still be cancelled: it is queued or running and not storing its
+   * chunks, which it finishes so no partial set of chunks is left behind
+   */
+  isCancellable(job: IngestionJob): boolean {
+    return (job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING) && job.stage !== JobStage.STORE;
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs stop at the next checkpoint; the uploaded
+   * files and stage artifacts are deleted once the job has stopped.
+   * @returns The updated job, or undefined if it cannot be cancelled
+   */
+  cancel(jobId: string): IngestionJob | undefined {
+    const job = this.store.get(jobId);
+    if (!job || !this.isCancellable(job)) {
+      return undefined;
+    }
+
+    logger.info(`Cancelling job ${jobId} (${job.status})`);
+    const cancelled = this.updateJob(jobId, {
+      status: JobStatus.CANCELLED,
+      finishedAt: new Date().toISOString()
+    });
+    progressTracker.reportCancelled(jobId, job.kind);
+    this.syncDocument(job, DocumentStatus.CANCELLED);
+    if (!this.running.has(jobId)) {
+      this.removeJobFiles(job);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Put a failed job back on the queue; it resumes from its last completed stage
+   * @returns The updated job, or undefined if it cannot be retried
+   */
+  retry(jobId: string): IngestionJob | undefined {
+    const job = this.store.get(jobId);
+    if (!job || job.status !== JobStatus.FAILED || this.running.has(jobId)) {
+      return undefined;
+    }
+
+    const missingFiles = job.files.filter(file => !fs.existsSync(file.path));
+    if (missingFiles.length > 0 && !job.completedStages.includes(JobStage.PARSE)) {
+      logger.warn(`Cannot retry job ${jobId}: uploaded files are no longer available`);
+      return undefined;
+    }
+
+    const updated = this.updateJob(jobId, {
+      status: JobStatus.QUEUED,
+      error: undefined,
+      finishedAt: undefined
+    });
+    progressTracker.reportQueued(jobId, job.kind, 'Queued for retry');
+    this.syncDocument(job, DocumentStatus.PROCESSING);
+    this.drain();
+    return updated;
+  }
+
+  private isCancelled(jobId: string): boolean {
+    return this.store.get(jobId)?.status === JobStatus.CANCELLED;
+  }
+
+  private updateJob(jobId: string, changes: Partial<IngestionJob>): IngestionJob | undefined {
+    return this.store.update(jobId, { ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  // Mirror the state of a job on the registry record of its document
+  private syncDocument(
+    job: IngestionJob,
+    status: DocumentStatus,
+    changes: Partial<Pick<DocumentRecord, 'pageCount' | 'chunkCount' | 'ingestionConfig' | 'error'>> = {}
+  ): void {
+    if (!job.documentRecordId) return;
+
+    // A reprocessed document keeps serving its old chunks when the new run does not finish
+    const keepsOldChunks = job.reprocess && (status === DocumentStatus.FAILED || status === DocumentStatus.CANCELLED);
+    documentRegistry.setStatus(job.documentRecordId, keepsOldChunks ? DocumentStatus.READY : status, changes);
+  }
+
+  // Start queued jobs, oldest first, until the worker pool is full
+  private drain(): void {
+    if (!this.started) return;
+
+    const queued = this.store.values()
+      .filter(job => job.status === JobStatus.QUEUED && !this.running.has(job.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of queued) {
+      if (this.running.size >= JOB_CONCURRENCY) break;
+      this.running.add(job.id);
+      // Jobs log under their own id rather than that of the request that drained the queue
+      const logContext = { requestId: job.requestId, jobId: job.id, documentId: job.documentId };
+      startLogContext(logContext, () => this.runJob(job.id)).finally(() => {
+        this.running.delete(job.id);
+        this.pruneFinishedJobs();
+        this.drain();
+      });
+    }
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    const initial = this.updateJob(jobId, {
+      status: JobStatus.RUNNING,
+      attempts: (this.store.get(jobId)?.attempts || 0) + 1,
+      startedAt: this.store.get(jobId)?.startedAt || new Date().toISOString()
+    });
+    if (!initial) return;
+
+    logger.info(`Starting job ${jobId} (attempt ${initial.attempts}) from stage ${initial.stage}`);
+    progressTracker.initializeProgressTracking(jobId, initial.kind);
+    llmUsage.beginJob(initial);
+
+    const store = this.store;
+    const ctx: JobContext = {
+      get job() {
+        return store.get(jobId) as IngestionJob;
+      },
+      update: (changes) => this.updateJob(jobId, changes) as IngestionJob,
+      throwIfCancelled: () => {
+        if (this.isCancelled(jobId)) {
+          throw new JobCancelledError(jobId);
+        }
+      },
+      reportProgress: (stage, message, progress, counters) => {
+        progressTracker.updateStage(jobId, initial.kind, stage, message, progress, counters);
+      }
+    };
+
+    try {
+      const chunks = await runIngestionJob(ctx);
+
+      this.updateJob(jobId, {
+        status: JobStatus.COMPLETED,
+        totalChunks: chunks.length,
+        finishedAt: new Date().toISOString()
+      });
+      logger.info(`Job ${jobId} completed with ${chunks.length} chunks`);
+      progressTracker.completeProcessing(jobId, initial.kind, chunks.length);
+      this.syncDocument(ctx.job, DocumentStatus.READY, {
+        pageCount: ctx.job.pages.length,
+        chunkCount: chunks.length,
+        ingestionConfig: ctx.job.chunkingConfig
+      });
+
+      this.cleanupJobFiles(this.store.get(jobId) as IngestionJob);
+    } catch (error) {
+      if (error instanceof JobCancelledError || this.isCancelled(jobId)) {
+        logger.info(`Job ${jobId} stopped after cancellation`);
+        this.removeJobFiles(ctx.job);
+        return;
+      }
+
+      logger.error(`Job ${jobId} failed during stage ${ctx.job.stage}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.updateJob(jobId, {
+        status: JobStatus.FAILED,
+        error: message,
+        finishedAt: new Date().toISOString()
+      });
+      progressTracker.reportError(jobId, initial.kind, `Processing failed during stage ${ctx.job.stage}`, message);
+      this.syncDocument(ctx.job, DocumentStatus.FAILED, { error: message });
+    } finally {
+      llmUsage.endJob(jobId);
+    }
+  }
+
+  // Archive the uploaded files with their document, so it can be reprocessed later,
+  // and delete the stage artifacts once a job no longer needs them
+  private cleanupJobFiles(job: IngestionJob): void {
+    if (job.documentRecordId && documentRegistry.get(job.documentRecordId)) {
+      documentRegistry.setOriginalFiles(job.documentRecordId, archiveOriginals(job.documentRecordId, job.files));
+      removeJobArtifacts(job.id);
+    } else {
+      this.removeJobFiles(job);
+    }
+  }
+
+  // Delete the uploaded files of a job that will not run again, and its stage artifacts.
+  // Archived originals belong to their document and are kept.
+  private removeJobFiles(job: IngestionJob): void {
+    for (const file of job.files) {
+      if (file.path && fs.existsSync(file.path) && !isArchived(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+    removeJobArtifacts(job.id);
+  }
+
+  // Delete the oldest finished jobs beyond the history limit, with the files failed jobs kept for a retry
+  private pruneFinishedJobs(): void {
+    const finished = this.store.values()
+      .filter(job => job.status !== JobStatus.QUEUED && job.status !== JobStatus.RUNNING && !this.running.has(job.id))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    for (const job of finished.slice(JOB_HISTORY_LIMIT)) {
+      this.removeJobFiles(job);
+      this.store.delete(job.id);
+    }
+    if (finished.length > JOB_HISTORY_LIMIT) {
+      logger.info(`Deleted ${finished.length - JOB_HISTORY_LIMIT} finished jobs beyond the history of ${JOB_HISTORY_LIMIT}`);
+    }
+  }
+}
+
+// Export a singleton instance
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,331 @@
+import dotenv from 'dotenv';
+import type { GenerateContentResult } from '@google/generative-ai';
+import { dataPath, JsonLinesLog } from '../core/json-store';
+import { getLogContext, logger } from '../core/logger';
+import { PipelineStage, timeGeminiRequest } from '../core/metrics';
+import type { IngestionJob } from '../types/job';
+
+// Load environment variables
+dotenv.config();
+
+export const LLM_BUDGET_ACTIONS = ['abort', 'degrade'] as const;
+export type LlmBudgetAction = typeof LLM_BUDGET_ACTIONS[number];
+
+/**
+ * Spending limit of an ingestion job. Once it is reached, further Gemini calls of
+ * the job are refused: 'degrade' keeps ingesting without them (no enhancement,
+ * default titles, regex-only OCR fixes), 'abort' fails the job at its next checkpoint.
+ */
+export interface LlmBudget {
+  maxCostUsd: number;
+  action: LlmBudgetAction;
+}
+
+export interface LlmUsageRecord {
+  timestamp: string;
+  model: string;
+  stage: PipelineStage;
+  outcome: 'success' | 'error';
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  jobId?: string;
+  documentId?: string;
+  documentTitle?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageFilter {
+  from?: string; // Inclusive ISO date or timestamp
+  to?: string; // Inclusive ISO date or timestamp
+  documentId?: string;
+  jobId?: string;
+}
+
+export interface UsageReport {
+  filter: UsageFilter;
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byDocument: (UsageTotals & { documentId: string | null; documentTitle?: string })[];
+  byStage: (UsageTotals & { stage: PipelineStage })[];
+}
+
+// Raised instead of calling Gemini once the current job has spent its budget
+export class LlmBudgetExceededError extends Error {
+  constructor(jobId: string, budget: LlmBudget, spentUsd: number) {
+    super(`Job ${jobId} has spent $${spentUsd.toFixed(4)} of its $${budget.maxCostUsd.toFixed(2)} LLM budget`);
+    this.name = 'LlmBudgetExceededError';
+  }
+}
+
+// USD per million tokens; override or extend with LLM_PRICING as JSON of the same shape
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+};
+
+const parsePricing = (): Record<string, { input: number; output: number }> => {
+  if (!process.env.LLM_PRICING) return DEFAULT_PRICING;
+  try {
+    return { ...DEFAULT_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch (error) {
+    logger.warn('LLM_PRICING is not valid JSON; using the default prices', error);
+    return DEFAULT_PRICING;
+  }
+};
+
+const PRICING = parsePricing();
+
+/**
+ * Budget given to jobs queued without one, from LLM_JOB_BUDGET_USD and LLM_BUDGET_ACTION
+ */
+export const defaultLlmBudget = (): LlmBudget | undefined => {
+  const maxCostUsd = parseFloat(process.env.LLM_JOB_BUDGET_USD || '');
+  if (!Number.isFinite(maxCostUsd) || maxCostUsd <= 0) return undefined;
+  const action = process.env.LLM_BUDGET_ACTION as LlmBudgetAction;
+  return { maxCostUsd, action: LLM_BUDGET_ACTIONS.includes(action) ? action : 'degrade' };
+};
+
+// Token counts returned with every response; the installed SDK version does not type them yet
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+// Job attribution of calls made while the job runs
+interface RunningJob {
+  documentId: string;
+  documentTitle: string;
+  budget?: LlmBudget;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, failedCalls: 0, promptTokens: 0, responseTokens: 0, totalTokens: 0, costUsd: 0, averageLatencyMs: 0
+});
+
+// Sum records into totals, grouped by the key a record maps to
+const aggregate = <K>(records: LlmUsageRecord[], keyOf: (record: LlmUsageRecord) => K): Map<K, UsageTotals> => {
+  const groups = new Map<K, UsageTotals & { latencyMs: number }>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const totals = groups.get(key) || { ...emptyTotals(), latencyMs: 0 };
+    totals.calls++;
+    if (record.outcome === 'error') totals.failedCalls++;
+    totals.promptTokens += record.promptTokens;
+    totals.responseTokens += record.responseTokens;
+    totals.totalTokens += record.totalTokens;
+    totals.costUsd += record.costUsd;
+    totals.latencyMs += record.latencyMs;
+    groups.set(key, totals);
+  }
+
+  const result = new Map<K, UsageTotals>();
+  for (const [key, { latencyMs, ...totals }] of groups) {
+    result.set(key, {
+      ...totals,
+      costUsd: Math.round(totals.costUsd * 1e6) / 1e6,
+      averageLatencyMs: Math.round(latencyMs / totals.calls)
+    });
+  }
+  return result;
+};
+
+/**
+ * Records the model, token counts, latency and cost of every Gemini generation
+ * call against the job and document it was made for, and enforces job budgets.
+ * Records are appended to a JSON Lines file in the data directory.
+ */
+class LlmUsageService {
+  private log = new JsonLinesLog<LlmUsageRecord>(dataPath('llm-usage.jsonl'));
+  private records: LlmUsageRecord[] = [];
+  private jobCosts = new Map<string, number>();
+  private runningJobs = new Map<string, RunningJob>();
+  private unpricedModels = new Set<string>();
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * Attribute calls made by a job to its document and apply its budget until endJob
+   */
+  beginJob(job: IngestionJob): void {
+    this.runningJobs.set(job.id, {
+      documentId: job.documentRecordId || job.documentId,
+      documentTitle: job.documentTitle,
+      budget: job.llmBudget
+    });
+  }
+
+  endJob(jobId: string): void {
+    this.runningJobs.delete(jobId);
+  }
+
+  /**
+   * Cost of all Gemini calls made by a job so far, across its attempts
+   */
+  getJobCost(jobId: string): number {
+    return this.jobCosts.get(jobId) || 0;
+  }
+
+  /**
+   * Whether a job (by default the one running in the current context) has spent its budget
+   */
+  isOverBudget(jobId = getLogContext().jobId): boolean {
+    const budget = jobId ? this.runningJobs.get(jobId)?.budget : undefined;
+    return !!budget && this.getJobCost(jobId as string) >= budget.maxCostUsd;
+  }
+
+  /**
+   * Fail a job whose budget is spent and whose budget action is 'abort'
+   */
+  throwIfBudgetExceeded(job: IngestionJob): void {
+    if (job.llmBudget?.action === 'abort' && this.isOverBudget(job.id)) {
+      throw new LlmBudgetExceededError(job.id, job.llmBudget, this.getJobCost(job.id));
+    }
+  }
+
+  /**
+   * Throw LlmBudgetExceededError when the job running in the current context has spent its budget
+   */
+  assertWithinBudget(): void {
+    const { jobId } = getLogContext();
+    const budget = jobId ? this.runningJobs.get(jobId)?.budget : undefined;
+    if (jobId && budget && this.isOverBudget(jobId)) {
+      throw new LlmBudgetExceededError(jobId, budget, this.getJobCost(jobId));
+    }
+  }
+
+  /**
+   * Make a single Gemini generation request, recording its usage and latency. Throws
+   * LlmBudgetExceededError without calling Gemini when the current job has spent its budget.
+   * @param stage Pipeline stage the call is made for
+   * @param modelName Model the request is sent to
+   * @param request The API call
+   */
+  async track(stage: PipelineStage, modelName: string, request: () => Promise<GenerateContentResult>): Promise<GenerateContentResult> {
+    this.assertWithinBudget();
+    const { jobId, documentId, videoId } = getLogContext();
+    const job = jobId ? this.runningJobs.get(jobId) : undefined;
+
+    const attribution = {
+      jobId,
+      documentId: job?.documentId || documentId || videoId,
+      documentTitle: job?.documentTitle
+    };
+    const model = modelName.replace(/^models\//, '');
+    const startedAt = Date.now();
+    try {
+      const result = await timeGeminiRequest(stage, request);
+      const usage = (result.response as { usageMetadata?: UsageMetadata }).usageMetadata;
+      const promptTokens = usage?.promptTokenCount || 0;
+      const responseTokens = usage?.candidatesTokenCount || 0;
+      this.record({
+        timestamp: new Date().toISOString(),
+        model,
+        stage,
+        outcome: 'success',
+        promptTokens,
+        responseTokens,
+        totalTokens: usage?.totalTokenCount || promptTokens + responseTokens,
+        latencyMs: Date.now() - startedAt,
+        costUsd: this.cost(model, promptTokens, responseTokens),
+        ...attribution
+      });
+      return result;
+    } catch (error) {
+      this.record({
+        timestamp: new Date().toISOString(),
+        model,
+        stage,
+        outcome: 'error',
+        promptTokens: 0,
+        responseTokens: 0,
+        totalTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        costUsd: 0,
+        ...attribution
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Aggregate usage by day, document and stage
+   */
+  report(filter: UsageFilter = {}): UsageReport {
+    // A bare date as the upper bound includes the whole day
+    const to = filter.to && filter.to.length === 10 ? `${filter.to}T23:59:59.999Z` : filter.to;
+    const records = this.records.filter(record =>
+      (!filter.from || record.timestamp >= filter.from) &&
+      (!to || record.timestamp <= to) &&
+      (!filter.documentId || record.documentId === filter.documentId) &&
+      (!filter.jobId || record.jobId === filter.jobId)
+    );
+
+    const titles = new Map(records.filter(r => r.documentTitle).map(r => [r.documentId, r.documentTitle]));
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+    return {
+      filter,
+      totals: aggregate(records, () => 'all').get('all') || emptyTotals(),
+      byDay: Array.from(aggregate(records, record => record.timestamp.slice(0, 10)))
+        .map(([day, totals]) => ({ day, ...totals }))
+        .sort((a, b) => a.day.localeCompare(b.day)),
+      byDocument: Array.from(aggregate(records, record => record.documentId ?? null))
+        .map(([documentId, totals]) => ({ documentId, documentTitle: titles.get(documentId ?? undefined), ...totals }))
+        .sort(byCost),
+      byStage: Array.from(aggregate(records, record => record.stage))
+        .map(([stage, totals]) => ({ stage, ...totals }))
+        .sort(byCost)
+    };
+  }
+
+  private cost(model: string, promptTokens: number, responseTokens: number): number {
+    const pricing = PRICING[model];
+    if (!pricing) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.warn(`No price configured for model ${model}; its calls are recorded without cost`);
+      }
+      return 0;
+    }
+    return (promptTokens * pricing.input + responseTokens * pricing.output) / 1_000_000;
+  }
+
+  private record(record: LlmUsageRecord): void {
+    this.records.push(record);
+    if (record.jobId) {
+      this.jobCosts.set(record.jobId, this.getJobCost(record.jobId) + record.costUsd);
+    }
+    try {
+      this.log.append([record]);
+    } catch (error) {
+      logger.error('Error saving LLM usage record:', error);
+    }
+  }
+
+  private load(): void {
+    for (const record of this.log.read().entries) {
+      this.records.push(record);
+      if (record.jobId) {
+        this.jobCosts.set(record.jobId, this.getJobCost(record.jobId) + record.costUsd);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const llmUsage = new LlmUsageService();
@@ -0,0 +1,143 @@
+import dotenv from 'dotenv';
+import { TaskType } from '@google/generative-ai';
+import { DatabaseService, UnembeddedChunk } from '../core/database-service';
+import { activeEmbeddingModel } from '../core/embedding-model';
+import { createChunkEmbedding, createEmbedding, embeddingFallback } from './embedding';
+import { EmbeddingStatus } from './chunking';
+import { logger } from '../core/logger';
+
+// Load environment variables
+dotenv.config();
+
+// How often pending chunks are retried, and how many are embedded per run
+const INTERVAL_MS = Math.max(1000, parseInt(process.env.PENDING_EMBEDDING_INTERVAL_MS || '60000', 10));
+const BATCH_SIZE = Math.max(1, parseInt(process.env.PENDING_EMBEDDING_BATCH_SIZE || '20', 10));
+// Failed attempts after which a chunk is marked failed and only retried on request
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.PENDING_EMBEDDING_MAX_ATTEMPTS || '5', 10));
+
+const dbService = new DatabaseService();
+
+/**
+ * Background worker embedding the chunks stored with a placeholder vector while the
+ * embedding provider was unavailable. Runs are skipped until the embedding
+ * FallbackService reports the provider healthy or due for a retry.
+ */
+class PendingEmbeddingService {
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<number> | null = null;
+
+  /**
+   * Start retrying pending chunks periodically
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.run(), INTERVAL_MS);
+    this.timer.unref();
+    logger.info(`Pending embedding worker started (every ${INTERVAL_MS / 1000}s, ${BATCH_SIZE} chunks per run)`);
+    this.run();
+  }
+
+  /**
+   * Embed a batch of pending chunks, or join the run already in progress
+   * @returns Number of chunks embedded
+   */
+  run(): Promise<number> {
+    if (!this.currentRun) {
+      this.currentRun = this.embedBatch()
+        .catch(error => {
+          logger.error('Error embedding pending chunks:', error);
+          return 0;
+        })
+        .finally(() => {
+          this.currentRun = null;
+        });
+    }
+    return this.currentRun;
+  }
+
+  /**
+   * List the chunks waiting for a real embedding
+   * @param statuses Embedding statuses to include
+   * @param limit Maximum number of chunks
+   */
+  async list(statuses: EmbeddingStatus[], limit: number): Promise<{
+    counts: Record<'pending' | 'failed', number>;
+    chunks: UnembeddedChunk[];
+    providerAvailable: boolean;
+  }> {
+    const chunks = await dbService.getUnembeddedChunks(statuses, limit);
+    return {
+      counts: await dbService.countUnembeddedChunks(),
+      chunks: chunks.map(chunk => ({
+        id: chunk.id,
+        documentId: chunk.documentId,
+        documentName: chunk.documentName,
+        title: chunk.title,
+        embeddingStatus: chunk.embeddingStatus as EmbeddingStatus,
+        embeddingError: chunk.embeddingError,
+        embeddingAttempts: chunk.embeddingAttempts || 0,
+        updatedAt: chunk.updatedAt
+      })),
+      providerAvailable: !embeddingFallback.isFallbackActive()
+    };
+  }
+
+  /**
+   * Queue failed chunks again and start a run right away, even if the provider
+   * failed recently
+   * @returns Number of failed chunks queued again
+   */
+  async retry(): Promise<number> {
+    const retried = await dbService.retryFailedEmbeddings();
+    embeddingFallback.forceRetryPrimary();
+    this.run();
+    return retried;
+  }
+
+  private async embedBatch(): Promise<number> {
+    if (!embeddingFallback.isPrimaryAvailable('createChunkEmbedding')) return 0;
+
+    const chunks = await dbService.getUnembeddedChunks(['pending'], BATCH_SIZE);
+    let embedded = 0;
+
+    for (const chunk of chunks) {
+      const embedding = await createChunkEmbedding(chunk);
+      if (embedding.embeddingStatus === 'ready') {
+        await dbService.updateChunk({ ...chunk, ...embedding });
+        embedded++;
+        continue;
+      }
+
+      // An outage leaves every chunk pending; only a chunk the provider rejects uses up its attempts
+      if (!(await this.providerResponds())) {
+        logger.info(`Embedding provider still unavailable, ${chunks.length - embedded} chunks stay pending`);
+        break;
+      }
+
+      const attempts = (chunk.embeddingAttempts || 0) + 1;
+      const embeddingStatus = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+      await dbService.updateChunk({ ...chunk, ...embedding, embeddingStatus, embeddingAttempts: attempts });
+      if (embeddingStatus === 'failed') {
+        logger.warn(`Gave up embedding chunk ${chunk.id} after ${attempts} attempts: ${embedding.embeddingError}`);
+      }
+    }
+
+    if (embedded > 0) {
+      logger.info(`Embedded ${embedded} pending chunks`);
+    }
+    return embedded;
+  }
+
+  // Whether the provider embeds a trivial text, telling an outage apart from a rejected chunk
+  private async providerResponds(): Promise<boolean> {
+    try {
+      await createEmbedding('ping', TaskType.RETRIEVAL_QUERY, activeEmbeddingModel(), { useCache: false });
+      embeddingFallback.forceRetryPrimary();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export const pendingEmbeddings = new PendingEmbeddingService();
@@ -1,78 +1,135 @@
 import { io } from '../index';
-import { ProgressStage, ProgressUpdate } from '../types/progress';
+import { ProgressJobKind, ProgressStage, ProgressUpdate, StageCounters } from '../types/progress';
+import { logger } from '../core/logger';
+
+// Stages after which a job no longer reports progress
+const TERMINAL_STAGES = [ProgressStage.COMPLETED, ProgressStage.CANCELLED, ProgressStage.ERROR];
 
 /**
- * Service for tracking and reporting progress of long-running operations
+ * Service for tracking and reporting progress of long-running operations.
+ * Every ingestion job (document upload, image folder, YouTube video) reports
+ * to the WebSocket room `job-<jobId>`.
  */
 class ProgressTrackerService {
   // Track updates for potential retries
   private lastUpdates: Map<string, ProgressUpdate> = new Map();
-  
+  // Time each job started processing, used to estimate the remaining time
+  private startTimes: Map<string, number> = new Map();
+
+  /**
+   * Get the WebSocket room name for a job
+   */
+  roomForJob(jobId: string): string {
+    return `job-${jobId}`;
+  }
+
   /**
    * Send a progress update via WebSocket
    */
   sendProgressUpdate(update: ProgressUpdate): void {
-    // Store the last update for this videoId
-    this.lastUpdates.set(update.videoId, update);
-    
+    const enriched = { ...update, etaSeconds: update.etaSeconds ?? this.estimateRemainingSeconds(update) };
+
+    // Store the last update for this job
+    this.lastUpdates.set(update.jobId, enriched);
+
     try {
-      // Emit the progress update to all connected clients in the video's room
-      const room = `video-${update.videoId}`;
+      // Emit the progress update to all connected clients in the job's room
+      const room = this.roomForJob(update.jobId);
       const roomClients = io.sockets.adapter.rooms.get(room);
       const clientCount = roomClients ? roomClients.size : 0;
-      
-      console.log(`Progress update [${update.videoId}]: ${update.stage} - ${update.message} (${clientCount} clients in room)`);
-      
-      io.to(room).emit('progress-update', update);
-      
+
+      logger.info(`Progress update [${update.jobKind} ${update.jobId}]: ${update.stage} - ${update.message} (${clientCount} clients in room)`);
+
+      io.to(room).emit('progress-update', enriched);
+
       // If no clients are in the room, this might be an issue - log it
       if (clientCount === 0) {
-        console.warn(`No clients in room ${room} to receive progress update`);
+        logger.warn(`No clients in room ${room} to receive progress update`);
       }
     } catch (error) {
-      console.error(`Error sending progress update for ${update.videoId}:`, error);
+      logger.error(`Error sending progress update for ${update.jobId}:`, error);
     }
   }
 
   /**
-   * Initialize progress tracking for a video
+   * Initialize progress tracking for a job
+   * @param jobId Job identifier (the video ID for YouTube processing)
+   * @param jobKind Kind of job being tracked
+   * @param socketId Optional socket to join to the job's room
    */
-  initializeProgressTracking(videoId: string, socketId?: string): void {
-    console.log(`Initializing progress tracking for video ${videoId}, socketId: ${socketId || 'none'}`);
-    
-    // If a socketId is provided, join that socket to the video's room
+  initializeProgressTracking(jobId: string, jobKind: ProgressJobKind, socketId?: string): void {
+    logger.info(`Initializing progress tracking for ${jobKind} job ${jobId}, socketId: ${socketId || 'none'}`);
+
+    // If a socketId is provided, join that socket to the job's room
     if (socketId) {
       const socket = io.sockets.sockets.get(socketId);
       if (socket) {
-        console.log(`Adding socket ${socketId} to room for video ${videoId}`);
-        socket.join(`video-${videoId}`);
-        
+        logger.info(`Adding socket ${socketId} to room for job ${jobId}`);
+        socket.join(this.roomForJob(jobId));
+
         // Send an immediate confirmation to the client
-        socket.emit('room-joined', { 
-          videoId,
-          message: `Successfully joined room for video ${videoId}` 
+        socket.emit('room-joined', {
+          jobId,
+          message: `Successfully joined room for job ${jobId}`
         });
       } else {
-        console.warn(`Socket ${socketId} not found for joining room video-${videoId}`);
+        logger.warn(`Socket ${socketId} not found for joining room ${this.roomForJob(jobId)}`);
       }
-    } else {
-      console.warn(`No socketId provided for video ${videoId}, progress updates may not be received`);
     }
 
+    this.startTimes.set(jobId, Date.now());
     this.sendProgressUpdate({
-      videoId,
+      jobId,
+      jobKind,
       stage: ProgressStage.INITIALIZING,
-      message: 'Initializing YouTube video processing',
+      message: jobKind === 'youtube' ? 'Initializing YouTube video processing' : 'Initializing document processing',
       progress: 0
     });
   }
 
+  /**
+   * Report that a job is waiting in the queue
+   */
+  reportQueued(jobId: string, jobKind: ProgressJobKind, message = 'Waiting for a free worker'): void {
+    this.sendProgressUpdate({
+      jobId,
+      jobKind,
+      stage: ProgressStage.QUEUED,
+      message,
+      progress: 0
+    });
+  }
+
+  /**
+   * Report progress of a job within a pipeline stage
+   * @param progress Overall job progress (0-100)
+   * @param counters Optional page and chunk counters for the stage
+   */
+  updateStage(
+    jobId: string,
+    jobKind: ProgressJobKind,
+    stage: ProgressStage,
+    message: string,
+    progress?: number,
+    counters: StageCounters = {}
+  ): void {
+    this.sendProgressUpdate({
+      jobId,
+      jobKind,
+      stage,
+      message,
+      progress,
+      ...counters
+    });
+  }
+
   /**
    * Update transcript fetch progress
    */
   updateTranscriptFetch(videoId: string, message: string, progress?: number): void {
     this.sendProgressUpdate({
-      videoId,
+      jobId: videoId,
+      jobKind: 'youtube',
       stage: ProgressStage.TRANSCRIPT_FETCH,
       message,
       progress
@@ -84,7 +141,8 @@ class ProgressTrackerService {
    */
   updateTranscriptProcess(videoId: string, message: string, progress?: number): void {
     this.sendProgressUpdate({
-      videoId,
+      jobId: videoId,
+      jobKind: 'youtube',
       stage: ProgressStage.TRANSCRIPT_PROCESS,
       message,
       progress
@@ -95,14 +153,16 @@ class ProgressTrackerService {
    * Update chunk creation progress
    */
   updateChunkCreation(videoId: string, currentChunk: number, totalChunks: number): void {
-    const progress = Math.round((currentChunk / totalChunks) * 100);
     this.sendProgressUpdate({
-      videoId,
+      jobId: videoId,
+      jobKind: 'youtube',
       stage: ProgressStage.CHUNK_CREATION,
       message: `Creating chunk ${currentChunk} of ${totalChunks}`,
-      progress,
+      progress: this.youtubeChunkProgress(currentChunk, totalChunks),
       currentItem: currentChunk,
-      totalItems: totalChunks
+      totalItems: totalChunks,
+      currentChunk,
+      totalChunks
     });
   }
 
@@ -110,14 +170,16 @@ class ProgressTrackerService {
    * Update embedding generation progress
    */
   updateEmbeddingGeneration(videoId: string, currentChunk: number, totalChunks: number): void {
-    const progress = Math.round((currentChunk / totalChunks) * 100);
     this.sendProgressUpdate({
-      videoId,
+      jobId: videoId,
+      jobKind: 'youtube',
       stage: ProgressStage.EMBEDDING_GENERATION,
       message: `Generating embedding for chunk ${currentChunk} of ${totalChunks}`,
-      progress,
+      progress: this.youtubeChunkProgress(currentChunk, totalChunks),
       currentItem: currentChunk,
-      totalItems: totalChunks
+      totalItems: totalChunks,
+      currentChunk,
+      totalChunks
     });
   }
 
@@ -126,7 +188,8 @@ class ProgressTrackerService {
    */
   updateChunkStorage(videoId: string, message: string, progress?: number): void {
     this.sendProgressUpdate({
-      videoId,
+      jobId: videoId,
+      jobKind: 'youtube',
       stage: ProgressStage.CHUNK_STORAGE,
       message,
       progress
@@ -136,47 +199,92 @@ class ProgressTrackerService {
   /**
    * Mark processing as completed
    */
-  completeProcessing(videoId: string, totalChunks: number): void {
+  completeProcessing(jobId: string, jobKind: ProgressJobKind, totalChunks: number): void {
     this.sendProgressUpdate({
-      videoId,
+      jobId,
+      jobKind,
       stage: ProgressStage.COMPLETED,
       message: `Processing completed successfully. Created ${totalChunks} chunks.`,
       progress: 100,
-      totalItems: totalChunks
+      totalItems: totalChunks,
+      totalChunks
     });
-    
-    // Remove this video from our tracking after completion
-    setTimeout(() => this.lastUpdates.delete(videoId), 10000);
+
+    this.forgetJob(jobId);
+  }
+
+  /**
+   * Report that a job was cancelled
+   */
+  reportCancelled(jobId: string, jobKind: ProgressJobKind): void {
+    this.sendProgressUpdate({
+      jobId,
+      jobKind,
+      stage: ProgressStage.CANCELLED,
+      message: 'Processing was cancelled'
+    });
+
+    this.forgetJob(jobId);
   }
 
   /**
    * Report an error during processing
    */
-  reportError(videoId: string, message: string, error?: string): void {
+  reportError(jobId: string, jobKind: ProgressJobKind, message: string, error?: string): void {
     this.sendProgressUpdate({
-      videoId,
+      jobId,
+      jobKind,
       stage: ProgressStage.ERROR,
       message,
       error
     });
-    
-    // Remove this video from our tracking after error reporting
-    setTimeout(() => this.lastUpdates.delete(videoId), 10000);
+
+    this.forgetJob(jobId);
   }
-  
+
   /**
-   * Resend the latest update for a video (for new connections)
+   * Resend the latest update for a job (for new connections)
    */
-  resendLatestUpdate(videoId: string): boolean {
-    const lastUpdate = this.lastUpdates.get(videoId);
+  resendLatestUpdate(jobId: string): boolean {
+    const lastUpdate = this.lastUpdates.get(jobId);
     if (lastUpdate) {
-      console.log(`Resending latest update for ${videoId}`);
+      logger.info(`Resending latest update for ${jobId}`);
       this.sendProgressUpdate(lastUpdate);
       return true;
     }
     return false;
   }
+
+  // Chunk processing covers 80-90% of the overall YouTube progress (storage starts at 90%)
+  private youtubeChunkProgress(currentChunk: number, totalChunks: number): number {
+    return 80 + Math.round((Math.min(currentChunk, totalChunks) / Math.max(1, totalChunks)) * 10);
+  }
+
+  // Estimate the remaining time from the elapsed time and overall progress
+  private estimateRemainingSeconds(update: ProgressUpdate): number | undefined {
+    if (update.stage === ProgressStage.QUEUED || TERMINAL_STAGES.includes(update.stage)) {
+      return undefined;
+    }
+
+    if (!this.startTimes.has(update.jobId)) {
+      this.startTimes.set(update.jobId, Date.now());
+    }
+
+    const progress = update.progress || 0;
+    if (progress <= 0 || progress >= 100) {
+      return undefined;
+    }
+
+    const elapsedSeconds = (Date.now() - (this.startTimes.get(update.jobId) as number)) / 1000;
+    return Math.round(elapsedSeconds * (100 - progress) / progress);
+  }
+
+  // Remove a finished job from our tracking after a grace period for late joiners
+  private forgetJob(jobId: string): void {
+    this.startTimes.delete(jobId);
+    setTimeout(() => this.lastUpdates.delete(jobId), 10000);
+  }
 }
 
 // Export a singleton instance
-export const progressTracker = new ProgressTrackerService(); 
\ No newline at end of file
+export const progressTracker = new ProgressTrackerService();
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { SearchResult } from '../core/database-service';
+import { reciprocalRankFusion } from './search';
+
+const result = (id: string, extra: Partial<SearchResult> = {}): SearchResult => ({
+  id,
+  documentName: 'Document',
+  content: `Content of ${id}`,
+  score: 0,
+  ...extra
+});
+
+describe('reciprocalRankFusion', () => {
+  it('scores each result by the sum of 1 / (60 + rank) over the rankings', () => {
+    const fused = reciprocalRankFusion([
+      [result('a'), result('b')],
+      [result('b'), result('c')]
+    ], 10);
+
+    expect(fused.map(item => item.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1].score).toBeCloseTo(1 / 61);
+    expect(fused[2].score).toBeCloseTo(1 / 62);
+  });
+
+  it('ignores the scores of the rankings', () => {
+    const fused = reciprocalRankFusion([[result('a', { score: 0.1 }), result('b', { score: 0.9 })]], 10);
+    expect(fused.map(item => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps the matched terms and passage found by either ranking', () => {
+    const passage = { index: 0, start: 0, end: 7, text: 'passage', score: 0.8 };
+    const [fused] = reciprocalRankFusion([
+      [result('a', { matchedPassage: passage })],
+      [result('a', { matchedTerms: ['mạch'] })]
+    ], 10);
+
+    expect(fused.matchedPassage).toEqual(passage);
+    expect(fused.matchedTerms).toEqual(['mạch']);
+  });
+
+  it('returns at most the limit', () => {
+    const fused = reciprocalRankFusion([[result('a'), result('b'), result('c')]], 2);
+    expect(fused.map(item => item.id)).toEqual(['a', 'b']);
+  });
+});
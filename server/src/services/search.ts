@@ -0,0 +1,93 @@
+import { TaskType } from '@google/generative-ai';
+import { DatabaseService, FieldWeights, SearchFilter, SearchResult } from '../core/database-service';
+import { createEmbedding } from './embedding';
+import { logger } from '../core/logger';
+
+// Create a singleton instance of the database service
+const dbService = new DatabaseService();
+
+export const SEARCH_MODES = ['vector', 'keyword', 'hybrid'] as const;
+export type SearchMode = typeof SEARCH_MODES[number];
+
+// Rank constant of reciprocal-rank fusion; higher values flatten the contribution of top ranks
+const RRF_K = 60;
+
+// Each ranking contributes this many candidates per requested result before fusion
+const HYBRID_CANDIDATE_FACTOR = 3;
+
+/**
+ * Merge ranked result lists with reciprocal-rank fusion.
+ * A chunk's fused score is the sum of 1 / (RRF_K + rank) over the lists it appears in.
+ *
+ * @param rankings Result lists, each ordered best first
+ * @param limit Maximum number of fused results
+ * @returns Fused results ordered by fused score
+ */
+export const reciprocalRankFusion = (rankings: SearchResult[][], limit: number): SearchResult[] => {
+  const fused = new Map<string, SearchResult>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, index) => {
+      const contribution = 1 / (RRF_K + index + 1);
+      const existing = fused.get(result.id);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.matchedTerms = existing.matchedTerms || result.matchedTerms;
+        existing.matchedPassage = existing.matchedPassage || result.matchedPassage;
+        existing.fieldScores = existing.fieldScores || result.fieldScores;
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Search the knowledge base by embedding similarity, BM25 keyword match, or both
+ *
+ * @param query Free-text query
+ * @param mode Ranking to use; hybrid fuses the vector and keyword rankings
+ * @param limit Maximum number of results
+ * @param filter Domain, document and source type restrictions; the minimum score applies to vector similarity only
+ * @param fields Embedded fields the vector ranking searches and their weights; the raw content by default
+ * @returns Ranked search results
+ */
+export async function searchKnowledgeBase(
+  query: string,
+  mode: SearchMode = 'vector',
+  limit = 10,
+  filter: SearchFilter = {},
+  fields?: FieldWeights
+): Promise<SearchResult[]> {
+  if (mode === 'keyword') {
+    return dbService.searchByKeyword(query, limit, filter);
+  }
+
+  if (mode === 'vector') {
+    // Create embedding for the query using TaskType enum for search queries
+    const queryEmbedding = await createEmbedding(query, TaskType.RETRIEVAL_QUERY);
+    return dbService.searchByVector(queryEmbedding, limit, filter, fields);
+  }
+
+  // Hybrid search still has keyword matches to offer when the embedding provider is down
+  let queryEmbedding: number[];
+  try {
+    queryEmbedding = await createEmbedding(query, TaskType.RETRIEVAL_QUERY);
+  } catch (error) {
+    logger.warn('Query embedding failed, falling back to keyword search:', error instanceof Error ? error.message : error);
+    return dbService.searchByKeyword(query, limit, filter);
+  }
+
+  const candidateLimit = limit * HYBRID_CANDIDATE_FACTOR;
+  const [vectorResults, keywordResults] = await Promise.all([
+    dbService.searchByVector(queryEmbedding, candidateLimit, filter, fields),
+    dbService.searchByKeyword(query, candidateLimit, filter)
+  ]);
+
+  return reciprocalRankFusion([vectorResults, keywordResults], limit);
+}
@@ -1,6 +1,7 @@
 import { OAuth2Client } from 'google-auth-library';
 import { google } from 'googleapis';
 import dotenv from 'dotenv';
+import { logger } from '../core/logger';
 
 // Load environment variables
 dotenv.config();
@@ -92,7 +93,7 @@ export const exchangeCodeForTokens = async (code: string): Promise<{ tokens: Tok
       userId 
     };
   } catch (error) {
-    console.error('Error exchanging code for tokens:', error);
+    logger.error('Error exchanging code for tokens:', error);
     throw error;
   }
 };
@@ -124,7 +125,7 @@ export const getAuthenticatedClient = async (userId: string): Promise<OAuth2Clie
   const tokens = tokenStore[userId];
   
   if (!tokens) {
-    console.log(`No tokens found for user ${userId}`);
+    logger.info(`No tokens found for user ${userId}`);
     return null;
   }
   
@@ -138,7 +139,7 @@ export const getAuthenticatedClient = async (userId: string): Promise<OAuth2Clie
   // Check if token needs refreshing
   if (tokens.expiry_date < Date.now()) {
     try {
-      console.log(`Refreshing expired token for user ${userId}`);
+      logger.info(`Refreshing expired token for user ${userId}`);
       const { credentials } = await oauth2Client.refreshAccessToken();
       
       // Update stored tokens
@@ -151,7 +152,7 @@ export const getAuthenticatedClient = async (userId: string): Promise<OAuth2Clie
       // Update client credentials
       oauth2Client.setCredentials(credentials);
     } catch (error) {
-      console.error('Error refreshing token:', error);
+      logger.error('Error refreshing token:', error);
       delete tokenStore[userId];
       return null;
     }
@@ -190,7 +191,7 @@ export const validateClientToken = async (accessToken: string): Promise<{ userId
     
     return null;
   } catch (error) {
-    console.error('Error validating client token:', error);
+    logger.error('Error validating client token:', error);
     return null;
   }
 };
@@ -211,13 +212,13 @@ export const getClientWithAccessToken = async (accessToken: string): Promise<OAu
     const userInfo = await getUserInfo(oauth2Client);
     
     if (!userInfo || !userInfo.id) {
-      console.error('Invalid access token - failed to get user info');
+      logger.error('Invalid access token - failed to get user info');
       return null;
     }
     
     return oauth2Client;
   } catch (error) {
-    console.error('Error creating client with access token:', error);
+    logger.error('Error creating client with access token:', error);
     return null;
   }
 };
@@ -258,7 +259,7 @@ export const revokeAuthentication = async (userId: string): Promise<void> => {
     try {
       await oauth2Client.revokeToken(tokens.access_token);
     } catch (error) {
-      console.error('Error revoking token:', error);
+      logger.error('Error revoking token:', error);
     }
   }
   
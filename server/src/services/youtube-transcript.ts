@@ -1,12 +1,14 @@
 import { getTranscript } from 'youtube-transcript-api';
-import { createEmbedding } from './embedding';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createChunkEmbeddings } from './embedding';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { enhanceContent, EnhancementType } from './content-enhancement';
-import { DocumentChunk } from './chunking';
+import { DocumentChunk, startChunkVersion } from './chunking';
 import { google } from 'googleapis';
 import { getAuthenticatedClient } from './youtube-auth';
+import { timeStage } from '../core/metrics';
+import { logger, withLogContext } from '../core/logger';
+import { geminiClient } from './gemini-client';
 
 // Import the TranscriptItem interface from our declaration file
 interface TranscriptItem {
@@ -44,7 +46,7 @@ export const getVideoDetails = async (videoId: string): Promise<VideoDetails> =>
       description
     };
   } catch (error) {
-    console.error('Error fetching video details:', error);
+    logger.error('Error fetching video details:', error);
     // Fallback to a default title if we can't fetch it
     return {
       title: `YouTube Video: ${videoId}`
@@ -59,7 +61,7 @@ export const getYouTubeTranscriptWithOAuth = async (
   languageCode: string = 'vi'
 ): Promise<string> => {
   try {
-    console.log(`Fetching transcript via YouTube Data API with OAuth for video ID: ${videoId}`);
+    logger.info(`Fetching transcript via YouTube Data API with OAuth for video ID: ${videoId}`);
     
     // Get authenticated client for the user
     const oauth2Client = await getAuthenticatedClient(userId);
@@ -96,7 +98,7 @@ export const getYouTubeTranscriptWithOAuth = async (
     // If found, use it; otherwise try to find any caption
     if (targetCaption && targetCaption.id) {
       captionId = targetCaption.id;
-      console.log(`Found caption in requested language: ${targetCaption.snippet?.language}`);
+      logger.info(`Found caption in requested language: ${targetCaption.snippet?.language}`);
     } else {
       // Look for auto-generated caption first
       const autoCaption = captionItems.find(item => 
@@ -105,13 +107,13 @@ export const getYouTubeTranscriptWithOAuth = async (
       
       if (autoCaption && autoCaption.id) {
         captionId = autoCaption.id;
-        console.log(`Using auto-generated caption in language: ${autoCaption.snippet?.language}`);
+        logger.info(`Using auto-generated caption in language: ${autoCaption.snippet?.language}`);
       } else {
         // Fall back to any available caption
         const defaultCaption = captionItems.find(item => item.id);
         if (defaultCaption && defaultCaption.id) {
           captionId = defaultCaption.id;
-          console.log(`Using fallback caption in language: ${defaultCaption.snippet?.language}`);
+          logger.info(`Using fallback caption in language: ${defaultCaption.snippet?.language}`);
         } else {
           throw new Error('No usable captions found for this video');
         }
@@ -136,7 +138,7 @@ export const getYouTubeTranscriptWithOAuth = async (
     
     return formattedTranscript;
   } catch (error: any) {
-    console.error('Error fetching YouTube transcript via API with OAuth:', error);
+    logger.error('Error fetching YouTube transcript via API with OAuth:', error);
     throw new Error(`Failed to get transcript: ${error.message}`);
   }
 };
@@ -170,7 +172,7 @@ const parseSrtToText = (srtData: string): string => {
 // Get auto-generated transcript specifically from YouTube
 export const getAutoGeneratedTranscript = async (videoId: string, languageCode: string = 'vi'): Promise<TranscriptItem[]> => {
   try {
-    console.log(`Attempting to fetch auto-generated transcript for video ID: ${videoId} in language: ${languageCode}`);
+    logger.info(`Attempting to fetch auto-generated transcript for video ID: ${videoId} in language: ${languageCode}`);
     
     // First try with specific options for auto-generated captions
     const options = { 
@@ -181,28 +183,28 @@ export const getAutoGeneratedTranscript = async (videoId: string, languageCode:
     
     try {
       const transcript = await getTranscript(videoId, options);
-      console.log(`Successfully retrieved auto-generated transcript with ${transcript.length} entries`);
+      logger.info(`Successfully retrieved auto-generated transcript with ${transcript.length} entries`);
       return transcript;
     } catch (error: any) {
-      console.log(`Failed to get auto-generated transcript with specific options: ${error.message}`);
+      logger.info(`Failed to get auto-generated transcript with specific options: ${error.message}`);
       
       // Try with just language option
       const simpleOptions = { lang: languageCode };
       const transcript = await getTranscript(videoId, simpleOptions);
-      console.log(`Successfully retrieved transcript with language option with ${transcript.length} entries`);
+      logger.info(`Successfully retrieved transcript with language option with ${transcript.length} entries`);
       return transcript;
     }
   } catch (error: any) {
-    console.error(`Failed to get transcript in ${languageCode}: ${error.message}`);
+    logger.error(`Failed to get transcript in ${languageCode}: ${error.message}`);
     
     // Fall back to any available transcript
     try {
-      console.log('Attempting to get any available transcript');
+      logger.info('Attempting to get any available transcript');
       const transcript = await getTranscript(videoId);
-      console.log(`Successfully retrieved default transcript with ${transcript.length} entries`);
+      logger.info(`Successfully retrieved default transcript with ${transcript.length} entries`);
       return transcript;
     } catch (fallbackError: any) {
-      console.error(`Failed to get any transcript: ${fallbackError.message}`);
+      logger.error(`Failed to get any transcript: ${fallbackError.message}`);
       throw new Error('No transcript available for this video in any language');
     }
   }
@@ -215,7 +217,7 @@ export const getTranscriptWithDirectToken = async (
   languageCode: string = 'vi'
 ): Promise<string> => {
   try {
-    console.log(`Fetching transcript via YouTube Data API with direct token for video ID: ${videoId}`);
+    logger.info(`Fetching transcript via YouTube Data API with direct token for video ID: ${videoId}`);
     
     // Initialize the YouTube API client with the access token
     const oauth2Client = new google.auth.OAuth2();
@@ -237,9 +239,9 @@ export const getTranscriptWithDirectToken = async (
     }
     
     // Log all available captions for debugging
-    console.log(`Found ${captionResponse.data.items.length} caption tracks for video ${videoId}:`);
+    logger.info(`Found ${captionResponse.data.items.length} caption tracks for video ${videoId}:`);
     captionResponse.data.items.forEach((item, index) => {
-      console.log(`Caption ${index + 1}: Language: ${item.snippet?.language}, Kind: ${item.snippet?.trackKind}, ID: ${item.id}`);
+      logger.info(`Caption ${index + 1}: Language: ${item.snippet?.language}, Kind: ${item.snippet?.trackKind}, ID: ${item.id}`);
     });
     
     // Find the caption track matching the requested language, or fall back to the first available
@@ -255,7 +257,7 @@ export const getTranscriptWithDirectToken = async (
     // If found, use it; otherwise try to find any caption
     if (targetCaption && targetCaption.id) {
       captionId = targetCaption.id;
-      console.log(`Found caption in requested language: ${targetCaption.snippet?.language}`);
+      logger.info(`Found caption in requested language: ${targetCaption.snippet?.language}`);
     } else {
       // Look for auto-generated caption first
       const autoCaption = captionItems.find(item => 
@@ -264,13 +266,13 @@ export const getTranscriptWithDirectToken = async (
       
       if (autoCaption && autoCaption.id) {
         captionId = autoCaption.id;
-        console.log(`Using auto-generated caption in language: ${autoCaption.snippet?.language}`);
+        logger.info(`Using auto-generated caption in language: ${autoCaption.snippet?.language}`);
       } else {
         // Fall back to any available caption
         const defaultCaption = captionItems.find(item => item.id);
         if (defaultCaption && defaultCaption.id) {
           captionId = defaultCaption.id;
-          console.log(`Using fallback caption in language: ${defaultCaption.snippet?.language}`);
+          logger.info(`Using fallback caption in language: ${defaultCaption.snippet?.language}`);
         } else {
           throw new Error('No usable captions found for this video');
         }
@@ -295,7 +297,7 @@ export const getTranscriptWithDirectToken = async (
     
     return formattedTranscript;
   } catch (error: any) {
-    console.error('Error fetching YouTube transcript via API with direct token:', error);
+    logger.error('Error fetching YouTube transcript via API with direct token:', error);
     throw new Error(`Failed to get transcript: ${error.message}`);
   }
 };
@@ -303,7 +305,7 @@ export const getTranscriptWithDirectToken = async (
 // Get auto-generated transcript specifically from YouTube using alternative method
 export const getTranscriptWithApiList = async (videoId: string, accessToken: string): Promise<string> => {
   try {
-    console.log(`Attempting to get transcript with alternative API method for video ID: ${videoId}`);
+    logger.info(`Attempting to get transcript with alternative API method for video ID: ${videoId}`);
     
     // Initialize the YouTube API client with the access token
     const oauth2Client = new google.auth.OAuth2();
@@ -325,9 +327,9 @@ export const getTranscriptWithApiList = async (videoId: string, accessToken: str
     }
     
     // Log all available captions for debugging
-    console.log(`Found ${captionsListResponse.data.items.length} caption tracks for video ${videoId}:`);
+    logger.info(`Found ${captionsListResponse.data.items.length} caption tracks for video ${videoId}:`);
     captionsListResponse.data.items.forEach((item, index) => {
-      console.log(`Caption ${index + 1}: Language: ${item.snippet?.language}, Kind: ${item.snippet?.trackKind}, ID: ${item.id}`);
+      logger.info(`Caption ${index + 1}: Language: ${item.snippet?.language}, Kind: ${item.snippet?.trackKind}, ID: ${item.id}`);
     });
     
     // Step 2: Try to get transcript content using alternative method (not directly downloading)
@@ -358,7 +360,7 @@ export const getTranscriptWithApiList = async (videoId: string, accessToken: str
     
     return transcript;
   } catch (error: any) {
-    console.error('Error fetching transcript with alternative API method:', error);
+    logger.error('Error fetching transcript with alternative API method:', error);
     throw new Error(`Failed to get transcript with alternative method: ${error.message}`);
   }
 };
@@ -372,10 +374,8 @@ export type ProgressCallback = (
   progress?: number
 ) => void;
 
-/**
- * Process YouTube video to extract transcript, chunk it, and create embeddings
- */
-export const processYoutubeTranscript = async (
+// Extract the transcript of a YouTube video, chunk it, and create embeddings
+const transcriptToChunks = async (
   videoId: string,
   domains: string[],
   chunkSize: number = 4000,
@@ -383,7 +383,7 @@ export const processYoutubeTranscript = async (
   userId?: string,
   accessToken?: string,
   progressCallback?: ProgressCallback
-): Promise<any[]> => {
+): Promise<DocumentChunk[]> => {
   try {
     // Get video details
     const videoDetails = await getVideoDetails(videoId);
@@ -403,14 +403,14 @@ export const processYoutubeTranscript = async (
     
     // Try direct web scraping first as the most reliable method
     try {
-      console.log('Attempting to get transcript using web scraping (primary method)');
+      logger.info('Attempting to get transcript using web scraping (primary method)');
       updateProgress('transcript_fetch', 'Attempting to get transcript using web scraping', 55);
       transcript = await scrapeTranscriptFromYouTube(videoId);
-      console.log(`Successfully retrieved transcript via web scraping with length: ${transcript.length} characters`);
+      logger.info(`Successfully retrieved transcript via web scraping with length: ${transcript.length} characters`);
       updateProgress('transcript_fetch', 'Successfully retrieved transcript via web scraping', 60);
     } catch (error: any) {
       const errorMsg = `Web scraping (primary method) failed: ${error.message}`;
-      console.log(errorMsg + '. Falling back to API methods');
+      logger.info(errorMsg + '. Falling back to API methods');
       errors.push(errorMsg);
       updateProgress('transcript_fetch', 'Web scraping failed, trying API methods', 55);
       
@@ -419,14 +419,14 @@ export const processYoutubeTranscript = async (
       if (userId) {
         // Try OAuth if a userId is provided
         try {
-          console.log('Attempting to get transcript using OAuth authentication');
+          logger.info('Attempting to get transcript using OAuth authentication');
           updateProgress('transcript_fetch', 'Attempting to get transcript using OAuth authentication', 57);
           transcript = await getYouTubeTranscriptWithOAuth(videoId, userId);
-          console.log('Successfully retrieved transcript via OAuth');
+          logger.info('Successfully retrieved transcript via OAuth');
           updateProgress('transcript_fetch', 'Successfully retrieved transcript via OAuth', 60);
         } catch (error: any) {
           const errorMsg = `OAuth method failed: ${error.message}`;
-          console.log(errorMsg + '. Trying next method');
+          logger.info(errorMsg + '. Trying next method');
           errors.push(errorMsg);
           updateProgress('transcript_fetch', 'OAuth method failed, trying next method', 57);
         }
@@ -435,14 +435,14 @@ export const processYoutubeTranscript = async (
       // Try direct access token if provided and previous methods failed
       if (!transcript && accessToken) {
         try {
-          console.log('Attempting to get transcript using direct access token');
+          logger.info('Attempting to get transcript using direct access token');
           updateProgress('transcript_fetch', 'Attempting to get transcript using direct access token', 58);
           transcript = await getTranscriptWithDirectToken(videoId, accessToken);
-          console.log('Successfully retrieved transcript via direct token');
+          logger.info('Successfully retrieved transcript via direct token');
           updateProgress('transcript_fetch', 'Successfully retrieved transcript via direct token', 60);
         } catch (error: any) {
           const errorMsg = `Direct token method failed: ${error.message}`;
-          console.log(errorMsg + '. Trying next method');
+          logger.info(errorMsg + '. Trying next method');
           errors.push(errorMsg);
           updateProgress('transcript_fetch', 'Direct token method failed, trying next method', 58);
         }
@@ -451,14 +451,14 @@ export const processYoutubeTranscript = async (
       // If we still don't have a transcript, try API list method
       if (!transcript && accessToken) {
         try {
-          console.log('Attempting to get transcript using API list method');
+          logger.info('Attempting to get transcript using API list method');
           updateProgress('transcript_fetch', 'Attempting to get transcript using API list method', 59);
           transcript = await getTranscriptWithApiList(videoId, accessToken);
-          console.log('Successfully retrieved transcript via API list method');
+          logger.info('Successfully retrieved transcript via API list method');
           updateProgress('transcript_fetch', 'Successfully retrieved transcript via API list method', 60);
         } catch (error: any) {
           const errorMsg = `API list method failed: ${error.message}`;
-          console.log(errorMsg + '. Trying next method');
+          logger.info(errorMsg + '. Trying next method');
           errors.push(errorMsg);
           updateProgress('transcript_fetch', 'API list method failed, trying next method', 59);
         }
@@ -467,15 +467,15 @@ export const processYoutubeTranscript = async (
       // Try public API approach with youtube-transcript-api
       if (!transcript) {
         try {
-          console.log('Attempting to get transcript using YouTube transcript API');
+          logger.info('Attempting to get transcript using YouTube transcript API');
           updateProgress('transcript_fetch', 'Attempting to get transcript using YouTube transcript API', 60);
           const transcriptItems = await getAutoGeneratedTranscript(videoId);
           transcript = transcriptItems.map(item => `[${Math.floor(item.offset / 60000)}:${Math.floor((item.offset % 60000) / 1000)}] ${item.text}`).join('\n');
-          console.log(`Successfully retrieved transcript with ${transcriptItems.length} items using YouTube transcript API`);
+          logger.info(`Successfully retrieved transcript with ${transcriptItems.length} items using YouTube transcript API`);
           updateProgress('transcript_fetch', `Successfully retrieved transcript with ${transcriptItems.length} items`, 65);
         } catch (error: any) {
           const errorMsg = `YouTube transcript API failed: ${error.message}`;
-          console.log(errorMsg);
+          logger.info(errorMsg);
           errors.push(errorMsg);
           updateProgress('transcript_fetch', 'YouTube transcript API failed', 60);
           
@@ -491,7 +491,7 @@ export const processYoutubeTranscript = async (
       throw new Error('Failed to retrieve transcript: All methods returned empty results');
     }
     
-    console.log(`Successfully retrieved transcript with length: ${transcript.length} characters`);
+    logger.info(`Successfully retrieved transcript with length: ${transcript.length} characters`);
     updateProgress('transcript_process', 'Transcript retrieved successfully, starting processing', 70);
     
     // Include video title in documentName for better readability
@@ -507,7 +507,7 @@ export const processYoutubeTranscript = async (
       throw new Error('Failed to create text chunks from transcript');
     }
     
-    console.log(`Split transcript into ${chunks.length} chunks`);
+    logger.info(`Split transcript into ${chunks.length} chunks`);
     updateProgress('transcript_process', `Split transcript into ${chunks.length} chunks`, 80);
     
     // Immediately send the actual total chunks count to update progress tracking
@@ -515,9 +515,6 @@ export const processYoutubeTranscript = async (
       progressCallback('transcript_process', `Total chunks: ${chunks.length}`, chunks.length);
     }
     
-    // Process each chunk
-    const documentChunks: DocumentChunk[] = [];
-    
     // Try to detect the language of the transcript for AI generation
     const hasVietnameseChars = /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i.test(transcript);
     const detectedLanguage = hasVietnameseChars ? 'Vietnamese' : 'English';
@@ -530,14 +527,11 @@ export const processYoutubeTranscript = async (
       }
     };
     
-    for (let i = 0; i < chunks.length; i++) {
-      const content = chunks[i];
-      console.log(`Processing chunk ${i+1}/${totalChunks}, length: ${content.length} characters`);
-      chunkProgressUpdate('chunk_creation', `Processing chunk ${i+1}/${totalChunks}`, i+1);
-      
-      // Create embedding for the chunk
-      chunkProgressUpdate('embedding_generation', `Generating embedding for chunk ${i+1}/${totalChunks}`, i+1);
-      const embedding = await createEmbedding(content);
+    // Generate the titles, summaries and enhanced content of all chunks at once; the
+    // Gemini client limits how many requests are in flight
+    let processedChunks = 0;
+    const documentChunks = await Promise.all(chunks.map(async (content, i): Promise<DocumentChunk> => {
+      logger.info(`Processing chunk ${i+1}/${totalChunks}, length: ${content.length} characters`);
       
       // Create clean content for AI processing
       const cleanContent = content.replace(/\[\d{1,2}:\d{1,2}(:\d{1,2})?\]/g, '')
@@ -549,14 +543,18 @@ export const processYoutubeTranscript = async (
         id: `${idPrefix}_chunk_${i}`, // Use consistent id format with videoId for duplicate checking
         documentName: documentName, // Include video title in documentName for readability
         content: content, // Keep original content with timestamps
-        embedding: embedding,
+        embedding: [], // Generated once the title, summary and enhanced content are known
         title: `Part ${i+1} of ${videoDetails.title}`, // Default title in case AI generation fails
         summary: `Part ${i+1} of transcript for video: ${videoDetails.title}`, // Default summary
         sourceFile: `https://www.youtube.com/watch?v=${videoId}`,
-        domains: domains || ['youtube']
+        sourceType: 'youtube',
+        domains: domains || ['youtube'],
+        version: 1,
+        versionSource: 'raw_parse'
       };
       
       // Enhance the chunk and generate AI title and summary
+      let finalChunk = tempChunk;
       try {
         // First generate AI title and summary for this chunk in the original language
         const aiEnhancedMetadata = await generateTitleAndSummary(cleanContent, videoDetails.title, i+1, totalChunks, detectedLanguage);
@@ -575,23 +573,33 @@ export const processYoutubeTranscript = async (
         });
         
         // Keep the original content with timestamps, but use the enhanced content without timestamps
-        // and the AI-generated title and summary
-        documentChunks.push({
-          ...enhancedChunk,
-          content: tempChunk.content, // Keep original content with timestamps
+        // and the AI-generated title and summary, recorded as a new version of the raw chunk
+        const documentChunk: DocumentChunk = { ...tempChunk };
+        startChunkVersion(documentChunk, 'enhancement');
+        finalChunk = {
+          ...documentChunk,
+          enhancedContent: enhancedChunk.enhancedContent,
           title: aiEnhancedMetadata.title,
           summary: aiEnhancedMetadata.summary
-        });
+        };
       } catch (error) {
-        console.error(`Error enhancing chunk ${i+1}:`, error);
+        logger.error(`Error enhancing chunk ${i+1}:`, error);
         // If enhancement fails, use the original chunk
-        documentChunks.push(tempChunk);
       }
-    }
+      
+      processedChunks++;
+      chunkProgressUpdate('chunk_creation', `Processed chunk ${processedChunks}/${totalChunks}`, processedChunks);
+      return finalChunk;
+    }));
     
-    return documentChunks;
+    // Create the embeddings of the content, enhanced content, title and summary of all chunks in batches
+    chunkProgressUpdate('embedding_generation', `Generating embeddings for ${totalChunks} chunks`, 0);
+    const embeddings = await createChunkEmbeddings(documentChunks);
+    chunkProgressUpdate('embedding_generation', `Generated embeddings for ${totalChunks} chunks`, totalChunks);
+    
+    return documentChunks.map((chunk, i) => ({ ...chunk, ...embeddings[i] }));
   } catch (error) {
-    console.error('Error processing YouTube transcript:', error);
+    logger.error('Error processing YouTube transcript:', error);
     throw error;
   }
 };
@@ -604,7 +612,7 @@ const splitTextIntoChunks = (
 ): string[] => {
   // If text is short enough, just return it as a single chunk
   if (text.length <= chunkSize) {
-    console.log('Text is short enough to be a single chunk');
+    logger.info('Text is short enough to be a single chunk');
     return [text];
   }
   
@@ -614,12 +622,12 @@ const splitTextIntoChunks = (
   
   // If no timestamps found, use simple text chunking
   if (!timestamps || timestamps.length <= 1) {
-    console.log('No timestamps found, using simple text chunking');
+    logger.info('No timestamps found, using simple text chunking');
     return simpleTextChunking(text, chunkSize, chunkOverlap);
   }
   
   // Otherwise use timestamp-aware chunking
-  console.log('Using timestamp-aware chunking for YouTube transcript');
+  logger.info('Using timestamp-aware chunking for YouTube transcript');
   const segments = text.split(timestampPattern);
   
   // Reconstruct segments with their timestamps
@@ -757,19 +765,19 @@ const simpleTextChunking = (
 // Try to get transcript using a public API service
 export const getTranscriptFromPublicApi = async (videoId: string): Promise<string> => {
   try {
-    console.log(`Attempting to get transcript from public API for video ID: ${videoId}`);
+    logger.info(`Attempting to get transcript from public API for video ID: ${videoId}`);
     
     // First try web scraping approach as it's more reliable
     try {
-      console.log('Attempting to extract transcript directly from YouTube webpage');
+      logger.info('Attempting to extract transcript directly from YouTube webpage');
       const transcript = await scrapeTranscriptFromYouTube(videoId);
       if (transcript && transcript.length > 0) {
-        console.log(`Successfully extracted transcript by scraping, length: ${transcript.length} characters`);
+        logger.info(`Successfully extracted transcript by scraping, length: ${transcript.length} characters`);
         return transcript;
       }
       throw new Error('Failed to extract transcript by scraping');
     } catch (scrapeError) {
-      console.error('Error scraping transcript:', scrapeError);
+      logger.error('Error scraping transcript:', scrapeError);
       
       // Then try with youtube-transcript-api as fallback
       try {
@@ -795,7 +803,7 @@ export const getTranscriptFromPublicApi = async (videoId: string): Promise<strin
         
         throw new Error('Transcript contains only error message');
       } catch (apiError) {
-        console.error('Error with YouTube transcript API:', apiError);
+        logger.error('Error with YouTube transcript API:', apiError);
         
         // Last resort: try with Cheerio web scraping to get metadata
         // Get the YouTube page and extract any transcript data available in the page
@@ -811,7 +819,7 @@ export const getTranscriptFromPublicApi = async (videoId: string): Promise<strin
       }
     }
   } catch (error: any) {
-    console.error('All public API transcript methods failed:', error);
+    logger.error('All public API transcript methods failed:', error);
     throw new Error(`Could not retrieve transcript from any public API: ${error.message}`);
   }
 };
@@ -848,7 +856,7 @@ export const scrapeTranscriptFromYouTube = async (videoId: string): Promise<stri
           captionUrl = captionTracksJson[0].baseUrl;
         }
       } catch (e) {
-        console.log('Failed to parse new caption format:', e);
+        logger.info('Failed to parse new caption format:', e);
       }
     }
     
@@ -862,7 +870,7 @@ export const scrapeTranscriptFromYouTube = async (videoId: string): Promise<stri
             captionUrl = captionTracksJson[0].baseUrl;
           }
         } catch (e) {
-          console.log('Failed to parse old caption format:', e);
+          logger.info('Failed to parse old caption format:', e);
         }
       }
     }
@@ -882,7 +890,7 @@ export const scrapeTranscriptFromYouTube = async (videoId: string): Promise<stri
       throw new Error('Could not find caption URL in video page. The video may not have captions enabled.');
     }
     
-    console.log(`Found caption URL: ${captionUrl}`);
+    logger.info(`Found caption URL: ${captionUrl}`);
     
     // Fetch the caption content (XML format)
     const captionResponse = await axios.get(captionUrl);
@@ -926,7 +934,7 @@ export const scrapeTranscriptFromYouTube = async (videoId: string): Promise<stri
     
     return transcriptLines.join('\n');
   } catch (error) {
-    console.error('Error scraping transcript from YouTube:', error);
+    logger.error('Error scraping transcript from YouTube:', error);
     throw new Error(`Failed to scrape transcript: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
@@ -942,9 +950,7 @@ async function generateTitleAndSummary(
   language: string = 'English'
 ): Promise<{ title: string; summary: string }> {
   try {
-    // Initialize Gemini API
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+    const model = geminiClient.getModel();
 
     // Extract a shorter sample of the content for the title/summary generation
     // to avoid token limits (first 1500 chars should be enough for context)
@@ -970,7 +976,7 @@ TITLE: [your generated title in ${language}]
 SUMMARY: [your generated summary in ${language}]`;
 
     // Call Gemini API to generate title and summary
-    const result = await model.generateContent({
+    const result = await geminiClient.generateContent('youtube_metadata', model, {
       contents: [{ role: "user", parts: [{ text: prompt }] }],
       generationConfig: {
         temperature: 0.2,
@@ -994,14 +1000,20 @@ SUMMARY: [your generated summary in ${language}]`;
       summary = summaryMatch[1].trim();
     }
     
-    console.log(`Generated AI title for chunk ${chunkNumber}: "${title}"`);
+    logger.info(`Generated AI title for chunk ${chunkNumber}: "${title}"`);
     return { title, summary };
   } catch (error) {
-    console.error('Error generating title and summary:', error);
+    logger.error('Error generating title and summary:', error);
     // Return defaults if generation fails
     return { 
       title: `Part ${chunkNumber} of ${videoTitle}`,
       summary: `Part ${chunkNumber} of transcript for video: ${videoTitle}`
     };
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Process YouTube video to extract transcript, chunk it, and create embeddings
+ */
+export const processYoutubeTranscript = (...args: Parameters<typeof transcriptToChunks>): Promise<DocumentChunk[]> =>
+  withLogContext({ videoId: args[0] }, () => timeStage('youtube_transcript', () => transcriptToChunks(...args)));
@@ -0,0 +1,67 @@
+/**
+ * Document registry types shared by the registry, job queue and controllers
+ */
+import type { ChunkingConfig, SourceType } from '../services/chunking';
+import type { JobFile } from './job';
+
+export enum DocumentStatus {
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// Chunking options of YouTube transcripts, in characters
+export interface TranscriptChunkingConfig {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+// What to do when an upload matches an existing document
+export const DUPLICATE_ACTIONS = ['replace', 'keep_both', 'skip'] as const;
+export type DuplicateAction = typeof DUPLICATE_ACTIONS[number];
+
+export interface DocumentRecord {
+  id: string;
+  slug: string; // Stable ASCII identifier, kept when the document is renamed
+  documentName: string; // Value of the documentName payload on the document's chunks
+  documentTitle: string; // Unicode display title
+  originalFilename: string;
+  mimeType: string;
+  sourceType?: SourceType;
+  pageCount: number;
+  chunkCount: number;
+  domains: string[];
+  ingestionConfig: Partial<ChunkingConfig> | TranscriptChunkingConfig;
+  fileHash?: string; // SHA-256 of the uploaded file(s), see core/content-hash
+  textHash?: string; // SHA-256 of the normalized parsed text
+  originalFiles?: JobFile[]; // Archived uploads the document can be reprocessed from
+  status: DocumentStatus;
+  jobId?: string; // Ingestion job that produced the chunks
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentListOptions {
+  page?: number; // 1-based
+  pageSize?: number;
+  status?: DocumentStatus;
+  domain?: string;
+  search?: string; // Case- and diacritic-insensitive match on title, slug, name or filename
+}
+
+export interface DocumentNameRepair {
+  id: string;
+  slug: string;
+  from: string;
+  to: string;
+}
+
+export interface DocumentListPage {
+  documents: DocumentRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
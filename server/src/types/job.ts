@@ -0,0 +1,77 @@
+/**
+ * Ingestion job types shared by the job queue, pipeline and controllers
+ */
+import type { ChunkingConfig } from '../services/chunking';
+import type { DuplicateAction } from './document';
+import type { LlmBudget } from '../services/llm-usage';
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// Pipeline stages in execution order
+export enum JobStage {
+  PARSE = 'parse',
+  PREPARE = 'prepare',
+  CHUNK = 'chunk',
+  STORE = 'store'
+}
+
+export type JobKind = 'document' | 'image-folder';
+
+export interface JobFile {
+  path: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface JobPageState {
+  pageNumber: number;
+  parsed: boolean;
+  prepared: boolean;
+  chunked: boolean;
+}
+
+// Changes made by reprocessing a document, comparing its old and new chunks
+export interface ReprocessReport {
+  previousChunkCount: number;
+  chunkCount: number;
+  addedChunkIds: string[];
+  removedChunkIds: string[];
+  addedTitles: string[];
+  removedTitles: string[];
+  unchangedTitleCount: number;
+}
+
+export interface IngestionJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  stage: JobStage; // Stage currently running, or the one to resume from
+  completedStages: JobStage[];
+  documentId: string;
+  documentRecordId?: string; // Document registry record the job ingests into
+  documentTitle: string;
+  files: JobFile[];
+  domains: string[];
+  chunkingConfig: Partial<ChunkingConfig>;
+  duplicateAction?: DuplicateAction; // Chosen when the upload matched an existing document
+  replacesDocumentIds?: string[]; // Documents deleted once this job has stored its chunks
+  reprocess?: boolean; // Replaces the chunks of an already ingested document
+  reprocessReport?: ReprocessReport;
+  requestId?: string; // Correlation id of the request that queued the job
+  llmBudget?: LlmBudget; // Limit on the cost of the job's Gemini calls
+  pages: JobPageState[];
+  totalChunks?: number;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
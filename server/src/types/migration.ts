@@ -0,0 +1,35 @@
+/**
+ * Embedding migration types shared by the migration service and command
+ */
+import type { EmbeddingProviderName } from '../core/embedding-model';
+
+export enum MigrationStatus {
+  RUNNING = 'running',
+  FAILED = 'failed',
+  COMPLETED = 'completed',
+  ABANDONED = 'abandoned'
+}
+
+export interface EmbeddingMigration {
+  id: string; // Name of the target collection
+  sourceCollection: string;
+  targetCollection: string;
+  provider?: EmbeddingProviderName; // Missing on migrations recorded before providers existed, which used Gemini
+  model: string;
+  vectorSize: number;
+  status: MigrationStatus;
+  copyFinished: boolean; // Every source point has been copied once; later runs only reconcile
+  offset?: string | number; // Scroll offset of the next source batch to copy
+  migratedCount: number;
+  sourceCount?: number;
+  targetCount?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface MigrationOptions {
+  batchSize: number; // Points embedded and written per batch
+  delayMs: number; // Pause between batches, to stay within the embedding API rate limit
+}
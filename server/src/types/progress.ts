@@ -2,23 +2,57 @@
  * Progress event types for WebSocket communication
  */
 
+export type ProgressJobKind = 'document' | 'image-folder' | 'youtube';
+
 export enum ProgressStage {
+  QUEUED = 'queued',
   INITIALIZING = 'initializing',
+  // YouTube transcript stages
   TRANSCRIPT_FETCH = 'transcript_fetch',
   TRANSCRIPT_PROCESS = 'transcript_process',
   CHUNK_CREATION = 'chunk_creation',
+  // Document pipeline stages
+  PARSING = 'parsing',
+  OCR = 'ocr',
+  OCR_CORRECTION = 'ocr_correction',
+  HEADER_FOOTER_REMOVAL = 'header_footer_removal',
+  SENTENCE_REPAIR = 'sentence_repair',
+  CHUNKING = 'chunking',
+  METADATA = 'metadata',
+  ENHANCEMENT = 'enhancement',
+  // Shared stages
   EMBEDDING_GENERATION = 'embedding_generation',
   CHUNK_STORAGE = 'chunk_storage',
   COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
   ERROR = 'error'
 }
 
-export interface ProgressUpdate {
-  videoId: string;
+// Page and chunk counters reported alongside a stage
+export interface StageCounters {
+  currentPage?: number;
+  totalPages?: number;
+  currentChunk?: number;
+  totalChunks?: number;
+}
+
+export interface ProgressUpdate extends StageCounters {
+  jobId: string;
+  jobKind: ProgressJobKind;
   stage: ProgressStage;
   message: string;
   progress?: number; // 0-100
   currentItem?: number;
   totalItems?: number;
+  etaSeconds?: number;
   error?: string;
-} 
\ No newline at end of file
+}
+
+/**
+ * Callback used by pipeline services to report the stage they are in
+ */
+export type StageProgressCallback = (
+  stage: ProgressStage,
+  message: string,
+  counters?: StageCounters
+) => void;
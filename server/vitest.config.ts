@@ -0,0 +1,17 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Modules that persist state or embed text run against a scratch data directory and the
+    // local hash embeddings, so tests need neither Qdrant nor API keys
+    env: {
+      DATA_DIR: path.join(os.tmpdir(), 'document-vector-storage-test'),
+      EMBEDDING_PROVIDER: 'hash',
+      EMBEDDING_CACHE_MAX_ENTRIES: '0',
+      LOG_LEVEL: 'error'
+    }
+  }
+});